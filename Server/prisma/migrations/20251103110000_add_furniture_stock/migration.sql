@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Furniture" ADD COLUMN     "stockQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: products already on sale were never out of stock before this column existed, so they
+-- start with a placeholder count rather than 0; staff replace it with real figures
+UPDATE "Furniture" SET "stockQuantity" = 100;
+
+-- AddCheckConstraint
+ALTER TABLE "Furniture" ADD CONSTRAINT "Furniture_stockQuantity_check" CHECK ("stockQuantity" >= 0);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "guestEmail" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Order_guestEmail_idx" ON "Order"("guestEmail");
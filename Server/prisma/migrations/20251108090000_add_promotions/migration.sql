@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "subtotal" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountTotal" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Existing orders had no discounts, so their subtotal is their total
+UPDATE "Order" SET "subtotal" = "totalAmount";
+
+-- AlterTable
+ALTER TABLE "Cart" ADD COLUMN     "couponCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "Promotion" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PromotionType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "categoryId" INTEGER,
+    "minSubtotal" DECIMAL(10,2),
+    "maxDiscount" DECIMAL(10,2),
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "usageLimit" INTEGER,
+    "perUserLimit" INTEGER,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderDiscount" (
+    "id" SERIAL NOT NULL,
+    "orderId" INTEGER NOT NULL,
+    "promotionId" INTEGER,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Promotion_code_key" ON "Promotion"("code");
+
+-- CreateIndex
+CREATE INDEX "Promotion_isActive_idx" ON "Promotion"("isActive");
+
+-- CreateIndex
+CREATE INDEX "Promotion_categoryId_idx" ON "Promotion"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_orderId_idx" ON "OrderDiscount"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderDiscount_promotionId_idx" ON "OrderDiscount"("promotionId");
+
+-- AddForeignKey
+ALTER TABLE "Promotion" ADD CONSTRAINT "Promotion_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderDiscount" ADD CONSTRAINT "OrderDiscount_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 18;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "taxTotal" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxLines" JSONB,
+ADD COLUMN     "shippingTotal" DECIMAL(10,2) NOT NULL DEFAULT 0;
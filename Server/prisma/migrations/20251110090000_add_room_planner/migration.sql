@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "Room" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "widthCm" DECIMAL(8,2) NOT NULL,
+    "depthCm" DECIMAL(8,2) NOT NULL,
+    "heightCm" DECIMAL(8,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Room_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoomPlacement" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "furnitureId" INTEGER NOT NULL,
+    "xCm" DECIMAL(8,2) NOT NULL,
+    "yCm" DECIMAL(8,2) NOT NULL,
+    "rotation" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "RoomPlacement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Room_userId_idx" ON "Room"("userId");
+
+-- CreateIndex
+CREATE INDEX "RoomPlacement_roomId_idx" ON "RoomPlacement"("roomId");
+
+-- CreateIndex
+CREATE INDEX "RoomPlacement_furnitureId_idx" ON "RoomPlacement"("furnitureId");
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomPlacement" ADD CONSTRAINT "RoomPlacement_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomPlacement" ADD CONSTRAINT "RoomPlacement_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "Variant" (
+    "id" SERIAL NOT NULL,
+    "furnitureId" INTEGER NOT NULL,
+    "sku" TEXT NOT NULL,
+    "colour" TEXT,
+    "material" TEXT,
+    "size" TEXT,
+    "price" DECIMAL(10,2) NOT NULL,
+    "widthCm" DECIMAL(8,2) NOT NULL,
+    "heightCm" DECIMAL(8,2) NOT NULL,
+    "depthCm" DECIMAL(8,2) NOT NULL,
+    "stockQuantity" INTEGER NOT NULL DEFAULT 0,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Variant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Variant_sku_key" ON "Variant"("sku");
+
+-- CreateIndex
+CREATE INDEX "Variant_furnitureId_idx" ON "Variant"("furnitureId");
+
+-- AddForeignKey
+ALTER TABLE "Variant" ADD CONSTRAINT "Variant_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing product becomes a single default variant carrying its sku, price, size and stock
+INSERT INTO "Variant" ("furnitureId", "sku", "price", "widthCm", "heightCm", "depthCm", "stockQuantity", "isDefault", "createdAt")
+SELECT "id", "sku", "price", "widthCm", "heightCm", "depthCm", "stockQuantity", true, "createdAt" FROM "Furniture";
+
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "variantId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "Image" ADD CONSTRAINT "Image_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "CartItem" ADD COLUMN "variantId" INTEGER;
+
+-- Point cart items at the default variant of their product
+UPDATE "CartItem" SET "variantId" = "Variant"."id"
+FROM "Variant"
+WHERE "Variant"."furnitureId" = "CartItem"."furnitureId" AND "Variant"."isDefault";
+
+ALTER TABLE "CartItem" ALTER COLUMN "variantId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "CartItem_cartId_furnitureId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CartItem_cartId_variantId_key" ON "CartItem"("cartId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "CartItem" ADD CONSTRAINT "CartItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN "variantId" INTEGER,
+ADD COLUMN "variantLabel" TEXT;
+
+-- Past orders were for the only option there was
+UPDATE "OrderItem" SET "variantId" = "Variant"."id"
+FROM "Variant"
+WHERE "Variant"."furnitureId" = "OrderItem"."furnitureId" AND "Variant"."isDefault";
+
+-- DropIndex
+DROP INDEX "OrderItem_orderId_furnitureId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderItem_orderId_variantId_key" ON "OrderItem"("orderId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Trigram matching for misspelt searches and "did you mean" suggestions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "Furniture" ADD COLUMN "searchVector" tsvector;
+
+-- Names outrank descriptions when results are sorted by relevance
+CREATE FUNCTION "furniture_search_vector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'B');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Furniture_searchVector_update"
+BEFORE INSERT OR UPDATE OF "name", "description" ON "Furniture"
+FOR EACH ROW EXECUTE FUNCTION "furniture_search_vector_update"();
+
+-- Backfill existing products
+UPDATE "Furniture" SET
+  "searchVector" =
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B');
+
+-- CreateIndex
+CREATE INDEX "Furniture_searchVector_idx" ON "Furniture" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Furniture_name_trgm_idx" ON "Furniture" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "SearchQuery" (
+    "id" SERIAL NOT NULL,
+    "query" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 1,
+    "lastSearchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SearchQuery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecentSearch" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "query" TEXT NOT NULL,
+    "searchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecentSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchQuery_query_key" ON "SearchQuery"("query");
+
+-- CreateIndex
+CREATE INDEX "SearchQuery_count_idx" ON "SearchQuery"("count");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecentSearch_userId_query_key" ON "RecentSearch"("userId", "query");
+
+-- CreateIndex
+CREATE INDEX "RecentSearch_userId_searchedAt_idx" ON "RecentSearch"("userId", "searchedAt");
+
+-- AddForeignKey
+ALTER TABLE "RecentSearch" ADD CONSTRAINT "RecentSearch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
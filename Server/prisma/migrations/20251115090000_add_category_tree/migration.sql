@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "parentId" INTEGER,
+ADD COLUMN "slug" TEXT;
+
+-- Existing categories become top-level ones, slugged from their name
+UPDATE "Category" SET "slug" = trim(both '-' from regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g'));
+
+ALTER TABLE "Category" ALTER COLUMN "slug" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Category_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_idx" ON "Category"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_parentId_name_key" ON "Category"("parentId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN "altText" TEXT,
+ADD COLUMN "renditions" JSONB,
+ADD COLUMN "sortOrder" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the current order of existing photos (they were shown by id)
+UPDATE "Image" SET "sortOrder" = ordered."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "furnitureId" ORDER BY "id") - 1 AS "position" FROM "Image"
+) ordered
+WHERE "Image"."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Image_furnitureId_sortOrder_idx" ON "Image"("furnitureId", "sortOrder");
@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "AttributeType" AS ENUM ('TEXT', 'NUMBER', 'BOOLEAN', 'ENUM');
+
+-- CreateTable
+CREATE TABLE "AttributeDefinition" (
+    "id" SERIAL NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AttributeType" NOT NULL,
+    "unit" TEXT,
+    "allowedValues" TEXT[],
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AttributeDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AttributeValue" (
+    "id" SERIAL NOT NULL,
+    "furnitureId" INTEGER NOT NULL,
+    "definitionId" INTEGER NOT NULL,
+    "textValue" TEXT,
+    "numberValue" DECIMAL(12,3),
+    "booleanValue" BOOLEAN,
+
+    CONSTRAINT "AttributeValue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AttributeDefinition_key_idx" ON "AttributeDefinition"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttributeDefinition_categoryId_key_key" ON "AttributeDefinition"("categoryId", "key");
+
+-- CreateIndex
+CREATE INDEX "AttributeValue_definitionId_textValue_idx" ON "AttributeValue"("definitionId", "textValue");
+
+-- CreateIndex
+CREATE INDEX "AttributeValue_definitionId_numberValue_idx" ON "AttributeValue"("definitionId", "numberValue");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AttributeValue_furnitureId_definitionId_key" ON "AttributeValue"("furnitureId", "definitionId");
+
+-- AddForeignKey
+ALTER TABLE "AttributeDefinition" ADD CONSTRAINT "AttributeDefinition_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttributeValue" ADD CONSTRAINT "AttributeValue_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AttributeValue" ADD CONSTRAINT "AttributeValue_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "AttributeDefinition"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "PriceChangeSource" AS ENUM ('MANUAL', 'IMPORT', 'SCHEDULE_START', 'SCHEDULE_END');
+
+-- CreateEnum
+CREATE TYPE "ScheduledPriceStatus" AS ENUM ('PENDING', 'ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Furniture" ADD COLUMN "compareAtPrice" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "Variant" ADD COLUMN "compareAtPrice" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "PriceHistory" (
+    "id" SERIAL NOT NULL,
+    "variantId" INTEGER NOT NULL,
+    "furnitureId" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "previousPrice" DECIMAL(10,2),
+    "source" "PriceChangeSource" NOT NULL,
+    "scheduledPriceId" INTEGER,
+    "changedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledPrice" (
+    "id" SERIAL NOT NULL,
+    "variantId" INTEGER NOT NULL,
+    "furnitureId" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3),
+    "status" "ScheduledPriceStatus" NOT NULL DEFAULT 'PENDING',
+    "regularPrice" DECIMAL(10,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduledPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- Start every existing variant's history at its current price
+INSERT INTO "PriceHistory" ("variantId", "furnitureId", "price", "source", "createdAt")
+SELECT "id", "furnitureId", "price", 'MANUAL', "createdAt" FROM "Variant";
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_variantId_createdAt_idx" ON "PriceHistory"("variantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PriceHistory_furnitureId_createdAt_idx" ON "PriceHistory"("furnitureId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledPrice_status_startsAt_idx" ON "ScheduledPrice"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledPrice_status_endsAt_idx" ON "ScheduledPrice"("status", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledPrice_variantId_idx" ON "ScheduledPrice"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_scheduledPriceId_fkey" FOREIGN KEY ("scheduledPriceId") REFERENCES "ScheduledPrice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceHistory" ADD CONSTRAINT "PriceHistory_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledPrice" ADD CONSTRAINT "ScheduledPrice_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledPrice" ADD CONSTRAINT "ScheduledPrice_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
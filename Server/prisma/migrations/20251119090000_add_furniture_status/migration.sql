@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "FurnitureStatus" AS ENUM ('DRAFT', 'ACTIVE', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Furniture" ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "status" "FurnitureStatus" NOT NULL DEFAULT 'ACTIVE';
+
+-- CreateIndex
+CREATE INDEX "Furniture_status_idx" ON "Furniture"("status");
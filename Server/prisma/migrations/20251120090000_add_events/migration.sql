@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "EventType" AS ENUM ('IMPRESSION', 'CLICK', 'ADD_TO_CART', 'PURCHASE');
+
+-- CreateTable
+CREATE TABLE "Event" (
+    "id" SERIAL NOT NULL,
+    "type" "EventType" NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "userId" INTEGER,
+    "furnitureId" INTEGER NOT NULL,
+    "algorithm" TEXT,
+    "position" INTEGER,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Event_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_algorithm_type_occurredAt_idx" ON "Event"("algorithm", "type", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "Event_furnitureId_occurredAt_idx" ON "Event"("furnitureId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "Event_sessionId_idx" ON "Event"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
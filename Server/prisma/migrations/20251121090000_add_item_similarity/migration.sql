@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ItemSimilarity" (
+    "furnitureId" INTEGER NOT NULL,
+    "similarFurnitureId" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "coPurchases" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ItemSimilarity_pkey" PRIMARY KEY ("furnitureId","similarFurnitureId")
+);
+
+-- CreateIndex
+CREATE INDEX "ItemSimilarity_furnitureId_score_idx" ON "ItemSimilarity"("furnitureId", "score" DESC);
+
+-- AddForeignKey
+ALTER TABLE "ItemSimilarity" ADD CONSTRAINT "ItemSimilarity_furnitureId_fkey" FOREIGN KEY ("furnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ItemSimilarity" ADD CONSTRAINT "ItemSimilarity_similarFurnitureId_fkey" FOREIGN KEY ("similarFurnitureId") REFERENCES "Furniture"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ExperimentStatus" AS ENUM ('DRAFT', 'RUNNING', 'STOPPED');
+
+-- CreateEnum
+CREATE TYPE "RecommendationSurface" AS ENUM ('USER', 'SIMILAR', 'CATEGORY', 'POPULAR', 'BUNDLE');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "experimentVariantId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Experiment" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "surface" "RecommendationSurface" NOT NULL,
+    "status" "ExperimentStatus" NOT NULL DEFAULT 'DRAFT',
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Experiment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExperimentVariant" (
+    "id" SERIAL NOT NULL,
+    "experimentId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "config" JSONB,
+
+    CONSTRAINT "ExperimentVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Experiment_key_key" ON "Experiment"("key");
+
+-- CreateIndex
+CREATE INDEX "Experiment_surface_status_idx" ON "Experiment"("surface", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExperimentVariant_experimentId_key_key" ON "ExperimentVariant"("experimentId", "key");
+
+-- CreateIndex
+CREATE INDEX "Event_experimentVariantId_type_idx" ON "Event"("experimentVariantId", "type");
+
+-- AddForeignKey
+ALTER TABLE "Event" ADD CONSTRAINT "Event_experimentVariantId_fkey" FOREIGN KEY ("experimentVariantId") REFERENCES "ExperimentVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExperimentVariant" ADD CONSTRAINT "ExperimentVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "Experiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RoomPlacement" ADD COLUMN "variantId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "RoomPlacement" ADD CONSTRAINT "RoomPlacement_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "Variant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
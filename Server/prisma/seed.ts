@@ -1,8 +1,24 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import bcrypt from "bcrypt";
+import { calculateShipping, calculateTaxes, toQuoteLine } from "../src/utils/pricing";
+import { VariantWithFurniture } from "../src/utils/variants";
+import { slugify } from "../src/utils/categories";
 
 const prisma = new PrismaClient();
 
+// Options of a seeded product; price and width fall back to the product's own
+interface SeedVariant {
+  sku: string;
+  colour?: string;
+  material?: string;
+  size?: string;
+  price?: string;
+  widthCm?: string;
+  stockQuantity: number;
+}
+
+type SeedFurniture = Prisma.FurnitureGetPayload<{ include: { category: true; variants: true } }>;
+
 async function main() {
   console.log("🌱 Starting database seeding...");
 
@@ -10,11 +26,16 @@ async function main() {
   await prisma.cartItem.deleteMany();
   await prisma.cart.deleteMany();
   await prisma.review.deleteMany();
+  await prisma.payment.deleteMany();
+  await prisma.orderStatusHistory.deleteMany();
+  await prisma.orderDiscount.deleteMany();
   await prisma.orderItem.deleteMany();
   await prisma.order.deleteMany();
   await prisma.image.deleteMany();
   await prisma.furniture.deleteMany();
+  await prisma.promotion.deleteMany();
   await prisma.category.deleteMany();
+  await prisma.address.deleteMany();
   await prisma.user.deleteMany();
 
   console.log("🧹 Cleared existing data");
@@ -46,44 +67,193 @@ async function main() {
     }),
   ]);
 
+  const adminUser = await prisma.user.create({
+    data: {
+      email: "admin@example.com",
+      name: "Store Admin",
+      password: hashedPassword,
+      role: "ADMIN",
+    },
+  });
+
   console.log("👥 Created sample users");
 
+  // Default delivery addresses for the sample customers
+  const addresses = await Promise.all([
+    prisma.address.create({
+      data: {
+        userId: users[0].id,
+        label: "Home",
+        fullName: "John Doe",
+        phone: "+91 98765 43210",
+        line1: "12 MG Road",
+        city: "Bengaluru",
+        state: "Karnataka",
+        postalCode: "560001",
+        isDefault: true,
+      },
+    }),
+    prisma.address.create({
+      data: {
+        userId: users[1].id,
+        label: "Home",
+        fullName: "Jane Smith",
+        phone: "+91 91234 56789",
+        line1: "45 Linking Road",
+        line2: "Bandra West",
+        city: "Mumbai",
+        state: "Maharashtra",
+        postalCode: "400050",
+        isDefault: true,
+      },
+    }),
+    prisma.address.create({
+      data: {
+        userId: users[2].id,
+        label: "Office",
+        fullName: "Mike Wilson",
+        phone: "+91 99887 76655",
+        line1: "7 Connaught Place",
+        city: "New Delhi",
+        state: "Delhi",
+        postalCode: "110001",
+        isDefault: true,
+      },
+    }),
+  ]);
+
   // Create categories
   const categories = await Promise.all([
     prisma.category.create({
       data: {
         name: "Living Room",
+        slug: "living-room",
         description: "Comfortable furniture for living spaces",
       },
     }),
     prisma.category.create({
       data: {
         name: "Bedroom",
+        slug: "bedroom",
         description: "Furniture for restful bedrooms",
       },
     }),
     prisma.category.create({
       data: {
         name: "Dining Room",
+        slug: "dining-room",
         description: "Elegant dining furniture",
       },
     }),
     prisma.category.create({
       data: {
         name: "Office",
+        slug: "office",
         description: "Professional office furniture",
       },
     }),
     prisma.category.create({
       data: {
         name: "Lighting",
+        slug: "lighting",
         description: "Decorative and functional lighting",
+        taxRate: 12,
       },
     }),
   ]);
 
+  // Subcategories, listed parents first so each one can find the category above it
+  const subcategories = [
+    { name: "Sofas", parentName: "Living Room", description: "Sofas and sofa sets" },
+    { name: "Sectionals", parentName: "Sofas", description: "Modular and L-shaped sofas" },
+    { name: "Accent Chairs", parentName: "Living Room", description: "Statement armchairs and lounge chairs" },
+    { name: "Beds", parentName: "Bedroom", description: "Bed frames and storage beds" },
+    { name: "Bedside Tables", parentName: "Bedroom", description: "Nightstands and bedside cabinets" },
+    { name: "Dining Tables", parentName: "Dining Room", description: "Tables for every household size" },
+    { name: "Dining Chairs", parentName: "Dining Room", description: "Chairs and benches for the dining table" },
+  ];
+  for (const sub of subcategories) {
+    const parent = categories.find(c => c.name === sub.parentName)!;
+    categories.push(
+      await prisma.category.create({
+        data: {
+          name: sub.name,
+          slug: slugify(sub.name),
+          description: sub.description,
+          parentId: parent.id,
+          taxRate: parent.taxRate,
+        },
+      })
+    );
+  }
+
   console.log("📂 Created categories");
 
+  // Attribute definitions; each also applies to the subcategories of its category
+  const attributeDefinitions = [
+    { categoryName: "Living Room", key: "frame-material", name: "Frame material", type: "ENUM", allowedValues: ["Solid Wood", "Engineered Wood", "Metal"] },
+    { categoryName: "Living Room", key: "seating-capacity", name: "Seating capacity", type: "NUMBER", unit: "seats" },
+    { categoryName: "Living Room", key: "care-instructions", name: "Care instructions", type: "TEXT" },
+    { categoryName: "Bedroom", key: "frame-material", name: "Frame material", type: "ENUM", allowedValues: ["Solid Wood", "Engineered Wood", "Metal", "Upholstered"] },
+    { categoryName: "Bedroom", key: "assembly-required", name: "Assembly required", type: "BOOLEAN" },
+    { categoryName: "Dining Room", key: "top-material", name: "Top material", type: "ENUM", allowedValues: ["Glass", "Solid Wood", "Marble"] },
+    { categoryName: "Dining Room", key: "seating-capacity", name: "Seating capacity", type: "NUMBER", unit: "seats" },
+    { categoryName: "Office", key: "weight-capacity", name: "Weight capacity", type: "NUMBER", unit: "kg" },
+    { categoryName: "Office", key: "assembly-required", name: "Assembly required", type: "BOOLEAN" },
+  ] as const;
+  const definitions = await Promise.all(
+    attributeDefinitions.map(({ categoryName, ...definition }, index) =>
+      prisma.attributeDefinition.create({
+        data: {
+          ...definition,
+          allowedValues: "allowedValues" in definition ? [...definition.allowedValues] : [],
+          sortOrder: index,
+          categoryId: categories.find(c => c.name === categoryName)!.id,
+        },
+      })
+    )
+  );
+
+  console.log("🏷️ Created attribute definitions");
+
+  // Create sample promotions
+  const officeCategory = categories.find(c => c.name === "Office")!;
+  const promotions = await Promise.all([
+    prisma.promotion.create({
+      data: {
+        code: "WELCOME10",
+        description: "10% off your first order",
+        type: "PERCENTAGE",
+        value: "10",
+        maxDiscount: "5000",
+        perUserLimit: 1,
+      },
+    }),
+    prisma.promotion.create({
+      data: {
+        code: "FLAT2000",
+        description: "₹2,000 off orders above ₹20,000",
+        type: "FIXED_AMOUNT",
+        value: "2000",
+        minSubtotal: "20000",
+        usageLimit: 500,
+      },
+    }),
+    prisma.promotion.create({
+      data: {
+        code: "OFFICE3FOR2",
+        description: "Buy 2 office items, get the cheapest third free",
+        type: "BUY_X_GET_Y",
+        value: "100",
+        buyQuantity: 2,
+        getQuantity: 1,
+        categoryId: officeCategory.id,
+      },
+    }),
+  ]);
+
+  console.log("🏷️ Created sample promotions");
+
   // Define furniture data with proper decimal values
   const furnitureData = [
     {
@@ -91,7 +261,14 @@ async function main() {
       description: "Professional ergonomic chair with lumbar support, perfect for long work sessions",
       price: "249.99",
       sku: "CH-001",
+      stockQuantity: 40,
+      variants: [
+        { sku: "CH-001", colour: "Black", material: "Mesh", stockQuantity: 25 },
+        { sku: "CH-001-GRY", colour: "Grey", material: "Mesh", stockQuantity: 10 },
+        { sku: "CH-001-TAN", colour: "Tan", material: "Leather", price: "319.99", stockQuantity: 5 },
+      ],
       categoryName: "Office",
+      attributes: { "weight-capacity": 120, "assembly-required": true },
       widthCm: "70.00",
       heightCm: "110.00",
       depthCm: "70.00",
@@ -105,7 +282,26 @@ async function main() {
       description: "Luxurious 3-piece leather sofa set with premium Italian leather upholstery",
       price: "1299.99",
       sku: "SS-001",
-      categoryName: "Living Room",
+      stockQuantity: 8,
+      variants: [
+        { sku: "SS-001", colour: "Cognac", material: "Leather", size: "3 seater", stockQuantity: 4 },
+        { sku: "SS-001-BLK", colour: "Black", material: "Leather", size: "3 seater", stockQuantity: 2 },
+        {
+          sku: "SS-001-BLK-2S",
+          colour: "Black",
+          material: "Leather",
+          size: "2 seater",
+          price: "999.99",
+          widthCm: "190.00",
+          stockQuantity: 2,
+        },
+      ],
+      categoryName: "Sofas",
+      attributes: {
+        "frame-material": "Solid Wood",
+        "seating-capacity": 3,
+        "care-instructions": "Wipe with a dry cloth and condition the leather twice a year",
+      },
       widthCm: "280.00",
       heightCm: "85.00",
       depthCm: "95.00",
@@ -118,7 +314,9 @@ async function main() {
       description: "Contemporary glass-top dining table with chrome legs, seats 6 people comfortably",
       price: "699.99",
       sku: "DT-001",
-      categoryName: "Dining Room",
+      stockQuantity: 12,
+      categoryName: "Dining Tables",
+      attributes: { "top-material": "Glass", "seating-capacity": 6 },
       widthCm: "210.00",
       heightCm: "75.00",
       depthCm: "100.00",
@@ -131,7 +329,9 @@ async function main() {
       description: "Elegant single-seater velvet chair with gold-finished legs, perfect accent piece",
       price: "349.99",
       sku: "AC-001",
-      categoryName: "Living Room",
+      stockQuantity: 20,
+      categoryName: "Accent Chairs",
+      attributes: { "frame-material": "Metal", "seating-capacity": 1 },
       widthCm: "90.00",
       heightCm: "85.00",
       depthCm: "80.00",
@@ -144,7 +344,9 @@ async function main() {
       description: "Handcrafted solid oak platform bed with minimalist design and built-in nightstands",
       price: "999.99",
       sku: "BD-001",
-      categoryName: "Bedroom",
+      stockQuantity: 10,
+      categoryName: "Beds",
+      attributes: { "frame-material": "Solid Wood", "assembly-required": true },
       widthCm: "210.00",
       heightCm: "110.00",
       depthCm: "200.00",
@@ -157,7 +359,8 @@ async function main() {
       description: "Complete bed set with premium memory foam mattress and adjustable base",
       price: "1299.00",
       sku: "BD-002",
-      categoryName: "Bedroom",
+      stockQuantity: 6,
+      categoryName: "Beds",
       widthCm: "220.00",
       heightCm: "120.00",
       depthCm: "210.00",
@@ -170,7 +373,8 @@ async function main() {
       description: "Elegant walnut bedside table with soft-close drawers and wireless charging pad",
       price: "199.99",
       sku: "NT-001",
-      categoryName: "Bedroom",
+      stockQuantity: 30,
+      categoryName: "Bedside Tables",
       widthCm: "60.00",
       heightCm: "70.00",
       depthCm: "45.00",
@@ -183,7 +387,9 @@ async function main() {
       description: "Large sectional sofa with matching ottoman, perfect for family gatherings",
       price: "1499.99",
       sku: "SS-002",
-      categoryName: "Living Room",
+      stockQuantity: 5,
+      categoryName: "Sectionals",
+      attributes: { "frame-material": "Engineered Wood", "seating-capacity": 6 },
       widthCm: "300.00",
       heightCm: "90.00",
       depthCm: "100.00",
@@ -196,6 +402,7 @@ async function main() {
       description: "Classic brass table lamp with fabric shade, perfect for reading nooks",
       price: "79.99",
       sku: "LP-001",
+      stockQuantity: 60,
       categoryName: "Lighting",
       widthCm: "25.00",
       heightCm: "50.00",
@@ -209,6 +416,7 @@ async function main() {
       description: "Modern arc floor lamp with marble base and adjustable LED lighting",
       price: "149.99",
       sku: "LP-002",
+      stockQuantity: 35,
       categoryName: "Lighting",
       widthCm: "30.00",
       heightCm: "60.00",
@@ -222,7 +430,9 @@ async function main() {
       description: "Large executive desk with built-in cable management and file drawers",
       price: "599.99",
       sku: "DK-001",
+      stockQuantity: 15,
       categoryName: "Office",
+      attributes: { "weight-capacity": 80, "assembly-required": true },
       widthCm: "180.00",
       heightCm: "75.00",
       depthCm: "90.00",
@@ -235,7 +445,8 @@ async function main() {
       description: "Set of 4 upholstered dining chairs with solid wood frames",
       price: "399.99",
       sku: "DC-001",
-      categoryName: "Dining Room",
+      stockQuantity: 18,
+      categoryName: "Dining Chairs",
       widthCm: "45.00",
       heightCm: "85.00",
       depthCm: "50.00",
@@ -245,12 +456,20 @@ async function main() {
     },
   ];
 
-  // Create furniture items
-  const furnitureItems = [];
+  // A category and the categories above it
+  const lineageIds = (categoryId: number | null): number[] => {
+    const category = categories.find(c => c.id === categoryId);
+    return category ? [category.id, ...lineageIds(category.parentId)] : [];
+  };
+
+  // Create furniture items; the first variant listed is the default one
+  const furnitureItems: SeedFurniture[] = [];
   for (const f of furnitureData) {
     const category = categories.find(c => c.name === f.categoryName);
     if (!category) continue;
 
+    const variants: SeedVariant[] = f.variants ?? [{ sku: f.sku, stockQuantity: f.stockQuantity }];
+
     const furniture = await prisma.furniture.create({
       data: {
         name: f.name,
@@ -260,58 +479,161 @@ async function main() {
         widthCm: f.widthCm,
         heightCm: f.heightCm,
         depthCm: f.depthCm,
+        stockQuantity: variants.reduce((sum, v) => sum + v.stockQuantity, 0),
         categoryId: category.id,
         images: {
           create: f.images.map((url) => ({ url })),
         },
+        attributeValues: {
+          create: Object.entries(f.attributes ?? {}).map(([key, value]) => {
+            // Keys are unique along a branch, so the first definition on the category's lineage is the one
+            const definition = definitions.find(d => d.key === key && lineageIds(category.id).includes(d.categoryId))!;
+            return {
+              definitionId: definition.id,
+              textValue: typeof value === "string" ? value : undefined,
+              numberValue: typeof value === "number" ? value : undefined,
+              booleanValue: typeof value === "boolean" ? value : undefined,
+            };
+          }),
+        },
+        variants: {
+          create: variants.map((v, index) => ({
+            sku: v.sku,
+            colour: v.colour,
+            material: v.material,
+            size: v.size,
+            price: v.price ?? f.price,
+            widthCm: v.widthCm ?? f.widthCm,
+            heightCm: f.heightCm,
+            depthCm: f.depthCm,
+            stockQuantity: v.stockQuantity,
+            isDefault: index === 0,
+          })),
+        },
       },
+      include: { category: true, variants: { orderBy: { id: "asc" } } },
     });
     furnitureItems.push(furniture);
   }
 
+  // Orders and carts below use each product's default variant
+  const defaultVariant = (furniture: SeedFurniture): VariantWithFurniture => ({
+    ...furniture.variants[0],
+    furniture,
+  });
+
   console.log("🪑 Created furniture items");
 
+  // Every variant's price history starts at its seeded price
+  await prisma.priceHistory.createMany({
+    data: furnitureItems.flatMap((furniture) =>
+      furniture.variants.map((v) => ({ variantId: v.id, furnitureId: furniture.id, price: v.price, source: "MANUAL" as const }))
+    ),
+  });
+
+  // A two-week sale on the accent chair; the price scheduler starts it when the server comes up
+  const accentChair = furnitureItems.find((f) => f.sku === "AC-001")!;
+  await prisma.scheduledPrice.create({
+    data: {
+      variantId: accentChair.variants[0].id,
+      furnitureId: accentChair.id,
+      price: "299.99",
+      startsAt: new Date(),
+      endsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  console.log("🏷️ Created price history and a scheduled sale");
+
   // Create sample orders
   const sampleOrders = [
     {
       userId: users[0].id,
       items: [
-        { furnitureId: furnitureItems[0].id, quantity: 1, unitPrice: furnitureItems[0].price },
-        { furnitureId: furnitureItems[2].id, quantity: 1, unitPrice: furnitureItems[2].price },
+        { variant: defaultVariant(furnitureItems[0]), quantity: 1 },
+        { variant: defaultVariant(furnitureItems[2]), quantity: 1 },
       ],
-      status: "COMPLETED" as const,
+      statusPath: ["PENDING_PAYMENT", "PAID", "PROCESSING", "SHIPPED", "DELIVERED"] as const,
     },
     {
       userId: users[1].id,
       items: [
-        { furnitureId: furnitureItems[1].id, quantity: 1, unitPrice: furnitureItems[1].price },
+        { variant: defaultVariant(furnitureItems[1]), quantity: 1 },
       ],
-      status: "COMPLETED" as const,
+      statusPath: ["PENDING_PAYMENT", "PAID", "PROCESSING", "SHIPPED", "DELIVERED"] as const,
     },
     {
       userId: users[2].id,
       items: [
-        { furnitureId: furnitureItems[4].id, quantity: 1, unitPrice: furnitureItems[4].price },
-        { furnitureId: furnitureItems[6].id, quantity: 2, unitPrice: furnitureItems[6].price },
+        { variant: defaultVariant(furnitureItems[4]), quantity: 1 },
+        { variant: defaultVariant(furnitureItems[6]), quantity: 2 },
       ],
-      status: "PENDING" as const,
+      statusPath: ["PENDING_PAYMENT"] as const,
     },
   ];
 
   for (const orderData of sampleOrders) {
-    const totalAmount = orderData.items.reduce(
-      (sum, item) => sum + parseFloat(item.unitPrice.toString()) * item.quantity,
-      0
-    );
+    // Same GST and shipping rules as checkout, so seeded totals match a real order
+    const lines = orderData.items.map((item) => toQuoteLine(item.variant, item.quantity));
+    const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+    const statusPath = orderData.statusPath;
+    const address = addresses.find((a) => a.userId === orderData.userId)!;
+
+    const taxes = calculateTaxes(lines, 0, address.state);
+    const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+    const shipping = calculateShipping(lines, subtotal);
+    const totalAmount = subtotal + taxTotal + shipping.amount;
 
     const order = await prisma.order.create({
       data: {
         userId: orderData.userId,
+        subtotal: subtotal.toString(),
+        taxTotal: taxTotal.toString(),
+        taxLines: taxes.map((tax) => ({ ...tax })),
+        shippingTotal: shipping.amount.toString(),
         totalAmount: totalAmount.toString(),
-        status: orderData.status,
+        status: statusPath[statusPath.length - 1],
+        shippingAddress: {
+          fullName: address.fullName,
+          phone: address.phone,
+          line1: address.line1,
+          ...(address.line2 && { line2: address.line2 }),
+          city: address.city,
+          state: address.state,
+          postalCode: address.postalCode,
+          country: address.country,
+        },
         items: {
-          create: orderData.items,
+          create: lines.map(({ furnitureId, variantId, variantLabel, quantity, unitPrice }) => ({
+            furnitureId,
+            variantId,
+            variantLabel,
+            quantity,
+            unitPrice,
+          })),
+        },
+        statusHistory: {
+          create: statusPath.map((toStatus, index) => ({
+            fromStatus: index === 0 ? null : statusPath[index - 1],
+            toStatus,
+            changedById: index === 0 ? orderData.userId : adminUser.id,
+          })),
         },
+        // Paid orders get a captured mock payment; no card data beyond brand and last 4
+        ...(statusPath.length > 1 && {
+          payments: {
+            create: {
+              provider: "mock",
+              providerReference: `pay_seed_${orderData.userId}_${Date.now()}`,
+              method: "card",
+              status: "CAPTURED" as const,
+              amount: totalAmount.toString(),
+              cardBrand: "visa",
+              cardLast4: "4242",
+            },
+          },
+        }),
       },
     });
   }
@@ -356,13 +678,18 @@ async function main() {
 
   // Create sample carts
   for (const user of users) {
+    const { id: variantId, furnitureId } = defaultVariant(
+      furnitureItems[Math.floor(Math.random() * furnitureItems.length)]
+    );
+
     await prisma.cart.create({
       data: {
         userId: user.id,
         items: {
           create: [
             {
-              furnitureId: furnitureItems[Math.floor(Math.random() * furnitureItems.length)].id,
+              furnitureId,
+              variantId,
               quantity: Math.floor(Math.random() * 3) + 1,
             },
           ],
@@ -377,6 +704,7 @@ async function main() {
   console.log(`📊 Summary:`);
   console.log(`   - ${users.length} users created`);
   console.log(`   - ${categories.length} categories created`);
+  console.log(`   - ${promotions.length} promotions created`);
   console.log(`   - ${furnitureItems.length} furniture items created`);
   console.log(`   - ${sampleOrders.length} orders created`);
   console.log(`   - ${sampleReviews.length} reviews created`);
@@ -11,9 +11,18 @@ import checkoutRoutes from "./routes/checkout";
 import recommendationRoutes from "./routes/recommendations";
 import performanceRoutes from "./routes/performance";
 import systemRoutes from "./routes/system";
+import paymentRoutes from "./routes/payments";
+import userRoutes from "./routes/users";
+import promotionRoutes from "./routes/promotions";
+import roomRoutes from "./routes/rooms";
+import wishlistRoutes from "./routes/wishlists";
+import eventRoutes from "./routes/events";
+import experimentRoutes from "./routes/experiments";
 import { errorHandler } from "./middleware/errorHandler";
 import { requestLogger } from "./middleware/requestLogger";
 import { apiPerformanceMiddleware } from "./middleware/performanceMonitor";
+import { localDiskStorage } from "./storage";
+import { CATALOG_IMPORT_PATH } from "./middleware/catalogBody";
 
 const app = express();
 
@@ -21,7 +30,10 @@ const { json, urlencoded } = bodyParser;
 
 app.use(helmet());
 app.use(cors());
-app.use(json());
+// Keep the raw body around so payment webhooks can verify provider signatures
+const parseJson = json({ verify: (req: any, _res, buf) => { req.rawBody = buf; } });
+// Catalog imports are read by their route, after it has checked the caller is an admin
+app.use((req, res, next) => (req.path === CATALOG_IMPORT_PATH ? next() : parseJson(req, res, next)));
 app.use(urlencoded({ extended: true }));
 
 // Add request logging in development
@@ -32,6 +44,14 @@ if (process.env.NODE_ENV !== 'production') {
 // Add performance monitoring
 app.use(apiPerformanceMiddleware);
 
+// Uploaded photos; file names are unique per upload so they can be cached for good.
+// Helmet's same-origin resource policy would otherwise stop the storefront from loading them.
+app.use("/uploads", express.static(localDiskStorage.rootDir, {
+  immutable: true,
+  maxAge: "365d",
+  setHeaders: (res) => res.setHeader("Cross-Origin-Resource-Policy", "cross-origin")
+}));
+
 app.use("/api/furnitures", furnitureRoutes);
 app.use("/api/orders", orderRoutes);
 app.use("/api/reviews", reviewRoutes);
@@ -41,6 +61,13 @@ app.use("/api/checkout", checkoutRoutes);
 app.use("/api/recommendations", recommendationRoutes);
 app.use("/api/performance", performanceRoutes);
 app.use("/api/system", systemRoutes);
+app.use("/api/payments", paymentRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/promotions", promotionRoutes);
+app.use("/api/rooms", roomRoutes);
+app.use("/api/wishlists", wishlistRoutes);
+app.use("/api/events", eventRoutes);
+app.use("/api/experiments", experimentRoutes);
 
 // health
 app.get("/api/health", (_, res) => res.json({ ok: true }));
@@ -0,0 +1,15 @@
+export interface PricingConfig {
+  storeState: string;               // State we ship from; same-state orders pay CGST + SGST, others IGST
+  shippingBaseFee: number;          // Flat fee per order, in rupees
+  shippingRatePerCubicMetre: number;
+  freeShippingThreshold: number;    // Discounted subtotal at which shipping is free; 0 disables it
+}
+
+export const getPricingConfig = (): PricingConfig => {
+  return {
+    storeState: process.env.STORE_STATE || 'Karnataka',
+    shippingBaseFee: parseFloat(process.env.SHIPPING_BASE_FEE || '149'),
+    shippingRatePerCubicMetre: parseFloat(process.env.SHIPPING_RATE_PER_CUBIC_METRE || '1200'),
+    freeShippingThreshold: parseFloat(process.env.FREE_SHIPPING_THRESHOLD || '50000')
+  };
+};
@@ -0,0 +1,18 @@
+// How much each signal counts towards content-based similarity; they needn't add up to 1
+export interface ContentSimilarityWeights {
+  price: number;
+  dimensions: number;
+  attributes: number; // Spec sheet values, e.g. the same material
+  text: number;       // Words shared by the names and descriptions
+  rating: number;     // Not a similarity: better rated products rank higher
+}
+
+export const getContentSimilarityWeights = (): ContentSimilarityWeights => {
+  return {
+    price: parseFloat(process.env.SIMILARITY_WEIGHT_PRICE || '0.25'),
+    dimensions: parseFloat(process.env.SIMILARITY_WEIGHT_DIMENSIONS || '0.2'),
+    attributes: parseFloat(process.env.SIMILARITY_WEIGHT_ATTRIBUTES || '0.2'),
+    text: parseFloat(process.env.SIMILARITY_WEIGHT_TEXT || '0.25'),
+    rating: parseFloat(process.env.SIMILARITY_WEIGHT_RATING || '0.1')
+  };
+};
@@ -0,0 +1,116 @@
+import { Response, NextFunction } from "express";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { clearDefaultAddress } from "../utils/address";
+
+const parseAddressId = (value: string) => {
+  const id = parseInt(value);
+  if (isNaN(id) || id < 1) throw ApiError.badRequest("Invalid address ID");
+  return id;
+};
+
+// Loads an address and makes sure it belongs to the current user
+const findOwnAddress = async (userId: number, id: number) => {
+  const address = await prisma.address.findUnique({ where: { id } });
+  if (!address || address.userId !== userId) {
+    throw ApiError.notFound("Address not found", "ADDRESS_NOT_FOUND");
+  }
+  return address;
+};
+
+/** GET /api/users/me/addresses */
+export const listAddresses = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const addresses = await prisma.address.findMany({
+      where: { userId: req.user.id },
+      orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }]
+    });
+    return success(res, addresses);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/users/me/addresses */
+export const createAddress = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const { isDefault, ...data } = req.body;
+
+    const address = await prisma.$transaction(async (tx) => {
+      // The first saved address always becomes the default
+      const existingCount = await tx.address.count({ where: { userId } });
+      const makeDefault = existingCount === 0 || isDefault === true;
+
+      if (makeDefault) {
+        await clearDefaultAddress(tx, userId);
+      }
+
+      return tx.address.create({
+        data: { ...data, userId, isDefault: makeDefault }
+      });
+    });
+
+    return success(res, address, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PUT /api/users/me/addresses/:id */
+export const updateAddress = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const id = parseAddressId(req.params.id);
+    const existing = await findOwnAddress(userId, id);
+    const { isDefault, ...data } = req.body;
+
+    if (isDefault === false && existing.isDefault) {
+      throw ApiError.badRequest("Choose another default address instead of unsetting this one", [], "DEFAULT_ADDRESS_REQUIRED");
+    }
+
+    const address = await prisma.$transaction(async (tx) => {
+      if (isDefault === true && !existing.isDefault) {
+        await clearDefaultAddress(tx, userId);
+      }
+
+      return tx.address.update({
+        where: { id },
+        data: { ...data, ...(isDefault === true && { isDefault: true }) }
+      });
+    });
+
+    return success(res, address);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/users/me/addresses/:id */
+export const deleteAddress = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const id = parseAddressId(req.params.id);
+    const existing = await findOwnAddress(userId, id);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.address.delete({ where: { id } });
+
+      // Promote the most recently updated address so the user keeps a default
+      if (existing.isDefault) {
+        const replacement = await tx.address.findFirst({
+          where: { userId },
+          orderBy: { updatedAt: 'desc' }
+        });
+        if (replacement) {
+          await tx.address.update({ where: { id: replacement.id }, data: { isDefault: true } });
+        }
+      }
+    });
+
+    return success(res, { message: "Address deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
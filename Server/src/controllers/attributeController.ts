@@ -0,0 +1,104 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { slugify } from "../utils/categories";
+import { assertAttributeKeyAvailable, getCategoryAttributes } from "../utils/attributes";
+
+const findAttribute = async (attributeId: number) => {
+  const attribute = await prisma.attributeDefinition.findUnique({ where: { id: attributeId } });
+  if (!attribute) throw ApiError.notFound("Attribute not found", "ATTRIBUTE_NOT_FOUND");
+  return attribute;
+};
+
+const findCategory = async (categoryId: number) => {
+  const category = await prisma.category.findUnique({ where: { id: categoryId }, select: { id: true } });
+  if (!category) throw ApiError.notFound("Category not found", "CATEGORY_NOT_FOUND");
+  return category;
+};
+
+/** GET /api/furnitures/categories/:id/attributes */
+export const listCategoryAttributes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+
+    await findCategory(id);
+    // Includes definitions inherited from parent categories; `categoryId` says where each one is defined
+    return success(res, await getCategoryAttributes(id));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/furnitures/categories/:id/attributes */
+export const createAttribute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+    const { key, allowedValues, ...data } = req.body;
+
+    await findCategory(id);
+    const attributeKey = key || slugify(data.name);
+    await assertAttributeKeyAvailable(id, attributeKey);
+
+    const attribute = await prisma.attributeDefinition.create({
+      data: { ...data, categoryId: id, key: attributeKey, allowedValues: allowedValues ?? [] }
+    });
+
+    return success(res, attribute, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PATCH /api/furnitures/attributes/:attributeId */
+export const updateAttribute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { attributeId } = req.params as any;
+    const { allowedValues, unit, isRequired, ...data } = req.body;
+
+    const attribute = await findAttribute(attributeId);
+    if (allowedValues && attribute.type !== "ENUM") {
+      throw ApiError.badRequest("Only choice attributes have allowed values", [{ field: "allowedValues", message: "Not a choice attribute" }]);
+    }
+    if (unit && attribute.type !== "NUMBER") {
+      throw ApiError.badRequest("Only number attributes have a unit", [{ field: "unit", message: "Not a number attribute" }]);
+    }
+
+    // Values already given to products have to stay allowed
+    if (allowedValues) {
+      const inUse = await prisma.attributeValue.findMany({
+        where: { definitionId: attributeId, textValue: { notIn: allowedValues } },
+        distinct: ["textValue"],
+        select: { textValue: true }
+      });
+      if (inUse.length > 0) {
+        throw new ApiError(409, `Still used by products: ${inUse.map(value => value.textValue).join(", ")}`, [], "ATTRIBUTE_VALUE_IN_USE");
+      }
+    }
+
+    // Existing products are only checked against a new requirement the next time they are saved
+    const updated = await prisma.attributeDefinition.update({
+      where: { id: attributeId },
+      data: { ...data, unit, isRequired, allowedValues }
+    });
+
+    return success(res, updated);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/furnitures/attributes/:attributeId */
+export const deleteAttribute = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { attributeId } = req.params as any;
+
+    await findAttribute(attributeId);
+    // Products' values for it go with it
+    await prisma.attributeDefinition.delete({ where: { id: attributeId } });
+
+    return success(res, { message: "Attribute deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -4,6 +4,7 @@ import { prisma } from "../prisma";
 import { signJwt, signRefreshToken, verifyRefreshToken } from "../utils/jwt";
 import { success } from "../utils/response";
 import { ApiError } from "../utils/errors";
+import { claimGuestOrders } from "../utils/orderAccess";
 import { 
   registerSchema, 
   loginSchema, 
@@ -17,7 +18,7 @@ const SALT_ROUNDS = 10;
 export const register = async (req: Request, res: Response, next: NextFunction) => {
   try {
     // Validation is handled by middleware, so req.body is already validated
-    const { email, password, name } = req.body;
+    const { email, password, name, orderTokens = [] } = req.body;
 
     const existing = await prisma.user.findUnique({ where: { email } });
     if (existing) {
@@ -27,19 +28,23 @@ export const register = async (req: Request, res: Response, next: NextFunction)
     const hashed = await bcrypt.hash(password, SALT_ROUNDS);
     const user = await prisma.user.create({ 
       data: { email, password: hashed, name },
-      select: { id: true, email: true, name: true, createdAt: true }
+      select: { id: true, email: true, name: true, role: true, createdAt: true }
     });
 
     // create empty cart
     await prisma.cart.create({ data: { userId: user.id } });
 
+    // Guest orders whose links were passed along show up in the new account
+    const claimedOrders = await claimGuestOrders(user.id, orderTokens);
+
     const token = signJwt({ id: user.id, email: user.email });
     const refreshToken = signRefreshToken({ id: user.id, email: user.email });
     
     return success(res, { 
       token, 
       refreshToken, 
-      user 
+      user,
+      claimedOrders
     }, 201);
   } catch (err) {
     next(err);
@@ -70,7 +75,8 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
       user: { 
         id: user.id, 
         email: user.email, 
-        name: user.name 
+        name: user.name,
+        role: user.role
       } 
     });
   } catch (err) {
@@ -86,7 +92,7 @@ export const me = async (req: Request, res: Response, next: NextFunction) => {
     if (!anyReq.user) throw new ApiError(401, "Unauthorized");
     const user = await prisma.user.findUnique({ 
       where: { id: anyReq.user.id }, 
-      select: { id: true, email: true, name: true, createdAt: true } 
+      select: { id: true, email: true, name: true, role: true, createdAt: true } 
     });
     if (!user) throw new ApiError(404, "User not found");
     return success(res, user);
@@ -117,7 +123,7 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
         ...(name && { name }),
         ...(email && { email })
       },
-      select: { id: true, email: true, name: true, createdAt: true }
+      select: { id: true, email: true, name: true, role: true, createdAt: true }
     });
 
     return success(res, updatedUser);
@@ -2,6 +2,41 @@ import { Request, Response, NextFunction } from "express";
 import { prisma } from "../prisma";
 import { success } from "../utils/response";
 import { ApiError } from "../utils/errors";
+import { outOfStockError } from "../utils/inventory";
+import { addItemsToCart, addItemToCart } from "../utils/cart";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { normalizeCouponCode, PricingLine, priceOrder, PromotionCustomer } from "../utils/promotions";
+import { IMAGE_ORDER } from "../utils/images";
+
+const applyCouponSchema = z.object({
+  code: z.string().trim().min(1, "Coupon code is required").max(50)
+});
+
+type CartItemWithFurniture = Prisma.CartItemGetPayload<{ include: { furniture: true, variant: true } }>;
+
+const toPricingLines = (items: CartItemWithFurniture[]): PricingLine[] =>
+  items.map(item => ({
+    furnitureId: item.furnitureId,
+    categoryId: item.furniture.categoryId,
+    quantity: item.quantity,
+    unitPrice: Number(item.variant.price)
+  }));
+
+// Prices the cart with its saved coupon. A coupon that stopped applying (expired,
+// cart changed below the minimum...) is reported next to the undiscounted price instead of failing the request.
+const priceCart = async (
+  cart: { couponCode: string | null; items: CartItemWithFurniture[] },
+  customer: PromotionCustomer
+) => {
+  const lines = toPricingLines(cart.items);
+  try {
+    return { couponCode: cart.couponCode, couponError: null, ...(await priceOrder(lines, cart.couponCode, customer)) };
+  } catch (err) {
+    if (!(err instanceof ApiError) || !cart.couponCode) throw err;
+    return { couponCode: cart.couponCode, couponError: err.message, ...(await priceOrder(lines)) };
+  }
+};
 
 export const getCart = async (req: any, res: Response, next: NextFunction) => {
   try {
@@ -16,10 +51,19 @@ export const getCart = async (req: any, res: Response, next: NextFunction) => {
             furniture: {
               include: {
                 images: {
-                  take: 1
+                  take: 1,
+                  orderBy: IMAGE_ORDER
                 },
                 category: true
               }
+            },
+            variant: {
+              include: {
+                images: {
+                  take: 1,
+                  orderBy: IMAGE_ORDER
+                }
+              }
             }
           } 
         } 
@@ -35,10 +79,19 @@ export const getCart = async (req: any, res: Response, next: NextFunction) => {
               furniture: {
                 include: {
                   images: {
-                    take: 1
+                    take: 1,
+                    orderBy: IMAGE_ORDER
                   },
                   category: true
                 }
+              },
+              variant: {
+                include: {
+                  images: {
+                    take: 1,
+                    orderBy: IMAGE_ORDER
+                  }
+                }
               }
             } 
           } 
@@ -46,7 +99,49 @@ export const getCart = async (req: any, res: Response, next: NextFunction) => {
       });
     }
     
-    return success(res, cart);
+    const pricing = await priceCart(cart, { userId, email: req.user.email });
+    return success(res, { ...cart, pricing });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/cart/apply-coupon */
+export const applyCoupon = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const code = normalizeCouponCode(applyCouponSchema.parse(req.body).code);
+
+    const cart = await prisma.cart.findUnique({
+      where: { userId },
+      include: { items: { include: { furniture: true, variant: true } } }
+    });
+    if (!cart || cart.items.length === 0) {
+      throw ApiError.badRequest("Add items to your cart before applying a coupon", [], "CART_EMPTY");
+    }
+
+    // Throws with the reason when the coupon cannot be used on this cart
+    const pricing = await priceOrder(toPricingLines(cart.items), code, { userId, email: req.user.email });
+
+    await prisma.cart.update({ where: { id: cart.id }, data: { couponCode: code } });
+
+    return success(res, { couponCode: code, couponError: null, ...pricing });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/cart/coupon */
+export const removeCoupon = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const cart = await prisma.cart.update({
+      where: { userId: req.user.id },
+      data: { couponCode: null },
+      include: { items: { include: { furniture: true, variant: true } } }
+    });
+
+    const pricing = await priceOrder(toPricingLines(cart.items));
+    return success(res, { couponCode: null, couponError: null, ...pricing });
   } catch (err) {
     next(err);
   }
@@ -54,43 +149,25 @@ export const getCart = async (req: any, res: Response, next: NextFunction) => {
 
 export const addToCart = async (req: any, res: Response, next: NextFunction) => {
   try {
-    const { furnitureId, quantity = 1 } = req.body;
+    const { furnitureId, variantId, quantity = 1 } = req.body;
     const userId = req.user.id;
     
     if (!userId) throw new ApiError(401, "Authentication required");
     if (!furnitureId) throw new ApiError(400, "furnitureId required");
     if (quantity < 1) throw new ApiError(400, "Quantity must be at least 1");
 
-    // Verify furniture exists
-    const furniture = await prisma.furniture.findUnique({ where: { id: furnitureId } });
-    if (!furniture) throw new ApiError(404, "Furniture not found");
-
-    // Get or create cart
-    let cart = await prisma.cart.findUnique({ where: { userId } });
-    if (!cart) {
-      cart = await prisma.cart.create({ data: { userId } });
-    }
+    const { item, created } = await addItemToCart(userId, furnitureId, quantity, variantId);
+    return success(res, item, created ? 201 : 200);
+  } catch (err) {
+    next(err);
+  }
+};
 
-    // Check if item already exists in cart
-    const existing = await prisma.cartItem.findFirst({ 
-      where: { cartId: cart.id, furnitureId },
-      include: { furniture: true }
-    });
-    
-    if (existing) {
-      const updated = await prisma.cartItem.update({ 
-        where: { id: existing.id }, 
-        data: { quantity: existing.quantity + quantity },
-        include: { furniture: true }
-      });
-      return success(res, updated);
-    } else {
-      const created = await prisma.cartItem.create({ 
-        data: { cartId: cart.id, furnitureId, quantity },
-        include: { furniture: true }
-      });
-      return success(res, created, 201);
-    }
+/** POST /api/cart/add-many */
+export const addManyToCart = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const results = await addItemsToCart(req.user.id, req.body.items);
+    return success(res, results.map(result => result.item), results.some(result => result.created) ? 201 : 200);
   } catch (err) {
     next(err);
   }
@@ -111,15 +188,18 @@ export const updateCartItem = async (req: any, res: Response, next: NextFunction
         id: Number(cartItemId),
         cart: { userId }
       },
-      include: { furniture: true }
+      include: { variant: true }
     });
     
     if (!cartItem) throw new ApiError(404, "Cart item not found");
+    if (quantity > cartItem.variant.stockQuantity) {
+      throw outOfStockError([cartItem.furnitureId]);
+    }
 
     const updated = await prisma.cartItem.update({ 
       where: { id: Number(cartItemId) }, 
       data: { quantity },
-      include: { furniture: true }
+      include: { furniture: true, variant: true }
     });
     
     return success(res, updated);
@@ -163,6 +243,9 @@ export const clearCart = async (req: any, res: Response, next: NextFunction) =>
     if (!cart) throw new ApiError(404, "Cart not found");
     
     const deletedCount = await prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
+    if (cart.couponCode) {
+      await prisma.cart.update({ where: { id: cart.id }, data: { couponCode: null } });
+    }
     return success(res, { message: "Cart cleared successfully", deletedCount: deletedCount.count });
   } catch (err) {
     next(err);
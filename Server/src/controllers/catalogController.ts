@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from "express";
+import { once } from "events";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { toCsvLine } from "../utils/csv";
+import {
+  CATALOG_COLUMNS,
+  ImportReport,
+  catalogExportBatches,
+  planCatalogImport,
+  readCatalogFile,
+  toCatalogCsvRow,
+  upsertCatalogRow
+} from "../utils/catalog";
+
+// Large imports run as one transaction; allow well beyond Prisma's 5 second default
+const IMPORT_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** POST /api/furnitures/import */
+export const importCatalog = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { dryRun } = req.query as any;
+
+    // The body arrives as text (see middleware/catalogBody.ts); its content type says how to read it
+    if (typeof req.body !== "string" || !req.body.trim()) {
+      throw ApiError.badRequest("Send the catalog as text/csv or application/json", [], "EMPTY_IMPORT");
+    }
+    const format = req.is("text/csv") ? "csv" : "json";
+    const rows = readCatalogFile(req.body, format);
+
+    const { upserts, errors, failed } = await planCatalogImport(rows);
+    const report: ImportReport = {
+      dryRun,
+      total: rows.length,
+      created: upserts.filter(upsert => !upsert.existingId).length,
+      updated: upserts.filter(upsert => upsert.existingId).length,
+      failed,
+      errors
+    };
+
+    if (dryRun) return success(res, report);
+
+    // All or nothing: a file with bad rows is rejected so it can be fixed and sent again
+    if (failed > 0) {
+      throw ApiError.validationError(
+        `${failed} of ${rows.length} rows are invalid; nothing was imported`,
+        errors,
+        "IMPORT_INVALID"
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const upsert of upserts) {
+        await upsertCatalogRow(tx, upsert, req.user.id);
+      }
+    }, { timeout: IMPORT_TIMEOUT_MS });
+
+    return success(res, report);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** GET /api/furnitures/export */
+export const exportCatalog = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { format } = req.query as any;
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="catalog-${date}.${format}"`);
+
+    // Respect backpressure so a slow download doesn't buffer the whole catalog
+    const write = async (chunk: string) => {
+      if (!res.write(chunk)) await once(res, "drain");
+    };
+
+    let first = true;
+    await write(format === "csv" ? toCsvLine([...CATALOG_COLUMNS]) : "[");
+    for await (const batch of catalogExportBatches()) {
+      for (const row of batch) {
+        if (format === "csv") {
+          await write(toCsvLine(toCatalogCsvRow(row)));
+        } else {
+          await write(`${first ? "" : ","}\n${JSON.stringify(row)}`);
+        }
+        first = false;
+      }
+    }
+    if (format === "json") await write("\n]\n");
+
+    res.end();
+  } catch (err) {
+    // Once streaming has started the status can't change; cut the download short instead
+    if (res.headersSent) return res.destroy(err as Error);
+    next(err);
+  }
+};
@@ -2,123 +2,317 @@ import { Request, Response, NextFunction } from "express";
 import { prisma } from "../prisma";
 import { success } from "../utils/response";
 import { ApiError } from "../utils/errors";
+import { reserveStock } from "../utils/inventory";
+import { recordStatusChange } from "../utils/orderStatus";
+import { startPayment, toPublicPayment } from "../payments/service";
+import { PaymentMethod } from "../payments/types";
+import { z } from "zod";
+import { resolveShippingAddress, ShippingAddressSnapshot } from "../utils/address";
+import { lineQuantitySchema, shippingAddressSchema } from "../utils/validation";
+import { createOrderLookupToken } from "../utils/orderAccess";
+import { PromotionCustomer, redeemDiscounts } from "../utils/promotions";
+import { OrderQuote, QuoteLine, quoteOrder, toQuoteLine } from "../utils/pricing";
+import { resolveVariants, variantWithFurnitureInclude } from "../utils/variants";
+import { assertPurchasable } from "../utils/furnitureStatus";
 
+const orderItemSchema = z.object({
+  furnitureId: z.number().int().positive("Furniture ID must be a positive integer"),
+  variantId: z.number().int().positive("Variant ID must be a positive integer").optional(),
+  quantity: lineQuantitySchema
+});
+
+const paymentFields = {
+  paymentMethod: z.enum(["card", "upi", "netbanking"]).default("card"),
+  paymentToken: z.string().min(1, "Payment token is required"),
+  couponCode: z.string().trim().min(1).max(50).optional()
+};
+
+const placeOrderSchema = z.object({
+  items: z.array(orderItemSchema).optional(),
+  ...paymentFields,
+  addressId: z.number().int().positive().optional(),
+  shippingAddress: shippingAddressSchema.optional()
+}).refine(data => data.addressId || data.shippingAddress, {
+  message: "A shipping address or saved address ID is required",
+  path: ["shippingAddress"]
+});
+
+// Prices either the given items or the signed-in user's cart; the state decides the GST split
+const quoteSchema = z.object({
+  items: z.array(orderItemSchema).optional(),
+  couponCode: z.string().trim().min(1).max(50).optional(),
+  addressId: z.number().int().positive().optional(),
+  state: z.string().trim().min(1).optional(),
+  email: z.string().trim().toLowerCase().email("Invalid email format").optional()
+});
+
+// Guests have no cart or address book, so items and the full address are always sent
+const guestCheckoutSchema = z.object({
+  items: z.array(orderItemSchema).min(1, "Order must contain at least one item"),
+  ...paymentFields,
+  email: z.string().trim().toLowerCase().email("Invalid email format"),
+  shippingAddress: shippingAddressSchema
+});
+
+type OrderItemInput = z.infer<typeof orderItemSchema>;
+
+// Price directly purchased items from the catalogue, never from the client
+const loadItemLines = async (items: OrderItemInput[]) => {
+  const variants = await resolveVariants(items);
+  assertPurchasable(variants);
+  return variants.map((variant, index) => toQuoteLine(variant, items[index].quantity));
+};
+
+const loadCartLines = async (userId: number) => {
+  const cart = await prisma.cart.findUnique({
+    where: { userId },
+    include: { items: { include: { variant: { include: variantWithFurnitureInclude } } } }
+  });
+
+  if (!cart || cart.items.length === 0) {
+    throw new ApiError(400, "Cart is empty and no items provided");
+  }
+  // Products can be taken off sale while they sit in a cart
+  assertPurchasable(cart.items.map(ci => ci.variant));
+
+  return {
+    lines: cart.items.map(ci => toQuoteLine(ci.variant, ci.quantity)),
+    couponCode: cart.couponCode
+  };
+};
+
+// Only the stored columns of a priced line go onto the order
+const toOrderItems = (lines: QuoteLine[]) =>
+  lines.map(({ furnitureId, variantId, variantLabel, quantity, unitPrice }) => ({ furnitureId, variantId, variantLabel, quantity, unitPrice }));
+
+interface CreateOrderAndPayInput {
+  userId?: number;
+  guestEmail?: string;
+  customer: PromotionCustomer;
+  lines: QuoteLine[];
+  quote: OrderQuote;
+  shippingAddress?: ShippingAddressSnapshot;
+  paymentMethod: PaymentMethod;
+  paymentToken: string;
+}
+
+/**
+ * Reserve stock and create the order and its items atomically, then charge it.
+ * The order stays unpaid until the provider confirms; a decline cancels it and throws.
+ */
+const createOrderAndPay = async (input: CreateOrderAndPayInput) => {
+  const { quote } = input;
+
+  const { id: orderId } = await prisma.$transaction(async (tx) => {
+    await reserveStock(tx, input.lines);
+
+    const newOrder = await tx.order.create({
+      data: {
+        userId: input.userId,
+        guestEmail: input.guestEmail,
+        subtotal: quote.subtotal,
+        discountTotal: quote.discountTotal,
+        taxTotal: quote.taxTotal,
+        taxLines: quote.taxes.map(tax => ({ ...tax })),
+        shippingTotal: quote.shippingTotal,
+        totalAmount: quote.total,
+        status: "PENDING_PAYMENT",
+        shippingAddress: input.shippingAddress,
+        items: { create: toOrderItems(input.lines) }
+      }
+    });
+
+    await redeemDiscounts(tx, newOrder.id, quote.discounts, input.customer);
+
+    await recordStatusChange(tx, { orderId: newOrder.id, fromStatus: null, toStatus: newOrder.status, changedById: input.userId });
+
+    return newOrder;
+  });
+
+  const { payment, nextAction } = await startPayment({
+    orderId,
+    amount: quote.total,
+    method: input.paymentMethod,
+    paymentToken: input.paymentToken,
+    userId: input.userId
+  });
+
+  return { orderId, payment, nextAction };
+};
+
+const findPlacedOrder = (orderId: number) =>
+  prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { 
+      items: { 
+        include: { 
+          furniture: {
+            include: {
+              images: {
+                take: 1
+              },
+              category: true
+            }
+          }
+        } 
+      },
+      user: {
+        select: {
+          id: true,
+          name: true,
+          email: true
+        }
+      },
+      discounts: true
+    }
+  });
+
+/** POST /api/checkout/place */
 export const placeOrder = async (req: any, res: Response, next: NextFunction) => {
   try {
     const userId = req.user?.id;
     if (!userId) throw new ApiError(401, "Authentication required for checkout");
 
-    const { items: directItems } = req.body;
+    const { items: directItems, paymentMethod, paymentToken, couponCode, addressId, shippingAddress: typedAddress } = placeOrderSchema.parse(req.body);
+    const shippingAddress = await resolveShippingAddress(userId, { addressId, shippingAddress: typedAddress }, req.user.email);
 
-    let itemsData = [];
-    let total = 0;
+    let lines: QuoteLine[] = [];
+    let appliedCoupon = couponCode;
     let shouldClearCart = false;
 
     // Check if items are provided directly (for direct purchase)
-    if (directItems && Array.isArray(directItems) && directItems.length > 0) {
-      // Direct purchase with provided items
-      const furnitureIds = directItems.map((item: any) => item.furnitureId);
-      const furnitureList = await prisma.furniture.findMany({
-        where: { id: { in: furnitureIds } }
-      });
-
-      if (furnitureList.length !== furnitureIds.length) {
-        const foundIds = furnitureList.map(f => f.id);
-        const missingIds = furnitureIds.filter(id => !foundIds.includes(id));
-        throw new ApiError(404, `Furniture items not found: ${missingIds.join(', ')}`);
-      }
-
-      const furnitureMap = new Map(furnitureList.map(f => [f.id, f]));
-
-      for (const item of directItems) {
-        const furniture = furnitureMap.get(item.furnitureId);
-        if (!furniture) continue;
-        
-        const unitPrice = Number(furniture.price);
-        total += unitPrice * item.quantity;
-        itemsData.push({
-          furnitureId: item.furnitureId,
-          quantity: item.quantity,
-          unitPrice: unitPrice
-        });
-      }
+    if (directItems && directItems.length > 0) {
+      lines = await loadItemLines(directItems);
     } else {
       // Cart-based purchase
-      const cart = await prisma.cart.findUnique({
-        where: { userId },
-        include: { items: { include: { furniture: true } } }
-      });
-      
-      if (!cart || cart.items.length === 0) {
-        throw new ApiError(400, "Cart is empty and no items provided");
-      }
+      const cart = await loadCartLines(userId);
+      lines = cart.lines;
 
-      itemsData = cart.items.map(ci => {
-        const unitPrice = Number(ci.furniture.price);
-        total += unitPrice * ci.quantity;
-        return {
-          furnitureId: ci.furnitureId,
-          quantity: ci.quantity,
-          unitPrice
-        };
-      });
-      
+      // A coupon applied to the cart carries over unless the request names one
+      appliedCoupon = couponCode ?? cart.couponCode ?? undefined;
       shouldClearCart = true;
     }
 
-    if (itemsData.length === 0) {
+    if (lines.length === 0) {
       throw new ApiError(400, "No items to order");
     }
 
-    // create order and its items atomically
-    const order = await prisma.order.create({
-      data: {
-        userId,
-        totalAmount: total,
-        status: "COMPLETED", // skip payment flow for now
-        items: { create: itemsData }
-      },
-      include: { 
-        items: { 
-          include: { 
-            furniture: {
-              include: {
-                images: {
-                  take: 1
-                },
-                category: true
-              }
-            }
-          } 
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+    const customer: PromotionCustomer = { userId, email: req.user.email };
+    const quote = await quoteOrder(lines, {
+      couponCode: appliedCoupon,
+      customer,
+      destinationState: shippingAddress?.state
     });
 
-    // clear cart only if this was a cart-based purchase
-    if (shouldClearCart) {
-      const cart = await prisma.cart.findUnique({ where: { userId } });
-      if (cart) {
-        await prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
-      }
+    // a decline cancels the order and throws, leaving the cart untouched for another attempt
+    const { orderId, payment, nextAction } = await createOrderAndPay({
+      userId,
+      customer,
+      lines,
+      quote,
+      shippingAddress,
+      paymentMethod,
+      paymentToken
+    });
+
+    // clear cart only for a cart-based purchase that is already paid; challenged payments keep it until they settle
+    if (shouldClearCart && payment.status === "CAPTURED") {
+      await prisma.cart.update({
+        where: { userId },
+        data: { couponCode: null, items: { deleteMany: {} } }
+      });
     }
 
-    return success(res, order, 201);
+    const order = await findPlacedOrder(orderId);
+
+    return success(res, { ...order, payment: toPublicPayment(payment), nextAction }, 201);
   } catch (err) {
     next(err);
   }
 };
 
+/** POST /api/checkout/guest */
 export const guestCheckout = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    // Guest checkout is disabled - require authentication
-    throw new ApiError(401, "Authentication required. Please create an account or login to make a purchase.");
+    const { items, paymentMethod, paymentToken, couponCode, email, shippingAddress } = guestCheckoutSchema.parse(req.body);
+
+    const lines = await loadItemLines(items);
+    if (lines.length === 0) {
+      throw new ApiError(400, "No items to order");
+    }
+
+    const quote = await quoteOrder(lines, {
+      couponCode,
+      customer: { email },
+      destinationState: shippingAddress.state
+    });
+
+    const { orderId, payment, nextAction } = await createOrderAndPay({
+      guestEmail: email,
+      customer: { email },
+      lines,
+      quote,
+      shippingAddress: { ...shippingAddress, email },
+      paymentMethod,
+      paymentToken
+    });
+
+    const order = await findPlacedOrder(orderId);
+
+    // The lookup token is the guest's only way back to this order (and to finish a challenged payment)
+    return success(res, {
+      ...order,
+      payment: toPublicPayment(payment),
+      nextAction,
+      lookupToken: createOrderLookupToken(order)
+    }, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/checkout/quote */
+export const quoteCheckout = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { items, couponCode, addressId, state, email } = quoteSchema.parse(req.body);
+    const userId: number | undefined = req.user?.id;
+
+    let lines: QuoteLine[];
+    let savedCoupon: string | null = null;
+
+    if (items && items.length > 0) {
+      lines = await loadItemLines(items);
+    } else {
+      if (!userId) throw ApiError.badRequest("Items are required to quote a guest checkout");
+      const cart = await loadCartLines(userId);
+      lines = cart.lines;
+      savedCoupon = cart.couponCode;
+    }
+
+    let destinationState = state;
+    if (addressId) {
+      if (!userId) throw ApiError.unauthorized("Sign in to use a saved address");
+      const address = await resolveShippingAddress(userId, { addressId }, req.user.email);
+      destinationState = address?.state;
+    }
+
+    const options = {
+      customer: userId ? { userId, email: req.user.email } : { email },
+      destinationState
+    };
+
+    // A named coupon must be valid; a coupon saved on the cart that stopped applying is
+    // reported instead, as on the cart page, so the quote still loads
+    if (couponCode || !savedCoupon) {
+      return success(res, await quoteOrder(lines, { ...options, couponCode }));
+    }
+
+    try {
+      return success(res, await quoteOrder(lines, { ...options, couponCode: savedCoupon }));
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return success(res, { ...(await quoteOrder(lines, options)), couponError: err.message });
+    }
   } catch (err) {
     next(err);
   }
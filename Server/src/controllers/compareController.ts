@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from "express";
+import { FurnitureStatus } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { IMAGE_ORDER } from "../utils/images";
+import { SPECIFICATIONS_INCLUDE, Specification, toSpecifications } from "../utils/attributes";
+
+type CompareValue = string | number | boolean | null;
+
+// One line of the comparison table, with a value per product in the order they were asked for
+interface CompareRow {
+  key: string;
+  label: string;
+  group: "overview" | "dimensions" | "specifications";
+  unit: string | null;
+  values: CompareValue[];
+  differs: boolean; // A product without a value counts as different
+}
+
+const row = (key: string, label: string, group: CompareRow["group"], unit: string | null, values: CompareValue[]): CompareRow => ({
+  key, label, group, unit, values,
+  differs: new Set(values.map(value => JSON.stringify(value))).size > 1
+});
+
+/** GET /api/furnitures/compare?ids= */
+export const compareFurniture = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { ids } = req.query as unknown as { ids: number[] };
+
+    // Archived products can still be compared, e.g. from an old tray; drafts are never shown
+    const found = await prisma.furniture.findMany({
+      where: { id: { in: ids }, status: { not: FurnitureStatus.DRAFT } },
+      include: {
+        images: { orderBy: IMAGE_ORDER, take: 1 },
+        reviews: { select: { rating: true } },
+        category: { select: { name: true, slug: true } },
+        attributeValues: SPECIFICATIONS_INCLUDE
+      }
+    });
+
+    const byId = new Map(found.map(item => [item.id, item]));
+    const missingIds = ids.filter(id => !byId.has(id));
+    if (missingIds.length > 0) {
+      throw ApiError.notFound(`Furniture items not found: ${missingIds.join(', ')}`, "FURNITURE_NOT_FOUND");
+    }
+
+    const items = ids.map(id => {
+      const { images, reviews, attributeValues, ...item } = byId.get(id)!;
+      return {
+        id: item.id,
+        name: item.name,
+        sku: item.sku,
+        status: item.status,
+        price: Number(item.price),
+        compareAtPrice: item.compareAtPrice === null ? null : Number(item.compareAtPrice),
+        image: images[0] ?? null,
+        category: item.category,
+        widthCm: Number(item.widthCm),
+        heightCm: Number(item.heightCm),
+        depthCm: Number(item.depthCm),
+        averageRating: reviews.length > 0
+          ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+          : null,
+        reviewCount: reviews.length,
+        specifications: toSpecifications(attributeValues)
+      };
+    });
+
+    // Every attribute any of the products has, once each; products from other categories have no value for it
+    const attributes = new Map<string, Specification>();
+    items.flatMap(item => item.specifications).forEach(spec => {
+      if (!attributes.has(spec.key)) attributes.set(spec.key, spec);
+    });
+    const valueOf = (item: typeof items[number], key: string) =>
+      item.specifications.find(spec => spec.key === key)?.value ?? null;
+
+    const rows = [
+      row("price", "Price", "overview", null, items.map(item => item.price)),
+      row("category", "Category", "overview", null, items.map(item => item.category.name)),
+      row("averageRating", "Rating", "overview", null, items.map(item => item.averageRating)),
+      row("widthCm", "Width", "dimensions", "cm", items.map(item => item.widthCm)),
+      row("heightCm", "Height", "dimensions", "cm", items.map(item => item.heightCm)),
+      row("depthCm", "Depth", "dimensions", "cm", items.map(item => item.depthCm)),
+      ...[...attributes.values()].map(spec =>
+        row(`attributes.${spec.key}`, spec.name, "specifications", spec.unit, items.map(item => valueOf(item, spec.key)))
+      )
+    ];
+
+    return success(res, { items: items.map(({ specifications, ...item }) => item), rows });
+  } catch (err) {
+    next(err);
+  }
+};
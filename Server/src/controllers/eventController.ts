@@ -0,0 +1,97 @@
+import { Response, NextFunction } from "express";
+import { EventType, ExperimentStatus } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+
+const REPORT_DEFAULT_DAYS = 30;
+
+const rate = (count: number, of: number) => of > 0 ? Math.round(count / of * 10000) / 10000 : null;
+
+/** POST /api/events */
+export const ingestEvents = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { sessionId, events } = req.body;
+    const now = new Date();
+
+    // A product may have been removed since the page showed it; its events are dropped rather than failing the batch
+    const furnitureIds: number[] = [...new Set<number>(events.map((event: any) => event.furnitureId))];
+    const known = await prisma.furniture.findMany({ where: { id: { in: furnitureIds } }, select: { id: true } });
+    const knownIds = new Set(known.map(furniture => furniture.id));
+
+    // Experiment arms arrive as keys; an unknown pair, or an experiment that isn't running, just leaves
+    // the event outside any experiment
+    const variantKey = (experiment: string, variant: string) => `${experiment}:${variant}`;
+    const assigned = events.filter((event: any) => event.experiment && event.variant);
+    const variants = assigned.length === 0 ? [] : await prisma.experimentVariant.findMany({
+      where: {
+        experiment: { status: ExperimentStatus.RUNNING },
+        OR: assigned.map((event: any) => ({ key: event.variant, experiment: { key: event.experiment } }))
+      },
+      select: { id: true, key: true, experiment: { select: { key: true } } }
+    });
+    const variantIds = new Map(variants.map(variant => [variantKey(variant.experiment.key, variant.key), variant.id]));
+
+    const { count } = await prisma.event.createMany({
+      data: events
+        .filter((event: any) => knownIds.has(event.furnitureId))
+        .map((event: any) => ({
+          type: event.type,
+          sessionId,
+          userId: req.user?.id ?? null,
+          furnitureId: event.furnitureId,
+          algorithm: event.algorithm ?? null,
+          position: event.position ?? null,
+          experimentVariantId: event.experiment && event.variant
+            ? variantIds.get(variantKey(event.experiment, event.variant)) ?? null
+            : null,
+          // Client clocks can run ahead; an event can't have happened after it arrived
+          occurredAt: event.occurredAt && event.occurredAt < now ? event.occurredAt : now
+        }))
+    });
+
+    return success(res, { accepted: count, dropped: events.length - count }, 202);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * GET /api/events/report
+ * Per recommendation algorithm: how often its items were shown, clicked, added to the cart and bought
+ */
+export const getEventReport = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const to: Date = req.query.to ?? new Date();
+    const from: Date = req.query.from ?? new Date(to.getTime() - REPORT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+
+    const counts = await prisma.event.groupBy({
+      by: ["algorithm", "type"],
+      where: { algorithm: { not: null }, occurredAt: { gte: from, lt: to } },
+      _count: { _all: true }
+    });
+
+    const byAlgorithm = new Map<string, Record<EventType, number>>();
+    counts.forEach(({ algorithm, type, _count }) => {
+      const totals = byAlgorithm.get(algorithm!) ?? { IMPRESSION: 0, CLICK: 0, ADD_TO_CART: 0, PURCHASE: 0 };
+      totals[type] = _count._all;
+      byAlgorithm.set(algorithm!, totals);
+    });
+
+    const algorithms = [...byAlgorithm.entries()]
+      .map(([algorithm, totals]) => ({
+        algorithm,
+        impressions: totals.IMPRESSION,
+        clicks: totals.CLICK,
+        addToCarts: totals.ADD_TO_CART,
+        purchases: totals.PURCHASE,
+        clickThroughRate: rate(totals.CLICK, totals.IMPRESSION),
+        addToCartRate: rate(totals.ADD_TO_CART, totals.CLICK),
+        conversionRate: rate(totals.PURCHASE, totals.CLICK)
+      }))
+      .sort((a, b) => b.impressions - a.impressions);
+
+    return success(res, { from, to, algorithms });
+  } catch (err) {
+    next(err);
+  }
+};
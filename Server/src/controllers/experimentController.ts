@@ -0,0 +1,174 @@
+import { Response, NextFunction } from "express";
+import { EventType, ExperimentStatus } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { differenceInterval, rateInterval } from "../utils/stats";
+
+const VARIANTS_INCLUDE = { variants: { orderBy: { id: "asc" as const } } };
+
+const findExperiment = async (id: number) => {
+  const experiment = await prisma.experiment.findUnique({ where: { id }, include: VARIANTS_INCLUDE });
+  if (!experiment) throw ApiError.notFound("Experiment not found", "EXPERIMENT_NOT_FOUND");
+  return experiment;
+};
+
+/** GET /api/experiments */
+export const listExperiments = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { status } = req.query;
+    const experiments = await prisma.experiment.findMany({
+      where: status ? { status } : undefined,
+      include: VARIANTS_INCLUDE,
+      orderBy: { createdAt: "desc" }
+    });
+    return success(res, experiments);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/experiments */
+export const createExperiment = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    // Body is validated by createExperimentSchema in the route; variants are created in order, so the first is the control
+    const { variants, ...experiment } = req.body;
+    const created = await prisma.experiment.create({
+      data: { ...experiment, variants: { create: variants } },
+      include: VARIANTS_INCLUDE
+    });
+    return success(res, created, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** GET /api/experiments/:id */
+export const getExperiment = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    return success(res, await findExperiment(req.params.id));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/experiments/:id/start */
+export const startExperiment = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const experiment = await findExperiment(req.params.id);
+    // A stopped experiment's results would mix two periods; start a new one instead
+    if (experiment.status !== ExperimentStatus.DRAFT) {
+      throw ApiError.conflict(`Experiment is already ${experiment.status.toLowerCase()}`, "status", "EXPERIMENT_NOT_DRAFT");
+    }
+
+    const running = await prisma.experiment.findFirst({
+      where: { surface: experiment.surface, status: ExperimentStatus.RUNNING },
+      select: { key: true }
+    });
+    if (running) {
+      throw ApiError.conflict(
+        `Experiment "${running.key}" is already running on ${experiment.surface}`,
+        "surface",
+        "EXPERIMENT_SURFACE_BUSY"
+      );
+    }
+
+    const started = await prisma.experiment.update({
+      where: { id: experiment.id },
+      data: { status: ExperimentStatus.RUNNING, startedAt: new Date() },
+      include: VARIANTS_INCLUDE
+    });
+    return success(res, started);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/experiments/:id/stop */
+export const stopExperiment = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const experiment = await findExperiment(req.params.id);
+    if (experiment.status !== ExperimentStatus.RUNNING) {
+      throw ApiError.conflict("Only a running experiment can be stopped", "status", "EXPERIMENT_NOT_RUNNING");
+    }
+
+    const stopped = await prisma.experiment.update({
+      where: { id: experiment.id },
+      data: { status: ExperimentStatus.STOPPED, endedAt: new Date() },
+      include: VARIANTS_INCLUDE
+    });
+    return success(res, stopped);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * GET /api/experiments/:id/report
+ * Click-through and conversion per variant with 95% intervals, and each variant's difference from the control
+ */
+export const getExperimentReport = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const experiment = await findExperiment(req.params.id);
+
+    const counts = await prisma.event.groupBy({
+      by: ["experimentVariantId", "type"],
+      where: {
+        experimentVariantId: { in: experiment.variants.map(variant => variant.id) },
+        // Received while the experiment ran; occurredAt is the client's clock, so it isn't trusted here
+        createdAt: { gte: experiment.startedAt ?? new Date(), ...(experiment.endedAt && { lte: experiment.endedAt }) }
+      },
+      _count: { _all: true }
+    });
+
+    const totals = new Map<number, Record<EventType, number>>(
+      experiment.variants.map(variant => [variant.id, { IMPRESSION: 0, CLICK: 0, ADD_TO_CART: 0, PURCHASE: 0 }])
+    );
+    counts.forEach(({ experimentVariantId, type, _count }) => {
+      totals.get(experimentVariantId!)![type] = _count._all;
+    });
+
+    // Click-through is per impression; add-to-cart and conversion are per click
+    const clickThrough = (id: number) => ({ successes: totals.get(id)!.CLICK, trials: totals.get(id)!.IMPRESSION });
+    const conversion = (id: number) => ({ successes: totals.get(id)!.PURCHASE, trials: totals.get(id)!.CLICK });
+
+    const [control] = experiment.variants;
+    const variants = experiment.variants.map(variant => {
+      const variantTotals = totals.get(variant.id)!;
+      const isControl = variant.id === control.id;
+      return {
+        key: variant.key,
+        weight: variant.weight,
+        config: variant.config,
+        isControl,
+        impressions: variantTotals.IMPRESSION,
+        clicks: variantTotals.CLICK,
+        addToCarts: variantTotals.ADD_TO_CART,
+        purchases: variantTotals.PURCHASE,
+        clickThroughRate: rateInterval(clickThrough(variant.id)),
+        addToCartRate: rateInterval({ successes: variantTotals.ADD_TO_CART, trials: variantTotals.CLICK }),
+        conversionRate: rateInterval(conversion(variant.id)),
+        vsControl: isControl ? null : {
+          clickThroughRate: differenceInterval(clickThrough(control.id), clickThrough(variant.id)),
+          conversionRate: differenceInterval(conversion(control.id), conversion(variant.id))
+        }
+      };
+    });
+
+    return success(res, {
+      experiment: {
+        id: experiment.id,
+        key: experiment.key,
+        name: experiment.name,
+        surface: experiment.surface,
+        status: experiment.status,
+        startedAt: experiment.startedAt,
+        endedAt: experiment.endedAt
+      },
+      confidenceLevel: 0.95,
+      variants
+    });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -1,82 +1,58 @@
 import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../prisma";
 import { success } from "../utils/response";
-import { ApiError, ValidationError } from "../utils/errors";
-import { z } from "zod";
-
-// Helper function to convert Zod errors to ValidationError format
-const convertZodErrors = (zodErrors: z.ZodIssue[]): ValidationError[] => {
-  return zodErrors.map(error => ({
-    field: error.path.join('.'),
-    message: error.message,
-    code: error.code
-  }));
-};
+import { ApiError } from "../utils/errors";
+import { syncFurnitureFromVariants } from "../utils/variants";
+import { searchFurniture, recordSearch, SearchParams } from "../utils/search";
+import { buildCategoryTree, getCategoryPath, slugify } from "../utils/categories";
+import { IMAGE_ORDER } from "../utils/images";
+import { SPECIFICATIONS_INCLUDE, saveProductAttributes, toSpecifications } from "../utils/attributes";
+import { recordInitialPrice, recordPriceChange } from "../utils/priceHistory";
+import { LISTED_FURNITURE } from "../utils/furnitureStatus";
+import { isStaffOrAdmin } from "../middleware/authMiddleware";
 
 // Validation is now handled by middleware
 
 /** GET /api/furnitures */
-export const listFurnitures = async (req: Request, res: Response, next: NextFunction) => {
+export const listFurnitures = async (req: any, res: Response, next: NextFunction) => {
   try {
     // Query parameters are validated by middleware
-    const { page, limit, category, minPrice, maxPrice, sortBy, sortOrder, search } = req.query as any;
-
-    // Build where clause
-    const where: any = {};
-    
-    if (category) {
-      // Find category by name
-      const categoryRecord = await prisma.category.findFirst({
-        where: { name: { contains: category, mode: 'insensitive' } }
-      });
-      if (categoryRecord) {
-        where.categoryId = categoryRecord.id;
-      }
-    }
+    const params = req.query as unknown as SearchParams;
+    const { page, limit } = params;
 
-    if (minPrice !== undefined || maxPrice !== undefined) {
-      where.price = {};
-      if (minPrice !== undefined) where.price.gte = minPrice;
-      if (maxPrice !== undefined) where.price.lte = maxPrice;
+    if (params.status && params.status !== "ACTIVE" && !isStaffOrAdmin(req.user)) {
+      throw ApiError.forbidden("Only staff can list draft or archived furniture", "INSUFFICIENT_ROLE");
     }
 
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } }
-      ];
-    }
-
-    // Build orderBy clause
-    const orderBy: any = {};
-    orderBy[sortBy] = sortOrder;
+    // Matching, ranking and paging happen in SQL; the page is then loaded with its relations
+    const { ids, totalCount, facets, categoryPath, suggestion } = await searchFurniture(params);
 
-    // Calculate skip for pagination
-    const skip = (page - 1) * limit;
+    // Feeds popular and recent searches in the typeahead; paging through results is not a new search
+    if (params.search && page === 1) {
+      recordSearch(params.search, req.user?.id ?? null, totalCount > 0)
+        .catch(err => console.error("Failed to record search:", err));
+    }
 
-    // Execute queries
-    const [items, totalCount] = await Promise.all([
-      prisma.furniture.findMany({
-        where,
-        include: { 
-          images: true, 
-          reviews: {
-            select: {
-              rating: true
-            }
-          },
-          category: {
-            select: {
-              name: true
-            }
+    const items = await prisma.furniture.findMany({
+      where: { id: { in: ids } },
+      include: { 
+        images: { orderBy: IMAGE_ORDER },
+        reviews: {
+          select: {
+            rating: true
           }
         },
-        orderBy,
-        skip,
-        take: limit
-      }),
-      prisma.furniture.count({ where })
-    ]);
+        category: {
+          select: {
+            name: true,
+            slug: true
+          }
+        }
+      }
+    });
+    const position = new Map(ids.map((id, index) => [id, index]));
+    items.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
 
     // Calculate average ratings
     const itemsWithRatings = items.map(item => ({
@@ -99,7 +75,10 @@ export const listFurnitures = async (req: Request, res: Response, next: NextFunc
         totalPages,
         hasNext: page < totalPages,
         hasPrev: page > 1
-      }
+      },
+      facets,
+      categoryPath,
+      suggestion
     });
   } catch (err) {
     next(err);
@@ -107,7 +86,7 @@ export const listFurnitures = async (req: Request, res: Response, next: NextFunc
 };
 
 /** GET /api/furnitures/:id */
-export const getFurniture = async (req: Request, res: Response, next: NextFunction) => {
+export const getFurniture = async (req: any, res: Response, next: NextFunction) => {
   try {
     // ID parameter is validated by middleware
     const { id } = req.params as any;
@@ -115,7 +94,7 @@ export const getFurniture = async (req: Request, res: Response, next: NextFuncti
     const item = await prisma.furniture.findUnique({
       where: { id },
       include: { 
-        images: true, 
+        images: { orderBy: IMAGE_ORDER },
         reviews: {
           include: {
             user: {
@@ -132,23 +111,35 @@ export const getFurniture = async (req: Request, res: Response, next: NextFuncti
         category: {
           select: {
             name: true,
+            slug: true,
             description: true
           }
-        }
+        },
+        variants: {
+          include: { images: { orderBy: IMAGE_ORDER } },
+          orderBy: [{ isDefault: 'desc' }, { id: 'asc' }]
+        },
+        attributeValues: SPECIFICATIONS_INCLUDE
       }
     });
 
-    if (!item) throw ApiError.notFound("Furniture not found");
+    // Archived products still open, e.g. from order history; drafts only for staff
+    if (!item || (item.status === "DRAFT" && !isStaffOrAdmin(req.user))) {
+      throw ApiError.notFound("Furniture not found");
+    }
 
     // Calculate average rating
     const averageRating = item.reviews.length > 0 
       ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length 
       : null;
 
+    const { attributeValues, ...details } = item;
     const itemWithRating = {
-      ...item,
+      ...details,
+      specifications: toSpecifications(attributeValues),
       averageRating,
-      reviewCount: item.reviews.length
+      reviewCount: item.reviews.length,
+      categoryPath: await getCategoryPath(item.categoryId)
     };
 
     return success(res, itemWithRating);
@@ -178,88 +169,86 @@ export const getFurniture = async (req: Request, res: Response, next: NextFuncti
 //   }
 // };
 
-// Validation schema for creating/updating furniture
-const createFurnitureSchema = z.object({
-  name: z.string().min(1, "Name is required").max(255, "Name too long"),
-  description: z.string().optional(),
-  price: z.number().positive("Price must be positive"),
-  sku: z.string().min(1, "SKU is required").max(50, "SKU too long"),
-  widthCm: z.number().positive("Width must be positive"),
-  heightCm: z.number().positive("Height must be positive"),
-  depthCm: z.number().positive("Depth must be positive"),
-  categoryId: z.number().int().positive("Category ID must be a positive integer"),
-  images: z.array(z.object({
-    url: z.string().url("Invalid image URL")
-  })).optional()
-});
-
-const updateFurnitureSchema = createFurnitureSchema.partial();
-
-// Validation schema for furniture ID parameter
-const furnitureIdSchema = z.object({
-  id: z.string().transform(val => {
-    const num = parseInt(val);
-    if (isNaN(num)) throw new Error("Invalid ID");
-    return num;
-  })
-});
-
 /** POST /api/furnitures */
-export const createFurniture = async (req: Request, res: Response, next: NextFunction) => {
+export const createFurniture = async (req: any, res: Response, next: NextFunction) => {
   try {
-    const validatedData = createFurnitureSchema.parse(req.body);
+    // Body is validated by middleware
+    const { images, attributes, ...furnitureData } = req.body;
 
     // Check if category exists
     const category = await prisma.category.findUnique({
-      where: { id: validatedData.categoryId }
+      where: { id: furnitureData.categoryId }
     });
     if (!category) throw new ApiError(400, "Category not found");
 
     // Check if SKU already exists
     const existingSku = await prisma.furniture.findUnique({
-      where: { sku: validatedData.sku }
+      where: { sku: furnitureData.sku }
     });
     if (existingSku) throw new ApiError(400, "SKU already exists");
 
-    const { images, ...furnitureData } = validatedData;
-
-    const furniture = await prisma.furniture.create({
-      data: {
-        ...furnitureData,
-        images: images ? {
-          create: images
-        } : undefined
-      },
-      include: {
-        images: true,
-        category: {
-          select: {
-            name: true
+    const furniture = await prisma.$transaction(async (tx) => {
+      const created = await tx.furniture.create({
+        data: {
+          ...furnitureData,
+          images: images ? {
+            create: images.map((url: string) => ({ url }))
+          } : undefined,
+          // Every product starts with one variant; more can be added under /variants
+          variants: {
+            create: {
+              sku: furnitureData.sku,
+              price: furnitureData.price,
+              widthCm: furnitureData.widthCm,
+              heightCm: furnitureData.heightCm,
+              depthCm: furnitureData.depthCm,
+              stockQuantity: furnitureData.stockQuantity ?? 0,
+              isDefault: true
+            }
           }
+        },
+        include: { variants: true }
+      });
+      await recordInitialPrice(tx, created.variants[0], { source: "MANUAL", changedById: req.user.id });
+      // Also enforces the category's required attributes
+      await saveProductAttributes(tx, created.id, created.categoryId, attributes);
+
+      return tx.furniture.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          images: { orderBy: IMAGE_ORDER },
+          category: {
+            select: {
+              name: true
+            }
+          },
+          attributeValues: SPECIFICATIONS_INCLUDE
         }
-      }
+      });
     });
 
-    return success(res, furniture, 201);
+    const { attributeValues, ...created } = furniture;
+    return success(res, { ...created, specifications: toSpecifications(attributeValues) }, 201);
   } catch (err) {
-    if (err instanceof z.ZodError) {
-      return next(new ApiError(400, "Invalid furniture data", convertZodErrors(err.errors)));
-    }
     next(err);
   }
 };
 
 /** PUT /api/furnitures/:id */
-export const updateFurniture = async (req: Request, res: Response, next: NextFunction) => {
+export const updateFurniture = async (req: any, res: Response, next: NextFunction) => {
   try {
-    const { id } = furnitureIdSchema.parse(req.params);
-    const validatedData = updateFurnitureSchema.parse(req.body);
+    // ID parameter and body are validated by middleware
+    const { id } = req.params as any;
+    const validatedData = req.body;
 
     // Check if furniture exists
     const existingFurniture = await prisma.furniture.findUnique({
       where: { id }
     });
     if (!existingFurniture) throw new ApiError(404, "Furniture not found");
+    if (validatedData.status && existingFurniture.status === "ARCHIVED") {
+      throw ApiError.badRequest("Restore archived furniture before changing its status", [], "FURNITURE_ARCHIVED");
+    }
 
     // Check if category exists (if provided)
     if (validatedData.categoryId) {
@@ -277,73 +266,110 @@ export const updateFurniture = async (req: Request, res: Response, next: NextFun
       if (existingSku) throw new ApiError(400, "SKU already exists");
     }
 
-    const { images, ...furnitureData } = validatedData;
+    const { images, attributes, sku, price, widthCm, heightCm, depthCm, stockQuantity, ...furnitureData } = validatedData;
 
-    const furniture = await prisma.furniture.update({
-      where: { id },
-      data: {
-        ...furnitureData,
-        ...(images && {
-          images: {
-            deleteMany: {},
-            create: images
-          }
-        })
-      },
-      include: {
-        images: true,
-        category: {
-          select: {
-            name: true
-          }
+    const furniture = await prisma.$transaction(async (tx) => {
+      // Sku, price, size and stock belong to the default variant; the product columns are copied back from it
+      const defaultVariant = await tx.variant.findFirst({ where: { furnitureId: id, isDefault: true } });
+      await tx.variant.updateMany({
+        where: { furnitureId: id, isDefault: true },
+        data: { sku, price, widthCm, heightCm, depthCm, stockQuantity }
+      });
+      if (defaultVariant) {
+        await recordPriceChange(tx, defaultVariant, price, { source: "MANUAL", changedById: req.user.id });
+      }
+
+      await tx.furniture.update({
+        where: { id },
+        data: {
+          ...furnitureData,
+          ...(images && {
+            images: {
+              // Photos of single variants are managed with the variant, and uploaded ones under /images
+              deleteMany: { variantId: null, renditions: { equals: Prisma.DbNull } },
+              create: images.map((url: string) => ({ url }))
+            }
+          })
         }
+      });
+      await syncFurnitureFromVariants(tx, id);
+
+      // Moving to another category drops values the new category doesn't define
+      if (attributes || (furnitureData.categoryId && furnitureData.categoryId !== existingFurniture.categoryId)) {
+        await saveProductAttributes(tx, id, furnitureData.categoryId ?? existingFurniture.categoryId, attributes);
       }
+
+      return tx.furniture.findUniqueOrThrow({
+        where: { id },
+        include: {
+          images: { orderBy: IMAGE_ORDER },
+          category: {
+            select: {
+              name: true
+            }
+          },
+          attributeValues: SPECIFICATIONS_INCLUDE
+        }
+      });
     });
 
-    return success(res, furniture);
+    const { attributeValues, ...updated } = furniture;
+    return success(res, { ...updated, specifications: toSpecifications(attributeValues) });
   } catch (err) {
-    if (err instanceof z.ZodError) {
-      return next(new ApiError(400, "Invalid furniture data", convertZodErrors(err.errors)));
-    }
     next(err);
   }
 };
 
-/** DELETE /api/furnitures/:id */
+/**
+ * DELETE /api/furnitures/:id
+ * Archives rather than deletes, so orders, reviews and price history keep their product
+ */
 export const deleteFurniture = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { id } = furnitureIdSchema.parse(req.params);
+    const { id } = req.params as any;
 
-    // Check if furniture exists
-    const existingFurniture = await prisma.furniture.findUnique({
-      where: { id },
-      include: {
-        orderItems: true
-      }
-    });
+    const existingFurniture = await prisma.furniture.findUnique({ where: { id } });
     if (!existingFurniture) throw new ApiError(404, "Furniture not found");
 
-    // Check if furniture is referenced in any orders
-    if (existingFurniture.orderItems.length > 0) {
-      throw new ApiError(400, "Cannot delete furniture that has been ordered");
+    if (existingFurniture.status !== "ARCHIVED") {
+      await prisma.$transaction([
+        prisma.furniture.update({ where: { id }, data: { status: "ARCHIVED", archivedAt: new Date() } }),
+        // It can't be bought any more, so it shouldn't sit in anyone's cart
+        prisma.cartItem.deleteMany({ where: { furnitureId: id } })
+      ]);
     }
 
-    await prisma.furniture.delete({
-      where: { id }
+    return success(res, { message: "Furniture archived successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/furnitures/:id/restore */
+export const restoreFurniture = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+
+    const existingFurniture = await prisma.furniture.findUnique({ where: { id } });
+    if (!existingFurniture) throw new ApiError(404, "Furniture not found");
+    if (existingFurniture.status !== "ARCHIVED") {
+      throw ApiError.badRequest("Furniture is not archived", [], "FURNITURE_NOT_ARCHIVED");
+    }
+
+    const furniture = await prisma.furniture.update({
+      where: { id },
+      data: { status: req.body.status, archivedAt: null }
     });
 
-    return success(res, { message: "Furniture deleted successfully" });
+    return success(res, furniture);
   } catch (err) {
-    if (err instanceof z.ZodError) {
-      return next(new ApiError(400, "Invalid furniture ID"));
-    }
     next(err);
   }
 };
 
 export const getRecommendations = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { id } = furnitureIdSchema.parse(req.params);
+    const { id } = req.params as any;
 
     // Find the current furniture item to get its categoryId
     const current = await prisma.furniture.findUnique({
@@ -359,7 +385,8 @@ export const getRecommendations = async (req: Request, res: Response, next: Next
     const recommended = await prisma.furniture.findMany({
       where: {
         categoryId: current.categoryId,
-        id: { not: id }
+        id: { not: id },
+        ...LISTED_FURNITURE
       },
       include: {
         reviews: {
@@ -389,24 +416,23 @@ export const getRecommendations = async (req: Request, res: Response, next: Next
 
     return success(res, recommendedWithRatings);
   } catch (err) {
-    if (err instanceof z.ZodError) {
-      return next(new ApiError(400, "Invalid furniture ID"));
-    }
     next(err);
   }
 };
-/** G
-ET /api/furnitures/categories */
+
+/** GET /api/furnitures/categories */
 export const getCategories = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const categories = await prisma.category.findMany({
       select: {
         id: true,
         name: true,
+        slug: true,
         description: true,
+        parentId: true,
         _count: {
           select: {
-            furniture: true
+            furniture: { where: LISTED_FURNITURE }
           }
         }
       },
@@ -415,7 +441,29 @@ export const getCategories = async (req: Request, res: Response, next: NextFunct
       }
     });
 
-    return success(res, categories);
+    // Top-level categories with their subcategories nested under `children`
+    return success(res, buildCategoryTree(categories));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/furnitures/categories */
+export const createCategory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { slug, parentId, ...data } = req.body;
+
+    if (parentId) {
+      const parent = await prisma.category.findUnique({ where: { id: parentId }, select: { id: true } });
+      if (!parent) throw ApiError.notFound("Parent category not found", "CATEGORY_NOT_FOUND");
+    }
+
+    // A taken slug or a duplicate name under the same parent is rejected as a 409 by the error handler
+    const category = await prisma.category.create({
+      data: { ...data, parentId, slug: slug || slugify(data.name) }
+    });
+
+    return success(res, { ...category, categoryPath: await getCategoryPath(category.id) }, 201);
   } catch (err) {
     next(err);
   }
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { IMAGE_ORDER, Renditions, deleteImageRenditions, storeImageRenditions } from "../utils/images";
+
+// Loads an image and makes sure it belongs to the product in the URL
+const findProductImage = async (furnitureId: number, imageId: number) => {
+  const image = await prisma.image.findUnique({ where: { id: imageId } });
+  if (!image || image.furnitureId !== furnitureId) {
+    throw ApiError.notFound("Image not found", "IMAGE_NOT_FOUND");
+  }
+  return image;
+};
+
+/** POST /api/furnitures/:id/images (multipart, files in `images`) */
+export const uploadImages = async (req: Request, res: Response, next: NextFunction) => {
+  const stored: Renditions[] = [];
+  try {
+    const { id } = req.params as any;
+    const { altText, variantId } = req.body;
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    if (files.length === 0) {
+      throw ApiError.badRequest("No images were uploaded", [{ field: "images", message: "At least one file is required" }], "NO_FILES");
+    }
+
+    const furniture = await prisma.furniture.findUnique({ where: { id }, select: { id: true } });
+    if (!furniture) throw ApiError.notFound("Furniture not found", "FURNITURE_NOT_FOUND");
+
+    if (variantId) {
+      const variant = await prisma.variant.findUnique({ where: { id: variantId }, select: { furnitureId: true } });
+      if (!variant || variant.furnitureId !== id) throw ApiError.notFound("Variant not found", "VARIANT_NOT_FOUND");
+    }
+
+    // One at a time: resizing holds every rendition in memory
+    for (const file of files) {
+      stored.push(await storeImageRenditions(id, file.buffer));
+    }
+
+    const images = await prisma.$transaction(async (tx) => {
+      // New photos go after the existing ones
+      const last = await tx.image.aggregate({ where: { furnitureId: id }, _max: { sortOrder: true } });
+      const firstPosition = (last._max.sortOrder ?? -1) + 1;
+
+      return Promise.all(stored.map((renditions, index) => tx.image.create({
+        data: {
+          furnitureId: id,
+          variantId,
+          url: renditions.large.url,
+          altText,
+          sortOrder: firstPosition + index,
+          renditions
+        }
+      })));
+    });
+
+    return success(res, images, 201);
+  } catch (err) {
+    // Don't leave files behind for images that were never saved
+    await Promise.all(stored.map(deleteImageRenditions)).catch(console.error);
+    next(err);
+  }
+};
+
+/** PATCH /api/furnitures/:id/images/:imageId */
+export const updateImage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, imageId } = req.params as any;
+    const { altText, sortOrder } = req.body;
+
+    await findProductImage(id, imageId);
+
+    const image = await prisma.$transaction(async (tx) => {
+      if (sortOrder !== undefined) {
+        // Move the image to the requested position and renumber the rest so positions stay unique
+        const others = await tx.image.findMany({
+          where: { furnitureId: id, id: { not: imageId } },
+          orderBy: IMAGE_ORDER,
+          select: { id: true }
+        });
+        const ordered = others.map(other => other.id);
+        ordered.splice(Math.min(sortOrder, ordered.length), 0, imageId);
+
+        await Promise.all(ordered.map((orderedId, position) =>
+          tx.image.update({ where: { id: orderedId }, data: { sortOrder: position } })
+        ));
+      }
+
+      return tx.image.update({
+        where: { id: imageId },
+        data: { ...(altText !== undefined && { altText }) }
+      });
+    });
+
+    return success(res, image);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/furnitures/:id/images/:imageId */
+export const deleteImage = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, imageId } = req.params as any;
+
+    const image = await findProductImage(id, imageId);
+    await prisma.image.delete({ where: { id: imageId } });
+
+    // The row is gone either way; a file that can't be removed is only logged
+    await deleteImageRenditions(image.renditions).catch(console.error);
+
+    return success(res, { message: "Image deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
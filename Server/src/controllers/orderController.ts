@@ -4,23 +4,36 @@ import { success } from "../utils/response";
 import { ApiError } from "../utils/errors";
 import { z } from "zod";
 import { OrderStatus } from "@prisma/client";
+import { isStaffOrAdmin } from "../middleware/authMiddleware";
+import { reserveStock } from "../utils/inventory";
+import { recordStatusChange, transitionOrderStatus } from "../utils/orderStatus";
+import { refundOrderPayments, voidOpenPayments } from "../payments/service";
+import { resolveShippingAddress } from "../utils/address";
+import { lineQuantitySchema, shippingAddressSchema } from "../utils/validation";
+import { assertOrderAccess } from "../utils/orderAccess";
+import { QuoteLine, quoteOrder, toQuoteLine } from "../utils/pricing";
+import { resolveVariants } from "../utils/variants";
+import { assertPurchasable } from "../utils/furnitureStatus";
+
+// Status changes may wait on the payment provider for refunds
+const STATUS_CHANGE_TIMEOUT_MS = 30 * 1000;
 
 // Validation schemas
 const createOrderSchema = z.object({
   items: z.array(z.object({
     furnitureId: z.number().int().positive("Furniture ID must be a positive integer"),
-    quantity: z.number().int().positive("Quantity must be a positive integer")
+    variantId: z.number().int().positive("Variant ID must be a positive integer").optional(),
+    quantity: lineQuantitySchema
   })).min(1, "Order must contain at least one item"),
-  guestInfo: z.object({
-    email: z.string().email("Invalid email format"),
-    name: z.string().optional()
-  }).optional()
+  addressId: z.number().int().positive().optional(),
+  shippingAddress: shippingAddressSchema.optional()
 });
 
 const updateOrderStatusSchema = z.object({
   status: z.nativeEnum(OrderStatus, {
-    errorMap: () => ({ message: "Status must be PENDING, COMPLETED, or CANCELLED" })
-  })
+    errorMap: () => ({ message: `Status must be one of ${Object.values(OrderStatus).join(', ')}` })
+  }),
+  note: z.string().trim().max(500, "Note must be 500 characters or fewer").optional()
 });
 
 const orderIdSchema = z.object({
@@ -47,6 +60,8 @@ const getUserOrdersSchema = z.object({
 
 interface OrderItemData {
   furnitureId: number;
+  variantId: number;
+  variantLabel: string | null;
   quantity: number;
   unitPrice: number;
 }
@@ -57,64 +72,41 @@ export const createOrder = async (req: any, res: Response, next: NextFunction) =
   try {
     // Validate request data
     const validatedData = createOrderSchema.parse(req.body);
-    const { items, guestInfo } = validatedData;
-
-    // Determine user ID from auth middleware or request body
-    let finalUserId: number | undefined = req.user?.id;
-    
-    // If no authenticated user but guestInfo is available, handle guest checkout
-    if (!finalUserId && !guestInfo) {
-      throw new ApiError(400, "Either authentication or guest information must be provided");
-    }
+    const { items, addressId, shippingAddress: typedAddress } = validatedData;
 
-    // If userId is provided, verify user exists (this should always be true if auth middleware worked)
-    if (finalUserId) {
-      const user = await prisma.user.findUnique({
-        where: { id: finalUserId }
-      });
-      if (!user) {
-        throw new ApiError(404, "User not found");
-      }
-    }
+    // The route requires a signed-in user; guests check out through /api/checkout/guest, which takes payment up front
+    const finalUserId: number = req.user.id;
 
-    // Fetch all furniture items to validate and get prices
-    const furnitureIds = items.map(item => item.furnitureId);
-    const furnitureList = await prisma.furniture.findMany({
-      where: { id: { in: furnitureIds } }
-    });
+    const shippingAddress = await resolveShippingAddress(finalUserId, { addressId, shippingAddress: typedAddress });
 
-    if (furnitureList.length !== furnitureIds.length) {
-      const foundIds = furnitureList.map(f => f.id);
-      const missingIds = furnitureIds.filter(id => !foundIds.includes(id));
-      throw new ApiError(404, `Furniture items not found: ${missingIds.join(', ')}`);
-    }
+    // Resolve each item to its variant (or the product's default) to get prices, tax and shipping
+    const variants = await resolveVariants(items);
+    assertPurchasable(variants);
+    const lines: QuoteLine[] = variants.map((variant, index) => toQuoteLine(variant, items[index].quantity));
+    const orderItemsData: OrderItemData[] = lines.map(({ furnitureId, variantId, variantLabel, quantity, unitPrice }) => ({
+      furnitureId,
+      variantId,
+      variantLabel,
+      quantity,
+      unitPrice
+    }));
 
-    const furnitureMap = new Map(furnitureList.map(f => [f.id, f]));
-
-    // Calculate total amount and prepare order items
-    let totalAmount = 0;
-    const orderItemsData: OrderItemData[] = [];
-
-    for (const item of items) {
-      const furniture = furnitureMap.get(item.furnitureId)!;
-      const unitPrice = Number(furniture.price);
-      const itemTotal = unitPrice * item.quantity;
-      
-      totalAmount += itemTotal;
-      orderItemsData.push({
-        furnitureId: item.furnitureId,
-        quantity: item.quantity,
-        unitPrice: unitPrice
-      });
-    }
+    const quote = await quoteOrder(lines, { destinationState: shippingAddress?.state });
 
-    // Create order with items in a transaction
+    // Reserve stock and create order with items in a transaction
     const order = await prisma.$transaction(async (tx) => {
+      await reserveStock(tx, orderItemsData);
+
       const newOrder = await tx.order.create({
         data: {
           userId: finalUserId,
-          totalAmount: totalAmount,
-          status: 'PENDING',
+          subtotal: quote.subtotal,
+          taxTotal: quote.taxTotal,
+          taxLines: quote.taxes.map(tax => ({ ...tax })),
+          shippingTotal: quote.shippingTotal,
+          totalAmount: quote.total,
+          status: 'PENDING_PAYMENT',
+          shippingAddress,
           items: {
             create: orderItemsData
           }
@@ -146,16 +138,21 @@ export const createOrder = async (req: any, res: Response, next: NextFunction) =
         }
       });
 
+      await recordStatusChange(tx, {
+        orderId: newOrder.id,
+        fromStatus: null,
+        toStatus: newOrder.status,
+        changedById: finalUserId
+      });
+
       // If this was a cart-based order, clear the user's cart
-      if (finalUserId) {
-        await tx.cartItem.deleteMany({
-          where: {
-            cart: {
-              userId: finalUserId
-            }
+      await tx.cartItem.deleteMany({
+        where: {
+          cart: {
+            userId: finalUserId
           }
-        });
-      }
+        }
+      });
 
       return newOrder;
     });
@@ -201,6 +198,15 @@ export const getOrder = async (req: any, res: Response, next: NextFunction) => {
                   }
                 }
               }
+            },
+            // Null once the variant has been removed; variantLabel on the item still names it
+            variant: {
+              select: {
+                sku: true,
+                widthCm: true,
+                heightCm: true,
+                depthCm: true
+              }
             }
           }
         },
@@ -210,16 +216,46 @@ export const getOrder = async (req: any, res: Response, next: NextFunction) => {
             name: true,
             email: true
           }
+        },
+        discounts: {
+          select: {
+            code: true,
+            description: true,
+            amount: true
+          }
+        },
+        payments: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            id: true,
+            status: true,
+            method: true,
+            amount: true,
+            refundedAmount: true,
+            currency: true,
+            cardBrand: true,
+            cardLast4: true,
+            failureMessage: true,
+            createdAt: true
+          }
+        },
+        statusHistory: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            changedBy: {
+              select: {
+                name: true,
+                role: true
+              }
+            }
+          }
         }
       }
     });
 
     if (!order) throw new ApiError(404, "Order not found");
 
-    // If user is authenticated, check if they own this order
-    if (req.user && order.userId && order.userId !== req.user.id) {
-      throw new ApiError(403, "Access denied");
-    }
+    assertOrderAccess(req, order);
 
     return success(res, order);
   } catch (err) {
@@ -231,48 +267,62 @@ export const getOrder = async (req: any, res: Response, next: NextFunction) => {
 };
 
 /** PATCH /api/orders/:id/status */
-export const updateOrderStatus = async (req: Request, res: Response, next: NextFunction) => {
+export const updateOrderStatus = async (req: any, res: Response, next: NextFunction) => {
   try {
     const { id } = orderIdSchema.parse(req.params);
-    const { status } = updateOrderStatusSchema.parse(req.body);
+    const { status, note } = updateOrderStatusSchema.parse(req.body);
 
     // Check if order exists
     const existingOrder = await prisma.order.findUnique({
-      where: { id }
+      where: { id },
+      include: { items: true }
     });
     if (!existingOrder) throw new ApiError(404, "Order not found");
 
-    // Validate status transition
-    if (existingOrder.status === 'COMPLETED' && status !== 'COMPLETED') {
-      throw new ApiError(400, "Cannot change status of completed order");
-    }
-    if (existingOrder.status === 'CANCELLED' && status !== 'CANCELLED') {
-      throw new ApiError(400, "Cannot change status of cancelled order");
-    }
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      await transitionOrderStatus(tx, {
+        orderId: id,
+        fromStatus: existingOrder.status,
+        toStatus: status,
+        items: existingOrder.items,
+        changedById: req.user?.id,
+        note
+      });
 
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: { status },
-      include: {
-        items: {
-          include: {
-            furniture: {
-              select: {
-                name: true,
-                price: true
+      // A payment challenge the customer hasn't finished must not be able to charge a cancelled order
+      if (status === 'CANCELLED') {
+        await voidOpenPayments(tx, id, "order_cancelled", "Order was cancelled");
+      }
+
+      // Refund once the transition has gone through; a failed refund throws and rolls it back.
+      // Refunds already made are saved outside this transaction, so a retry doesn't repeat them.
+      if (status === 'CANCELLED' || status === 'REFUNDED') {
+        await refundOrderPayments(id);
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: {
+            include: {
+              furniture: {
+                select: {
+                  name: true,
+                  price: true
+                }
               }
             }
-          }
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+          },
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
           }
         }
-      }
-    });
+      });
+    }, { timeout: STATUS_CHANGE_TIMEOUT_MS });
 
     return success(res, updatedOrder);
   } catch (err) {
@@ -289,8 +339,8 @@ export const getUserOrders = async (req: any, res: Response, next: NextFunction)
     const userId = parseInt(req.params.userId);
     if (isNaN(userId)) throw new ApiError(400, "Invalid user ID");
 
-    // Check if authenticated user is requesting their own orders
-    if (req.user.id !== userId) {
+    // Check if authenticated user is requesting their own orders (staff can view any user's orders)
+    if (req.user.id !== userId && !isStaffOrAdmin(req.user)) {
       throw new ApiError(403, "Access denied");
     }
 
@@ -0,0 +1,117 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { getPaymentProvider, isMockPaymentsEnabled, mockPaymentProvider } from "../payments";
+import { applyWebhookEvent, cancelPayment, confirmPayment, toPublicPayment } from "../payments/service";
+import { assertOrderAccess } from "../utils/orderAccess";
+
+const paymentIdSchema = z.object({
+  id: z.coerce.number().int().positive("Invalid payment ID")
+});
+
+const mockCardSchema = z.object({
+  cardNumber: z.string().regex(/^[\d ]{13,23}$/, "Card number must contain 13-19 digits"),
+  expiryMonth: z.coerce.number().int().min(1).max(12),
+  expiryYear: z.coerce.number().int().min(2000).max(2100),
+  cvv: z.string().regex(/^\d{3,4}$/, "CVV must be 3 or 4 digits"),
+  cardholderName: z.string().trim().min(1, "Cardholder name is required")
+});
+
+const mockChallengeSchema = z.object({
+  code: z.string().trim().min(1, "Challenge code is required")
+});
+
+// Loads a payment the caller may act on: their own order, any order for staff, or a guest order via its lookup token
+const findAccessiblePayment = async (req: any, id: number) => {
+  const payment = await prisma.payment.findUnique({
+    where: { id },
+    include: { order: { select: { id: true, userId: true, guestEmail: true } } }
+  });
+  if (!payment) throw ApiError.notFound("Payment not found");
+
+  assertOrderAccess(req, payment.order);
+
+  const { order, ...rest } = payment;
+  return rest;
+};
+
+/** GET /api/payments/:id */
+export const getPayment = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id } = paymentIdSchema.parse(req.params);
+    const payment = await findAccessiblePayment(req, id);
+    return success(res, toPublicPayment(payment));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/payments/:id/confirm */
+export const confirmPaymentAction = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id } = paymentIdSchema.parse(req.params);
+    const payment = await findAccessiblePayment(req, id);
+
+    const outcome = await confirmPayment(payment, req.user?.id);
+    return success(res, { payment: toPublicPayment(outcome.payment), nextAction: outcome.nextAction });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/payments/:id/cancel */
+export const cancelPaymentAction = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id } = paymentIdSchema.parse(req.params);
+    const payment = await findAccessiblePayment(req, id);
+
+    const cancelled = await cancelPayment(payment);
+    return success(res, toPublicPayment(cancelled));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/payments/webhooks/:provider */
+export const handleWebhook = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    const rawBody: Buffer = req.rawBody || Buffer.from(JSON.stringify(req.body ?? {}));
+
+    const event = provider.verifyWebhook(rawBody, req.headers);
+    if (!event) throw ApiError.unauthorized("Invalid webhook signature", "INVALID_SIGNATURE");
+
+    const payment = await applyWebhookEvent(provider.name, event);
+    return success(res, { received: true, paymentId: payment?.id ?? null });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/payments/mock/tokens */
+export const createMockToken = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    if (!isMockPaymentsEnabled()) throw ApiError.notFound("Mock payments are disabled");
+
+    const card = mockCardSchema.parse(req.body);
+    const token = mockPaymentProvider.tokenizeCard(card);
+    return success(res, token, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/payments/mock/challenges/:challengeId */
+export const completeMockChallenge = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    if (!isMockPaymentsEnabled()) throw ApiError.notFound("Mock payments are disabled");
+
+    const { code } = mockChallengeSchema.parse(req.body);
+    const result = mockPaymentProvider.completeChallenge(req.params.challengeId, code);
+    return success(res, result);
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { resolveVariant } from "../utils/variants";
+import { cancelScheduledPrice, schedulePriceChange } from "../utils/priceHistory";
+
+/** GET /api/furnitures/:id/price-history */
+export const listPriceHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+    const { variantId, limit } = req.query as any;
+
+    const history = await prisma.priceHistory.findMany({
+      where: { furnitureId: id, ...(variantId && { variantId }) },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit,
+      include: { changedBy: { select: { id: true, name: true, email: true } } }
+    });
+    return success(res, history);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** GET /api/furnitures/:id/scheduled-prices */
+export const listScheduledPrices = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+
+    const schedules = await prisma.scheduledPrice.findMany({
+      where: { furnitureId: id },
+      orderBy: [{ startsAt: "desc" }, { id: "desc" }]
+    });
+    return success(res, schedules);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/furnitures/:id/scheduled-prices */
+export const createScheduledPrice = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+    const { variantId, ...change } = req.body;
+
+    const variant = await resolveVariant(id, variantId);
+    const schedule = await schedulePriceChange(variant, change);
+
+    return success(res, schedule, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/furnitures/:id/scheduled-prices/:scheduleId */
+export const deleteScheduledPrice = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, scheduleId } = req.params as any;
+
+    const schedule = await prisma.scheduledPrice.findUnique({ where: { id: scheduleId } });
+    if (!schedule || schedule.furnitureId !== id) {
+      throw ApiError.notFound("Scheduled price not found", "SCHEDULE_NOT_FOUND");
+    }
+
+    // Kept as CANCELLED so the history rows that point at it still make sense
+    return success(res, await cancelScheduledPrice(schedule));
+  } catch (err) {
+    next(err);
+  }
+};
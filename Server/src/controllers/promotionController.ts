@@ -0,0 +1,66 @@
+import { Response, NextFunction } from "express";
+import { z } from "zod";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { checkPromotionRules } from "../utils/validation";
+
+const promotionIdSchema = z.object({
+  id: z.coerce.number().int().positive("Invalid promotion ID")
+});
+
+const promotionListQuerySchema = z.object({
+  active: z.enum(["true", "false"]).optional()
+});
+
+/** GET /api/promotions */
+export const listPromotions = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { active } = promotionListQuerySchema.parse(req.query);
+
+    const promotions = await prisma.promotion.findMany({
+      where: active ? { isActive: active === "true" } : undefined,
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+    return success(res, promotions);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/promotions */
+export const createPromotion = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    // Body is validated by createPromotionSchema in the route
+    const promotion = await prisma.promotion.create({ data: req.body });
+    return success(res, promotion, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PATCH /api/promotions/:id */
+export const updatePromotion = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id } = promotionIdSchema.parse(req.params);
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) throw ApiError.notFound("Promotion not found", "PROMOTION_NOT_FOUND");
+
+    // Cross-field rules apply to the promotion as it will be after the update
+    z.any().superRefine(checkPromotionRules).parse({
+      type: existing.type,
+      value: Number(existing.value),
+      buyQuantity: existing.buyQuantity,
+      getQuantity: existing.getQuantity,
+      startsAt: existing.startsAt,
+      endsAt: existing.endsAt,
+      ...req.body
+    });
+
+    const promotion = await prisma.promotion.update({ where: { id }, data: req.body });
+    return success(res, promotion);
+  } catch (err) {
+    next(err);
+  }
+};
@@ -1,8 +1,18 @@
-import { Request, Response, NextFunction } from "express";
+import { Response, NextFunction } from "express";
 import { prisma } from "../prisma";
+import { AuthRequest, isStaffOrAdmin } from "../middleware/authMiddleware";
 import { success } from "../utils/response";
 import { ApiError, ValidationError } from "../utils/errors";
 import { z } from "zod";
+import { RecommendationSurface } from "@prisma/client";
+import { PURCHASED_ORDER_STATUSES } from "../utils/orderStatus";
+import { LISTED_FURNITURE } from "../utils/furnitureStatus";
+import { findSimilarItems } from "../utils/itemSimilarity";
+import { rankBySimilarity } from "../utils/contentSimilarity";
+import { SPECIFICATIONS_INCLUDE, toSpecifications } from "../utils/attributes";
+import { getContentSimilarityWeights } from "../config/recommendations";
+import { assignVariant, describeAssignment } from "../utils/experiments";
+import { USER_RECOMMENDATION_STRATEGIES } from "../utils/validation";
 
 // Helper function to convert Zod errors to ValidationError format
 const convertZodErrors = (zodErrors: z.ZodIssue[]): ValidationError[] => {
@@ -30,13 +40,28 @@ const categoryIdSchema = z.object({
   })
 });
 
+// A saved item says less about what a shopper wants than one they paid for
+const SAVED_ITEM_WEIGHT = 0.5;
+
+const similarQuerySchema = z.object({
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
+  explain: z.enum(['true', 'false']).optional().transform(val => val === 'true')
+});
+
+// "Frequently bought together" shows a few items at most
+const MAX_BUNDLE_ITEMS = 5;
+
+const bundleQuerySchema = z.object({
+  limit: z.string().optional().transform(val => val ? parseInt(val) : 3)
+});
+
 const recommendationQuerySchema = z.object({
   limit: z.string().optional().transform(val => val ? parseInt(val) : 10),
   excludeId: z.string().optional().transform(val => val ? parseInt(val) : undefined)
 });
 
 /** GET /api/recommendations/user/:userId */
-export const getUserRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+export const getUserRecommendations = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { userId } = userIdSchema.parse(req.params);
     const { limit, excludeId } = recommendationQuerySchema.parse(req.query);
@@ -44,6 +69,11 @@ export const getUserRecommendations = async (req: Request, res: Response, next:
     // Validate limit
     if (limit < 1 || limit > 50) throw new ApiError(400, "Limit must be between 1 and 50");
 
+    // Picks come from the user's orders and wishlists, so only they (or staff) may see them
+    if (req.user.id !== userId && !isStaffOrAdmin(req.user)) {
+      throw ApiError.forbidden("You can only view your own recommendations");
+    }
+
     // Check if user exists
     const user = await prisma.user.findUnique({
       where: { id: userId }
@@ -55,7 +85,7 @@ export const getUserRecommendations = async (req: Request, res: Response, next:
       where: {
         order: {
           userId: userId,
-          status: 'COMPLETED'
+          status: { in: PURCHASED_ORDER_STATUSES }
         }
       },
       include: {
@@ -67,37 +97,77 @@ export const getUserRecommendations = async (req: Request, res: Response, next:
       }
     });
 
+    // Saved items show interest too; they count towards category preferences like purchases do
+    const wishlistItems = await prisma.wishlistItem.findMany({
+      where: { wishlist: { userId } },
+      include: {
+        furniture: {
+          select: {
+            categoryId: true
+          }
+        }
+      }
+    });
+    // Already saved, so there is no point recommending them back
+    const savedIds = [...new Set(wishlistItems.map(item => item.furnitureId))];
+
+    const purchasedIds = [...new Set(userOrders.map(item => item.furnitureId))];
+
+    // An experiment may change which strategies fill the list, or their order
+    const assignment = await assignVariant(RecommendationSurface.USER, req);
+    const strategies = assignment?.config.strategies ?? USER_RECOMMENDATION_STRATEGIES;
+
+    // Every item is tagged with the strategy that found it
     let recommendations: any[] = [];
 
-    if (userOrders.length > 0) {
-      // User has purchase history - use collaborative filtering
-      recommendations = await getCollaborativeRecommendations(userId, limit, excludeId);
-      
-      // If not enough recommendations, supplement with category-based
-      if (recommendations.length < limit) {
+    for (const strategy of strategies) {
+      if (recommendations.length >= limit) break;
+      const remaining = limit - recommendations.length;
+      const excludeIds = [...recommendations.map(r => r.id), ...savedIds];
+
+      if (strategy === 'collaborative' && (purchasedIds.length > 0 || savedIds.length > 0)) {
+        // Items bought alongside what the user bought or saved
+        const seeds = new Map<number, number>(savedIds.map(id => [id, SAVED_ITEM_WEIGHT]));
+        purchasedIds.forEach(id => seeds.set(id, 1));
+        recommendations = [
+          ...recommendations,
+          ...await getCollaborativeRecommendations(seeds, remaining, excludeId, excludeIds)
+        ];
+      }
+
+      if (strategy === 'category-based' && (userOrders.length > 0 || wishlistItems.length > 0)) {
         const categoryRecommendations = await getCategoryBasedRecommendations(
-          userOrders, 
-          limit - recommendations.length, 
+          [...userOrders, ...wishlistItems],
+          remaining,
           excludeId,
-          recommendations.map(r => r.id)
+          excludeIds
         );
-        recommendations = [...recommendations, ...categoryRecommendations];
+        // Without orders the categories come from the wishlist alone
+        const categoryAlgorithm = userOrders.length > 0 ? 'category-based' : 'wishlist';
+        recommendations = [
+          ...recommendations,
+          ...categoryRecommendations.map(item => ({ ...item, algorithm: categoryAlgorithm }))
+        ];
       }
-    }
 
-    // If still not enough recommendations, add popular items
-    if (recommendations.length < limit) {
-      const popularRecommendations = await getPopularRecommendationsHelper(
-        limit - recommendations.length,
-        excludeId,
-        recommendations.map(r => r.id)
-      );
-      recommendations = [...recommendations, ...popularRecommendations];
+      if (strategy === 'popular') {
+        const popularRecommendations = await getPopularRecommendationsHelper(remaining, excludeId, excludeIds);
+        recommendations = [
+          ...recommendations,
+          ...popularRecommendations.map(item => ({ ...item, algorithm: 'popular' }))
+        ];
+      }
     }
 
+    recommendations = recommendations.slice(0, limit);
+    // One strategy's name when it produced everything, otherwise the list is a mix
+    const algorithms = [...new Set(recommendations.map(item => item.algorithm))];
+    const algorithm = algorithms.length === 1 ? algorithms[0] : algorithms.length === 0 ? 'popular' : 'hybrid';
+
     return success(res, {
-      recommendations: recommendations.slice(0, limit),
-      algorithm: userOrders.length > 0 ? 'hybrid' : 'popular'
+      recommendations,
+      algorithm,
+      experiment: describeAssignment(assignment)
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -108,18 +178,20 @@ export const getUserRecommendations = async (req: Request, res: Response, next:
 };
 
 /** GET /api/recommendations/popular */
-export const getPopularItems = async (req: Request, res: Response, next: NextFunction) => {
+export const getPopularItems = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { limit, excludeId } = recommendationQuerySchema.parse(req.query);
 
     // Validate limit
     if (limit < 1 || limit > 50) throw new ApiError(400, "Limit must be between 1 and 50");
 
+    const assignment = await assignVariant(RecommendationSurface.POPULAR, req);
     const recommendations = await getPopularRecommendationsHelper(limit, excludeId);
 
     return success(res, {
       recommendations,
-      algorithm: 'popular'
+      algorithm: 'popular',
+      experiment: describeAssignment(assignment)
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -130,7 +202,7 @@ export const getPopularItems = async (req: Request, res: Response, next: NextFun
 };
 
 /** GET /api/recommendations/category/:categoryId */
-export const getCategoryRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+export const getCategoryRecommendations = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { categoryId } = categoryIdSchema.parse(req.params);
     const { limit, excludeId } = recommendationQuerySchema.parse(req.query);
@@ -144,7 +216,7 @@ export const getCategoryRecommendations = async (req: Request, res: Response, ne
     });
     if (!category) throw new ApiError(404, "Category not found");
 
-    const where: any = { categoryId };
+    const where: any = { categoryId, ...LISTED_FURNITURE };
     if (excludeId) {
       where.id = { not: excludeId };
     }
@@ -189,7 +261,8 @@ export const getCategoryRecommendations = async (req: Request, res: Response, ne
 
     return success(res, {
       recommendations: recommendationsWithRatings,
-      algorithm: 'category-based'
+      algorithm: 'category-based',
+      experiment: describeAssignment(await assignVariant(RecommendationSurface.CATEGORY, req))
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -199,13 +272,13 @@ export const getCategoryRecommendations = async (req: Request, res: Response, ne
   }
 };
 
-/** GET /api/recommendations/similar/:furnitureId */
-export const getSimilarRecommendations = async (req: Request, res: Response, next: NextFunction) => {
+/** GET /api/recommendations/similar/:furnitureId?explain=true */
+export const getSimilarRecommendations = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const furnitureId = parseInt(req.params.furnitureId);
     if (isNaN(furnitureId)) throw new ApiError(400, "Invalid furniture ID");
 
-    const { limit } = recommendationQuerySchema.parse(req.query);
+    const { limit, explain } = similarQuerySchema.parse(req.query);
 
     // Validate limit
     if (limit < 1 || limit > 50) throw new ApiError(400, "Limit must be between 1 and 50");
@@ -213,27 +286,20 @@ export const getSimilarRecommendations = async (req: Request, res: Response, nex
     // Get the current furniture item
     const currentFurniture = await prisma.furniture.findUnique({
       where: { id: furnitureId },
-      select: {
-        categoryId: true,
-        price: true
+      include: {
+        reviews: { select: { rating: true } },
+        attributeValues: SPECIFICATIONS_INCLUDE
       }
     });
 
     if (!currentFurniture) throw new ApiError(404, "Furniture not found");
 
-    // Find similar items in the same category with similar price range
-    const priceRange = Number(currentFurniture.price) * 0.3; // 30% price range
-    const minPrice = Number(currentFurniture.price) - priceRange;
-    const maxPrice = Number(currentFurniture.price) + priceRange;
-
-    const recommendations = await prisma.furniture.findMany({
+    // Products in the same category share a spec sheet, so every signal can be compared
+    const candidates = await prisma.furniture.findMany({
       where: {
         categoryId: currentFurniture.categoryId,
         id: { not: furnitureId },
-        price: {
-          gte: minPrice,
-          lte: maxPrice
-        }
+        ...LISTED_FURNITURE
       },
       include: {
         images: true,
@@ -246,34 +312,128 @@ export const getSimilarRecommendations = async (req: Request, res: Response, nex
           select: {
             name: true
           }
+        },
+        attributeValues: SPECIFICATIONS_INCLUDE
+      }
+    });
+
+    const toContentProduct = (item: typeof currentFurniture) => ({
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      price: Number(item.price),
+      widthCm: Number(item.widthCm),
+      heightCm: Number(item.heightCm),
+      depthCm: Number(item.depthCm),
+      averageRating: item.reviews.length > 0
+        ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length
+        : null,
+      specifications: toSpecifications(item.attributeValues)
+    });
+
+    // An experiment may try other weights; anything it leaves out keeps the configured value
+    const assignment = await assignVariant(RecommendationSurface.SIMILAR, req);
+    const ranked = rankBySimilarity(
+      toContentProduct(currentFurniture),
+      candidates.map(toContentProduct),
+      { ...getContentSimilarityWeights(), ...assignment?.config.weights }
+    ).slice(0, limit);
+
+    const byId = new Map(candidates.map(item => [item.id, item]));
+    const recommendations = ranked.map(({ id, score, explanation }) => {
+      const { attributeValues, ...item } = byId.get(id)!;
+      return {
+        ...item,
+        averageRating: item.reviews.length > 0 
+          ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length 
+          : null,
+        reviewCount: item.reviews.length,
+        reviews: undefined,
+        similarityScore: score,
+        ...(explain && { explanation })
+      };
+    });
+
+    return success(res, {
+      recommendations,
+      algorithm: 'content-based',
+      experiment: describeAssignment(assignment)
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return next(new ApiError(400, "Invalid request parameters", convertZodErrors(err.errors)));
+    }
+    next(err);
+  }
+};
+
+/** GET /api/recommendations/bundle/:furnitureId */
+export const getBundleRecommendations = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const furnitureId = parseInt(req.params.furnitureId);
+    if (isNaN(furnitureId)) throw new ApiError(400, "Invalid furniture ID");
+
+    const { limit } = bundleQuerySchema.parse(req.query);
+    if (isNaN(limit) || limit < 1 || limit > MAX_BUNDLE_ITEMS) {
+      throw new ApiError(400, `Limit must be between 1 and ${MAX_BUNDLE_ITEMS}`);
+    }
+
+    const currentFurniture = await prisma.furniture.findFirst({
+      where: { id: furnitureId, ...LISTED_FURNITURE },
+      select: { id: true, categoryId: true }
+    });
+    if (!currentFurniture) throw new ApiError(404, "Furniture not found");
+
+    // Bought in the same orders but from another category, so a sofa brings a coffee table rather than
+    // another sofa. The whole bundle goes into the cart with default variants, so those must be in stock.
+    const matches = await prisma.itemSimilarity.findMany({
+      where: {
+        furnitureId,
+        coPurchases: { gt: 0 },
+        similarFurniture: {
+          ...LISTED_FURNITURE,
+          categoryId: { not: currentFurniture.categoryId },
+          variants: { some: { isDefault: true, stockQuantity: { gt: 0 } } }
         }
       },
-      orderBy: [
-        {
-          reviews: {
-            _count: 'desc'
+      include: {
+        similarFurniture: {
+          include: {
+            images: true,
+            reviews: {
+              select: {
+                rating: true
+              }
+            },
+            category: {
+              select: {
+                name: true
+              }
+            }
           }
-        },
-        {
-          createdAt: 'desc'
         }
+      },
+      orderBy: [
+        { score: 'desc' },
+        { coPurchases: 'desc' }
       ],
       take: limit
     });
 
-    // Add average ratings
-    const recommendationsWithRatings = recommendations.map(item => ({
+    const recommendations = matches.map(({ similarFurniture: item, coPurchases }) => ({
       ...item,
       averageRating: item.reviews.length > 0 
         ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length 
         : null,
       reviewCount: item.reviews.length,
-      reviews: undefined
+      reviews: undefined,
+      coPurchases
     }));
 
     return success(res, {
-      recommendations: recommendationsWithRatings,
-      algorithm: 'content-based'
+      recommendations,
+      algorithm: 'bundle',
+      experiment: describeAssignment(await assignVariant(RecommendationSurface.BUNDLE, req))
     });
   } catch (err) {
     if (err instanceof z.ZodError) {
@@ -283,44 +443,22 @@ export const getSimilarRecommendations = async (req: Request, res: Response, nex
   }
 };
 
-// Helper function for collaborative filtering - optimized version
+// Helper function for collaborative filtering, from the precomputed item similarity table
 async function getCollaborativeRecommendations(
-  userId: number, 
+  seeds: Map<number, number>,
   limit: number, 
-  excludeId?: number
+  excludeId?: number,
+  excludeIds: number[] = []
 ): Promise<any[]> {
-  // Simplified approach - get furniture from same categories as user's purchases
-  const userOrders = await prisma.orderItem.findMany({
-    where: {
-      order: {
-        userId: userId,
-        status: 'COMPLETED'
-      }
-    },
-    include: {
-      furniture: {
-        select: {
-          categoryId: true
-        }
-      }
-    }
-  });
-
-  if (userOrders.length === 0) {
+  const similar = await findSimilarItems(seeds, excludeId ? [...excludeIds, excludeId] : excludeIds);
+  if (similar.length === 0) {
     return [];
   }
 
-  // Get unique category IDs from user's purchases
-  const categoryIds = [...new Set(userOrders.map(order => order.furniture.categoryId))];
-  
-  // Get furniture from those categories that user hasn't purchased
-  const purchasedFurnitureIds = userOrders.map(order => order.furnitureId);
-  const excludeIds = excludeId ? [...purchasedFurnitureIds, excludeId] : purchasedFurnitureIds;
-  
   const result = await prisma.furniture.findMany({
     where: {
-      categoryId: { in: categoryIds },
-      id: { notIn: excludeIds }
+      id: { in: similar.map(item => item.furnitureId) },
+      ...LISTED_FURNITURE
     },
     include: {
       images: true,
@@ -334,29 +472,27 @@ async function getCollaborativeRecommendations(
           name: true
         }
       }
-    },
-    orderBy: [
-      {
-        reviews: {
-          _count: 'desc'
-        }
-      },
-      {
-        createdAt: 'desc'
-      }
-    ],
-    take: limit
+    }
   });
 
-  // Add average ratings
-  return result.map(item => ({
-    ...item,
-    averageRating: item.reviews.length > 0 
-      ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length 
-      : null,
-    reviewCount: item.reviews.length,
-    reviews: undefined
-  }));
+  // Best match first; unlisted products were left out above
+  const byId = new Map(result.map(item => [item.id, item]));
+  return similar
+    .filter(({ furnitureId }) => byId.has(furnitureId))
+    .slice(0, limit)
+    .map(({ furnitureId, score }) => {
+      const item = byId.get(furnitureId)!;
+      return {
+        ...item,
+        averageRating: item.reviews.length > 0 
+          ? item.reviews.reduce((sum, review) => sum + review.rating, 0) / item.reviews.length 
+          : null,
+        reviewCount: item.reviews.length,
+        reviews: undefined,
+        similarityScore: Math.round(score * 10000) / 10000,
+        algorithm: 'collaborative'
+      };
+    });
 }
 
 // Helper function for category-based recommendations
@@ -383,7 +519,8 @@ async function getCategoryBasedRecommendations(
 
   const where: any = {
     categoryId: { in: preferredCategories },
-    id: { notIn: excludeIds }
+    id: { notIn: excludeIds },
+    ...LISTED_FURNITURE
   };
 
   if (excludeId) {
@@ -439,7 +576,8 @@ async function getPopularRecommendationsHelper(
   // Simplified approach for popular items
   const result = await prisma.furniture.findMany({
     where: {
-      id: { notIn: excludeList }
+      id: { notIn: excludeList },
+      ...LISTED_FURNITURE
     },
     include: {
       images: true,
@@ -73,7 +73,7 @@ export const createReview = async (req: Request, res: Response, next: NextFuncti
         furnitureId: furnitureId,
         order: {
           userId: userId,
-          status: 'COMPLETED'
+          status: 'DELIVERED'
         }
       }
     });
@@ -371,7 +371,7 @@ export const canUserReview = async (req: Request, res: Response, next: NextFunct
         furnitureId: furnitureId,
         order: {
           userId: userId,
-          status: 'COMPLETED'
+          status: 'DELIVERED'
         }
       }
     });
@@ -0,0 +1,223 @@
+import { Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { checkRoomLayout, LayoutItem } from "../utils/roomLayout";
+import { IMAGE_ORDER } from "../utils/images";
+
+const placementFurnitureSelect = {
+  id: true,
+  name: true,
+  price: true,
+  widthCm: true,
+  heightCm: true,
+  depthCm: true,
+  images: { take: 1, orderBy: IMAGE_ORDER, select: { url: true } }
+} satisfies Prisma.FurnitureSelect;
+
+const placementVariantSelect = {
+  id: true,
+  colour: true,
+  material: true,
+  size: true,
+  price: true,
+  widthCm: true,
+  heightCm: true,
+  depthCm: true
+} satisfies Prisma.VariantSelect;
+
+const roomInclude = {
+  placements: {
+    include: { furniture: { select: placementFurnitureSelect }, variant: { select: placementVariantSelect } },
+    orderBy: { id: 'asc' }
+  }
+} satisfies Prisma.RoomInclude;
+
+type RoomWithPlacements = Prisma.RoomGetPayload<{ include: typeof roomInclude }>;
+
+type PlacementInput = { furnitureId: number; variantId?: number | null; xCm: number; yCm: number; rotation: number };
+type PlacementSize = { widthCm: Prisma.Decimal; heightCm: Prisma.Decimal; depthCm: Prisma.Decimal };
+type PlacementFurniture = PlacementSize & { name: string };
+
+const parseRoomId = (value: string) => {
+  const id = parseInt(value);
+  if (isNaN(id) || id < 1) throw ApiError.badRequest("Invalid room ID");
+  return id;
+};
+
+// Loads a room and makes sure it belongs to the current user
+const findOwnRoom = async (userId: number, id: number) => {
+  const room = await prisma.room.findUnique({ where: { id }, include: roomInclude });
+  if (!room || room.userId !== userId) {
+    throw ApiError.notFound("Room not found", "ROOM_NOT_FOUND");
+  }
+  return room;
+};
+
+// A chosen variant has its own size; otherwise the product's, which is its default variant's
+const toLayoutItem = (
+  key: number,
+  placement: PlacementInput,
+  furniture: PlacementFurniture,
+  variant?: PlacementSize | null
+): LayoutItem => {
+  const size = variant ?? furniture;
+  return {
+    key,
+    name: furniture.name,
+    xCm: placement.xCm,
+    yCm: placement.yCm,
+    rotation: placement.rotation,
+    widthCm: Number(size.widthCm),
+    depthCm: Number(size.depthCm),
+    heightCm: Number(size.heightCm)
+  };
+};
+
+// Rooms always go out with their current warnings so the planner never shows a stale check
+const withWarnings = (room: RoomWithPlacements) => ({
+  ...room,
+  warnings: checkRoomLayout(
+    { widthCm: Number(room.widthCm), depthCm: Number(room.depthCm), heightCm: room.heightCm === null ? null : Number(room.heightCm) },
+    room.placements.map(p =>
+      toLayoutItem(p.id, { furnitureId: p.furnitureId, xCm: Number(p.xCm), yCm: Number(p.yCm), rotation: p.rotation }, p.furniture, p.variant)
+    )
+  )
+});
+
+const findPlacementFurniture = async (placements: PlacementInput[]) => {
+  const furnitureIds = [...new Set(placements.map(p => p.furnitureId))];
+  const furnitureList = await prisma.furniture.findMany({
+    where: { id: { in: furnitureIds } },
+    select: { id: true, name: true, widthCm: true, heightCm: true, depthCm: true }
+  });
+
+  if (furnitureList.length !== furnitureIds.length) {
+    const foundIds = furnitureList.map(f => f.id);
+    const missingIds = furnitureIds.filter(id => !foundIds.includes(id));
+    throw ApiError.notFound(`Furniture items not found: ${missingIds.join(', ')}`, "FURNITURE_NOT_FOUND");
+  }
+
+  const variantIds = [...new Set(placements.flatMap(p => p.variantId ? [p.variantId] : []))];
+  const variantList = variantIds.length > 0
+    ? await prisma.variant.findMany({
+        where: { id: { in: variantIds } },
+        select: { id: true, furnitureId: true, widthCm: true, heightCm: true, depthCm: true }
+      })
+    : [];
+  const variants = new Map(variantList.map(v => [v.id, v]));
+
+  const mismatched = placements.filter(p => p.variantId && variants.get(p.variantId)?.furnitureId !== p.furnitureId);
+  if (mismatched.length > 0) {
+    const labels = mismatched.map(p => `${p.furnitureId} (variant ${p.variantId})`);
+    throw ApiError.notFound(`Furniture items not found: ${[...new Set(labels)].join(', ')}`, "FURNITURE_NOT_FOUND");
+  }
+
+  return { furniture: new Map(furnitureList.map(f => [f.id, f])), variants };
+};
+
+/** GET /api/rooms */
+export const listRooms = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const rooms = await prisma.room.findMany({
+      where: { userId: req.user.id },
+      include: { _count: { select: { placements: true } } },
+      orderBy: { updatedAt: 'desc' }
+    });
+    return success(res, rooms);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/rooms */
+export const createRoom = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    // Body is validated by createRoomSchema in the route
+    const room = await prisma.room.create({
+      data: { ...req.body, userId: req.user.id },
+      include: roomInclude
+    });
+    return success(res, withWarnings(room), 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** GET /api/rooms/:id */
+export const getRoom = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const room = await findOwnRoom(req.user.id, parseRoomId(req.params.id));
+    return success(res, withWarnings(room));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PATCH /api/rooms/:id */
+export const updateRoom = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseRoomId(req.params.id);
+    await findOwnRoom(req.user.id, id);
+
+    const room = await prisma.room.update({ where: { id }, data: req.body, include: roomInclude });
+    return success(res, withWarnings(room));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PUT /api/rooms/:id/placements */
+export const saveRoomLayout = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseRoomId(req.params.id);
+    await findOwnRoom(req.user.id, id);
+
+    const placements: PlacementInput[] = req.body.placements;
+    await findPlacementFurniture(placements);
+
+    // The planner always sends the whole layout, so it replaces what was saved
+    const room = await prisma.$transaction(async (tx) => {
+      await tx.roomPlacement.deleteMany({ where: { roomId: id } });
+      return tx.room.update({
+        where: { id },
+        data: { placements: { create: placements } },
+        include: roomInclude
+      });
+    });
+
+    return success(res, withWarnings(room));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/rooms/:id */
+export const deleteRoom = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseRoomId(req.params.id);
+    await findOwnRoom(req.user.id, id);
+
+    await prisma.room.delete({ where: { id } });
+    return success(res, { message: "Room deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/rooms/check */
+export const checkLayout = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { placements, ...room } = req.body;
+    const { furniture, variants } = await findPlacementFurniture(placements);
+
+    const items = (placements as PlacementInput[]).map((placement, index) =>
+      toLayoutItem(index, placement, furniture.get(placement.furnitureId)!, placement.variantId ? variants.get(placement.variantId) : null)
+    );
+
+    return success(res, { warnings: checkRoomLayout(room, items) });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -0,0 +1,26 @@
+import { Response, NextFunction } from "express";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { getSearchSuggestions } from "../utils/search";
+
+/** GET /api/furnitures/suggest */
+export const suggestSearches = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { q, limit } = req.query;
+
+    const suggestions = await getSearchSuggestions(q, limit, req.user?.id ?? null);
+    return success(res, suggestions);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/users/me/recent-searches */
+export const clearRecentSearches = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    await prisma.recentSearch.deleteMany({ where: { userId: req.user.id } });
+    return success(res, { message: "Recent searches cleared" });
+  } catch (err) {
+    next(err);
+  }
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { success } from "../utils/response";
 import { ApiError } from "../utils/errors";
 import { dataIntegrityValidator } from "../utils/dataIntegrityValidator";
+import { slugify } from "../utils/categories";
 import { prisma } from "../prisma";
 
 /** GET /api/system/health */
@@ -84,8 +85,8 @@ export const getSystemStats = async (req: Request, res: Response, next: NextFunc
       prisma.review.count(),
       prisma.cart.count(),
       prisma.image.count(),
-      prisma.order.count({ where: { status: 'COMPLETED' } }),
-      prisma.order.count({ where: { status: 'PENDING' } }),
+      prisma.order.count({ where: { status: 'DELIVERED' } }),
+      prisma.order.count({ where: { status: { in: ['PENDING_PAYMENT', 'PAID', 'PROCESSING', 'SHIPPED'] } } }),
       prisma.order.count({ where: { status: 'CANCELLED' } })
     ]);
     
@@ -282,7 +283,7 @@ export const seedTestData = async (req: Request, res: Response, next: NextFuncti
       
       if (!existingCategory) {
         const category = await prisma.category.create({
-          data: categoryData
+          data: { ...categoryData, slug: slugify(categoryData.name) }
         });
         createdCategories.push(category);
       }
@@ -298,6 +299,7 @@ export const seedTestData = async (req: Request, res: Response, next: NextFuncti
         widthCm: 60,
         heightCm: 120,
         depthCm: 60,
+        stockQuantity: 25,
         categoryName: 'Chairs'
       },
       {
@@ -308,6 +310,7 @@ export const seedTestData = async (req: Request, res: Response, next: NextFuncti
         widthCm: 150,
         heightCm: 75,
         depthCm: 90,
+        stockQuantity: 10,
         categoryName: 'Tables'
       }
     ];
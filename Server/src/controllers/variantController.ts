@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { syncFurnitureFromVariants } from "../utils/variants";
+import { recordInitialPrice, recordPriceChange } from "../utils/priceHistory";
+
+// Loads a variant and makes sure it belongs to the product in the URL
+const findProductVariant = async (tx: Prisma.TransactionClient, furnitureId: number, variantId: number) => {
+  const variant = await tx.variant.findUnique({ where: { id: variantId } });
+  if (!variant || variant.furnitureId !== furnitureId) {
+    throw ApiError.notFound("Variant not found", "VARIANT_NOT_FOUND");
+  }
+  return variant;
+};
+
+// Only one variant per product is the default
+const clearDefault = (tx: Prisma.TransactionClient, furnitureId: number) =>
+  tx.variant.updateMany({ where: { furnitureId, isDefault: true }, data: { isDefault: false } });
+
+/** GET /api/furnitures/:id/variants */
+export const listVariants = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+
+    const variants = await prisma.variant.findMany({
+      where: { furnitureId: id },
+      include: { images: true },
+      orderBy: [{ isDefault: 'desc' }, { id: 'asc' }]
+    });
+    return success(res, variants);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/furnitures/:id/variants */
+export const createVariant = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params as any;
+    const { images, isDefault, ...data } = req.body;
+
+    const furniture = await prisma.furniture.findUnique({ where: { id }, select: { id: true } });
+    if (!furniture) throw ApiError.notFound("Furniture not found", "FURNITURE_NOT_FOUND");
+
+    // A duplicate sku is rejected as a 409 by the error handler
+    const variant = await prisma.$transaction(async (tx) => {
+      if (isDefault) await clearDefault(tx, id);
+
+      const created = await tx.variant.create({
+        data: {
+          ...data,
+          furnitureId: id,
+          isDefault: !!isDefault,
+          images: images ? { create: images.map((url: string) => ({ url, furnitureId: id })) } : undefined
+        }
+      });
+      await recordInitialPrice(tx, created, { source: "MANUAL", changedById: req.user.id });
+      await syncFurnitureFromVariants(tx, id);
+
+      return tx.variant.findUniqueOrThrow({ where: { id: created.id }, include: { images: true } });
+    });
+
+    return success(res, variant, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PATCH /api/furnitures/:id/variants/:variantId */
+export const updateVariant = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const { id, variantId } = req.params as any;
+    const { images, isDefault, ...data } = req.body;
+
+    const variant = await prisma.$transaction(async (tx) => {
+      const existing = await findProductVariant(tx, id, variantId);
+      // Unsetting the only default is ignored; pick another variant as default instead
+      if (isDefault && !existing.isDefault) await clearDefault(tx, id);
+
+      await tx.variant.update({
+        where: { id: variantId },
+        data: {
+          ...data,
+          ...(isDefault && { isDefault: true }),
+          ...(images && {
+            images: {
+              deleteMany: {},
+              create: images.map((url: string) => ({ url, furnitureId: id }))
+            }
+          })
+        }
+      });
+      await recordPriceChange(tx, existing, data.price, { source: "MANUAL", changedById: req.user.id });
+      await syncFurnitureFromVariants(tx, id);
+
+      return tx.variant.findUniqueOrThrow({ where: { id: variantId }, include: { images: true } });
+    });
+
+    return success(res, variant);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/furnitures/:id/variants/:variantId */
+export const deleteVariant = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, variantId } = req.params as any;
+
+    await prisma.$transaction(async (tx) => {
+      await findProductVariant(tx, id, variantId);
+
+      const count = await tx.variant.count({ where: { furnitureId: id } });
+      if (count <= 1) {
+        throw ApiError.badRequest("A product needs at least one variant; to take it off sale, have an admin archive the product instead", [], "LAST_VARIANT");
+      }
+
+      // Carts drop the variant; past orders keep their label and price
+      await tx.variant.delete({ where: { id: variantId } });
+      await syncFurnitureFromVariants(tx, id);
+    });
+
+    return success(res, { message: "Variant deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
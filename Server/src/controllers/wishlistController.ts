@@ -0,0 +1,199 @@
+import { Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { success } from "../utils/response";
+import { ApiError } from "../utils/errors";
+import { addItemToCart } from "../utils/cart";
+import { IMAGE_ORDER } from "../utils/images";
+import { LISTED_FURNITURE } from "../utils/furnitureStatus";
+
+// Created on demand the first time a product is hearted without any list to put it in
+const DEFAULT_WISHLIST_NAME = "My Wishlist";
+
+const wishlistInclude = {
+  items: {
+    include: {
+      furniture: {
+        include: {
+          images: { take: 1, orderBy: IMAGE_ORDER },
+          category: { select: { name: true } }
+        }
+      }
+    },
+    orderBy: { createdAt: 'desc' }
+  }
+} satisfies Prisma.WishlistInclude;
+
+const parseId = (value: string, label: string) => {
+  const id = parseInt(value);
+  if (isNaN(id) || id < 1) throw ApiError.badRequest(`Invalid ${label} ID`);
+  return id;
+};
+
+// Loads a wishlist and makes sure it belongs to the current user
+const findOwnWishlist = async (userId: number, id: number) => {
+  const wishlist = await prisma.wishlist.findUnique({ where: { id } });
+  if (!wishlist || wishlist.userId !== userId) {
+    throw ApiError.notFound("Wishlist not found", "WISHLIST_NOT_FOUND");
+  }
+  return wishlist;
+};
+
+// Drafts and archived products can't be saved; ones already saved stay on the list
+const assertFurnitureExists = async (furnitureId: number) => {
+  const furniture = await prisma.furniture.findFirst({ where: { id: furnitureId, ...LISTED_FURNITURE }, select: { id: true } });
+  if (!furniture) throw ApiError.notFound("Furniture not found", "FURNITURE_NOT_FOUND");
+};
+
+// The user's oldest list, or a fresh default one
+const getDefaultWishlist = async (userId: number) => {
+  const existing = await prisma.wishlist.findFirst({ where: { userId }, orderBy: { createdAt: 'asc' } });
+  if (existing) return existing;
+
+  return prisma.wishlist.upsert({
+    where: { userId_name: { userId, name: DEFAULT_WISHLIST_NAME } },
+    update: {},
+    create: { userId, name: DEFAULT_WISHLIST_NAME }
+  });
+};
+
+/** GET /api/wishlists */
+export const listWishlists = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const wishlists = await prisma.wishlist.findMany({
+      where: { userId: req.user.id },
+      include: wishlistInclude,
+      orderBy: { createdAt: 'asc' }
+    });
+    return success(res, wishlists);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/wishlists */
+export const createWishlist = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    // Names are unique per user; a duplicate is rejected as a 409 by the error handler
+    const wishlist = await prisma.wishlist.create({
+      data: { userId: req.user.id, name: req.body.name },
+      include: wishlistInclude
+    });
+    return success(res, wishlist, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** PATCH /api/wishlists/:id */
+export const renameWishlist = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id, "wishlist");
+    await findOwnWishlist(req.user.id, id);
+
+    const wishlist = await prisma.wishlist.update({
+      where: { id },
+      data: { name: req.body.name },
+      include: wishlistInclude
+    });
+    return success(res, wishlist);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/wishlists/:id */
+export const deleteWishlist = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id, "wishlist");
+    await findOwnWishlist(req.user.id, id);
+
+    await prisma.wishlist.delete({ where: { id } });
+    return success(res, { message: "Wishlist deleted successfully" });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/wishlists/:id/items */
+export const addWishlistItem = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id, "wishlist");
+    const { furnitureId } = req.body;
+    await findOwnWishlist(req.user.id, id);
+    await assertFurnitureExists(furnitureId);
+
+    // Saving an item twice is harmless
+    const item = await prisma.wishlistItem.upsert({
+      where: { wishlistId_furnitureId: { wishlistId: id, furnitureId } },
+      update: {},
+      create: { wishlistId: id, furnitureId }
+    });
+    return success(res, item, 201);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** DELETE /api/wishlists/:id/items/:furnitureId */
+export const removeWishlistItem = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const id = parseId(req.params.id, "wishlist");
+    const furnitureId = parseId(req.params.furnitureId, "furniture");
+    await findOwnWishlist(req.user.id, id);
+
+    const { count } = await prisma.wishlistItem.deleteMany({ where: { wishlistId: id, furnitureId } });
+    if (count === 0) throw ApiError.notFound("Item is not in this wishlist", "WISHLIST_ITEM_NOT_FOUND");
+
+    return success(res, { message: "Item removed from wishlist" });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/wishlists/:id/items/:furnitureId/move-to-cart */
+export const moveWishlistItemToCart = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const id = parseId(req.params.id, "wishlist");
+    const furnitureId = parseId(req.params.furnitureId, "furniture");
+    await findOwnWishlist(userId, id);
+
+    const saved = await prisma.wishlistItem.findUnique({
+      where: { wishlistId_furnitureId: { wishlistId: id, furnitureId } }
+    });
+    if (!saved) throw ApiError.notFound("Item is not in this wishlist", "WISHLIST_ITEM_NOT_FOUND");
+
+    // Same stock checks as adding from the product page; the item stays saved if the cart rejects it
+    const { item } = await addItemToCart(userId, furnitureId, req.body.quantity);
+    await prisma.wishlistItem.delete({ where: { id: saved.id } });
+
+    return success(res, item);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/** POST /api/wishlists/toggle */
+export const toggleWishlistItem = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user.id;
+    const { furnitureId } = req.body;
+
+    // A filled heart means "saved in any list", so un-hearting removes it everywhere
+    const { count } = await prisma.wishlistItem.deleteMany({
+      where: { furnitureId, wishlist: { userId } }
+    });
+    if (count > 0) {
+      return success(res, { furnitureId, saved: false });
+    }
+
+    await assertFurnitureExists(furnitureId);
+    const wishlist = await getDefaultWishlist(userId);
+    await prisma.wishlistItem.create({ data: { wishlistId: wishlist.id, furnitureId } });
+
+    return success(res, { furnitureId, saved: true, wishlistId: wishlist.id });
+  } catch (err) {
+    next(err);
+  }
+};
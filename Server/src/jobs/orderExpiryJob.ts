@@ -0,0 +1,30 @@
+/**
+ * Background job that cancels orders left unpaid, returning the stock they reserved. Started by
+ * server.ts with the other jobs.
+ */
+import { expireUnpaidOrders } from "../payments/service";
+
+// How long an order may wait for payment (including a 3-D Secure challenge) before it is cancelled
+const unpaidOrderTimeoutMs = () => Number(process.env.UNPAID_ORDER_TIMEOUT_MS ?? 30 * 60_000);
+
+export const startOrderExpiryJob = (intervalMs = Number(process.env.ORDER_EXPIRY_INTERVAL_MS ?? 60_000)) => {
+  // 0 turns the job off, e.g. when another server runs it
+  if (!intervalMs) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const expired = await expireUnpaidOrders(new Date(Date.now() - unpaidOrderTimeoutMs()));
+      if (expired) console.log(`Unpaid orders cancelled: ${expired}`);
+    } catch (err) {
+      console.error("Failed to cancel unpaid orders:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+};
@@ -0,0 +1,29 @@
+/**
+ * Background job that applies scheduled price changes. Started by server.ts, so importing the
+ * app (e.g. in scripts) doesn't start it.
+ */
+import { applyDuePriceChanges } from "../utils/priceHistory";
+
+export const startPriceScheduler = (intervalMs = Number(process.env.PRICE_SCHEDULER_INTERVAL_MS ?? 60_000)) => {
+  // 0 turns the job off, e.g. when another server runs it
+  if (!intervalMs) return;
+
+  let running = false;
+  const run = async () => {
+    // A slow run is not overlapped by the next tick
+    if (running) return;
+    running = true;
+    try {
+      const { started, ended } = await applyDuePriceChanges();
+      if (started || ended) console.log(`Scheduled prices: ${started} started, ${ended} ended`);
+    } catch (err) {
+      console.error("Failed to apply scheduled prices:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  // Doesn't keep the process alive on its own
+  setInterval(run, intervalMs).unref();
+};
@@ -0,0 +1,27 @@
+/**
+ * Background job that rebuilds item-to-item similarity from orders, carts and wishlists. Started
+ * by server.ts alongside the price scheduler.
+ */
+import { rebuildItemSimilarity } from "../utils/itemSimilarity";
+
+export const startSimilarityJob = (intervalMs = Number(process.env.SIMILARITY_REBUILD_INTERVAL_MS ?? 6 * 60 * 60_000)) => {
+  // 0 turns the job off, e.g. when another server runs it
+  if (!intervalMs) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const written = await rebuildItemSimilarity();
+      console.log(`Item similarity rebuilt: ${written} pairs`);
+    } catch (err) {
+      console.error("Failed to rebuild item similarity:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { verifyJwt } from "../utils/jwt";
 import { prisma } from "../prisma";
 import { ApiError } from "../utils/errors";
+import { UserRole } from "@prisma/client";
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -29,7 +30,7 @@ export const authMiddleware = async (req: AuthRequest, res: Response, next: Next
       return res.status(401).json({ success: false, error: { code: "USER_NOT_FOUND", message: "User not found" } });
     }
     
-    req.user = { id: user.id, email: user.email, name: user.name };
+    req.user = { id: user.id, email: user.email, name: user.name, role: user.role };
     next();
   } catch (err: any) {
     if (err.name === 'TokenExpiredError') {
@@ -69,7 +70,7 @@ export const optionalAuthMiddleware = async (req: AuthRequest, res: Response, ne
       return next();
     }
     
-    req.user = { id: user.id, email: user.email, name: user.name };
+    req.user = { id: user.id, email: user.email, name: user.name, role: user.role };
     next();
   } catch (err: any) {
     // If token is invalid or expired, just continue without user
@@ -77,3 +78,21 @@ export const optionalAuthMiddleware = async (req: AuthRequest, res: Response, ne
     next();
   }
 };
+
+// Role guard - must run after authMiddleware so req.user is populated
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: { code: "MISSING_TOKEN", message: "Authorization token required" } });
+    }
+
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ success: false, error: { code: "INSUFFICIENT_ROLE", message: "You do not have permission to perform this action" } });
+    }
+
+    next();
+  };
+};
+
+export const isStaffOrAdmin = (user?: { role?: UserRole } | null) =>
+  user?.role === UserRole.STAFF || user?.role === UserRole.ADMIN;
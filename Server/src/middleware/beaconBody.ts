@@ -0,0 +1,20 @@
+import { NextFunction, Response } from "express";
+import bodyParser from "body-parser";
+import { ApiError } from "../utils/errors";
+
+/**
+ * navigator.sendBeacon can only post cross-origin with a simple content type, so the storefront
+ * sends JSON as text/plain when a page is closing; read it like any other JSON body
+ */
+export const beaconBody = [
+  bodyParser.text({ type: "text/plain", limit: "100kb" }),
+  (req: any, _res: Response, next: NextFunction) => {
+    if (typeof req.body !== "string") return next();
+    try {
+      req.body = JSON.parse(req.body);
+      next();
+    } catch {
+      next(ApiError.badRequest("Body is not valid JSON", [], "INVALID_JSON"));
+    }
+  }
+];
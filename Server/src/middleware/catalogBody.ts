@@ -0,0 +1,10 @@
+import bodyParser from "body-parser";
+
+// Path skipped by the app-wide JSON parser, so the import route can read the body itself
+export const CATALOG_IMPORT_PATH = "/api/furnitures/import";
+
+/**
+ * Catalog imports (CSV or JSON) can be far larger than a normal request and are parsed by the
+ * import handler. Mount it after the auth and role checks so only admins get a 10 MB buffer.
+ */
+export const catalogBody = bodyParser.text({ type: ["text/csv", "application/json"], limit: "10mb" });
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from "express";
 import { ApiError } from "../utils/errors";
 import { ZodError } from "zod";
 import { Prisma } from "@prisma/client";
+import { MulterError } from "multer";
 
 export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
   // Log error details for debugging
@@ -20,7 +21,7 @@ export const errorHandler = (err: any, req: Request, res: Response, next: NextFu
       success: false,
       error: {
         message: err.message,
-        code: err.statusCode.toString(),
+        code: err.code || err.statusCode.toString(),
         ...(err.errors.length > 0 && { details: { validationErrors: err.errors } })
       }
     });
@@ -133,6 +134,18 @@ export const errorHandler = (err: any, req: Request, res: Response, next: NextFu
     });
   }
 
+  // Too many files, unexpected field names and the like
+  if (err instanceof MulterError) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        message: err.message,
+        code: "UPLOAD_ERROR",
+        field: err.field
+      }
+    });
+  }
+
   // Handle syntax errors in JSON
   if (err instanceof SyntaxError && 'body' in err) {
     return res.status(400).json({
@@ -0,0 +1,33 @@
+import { NextFunction, Request, Response } from "express";
+import { ApiError } from "../utils/errors";
+
+/**
+ * Fixed-window request limit per client IP, kept in this process's memory. Enough to stop one
+ * client looping over a route; behind a proxy, set Express's "trust proxy" so req.ip is the client.
+ */
+export const rateLimit = ({ windowMs, max }: { windowMs: number; max: number }) => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Forget finished windows so the map doesn't grow with every client ever seen
+  setInterval(() => {
+    const now = Date.now();
+    hits.forEach((hit, key) => { if (hit.resetAt <= now) hits.delete(key); });
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.ip ?? "unknown";
+    const now = Date.now();
+    const hit = hits.get(key);
+
+    if (!hit || hit.resetAt <= now) {
+      hits.set(key, { count: 1, resetAt: now + windowMs });
+      return next();
+    }
+
+    if (++hit.count > max) {
+      res.setHeader("Retry-After", Math.ceil((hit.resetAt - now) / 1000));
+      return next(new ApiError(429, "Too many requests, please try again later", [], "RATE_LIMITED"));
+    }
+    next();
+  };
+};
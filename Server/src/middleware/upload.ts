@@ -0,0 +1,17 @@
+import multer from "multer";
+import { ApiError } from "../utils/errors";
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGE_BYTES, MAX_IMAGES_PER_UPLOAD } from "../utils/images";
+
+// Photos are kept in memory only long enough to be resized; the originals are never stored
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_IMAGES_PER_UPLOAD },
+  fileFilter: (_req, file, cb) => {
+    if (ACCEPTED_IMAGE_TYPES.includes(file.mimetype)) return cb(null, true);
+    cb(ApiError.badRequest(
+      `${file.originalname} is not a supported image; use ${ACCEPTED_IMAGE_TYPES.join(", ")}`,
+      [{ field: file.fieldname, message: "Unsupported file type" }],
+      "UNSUPPORTED_IMAGE_TYPE"
+    ));
+  }
+});
@@ -0,0 +1,24 @@
+/**
+ * Payment provider registry. PAYMENT_PROVIDER selects the active gateway (defaults to "mock").
+ */
+import { ApiError } from "../utils/errors";
+import { MockPaymentProvider } from "./mockProvider";
+import { PaymentProvider } from "./types";
+
+export * from "./types";
+
+export const mockPaymentProvider = new MockPaymentProvider();
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider
+};
+
+export const getPaymentProvider = (name = process.env.PAYMENT_PROVIDER || "mock"): PaymentProvider => {
+  const provider = providers[name];
+  if (!provider) {
+    throw ApiError.notFound(`Payment provider "${name}" is not configured`, "PAYMENT_PROVIDER_NOT_FOUND");
+  }
+  return provider;
+};
+
+export const isMockPaymentsEnabled = () => getPaymentProvider().name === mockPaymentProvider.name;
@@ -0,0 +1,261 @@
+/**
+ * In-memory payment gateway for local development and offline testing.
+ *
+ * Behaviour is chosen by the test card number at tokenization time:
+ *   ...3220  -> 3-D Secure style challenge (code 123456 passes, anything else fails)
+ *   ...0002  -> declined (card_declined)
+ *   ...9995  -> declined (insufficient_funds)
+ *   ...0000  -> declined (card_declined)
+ *   anything else -> authorized
+ *
+ * Only the last four digits and brand survive tokenization; state is lost on restart.
+ */
+import crypto from "crypto";
+import { ApiError } from "../utils/errors";
+import {
+  AuthorizationResult,
+  AuthorizeInput,
+  CaptureResult,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  RefundResult
+} from "./types";
+
+export const MOCK_CHALLENGE_CODE = "123456";
+
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+const WEBHOOK_SECRET = process.env.MOCK_PAYMENT_WEBHOOK_SECRET || "dev_mock_webhook_secret";
+
+type Scenario = "success" | "challenge" | "card_declined" | "insufficient_funds";
+
+interface MockToken {
+  scenario: Scenario;
+  cardBrand: string;
+  cardLast4: string;
+  expiresAt: number;
+}
+
+interface MockAuthorization {
+  reference: string;
+  status: "requires_action" | "authorized" | "declined" | "captured";
+  amount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  cardBrand: string;
+  cardLast4: string;
+  challengeId?: string;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface MockCardInput {
+  cardNumber: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvv: string;
+  cardholderName: string;
+}
+
+const declineMessages: Record<string, string> = {
+  card_declined: "Your card was declined",
+  insufficient_funds: "Your card has insufficient funds",
+  authentication_failed: "Card authentication failed"
+};
+
+const randomId = (prefix: string) => `${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+
+const detectBrand = (digits: string) => {
+  if (digits.startsWith("4")) return "visa";
+  if (/^5[1-5]/.test(digits)) return "mastercard";
+  if (/^3[47]/.test(digits)) return "amex";
+  if (/^(60|65|81|82)/.test(digits)) return "rupay";
+  return "unknown";
+};
+
+const scenarioFor = (digits: string): Scenario => {
+  if (digits.endsWith("3220")) return "challenge";
+  if (digits.endsWith("9995")) return "insufficient_funds";
+  if (digits.endsWith("0002") || digits.endsWith("0000")) return "card_declined";
+  return "success";
+};
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  private tokens = new Map<string, MockToken>();
+  private authorizations = new Map<string, MockAuthorization>();
+  private challenges = new Map<string, string>(); // challengeId -> authorization reference
+
+  /** Stand-in for the gateway's hosted card form: swaps card details for a single-use token */
+  tokenizeCard(card: MockCardInput) {
+    const digits = card.cardNumber.replace(/\D/g, "");
+    if (digits.length < 13 || digits.length > 19) {
+      throw ApiError.badRequest("Invalid card number", [{ field: "cardNumber", message: "Card number must be 13-19 digits" }], "INVALID_CARD");
+    }
+
+    const now = new Date();
+    const expiry = new Date(card.expiryYear, card.expiryMonth, 1); // first day after the expiry month
+    if (expiry <= now) {
+      throw ApiError.badRequest("Card has expired", [{ field: "expiryDate", message: "Card has expired" }], "EXPIRED_CARD");
+    }
+
+    const token = randomId("tok_mock");
+    const details = {
+      scenario: scenarioFor(digits),
+      cardBrand: detectBrand(digits),
+      cardLast4: digits.slice(-4),
+      expiresAt: Date.now() + TOKEN_TTL_MS
+    };
+    this.tokens.set(token, details);
+
+    return { token, cardBrand: details.cardBrand, cardLast4: details.cardLast4 };
+  }
+
+  /** Stand-in for the issuer's challenge page */
+  completeChallenge(challengeId: string, code: string) {
+    const reference = this.challenges.get(challengeId);
+    const authorization = reference ? this.authorizations.get(reference) : undefined;
+    if (!authorization || authorization.status !== "requires_action") {
+      throw ApiError.notFound("Challenge not found or already completed", "CHALLENGE_NOT_FOUND");
+    }
+
+    this.challenges.delete(challengeId);
+    if (code === MOCK_CHALLENGE_CODE) {
+      authorization.status = "authorized";
+    } else {
+      authorization.status = "declined";
+      authorization.failureCode = "authentication_failed";
+      authorization.failureMessage = declineMessages.authentication_failed;
+    }
+    return { status: authorization.status };
+  }
+
+  async authorize(input: AuthorizeInput): Promise<AuthorizationResult> {
+    const token = this.tokens.get(input.paymentToken);
+    this.tokens.delete(input.paymentToken); // tokens are single-use
+
+    const reference = randomId("pay_mock");
+    if (!token || token.expiresAt < Date.now()) {
+      return {
+        status: "declined",
+        providerReference: reference,
+        failureCode: "invalid_token",
+        failureMessage: "Payment details expired, please re-enter your card"
+      };
+    }
+
+    const authorization: MockAuthorization = {
+      reference,
+      status: "authorized",
+      amount: input.amount,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      cardBrand: token.cardBrand,
+      cardLast4: token.cardLast4
+    };
+
+    if (token.scenario === "challenge") {
+      authorization.status = "requires_action";
+      authorization.challengeId = randomId("chl_mock");
+      this.challenges.set(authorization.challengeId, reference);
+    } else if (token.scenario !== "success") {
+      authorization.status = "declined";
+      authorization.failureCode = token.scenario;
+      authorization.failureMessage = declineMessages[token.scenario];
+    }
+
+    this.authorizations.set(reference, authorization);
+    return this.toResult(authorization);
+  }
+
+  async retrieve(providerReference: string): Promise<AuthorizationResult> {
+    const authorization = this.authorizations.get(providerReference);
+    if (!authorization) {
+      return {
+        status: "declined",
+        providerReference,
+        failureCode: "not_found",
+        failureMessage: "Unknown payment reference"
+      };
+    }
+    return this.toResult(authorization);
+  }
+
+  async capture(providerReference: string, amount: number): Promise<CaptureResult> {
+    const authorization = this.authorizations.get(providerReference);
+    if (!authorization || authorization.status !== "authorized") {
+      return { success: false, failureCode: "not_capturable", failureMessage: "Payment is not authorized" };
+    }
+    if (amount > authorization.amount) {
+      return { success: false, failureCode: "amount_too_large", failureMessage: "Capture exceeds authorized amount" };
+    }
+
+    authorization.status = "captured";
+    authorization.capturedAmount = amount;
+    return { success: true };
+  }
+
+  async refund(providerReference: string, amount: number): Promise<RefundResult> {
+    const authorization = this.authorizations.get(providerReference);
+    if (!authorization || authorization.status !== "captured") {
+      return { success: false, failureCode: "not_refundable", failureMessage: "Payment has not been captured" };
+    }
+    if (authorization.refundedAmount + amount > authorization.capturedAmount) {
+      return { success: false, failureCode: "amount_too_large", failureMessage: "Refund exceeds captured amount" };
+    }
+
+    authorization.refundedAmount += amount;
+    return { success: true, refundReference: randomId("re_mock") };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent | null {
+    const header = headers["x-mock-signature"];
+    if (typeof header !== "string") return null;
+
+    // Header format: t=<unix seconds>,v1=<hex hmac of "t.body">
+    const parts = Object.fromEntries(header.split(",").map(part => part.split("=", 2)));
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) return null;
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return null;
+
+    const expected = Buffer.from(this.sign(timestamp, rawBody), "hex");
+    const received = Buffer.from(parts.v1, "hex");
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(rawBody.toString("utf8"));
+      if (typeof event?.type !== "string" || typeof event?.providerReference !== "string") return null;
+      return event as PaymentWebhookEvent;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Signature a real gateway would attach; handy for replaying webhooks locally */
+  sign(timestamp: number, rawBody: Buffer | string) {
+    return crypto.createHmac("sha256", WEBHOOK_SECRET).update(`${timestamp}.${rawBody.toString()}`).digest("hex");
+  }
+
+  private toResult(authorization: MockAuthorization): AuthorizationResult {
+    const result: AuthorizationResult = {
+      status: authorization.status === "captured" ? "authorized" : authorization.status,
+      providerReference: authorization.reference,
+      cardBrand: authorization.cardBrand,
+      cardLast4: authorization.cardLast4,
+      failureCode: authorization.failureCode,
+      failureMessage: authorization.failureMessage
+    };
+
+    if (authorization.status === "requires_action" && authorization.challengeId) {
+      result.nextAction = {
+        type: "challenge",
+        challengeId: authorization.challengeId,
+        message: `Enter the one-time code sent by your bank (test code: ${MOCK_CHALLENGE_CODE})`
+      };
+    }
+    return result;
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * Keeps Payment rows and order status in step with what the provider reports.
+ * Provider calls happen outside database transactions; each database write is
+ * guarded on the current payment status so retries and duplicate webhooks are no-ops.
+ */
+import { Payment, PaymentStatus, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { ApiError } from "../utils/errors";
+import { transitionOrderStatus } from "../utils/orderStatus";
+import { getPaymentProvider } from "./index";
+import { AuthorizationResult, PaymentMethod, PaymentWebhookEvent } from "./types";
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["CAPTURED", "PARTIALLY_REFUNDED"];
+
+export interface StartPaymentInput {
+  orderId: number;
+  amount: number;
+  method: PaymentMethod;
+  paymentToken: string;
+  userId?: number | null;
+}
+
+export interface PaymentOutcome {
+  payment: Payment;
+  nextAction?: AuthorizationResult["nextAction"];
+}
+
+/** Fields safe to return to clients; provider references stay server-side */
+export const toPublicPayment = (payment: Payment) => ({
+  id: payment.id,
+  orderId: payment.orderId,
+  status: payment.status,
+  method: payment.method,
+  amount: payment.amount,
+  refundedAmount: payment.refundedAmount,
+  currency: payment.currency,
+  cardBrand: payment.cardBrand,
+  cardLast4: payment.cardLast4,
+  failureCode: payment.failureCode,
+  failureMessage: payment.failureMessage,
+  createdAt: payment.createdAt
+});
+
+const paymentDeclinedError = (message?: string | null, code?: string | null) => {
+  return new ApiError(
+    402,
+    message || "Payment was declined",
+    code ? [{ field: "payment", message: message || "Payment was declined", code }] : [],
+    "PAYMENT_DECLINED"
+  );
+};
+
+const failureNote = (status: "DECLINED" | "FAILED", failureMessage?: string) => {
+  return `Payment ${status === "DECLINED" ? "declined" : "failed"}${failureMessage ? `: ${failureMessage}` : ""}`;
+};
+
+// Cancelling an unpaid order also puts its reserved stock back
+const cancelUnpaidOrder = async (tx: Prisma.TransactionClient, orderId: number, note: string) => {
+  const order = await tx.order.findUniqueOrThrow({ where: { id: orderId }, include: { items: true } });
+  if (order.status !== "PENDING_PAYMENT") return;
+
+  await transitionOrderStatus(tx, {
+    orderId: order.id,
+    fromStatus: order.status,
+    toStatus: "CANCELLED",
+    items: order.items,
+    note
+  });
+};
+
+/** Mark a payment as failed and cancel its order if it is still waiting for payment */
+const failPayment = async (payment: Payment, status: "DECLINED" | "FAILED", failureCode?: string, failureMessage?: string) => {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: ["REQUIRES_ACTION", "AUTHORIZED"] } },
+      data: { status, failureCode, failureMessage }
+    });
+    if (count === 0) return;
+
+    await cancelUnpaidOrder(tx, payment.orderId, failureNote(status, failureMessage));
+  });
+};
+
+/**
+ * Fail an order's payments that are still waiting on the customer, so a challenge completed later
+ * can't take money for it. Call inside the transaction that cancels the order.
+ */
+export const voidOpenPayments = (tx: Prisma.TransactionClient, orderId: number, failureCode: string, failureMessage: string) => {
+  return tx.payment.updateMany({
+    where: { orderId, status: "REQUIRES_ACTION" },
+    data: { status: "FAILED", failureCode, failureMessage }
+  });
+};
+
+/**
+ * Record a captured payment and move the order to PAID. If the order was cancelled while the
+ * capture was under way, the money is refunded straight away.
+ */
+const markCaptured = async (payment: Payment, changedById?: number | null) => {
+  const orderClosed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: { in: ["REQUIRES_ACTION", "AUTHORIZED"] } },
+      data: { status: "CAPTURED", failureCode: null, failureMessage: null }
+    });
+    if (count === 0) return false;
+
+    const order = await tx.order.findUniqueOrThrow({ where: { id: payment.orderId }, include: { items: true } });
+    if (order.status !== "PENDING_PAYMENT") return true;
+
+    await transitionOrderStatus(tx, {
+      orderId: order.id,
+      fromStatus: order.status,
+      toStatus: "PAID",
+      items: order.items,
+      changedById,
+      note: `Payment captured via ${payment.provider}`
+    });
+    return false;
+  });
+
+  if (orderClosed) {
+    await refundPayment(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } }));
+  }
+};
+
+/** Capture an authorized payment; a failed capture cancels the order */
+export const captureAuthorizedPayment = async (payment: Payment, changedById?: number | null) => {
+  const provider = getPaymentProvider(payment.provider);
+  const result = await provider.capture(payment.providerReference, Number(payment.amount));
+
+  if (!result.success) {
+    await failPayment(payment, "FAILED", result.failureCode, result.failureMessage);
+    throw new ApiError(402, result.failureMessage || "Payment could not be captured", [], "PAYMENT_FAILED");
+  }
+
+  await markCaptured(payment, changedById);
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+};
+
+/**
+ * Authorize and, when no customer action is needed, capture the order total.
+ * Declines cancel the order and surface as a 402 PAYMENT_DECLINED error.
+ */
+export const startPayment = async (input: StartPaymentInput): Promise<PaymentOutcome> => {
+  const provider = getPaymentProvider();
+  const result = await provider.authorize({
+    orderId: input.orderId,
+    amount: input.amount,
+    currency: "INR",
+    method: input.method,
+    paymentToken: input.paymentToken
+  });
+
+  const paymentData = {
+    orderId: input.orderId,
+    provider: provider.name,
+    providerReference: result.providerReference,
+    method: input.method,
+    amount: input.amount,
+    cardBrand: result.cardBrand,
+    cardLast4: result.cardLast4
+  };
+
+  if (result.status === "declined") {
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.create({
+        data: { ...paymentData, status: "DECLINED", failureCode: result.failureCode, failureMessage: result.failureMessage }
+      });
+      await cancelUnpaidOrder(tx, input.orderId, failureNote("DECLINED", result.failureMessage));
+    });
+    throw paymentDeclinedError(result.failureMessage, result.failureCode);
+  }
+
+  const payment = await prisma.payment.create({
+    data: { ...paymentData, status: result.status === "requires_action" ? "REQUIRES_ACTION" : "AUTHORIZED" }
+  });
+
+  if (result.status === "requires_action") {
+    return { payment, nextAction: result.nextAction };
+  }
+
+  return { payment: await captureAuthorizedPayment(payment, input.userId) };
+};
+
+/** Re-check a payment that was waiting on the customer (e.g. after a 3-D Secure challenge) */
+export const confirmPayment = async (payment: Payment, changedById?: number | null): Promise<PaymentOutcome> => {
+  if (payment.status !== "REQUIRES_ACTION") {
+    return { payment };
+  }
+
+  const provider = getPaymentProvider(payment.provider);
+  const result = await provider.retrieve(payment.providerReference);
+
+  if (result.status === "requires_action") {
+    return { payment, nextAction: result.nextAction };
+  }
+
+  if (result.status === "declined") {
+    await failPayment(payment, "DECLINED", result.failureCode, result.failureMessage);
+    throw paymentDeclinedError(result.failureMessage, result.failureCode);
+  }
+
+  const authorized = await prisma.payment.update({
+    where: { id: payment.id },
+    data: { status: "AUTHORIZED" }
+  });
+  return { payment: await captureAuthorizedPayment(authorized, changedById) };
+};
+
+/** Abandon a payment still waiting on the customer; its order is cancelled */
+export const cancelPayment = async (payment: Payment) => {
+  if (payment.status !== "REQUIRES_ACTION") {
+    throw ApiError.conflict("Only payments awaiting customer action can be cancelled", "status", "PAYMENT_NOT_CANCELLABLE");
+  }
+  await failPayment(payment, "FAILED", "cancelled_by_customer", "Cancelled by customer");
+  return prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+};
+
+// Refund whatever is still captured on one payment
+const refundPayment = async (payment: Payment) => {
+  const remaining = Number(payment.amount) - Number(payment.refundedAmount);
+  if (remaining <= 0) return;
+
+  const result = await getPaymentProvider(payment.provider).refund(payment.providerReference, remaining);
+  if (!result.success) {
+    throw new ApiError(502, result.failureMessage || "Refund failed at the payment provider", [], "REFUND_FAILED");
+  }
+
+  // Always on the root client: a refund the provider made stays recorded even if the caller's transaction rolls back
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: { status: "REFUNDED", refundedAmount: payment.amount }
+  });
+};
+
+/** Refund whatever is still captured on an order's payments */
+export const refundOrderPayments = async (orderId: number) => {
+  const payments = await prisma.payment.findMany({
+    where: { orderId, status: { in: REFUNDABLE_STATUSES } }
+  });
+
+  for (const payment of payments) {
+    await refundPayment(payment);
+  }
+};
+
+/**
+ * Cancel orders that have waited for payment since before `cutoff`, e.g. an abandoned 3-D Secure
+ * challenge, so their reserved stock goes back on sale. Payments still waiting on the customer
+ * fail with them. Orders with an authorized payment are left alone: their capture is under way.
+ * Returns the number of orders cancelled.
+ */
+export const expireUnpaidOrders = async (cutoff: Date) => {
+  const orders = await prisma.order.findMany({
+    where: {
+      status: "PENDING_PAYMENT",
+      createdAt: { lt: cutoff },
+      payments: { none: { status: "AUTHORIZED" } }
+    },
+    select: { id: true }
+  });
+
+  let expired = 0;
+  for (const { id } of orders) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await voidOpenPayments(tx, id, "expired", "Payment was not completed in time");
+        await cancelUnpaidOrder(tx, id, "Payment not completed in time");
+      });
+      expired++;
+    } catch (err) {
+      // Most likely paid a moment ago; the next run looks at it again if not
+      console.error(`Failed to expire order ${id}:`, err);
+    }
+  }
+  return expired;
+};
+
+/** Apply a verified provider webhook; unknown references are ignored */
+export const applyWebhookEvent = async (providerName: string, event: PaymentWebhookEvent) => {
+  const payment = await prisma.payment.findUnique({
+    where: { provider_providerReference: { provider: providerName, providerReference: event.providerReference } }
+  });
+  if (!payment) return null;
+
+  switch (event.type) {
+    case "payment.authorized":
+      if (payment.status === "REQUIRES_ACTION") {
+        await confirmPayment(payment).catch(() => undefined); // outcome is persisted either way
+      }
+      break;
+    case "payment.captured":
+      await markCaptured(payment);
+      break;
+    case "payment.failed":
+      await failPayment(payment, "FAILED", event.failureCode, event.failureMessage);
+      break;
+    case "payment.refunded": {
+      if (!REFUNDABLE_STATUSES.includes(payment.status)) break;
+      // The event carries the total refunded so far, so replays are harmless
+      const refunded = Math.min(event.amount ?? Number(payment.amount), Number(payment.amount));
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          refundedAmount: refunded,
+          status: refunded >= Number(payment.amount) ? "REFUNDED" : "PARTIALLY_REFUNDED"
+        }
+      });
+      break;
+    }
+  }
+
+  return prisma.payment.findUnique({ where: { id: payment.id } });
+};
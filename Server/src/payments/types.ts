@@ -0,0 +1,70 @@
+/**
+ * Contract every payment gateway integration implements.
+ * Amounts are in major currency units (rupees) to match Order.totalAmount.
+ */
+
+export type PaymentMethod = "card" | "upi" | "netbanking";
+
+export interface AuthorizeInput {
+  orderId: number;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  // Opaque token issued by the provider's own tokenization step; never raw card data
+  paymentToken: string;
+}
+
+export type AuthorizationStatus = "authorized" | "requires_action" | "declined";
+
+export interface AuthorizationResult {
+  status: AuthorizationStatus;
+  providerReference: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  failureCode?: string;
+  failureMessage?: string;
+  // Present when status is "requires_action" (e.g. a 3-D Secure challenge)
+  nextAction?: {
+    type: "challenge";
+    challengeId: string;
+    message: string;
+  };
+}
+
+export interface CaptureResult {
+  success: boolean;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundReference?: string;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export type PaymentWebhookEventType =
+  | "payment.authorized"
+  | "payment.captured"
+  | "payment.failed"
+  | "payment.refunded";
+
+export interface PaymentWebhookEvent {
+  type: PaymentWebhookEventType;
+  providerReference: string;
+  amount?: number;
+  failureCode?: string;
+  failureMessage?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(input: AuthorizeInput): Promise<AuthorizationResult>;
+  // Re-reads an authorization, e.g. after the customer completes a challenge
+  retrieve(providerReference: string): Promise<AuthorizationResult>;
+  capture(providerReference: string, amount: number): Promise<CaptureResult>;
+  refund(providerReference: string, amount: number): Promise<RefundResult>;
+  // Returns the normalized event, or null when the signature does not match
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent | null;
+}
@@ -1,14 +1,18 @@
 import { Router } from "express";
-import { getCart, addToCart, updateCartItem, removeCartItem, clearCart } from "../controllers/cartController";
+import { getCart, addToCart, addManyToCart, updateCartItem, removeCartItem, clearCart, applyCoupon, removeCoupon } from "../controllers/cartController";
 import { authMiddleware } from "../middleware/authMiddleware";
+import { validateBody, addCartItemsSchema } from "../utils/validation";
 
 const r = Router();
 
 r.use(authMiddleware); // all cart routes require auth
 r.get("/", getCart);
-r.post("/add", addToCart); // { furnitureId, quantity }
+r.post("/add", addToCart); // { furnitureId, variantId?, quantity }
+r.post("/add-many", validateBody(addCartItemsSchema), addManyToCart); // { items: [{ furnitureId, variantId?, quantity }] } - all or nothing
 r.post("/update", updateCartItem); // { cartItemId, quantity }
 r.delete("/remove/:cartItemId", removeCartItem);
 r.post("/clear", clearCart);
+r.post("/apply-coupon", applyCoupon); // { code } - prices the cart with the coupon and keeps it for checkout
+r.delete("/coupon", removeCoupon);
 
 export default r;
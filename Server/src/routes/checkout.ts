@@ -1,10 +1,15 @@
 import { Router } from "express";
-import { authMiddleware } from "../middleware/authMiddleware";
-import { placeOrder, guestCheckout } from "../controllers/checkoutController";
+import { authMiddleware, optionalAuthMiddleware } from "../middleware/authMiddleware";
+import { placeOrder, guestCheckout, quoteCheckout } from "../controllers/checkoutController";
+import { rateLimit } from "../middleware/rateLimit";
 
 const r = Router();
 
+// Each guest order holds stock until it is paid or expires, so one client can only place a few
+const guestCheckoutLimit = rateLimit({ windowMs: 15 * 60_000, max: 10 });
+
+r.post("/quote", optionalAuthMiddleware, quoteCheckout); // tax, shipping and total for the cart or given items
 r.post("/place", authMiddleware, placeOrder); // create order from current user's cart
-r.post("/guest", authMiddleware, guestCheckout); // guest checkout disabled - requires authentication
+r.post("/guest", guestCheckoutLimit, guestCheckout); // checkout without an account; returns an order lookup token
 
 export default r;
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { ingestEvents, getEventReport } from "../controllers/eventController";
+import { authMiddleware, optionalAuthMiddleware, requireRole } from "../middleware/authMiddleware";
+import { beaconBody } from "../middleware/beaconBody";
+import { rateLimit } from "../middleware/rateLimit";
+import { validateBody, validateQuery, ingestEventsSchema, eventReportQuerySchema } from "../utils/validation";
+
+const r = Router();
+
+const ingestLimit = rateLimit({ windowMs: 60_000, max: 60 });
+
+r.post("/", ingestLimit, beaconBody, optionalAuthMiddleware, validateBody(ingestEventsSchema), ingestEvents); // batches; beacons arrive signed out
+r.get("/report", authMiddleware, requireRole("STAFF", "ADMIN"), validateQuery(eventReportQuerySchema), getEventReport); // CTR and conversion per algorithm
+
+export default r;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  listExperiments,
+  createExperiment,
+  getExperiment,
+  startExperiment,
+  stopExperiment,
+  getExperimentReport
+} from "../controllers/experimentController";
+import { authMiddleware, requireRole } from "../middleware/authMiddleware";
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+  createExperimentSchema,
+  experimentListQuerySchema,
+  idParamSchema
+} from "../utils/validation";
+
+const r = Router();
+
+r.use(authMiddleware);
+
+// Recommendation A/B tests; staff can follow them, admins run them
+r.get("/", requireRole("STAFF", "ADMIN"), validateQuery(experimentListQuerySchema), listExperiments); // ?status=
+r.post("/", requireRole("ADMIN"), validateBody(createExperimentSchema), createExperiment); // created as a draft
+r.get("/:id", requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), getExperiment);
+r.post("/:id/start", requireRole("ADMIN"), validateParams(idParamSchema), startExperiment); // one running experiment per surface
+r.post("/:id/stop", requireRole("ADMIN"), validateParams(idParamSchema), stopExperiment);
+r.get("/:id/report", requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), getExperimentReport); // CTR and conversion per variant
+
+export default r;
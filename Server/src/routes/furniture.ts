@@ -5,30 +5,85 @@ import {
     createFurniture,
     updateFurniture,
     deleteFurniture,
+    restoreFurniture,
     getRecommendations,
-    getCategories
+    getCategories,
+    createCategory
 } from "../controllers/furnitureController";
+import { listVariants, createVariant, updateVariant, deleteVariant } from "../controllers/variantController";
+import { suggestSearches } from "../controllers/searchController";
+import { compareFurniture } from "../controllers/compareController";
+import { importCatalog, exportCatalog } from "../controllers/catalogController";
+import { uploadImages, updateImage, deleteImage } from "../controllers/imageController";
+import { listCategoryAttributes, createAttribute, updateAttribute, deleteAttribute } from "../controllers/attributeController";
+import { listPriceHistory, listScheduledPrices, createScheduledPrice, deleteScheduledPrice } from "../controllers/priceController";
 import { 
   validateQuery, 
   validateParams, 
   validateBody,
   furnitureQuerySchema, 
+  suggestQuerySchema,
+  compareQuerySchema,
   idParamSchema,
   createFurnitureSchema,
-  updateFurnitureSchema
+  updateFurnitureSchema,
+  restoreFurnitureSchema,
+  createCategorySchema,
+  catalogImportQuerySchema,
+  catalogExportQuerySchema,
+  createVariantSchema,
+  updateVariantSchema,
+  variantParamsSchema,
+  uploadImagesSchema,
+  updateImageSchema,
+  imageParamsSchema,
+  createAttributeSchema,
+  updateAttributeSchema,
+  attributeParamsSchema,
+  createScheduledPriceSchema,
+  priceHistoryQuerySchema,
+  scheduledPriceParamsSchema
 } from "../utils/validation";
+import { authMiddleware, optionalAuthMiddleware, requireRole } from "../middleware/authMiddleware";
+import { imageUpload } from "../middleware/upload";
+import { catalogBody } from "../middleware/catalogBody";
+import { MAX_IMAGES_PER_UPLOAD } from "../utils/images";
 
 const r = Router();
 
 // Public routes
-r.get("/", validateQuery(furnitureQuerySchema), listFurnitures);
+r.get("/", optionalAuthMiddleware, validateQuery(furnitureQuerySchema), listFurnitures); // signed-in searches are kept as recent searches
+r.get("/suggest", optionalAuthMiddleware, validateQuery(suggestQuerySchema), suggestSearches); // typeahead
+r.get("/compare", validateQuery(compareQuerySchema), compareFurniture); // ?ids=1,2,3
 r.get("/categories", getCategories);
-r.get("/:id", validateParams(idParamSchema), getFurniture);
+r.get("/categories/:id/attributes", validateParams(idParamSchema), listCategoryAttributes); // includes inherited ones
+
+// Catalog files (admin); declared before /:id so "export" isn't taken for a product ID
+r.post("/import", authMiddleware, requireRole("ADMIN"), catalogBody, validateQuery(catalogImportQuerySchema), importCatalog);
+r.get("/export", authMiddleware, requireRole("STAFF", "ADMIN"), validateQuery(catalogExportQuerySchema), exportCatalog);
+
+r.get("/:id", optionalAuthMiddleware, validateParams(idParamSchema), getFurniture); // staff can open drafts
 r.get("/recommendations/:id", validateParams(idParamSchema), getRecommendations);
+r.get("/:id/variants", validateParams(idParamSchema), listVariants);
 
-// Admin routes (TODO: Add authentication middleware)
-r.post("/", validateBody(createFurnitureSchema), createFurniture);
-r.put("/:id", validateParams(idParamSchema), validateBody(updateFurnitureSchema), updateFurniture);
-r.delete("/:id", validateParams(idParamSchema), deleteFurniture);
+// Admin routes
+r.post("/", authMiddleware, requireRole("STAFF", "ADMIN"), validateBody(createFurnitureSchema), createFurniture);
+r.put("/:id", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), validateBody(updateFurnitureSchema), updateFurniture);
+r.delete("/:id", authMiddleware, requireRole("ADMIN"), validateParams(idParamSchema), deleteFurniture); // archives
+r.post("/:id/restore", authMiddleware, requireRole("ADMIN"), validateParams(idParamSchema), validateBody(restoreFurnitureSchema), restoreFurniture);
+r.post("/categories", authMiddleware, requireRole("ADMIN"), validateBody(createCategorySchema), createCategory);
+r.post("/categories/:id/attributes", authMiddleware, requireRole("ADMIN"), validateParams(idParamSchema), validateBody(createAttributeSchema), createAttribute);
+r.patch("/attributes/:attributeId", authMiddleware, requireRole("ADMIN"), validateParams(attributeParamsSchema), validateBody(updateAttributeSchema), updateAttribute);
+r.delete("/attributes/:attributeId", authMiddleware, requireRole("ADMIN"), validateParams(attributeParamsSchema), deleteAttribute); // removes products' values too
+r.post("/:id/variants", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), validateBody(createVariantSchema), createVariant);
+r.patch("/:id/variants/:variantId", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(variantParamsSchema), validateBody(updateVariantSchema), updateVariant);
+r.delete("/:id/variants/:variantId", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(variantParamsSchema), deleteVariant);
+r.post("/:id/images", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), imageUpload.array("images", MAX_IMAGES_PER_UPLOAD), validateBody(uploadImagesSchema), uploadImages); // multipart
+r.patch("/:id/images/:imageId", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(imageParamsSchema), validateBody(updateImageSchema), updateImage); // alt text, position
+r.delete("/:id/images/:imageId", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(imageParamsSchema), deleteImage); // also removes the stored files
+r.get("/:id/price-history", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), validateQuery(priceHistoryQuerySchema), listPriceHistory);
+r.get("/:id/scheduled-prices", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), listScheduledPrices);
+r.post("/:id/scheduled-prices", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(idParamSchema), validateBody(createScheduledPriceSchema), createScheduledPrice); // sale with endsAt, permanent without
+r.delete("/:id/scheduled-prices/:scheduleId", authMiddleware, requireRole("STAFF", "ADMIN"), validateParams(scheduledPriceParamsSchema), deleteScheduledPrice); // a running sale ends now
 
 export default r;
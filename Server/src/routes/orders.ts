@@ -7,13 +7,13 @@ import {
     getAllOrders,
     getMyOrders
 } from "../controllers/orderController";
-import { authMiddleware, optionalAuthMiddleware } from "../middleware/authMiddleware";
+import { authMiddleware, optionalAuthMiddleware, requireRole } from "../middleware/authMiddleware";
 
 const r = Router();
 
 // Order management
-r.post("/", optionalAuthMiddleware, createOrder);    // Create new order (supports guest checkout)
-r.get("/", authMiddleware, getAllOrders);            // Get all orders (admin only)
+r.post("/", authMiddleware, createOrder);    // Create new order; guests use /api/checkout/guest
+r.get("/", authMiddleware, requireRole("STAFF", "ADMIN"), getAllOrders); // Get all orders (staff/admin only)
 
 // User-specific orders (must come before /:id route)
 r.get("/my-orders", authMiddleware, getMyOrders); // Get current user's orders
@@ -21,6 +21,6 @@ r.get("/user/:userId", authMiddleware, getUserOrders); // Get orders for specifi
 
 // Order by ID (must come after specific routes)
 r.get("/:id", optionalAuthMiddleware, getOrder);     // Get order by ID (owner or guest with order ID)
-r.patch("/:id/status", authMiddleware, updateOrderStatus); // Update order status (admin only)
+r.patch("/:id/status", authMiddleware, requireRole("STAFF", "ADMIN"), updateOrderStatus); // Update order status (staff/admin only)
 
 export default r;
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { optionalAuthMiddleware } from "../middleware/authMiddleware";
+import {
+  getPayment,
+  confirmPaymentAction,
+  cancelPaymentAction,
+  handleWebhook,
+  createMockToken,
+  completeMockChallenge
+} from "../controllers/paymentController";
+
+const r = Router();
+
+// Provider callbacks (authenticated by signature, not JWT)
+r.post("/webhooks/:provider", handleWebhook);
+
+// Mock gateway stand-ins for the provider's card form and issuer challenge page
+r.post("/mock/tokens", createMockToken); // exchange test card details for a single-use token
+r.post("/mock/challenges/:challengeId", completeMockChallenge); // answer a 3-D Secure style challenge
+
+// Owner, staff, or a guest sending the order's lookup token in X-Order-Token
+r.get("/:id", optionalAuthMiddleware, getPayment); // payment status
+r.post("/:id/confirm", optionalAuthMiddleware, confirmPaymentAction); // finish a payment after a challenge
+r.post("/:id/cancel", optionalAuthMiddleware, cancelPaymentAction); // abandon a challenge; cancels the unpaid order
+
+export default r;
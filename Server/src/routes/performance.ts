@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { getPerformanceStats, getHealthCheck, clearPerformanceData } from '../controllers/performanceController';
+import { authMiddleware, requireRole } from '../middleware/authMiddleware';
 
 const router = Router();
 
@@ -10,6 +11,6 @@ router.get('/stats', getPerformanceStats);
 router.get('/health', getHealthCheck);
 
 // POST /api/performance/clear - Clear old performance data (admin only)
-router.post('/clear', clearPerformanceData);
+router.post('/clear', authMiddleware, requireRole('ADMIN'), clearPerformanceData);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authMiddleware, requireRole } from "../middleware/authMiddleware";
+import { listPromotions, createPromotion, updatePromotion } from "../controllers/promotionController";
+import { validateBody, createPromotionSchema, updatePromotionSchema } from "../utils/validation";
+
+const r = Router();
+
+r.use(authMiddleware, requireRole("ADMIN"));
+
+// Coupon management; customers redeem codes through POST /api/cart/apply-coupon or checkout
+r.get("/", listPromotions); // ?active=true|false
+r.post("/", validateBody(createPromotionSchema), createPromotion);
+r.patch("/:id", validateBody(updatePromotionSchema), updatePromotion); // edit, or { isActive: false } to retire a code
+
+export default r;
@@ -3,18 +3,26 @@ import {
     getUserRecommendations,
     getPopularItems,
     getCategoryRecommendations,
-    getSimilarRecommendations
+    getSimilarRecommendations,
+    getBundleRecommendations
 } from "../controllers/recommendationController";
+import { authMiddleware, optionalAuthMiddleware } from "../middleware/authMiddleware";
 
 const r = Router();
 
+// Signed-in shoppers are bucketed into experiments by account rather than by browser session
+r.use(optionalAuthMiddleware);
+
 // User-based recommendations
-r.get("/user/:userId", getUserRecommendations);              // Personalized recommendations for user
+r.get("/user/:userId", authMiddleware, getUserRecommendations); // Personalized recommendations (the user themselves or staff)
 
 // Content-based recommendations
 r.get("/similar/:furnitureId", getSimilarRecommendations);   // Similar items to a specific furniture
 r.get("/category/:categoryId", getCategoryRecommendations);  // Recommendations from specific category
 
+// Co-purchase recommendations
+r.get("/bundle/:furnitureId", getBundleRecommendations);     // Frequently bought together, from other categories
+
 // Popular recommendations (fallback)
 r.get("/popular", getPopularItems);               // Popular items across all categories
 
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { listRooms, createRoom, getRoom, updateRoom, saveRoomLayout, deleteRoom, checkLayout } from "../controllers/roomController";
+import { validateBody, createRoomSchema, updateRoomSchema, saveRoomLayoutSchema, checkRoomLayoutSchema } from "../utils/validation";
+
+const r = Router();
+
+r.use(authMiddleware);
+
+// Room planner layouts for the signed-in user
+r.get("/", listRooms); // saved rooms, most recently edited first
+r.post("/", validateBody(createRoomSchema), createRoom); // new empty room
+r.post("/check", validateBody(checkRoomLayoutSchema), checkLayout); // warnings for an unsaved layout
+r.get("/:id", getRoom); // room with its placements and warnings
+r.patch("/:id", validateBody(updateRoomSchema), updateRoom); // rename or resize
+r.put("/:id/placements", validateBody(saveRoomLayoutSchema), saveRoomLayout); // replace the saved layout
+r.delete("/:id", deleteRoom);
+
+export default r;
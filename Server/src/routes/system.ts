@@ -6,6 +6,7 @@ import {
   testAllEndpoints,
   seedTestData
 } from "../controllers/systemValidationController";
+import { authMiddleware, requireRole } from "../middleware/authMiddleware";
 
 const router = Router();
 
@@ -21,7 +22,7 @@ router.get("/stats", getSystemStats);
 // Test all endpoints
 router.get("/test-endpoints", testAllEndpoints);
 
-// Seed test data (development only)
-router.post("/seed-test-data", seedTestData);
+// Seed test data (development only, admin only)
+router.post("/seed-test-data", authMiddleware, requireRole("ADMIN"), seedTestData);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { listAddresses, createAddress, updateAddress, deleteAddress } from "../controllers/addressController";
+import { clearRecentSearches } from "../controllers/searchController";
+import { validateBody, createAddressSchema, updateAddressSchema } from "../utils/validation";
+
+const r = Router();
+
+r.use(authMiddleware);
+
+// Address book for the signed-in user
+r.get("/me/addresses", listAddresses); // saved addresses, default first
+r.post("/me/addresses", validateBody(createAddressSchema), createAddress); // add an address (first one becomes default)
+r.put("/me/addresses/:id", validateBody(updateAddressSchema), updateAddress); // edit or make default
+r.delete("/me/addresses/:id", deleteAddress); // remove; another address is promoted to default
+
+// Search history shown in the storefront typeahead
+r.delete("/me/recent-searches", clearRecentSearches);
+
+export default r;
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import {
+  listWishlists,
+  createWishlist,
+  renameWishlist,
+  deleteWishlist,
+  addWishlistItem,
+  removeWishlistItem,
+  moveWishlistItemToCart,
+  toggleWishlistItem
+} from "../controllers/wishlistController";
+import { validateBody, wishlistSchema, wishlistItemSchema, moveToCartSchema } from "../utils/validation";
+
+const r = Router();
+
+r.use(authMiddleware); // wishlists belong to an account
+
+r.get("/", listWishlists); // all lists with their items
+r.post("/", validateBody(wishlistSchema), createWishlist); // { name }
+r.post("/toggle", validateBody(wishlistItemSchema), toggleWishlistItem); // product heart: save to the default list or remove from every list
+r.patch("/:id", validateBody(wishlistSchema), renameWishlist);
+r.delete("/:id", deleteWishlist);
+r.post("/:id/items", validateBody(wishlistItemSchema), addWishlistItem); // { furnitureId }
+r.delete("/:id/items/:furnitureId", removeWishlistItem);
+r.post("/:id/items/:furnitureId/move-to-cart", validateBody(moveToCartSchema), moveWishlistItemToCart); // { quantity? }
+
+export default r;
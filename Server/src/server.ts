@@ -1,8 +1,14 @@
 import dotenv from "dotenv";
 dotenv.config();
 import app from "./app";
+import { startPriceScheduler } from "./jobs/priceScheduler";
+import { startSimilarityJob } from "./jobs/similarityJob";
+import { startOrderExpiryJob } from "./jobs/orderExpiryJob";
 
 const PORT = process.env.PORT ?? 4000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`); 
+  startPriceScheduler();
+  startSimilarityJob();
+  startOrderExpiryJob();
 });
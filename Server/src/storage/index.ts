@@ -0,0 +1,26 @@
+/**
+ * Upload storage registry. STORAGE_DRIVER selects the adapter (defaults to "local").
+ */
+import path from "path";
+import { ApiError } from "../utils/errors";
+import { LocalDiskStorage } from "./localDiskStorage";
+import { StorageAdapter } from "./types";
+
+export * from "./types";
+
+export const localDiskStorage = new LocalDiskStorage(
+  path.resolve(process.env.UPLOAD_DIR || "uploads"),
+  (process.env.UPLOAD_PUBLIC_URL || `http://localhost:${process.env.PORT ?? 4000}/uploads`).replace(/\/+$/, "")
+);
+
+const adapters: Record<string, StorageAdapter> = {
+  [localDiskStorage.name]: localDiskStorage
+};
+
+export const getStorage = (name = process.env.STORAGE_DRIVER || "local"): StorageAdapter => {
+  const adapter = adapters[name];
+  if (!adapter) {
+    throw ApiError.internal(`Storage driver "${name}" is not configured`, "STORAGE_DRIVER_MISSING");
+  }
+  return adapter;
+};
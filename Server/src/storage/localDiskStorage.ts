@@ -0,0 +1,36 @@
+/**
+ * Stores uploads on the API server's own disk and serves them from /uploads (see app.ts).
+ * Fine for development and single-server deployments; files are not shared between instances.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageAdapter } from "./types";
+
+export class LocalDiskStorage implements StorageAdapter {
+  readonly name = "local";
+
+  constructor(
+    readonly rootDir: string,     // Absolute directory files are written under
+    private readonly publicUrl: string // URL the rootDir is served from, without a trailing slash
+  ) {}
+
+  // Keys come from our own code, but never let one escape the upload directory
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Storage key "${key}" is outside the upload directory`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
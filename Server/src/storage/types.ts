@@ -0,0 +1,11 @@
+/**
+ * Contract for wherever uploaded files live. Keys are relative paths such as
+ * "furniture/12/3f9c…-medium.webp"; adapters decide how a key maps to a public URL.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  // Store the bytes under `key`, replacing anything already there, and return the public URL
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Removing a key that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,50 @@
+/**
+ * Address book helpers and the address snapshot stored on orders
+ */
+import { Address, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../prisma";
+import { ApiError } from "./errors";
+import { shippingAddressSchema } from "./validation";
+
+export type ShippingAddressSnapshot = z.infer<typeof shippingAddressSchema>;
+
+export const toAddressSnapshot = (address: Address, email?: string): ShippingAddressSnapshot => ({
+  fullName: address.fullName,
+  phone: address.phone,
+  line1: address.line1,
+  line2: address.line2 ?? undefined,
+  city: address.city,
+  state: address.state,
+  postalCode: address.postalCode,
+  country: address.country,
+  ...(email && { email })
+});
+
+/**
+ * Pick the address for an order: a saved address by ID, or one typed in at checkout.
+ * Saved addresses must belong to the user placing the order.
+ */
+export const resolveShippingAddress = async (
+  userId: number | undefined,
+  input: { addressId?: number; shippingAddress?: ShippingAddressSnapshot },
+  email?: string
+): Promise<ShippingAddressSnapshot | undefined> => {
+  if (input.addressId) {
+    const address = await prisma.address.findUnique({ where: { id: input.addressId } });
+    if (!address || address.userId !== userId) {
+      throw ApiError.notFound("Address not found", "ADDRESS_NOT_FOUND");
+    }
+    return toAddressSnapshot(address, input.shippingAddress?.email ?? email);
+  }
+
+  return input.shippingAddress;
+};
+
+/** Clear the current default so a different address can take over; call inside a transaction */
+export const clearDefaultAddress = (tx: Prisma.TransactionClient, userId: number) => {
+  return tx.address.updateMany({
+    where: { userId, isDefault: true },
+    data: { isDefault: false }
+  });
+};
@@ -0,0 +1,222 @@
+/**
+ * Product attributes: per-category definitions, validating and saving product values,
+ * spec sheet rows and the listing `attr[key]` filters
+ */
+import { AttributeDefinition, AttributeType, AttributeValue, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { categorySubtreeSql, getCategoryPath } from "./categories";
+import { ApiError, ValidationError } from "./errors";
+
+// What a product sends for one attribute; null removes the value
+export type AttributeInput = string | number | boolean | null;
+
+export interface Specification {
+  key: string;
+  name: string;
+  type: AttributeType;
+  unit: string | null;
+  value: string | number | boolean;
+}
+
+type ValueColumns = Pick<AttributeValue, "textValue" | "numberValue" | "booleanValue">;
+
+const SPEC_ORDER: Prisma.AttributeDefinitionOrderByWithRelationInput[] = [{ sortOrder: "asc" }, { name: "asc" }];
+
+// Include for a product's values in spec table order
+export const SPECIFICATIONS_INCLUDE = {
+  include: { definition: true },
+  orderBy: SPEC_ORDER.map(order => ({ definition: order }))
+} satisfies Prisma.Furniture$attributeValuesArgs;
+
+/** Definitions that apply to a category: its own and those of every category above it */
+export const getCategoryAttributes = async (categoryId: number) => {
+  const lineage = await getCategoryPath(categoryId);
+  return prisma.attributeDefinition.findMany({
+    where: { categoryId: { in: lineage.map(category => category.id) } },
+    orderBy: SPEC_ORDER
+  });
+};
+
+/**
+ * Keys only have to be unique along one branch of the tree, so "material" can mean different
+ * things under Living Room and Office but a product never sees two definitions with the same key.
+ */
+export const assertAttributeKeyAvailable = async (categoryId: number, key: string) => {
+  const lineage = await getCategoryPath(categoryId);
+  const [taken] = await prisma.$queryRaw<{ categoryId: number }[]>`
+    SELECT "categoryId" FROM "AttributeDefinition"
+    WHERE "key" = ${key}
+      AND ("categoryId" IN (${categorySubtreeSql(categoryId)}) OR "categoryId" IN (${Prisma.join(lineage.map(category => category.id))}))
+    LIMIT 1`;
+  if (taken) {
+    throw ApiError.conflict(`Attribute "${key}" is already defined for category ${taken.categoryId} in this branch`, "key", "ATTRIBUTE_KEY_TAKEN");
+  }
+};
+
+// Map an input value to the column its type is stored in, or explain why it doesn't fit
+const toValueColumns = (definition: AttributeDefinition, value: Exclude<AttributeInput, null>): ValueColumns | string => {
+  const empty = { textValue: null, numberValue: null, booleanValue: null };
+
+  switch (definition.type) {
+    case "TEXT":
+      return typeof value === "string" ? { ...empty, textValue: value.trim() } : `${definition.name} must be text`;
+    case "NUMBER":
+      return typeof value === "number" && Number.isFinite(value)
+        ? { ...empty, numberValue: new Prisma.Decimal(value) }
+        : `${definition.name} must be a number`;
+    case "BOOLEAN":
+      return typeof value === "boolean" ? { ...empty, booleanValue: value } : `${definition.name} must be true or false`;
+    case "ENUM": {
+      // Stored with the definition's spelling so filters and facets line up
+      const allowed = typeof value === "string"
+        ? definition.allowedValues.find(option => option.toLowerCase() === value.trim().toLowerCase())
+        : undefined;
+      return allowed ? { ...empty, textValue: allowed } : `${definition.name} must be one of: ${definition.allowedValues.join(", ")}`;
+    }
+  }
+};
+
+/** One error per required definition without a value; `hasValue` holds the definition IDs the product has */
+export const missingRequiredAttributes = (definitions: AttributeDefinition[], hasValue: Set<number>): ValidationError[] =>
+  definitions
+    .filter(definition => definition.isRequired && !hasValue.has(definition.id))
+    .map(definition => ({ field: `attributes.${definition.key}`, message: `${definition.name} is required`, code: "REQUIRED" }));
+
+/**
+ * Validate a product's attributes against its category's definitions and write them. `input` is
+ * merged into what the product already has, and values that no longer apply to the category
+ * (after a category change) are dropped. Call inside the transaction that creates or updates the product.
+ */
+export const saveProductAttributes = async (
+  tx: Prisma.TransactionClient,
+  furnitureId: number,
+  categoryId: number,
+  input: Record<string, AttributeInput> = {}
+) => {
+  const [definitions, existing] = await Promise.all([
+    getCategoryAttributes(categoryId),
+    tx.attributeValue.findMany({ where: { furnitureId }, select: { definitionId: true } })
+  ]);
+  const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+  const hasValue = new Set(existing.map(value => value.definitionId));
+  const errors: ValidationError[] = [];
+  const upserts: { definitionId: number; data: ValueColumns }[] = [];
+  const removals: number[] = [];
+
+  for (const [key, value] of Object.entries(input)) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push({ field: `attributes.${key}`, message: `"${key}" is not an attribute of this category`, code: "UNKNOWN_ATTRIBUTE" });
+      continue;
+    }
+    if (value === null) {
+      removals.push(definition.id);
+      hasValue.delete(definition.id);
+      continue;
+    }
+
+    const data = toValueColumns(definition, value);
+    if (typeof data === "string") {
+      errors.push({ field: `attributes.${key}`, message: data, code: "INVALID_ATTRIBUTE_VALUE" });
+      continue;
+    }
+    upserts.push({ definitionId: definition.id, data });
+    hasValue.add(definition.id);
+  }
+
+  errors.push(...missingRequiredAttributes(definitions, hasValue));
+
+  if (errors.length > 0) throw ApiError.validationError("Invalid product attributes", errors, "INVALID_ATTRIBUTES");
+
+  await tx.attributeValue.deleteMany({
+    where: {
+      furnitureId,
+      OR: [{ definitionId: { in: removals } }, { definitionId: { notIn: definitions.map(definition => definition.id) } }]
+    }
+  });
+  for (const { definitionId, data } of upserts) {
+    await tx.attributeValue.upsert({
+      where: { furnitureId_definitionId: { furnitureId, definitionId } },
+      create: { furnitureId, definitionId, ...data },
+      update: data
+    });
+  }
+};
+
+/** Spec table rows from values loaded with SPECIFICATIONS_INCLUDE */
+export const toSpecifications = (values: (AttributeValue & { definition: AttributeDefinition })[]): Specification[] =>
+  values.map(({ definition, textValue, numberValue, booleanValue }) => ({
+    key: definition.key,
+    name: definition.name,
+    type: definition.type,
+    unit: definition.unit,
+    value: definition.type === "NUMBER" ? Number(numberValue) : definition.type === "BOOLEAN" ? !!booleanValue : textValue ?? ""
+  }));
+
+// "40..60", "40.." and "..60" are ranges, a lone number is an exact match
+const parseNumberFilter = (raw: string): { min?: number; max?: number } | null => {
+  const match = raw.match(/^(-?\d+(?:\.\d+)?)?(\.\.)?(-?\d+(?:\.\d+)?)?$/);
+  if (!match || (!match[1] && !match[3])) return null;
+  if (!match[2]) return match[3] ? null : { min: Number(match[1]), max: Number(match[1]) };
+  return { min: match[1] ? Number(match[1]) : undefined, max: match[3] ? Number(match[3]) : undefined };
+};
+
+const filterCondition = (definition: AttributeDefinition, raw: string): Prisma.Sql | null => {
+  switch (definition.type) {
+    case "NUMBER": {
+      const range = parseNumberFilter(raw);
+      if (!range) return null;
+      const bounds = [
+        ...(range.min !== undefined ? [Prisma.sql`av."numberValue" >= ${range.min}`] : []),
+        ...(range.max !== undefined ? [Prisma.sql`av."numberValue" <= ${range.max}`] : [])
+      ];
+      return Prisma.join(bounds, " AND ");
+    }
+    case "BOOLEAN":
+      if (raw !== "true" && raw !== "false") return null;
+      return Prisma.sql`av."booleanValue" = ${raw === "true"}`;
+    default: {
+      // Comma separated values match any of them
+      const options = raw.split(",").map(option => option.trim().toLowerCase()).filter(Boolean);
+      if (options.length === 0) return null;
+      return Prisma.sql`lower(av."textValue") IN (${Prisma.join(options)})`;
+    }
+  }
+};
+
+/**
+ * SQL conditions on `f` for the listing's `attr[key]=value` filters. A key can be defined in
+ * several branches of the category tree; a product matches through whichever one applies to it.
+ */
+export const attributeFilterConditions = async (filters: Record<string, string>): Promise<Prisma.Sql[]> => {
+  const keys = Object.keys(filters);
+  if (keys.length === 0) return [];
+
+  const definitions = await prisma.attributeDefinition.findMany({ where: { key: { in: keys } } });
+  const errors: ValidationError[] = [];
+
+  const conditions = keys.map(key => {
+    const matching = definitions.filter(definition => definition.key === key);
+    if (matching.length === 0) {
+      errors.push({ field: `attr.${key}`, message: `Unknown attribute "${key}"`, code: "UNKNOWN_ATTRIBUTE" });
+      return Prisma.empty;
+    }
+
+    const branches = matching.map(definition => {
+      const condition = filterCondition(definition, filters[key]);
+      if (!condition) {
+        errors.push({ field: `attr.${key}`, message: `"${filters[key]}" is not a valid ${definition.type.toLowerCase()} filter`, code: "INVALID_ATTRIBUTE_FILTER" });
+        return Prisma.empty;
+      }
+      return Prisma.sql`(av."definitionId" = ${definition.id} AND ${condition})`;
+    });
+
+    return Prisma.sql`EXISTS (
+      SELECT 1 FROM "AttributeValue" av
+      WHERE av."furnitureId" = f."id" AND (${Prisma.join(branches, " OR ")})
+    )`;
+  });
+
+  if (errors.length > 0) throw ApiError.badRequest("Invalid attribute filter", errors, "INVALID_ATTRIBUTE_FILTER");
+  return conditions;
+};
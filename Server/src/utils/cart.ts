@@ -0,0 +1,69 @@
+/**
+ * Cart helpers shared by the cart routes and anything else that puts items in a cart
+ */
+import { prisma } from "../prisma";
+import { outOfStockError } from "./inventory";
+import { resolveVariants } from "./variants";
+import { assertPurchasable } from "./furnitureStatus";
+
+export interface CartAddition {
+  furnitureId: number;
+  variantId?: number; // The product's default variant when left out
+  quantity: number;
+}
+
+/**
+ * Add several items to the user's cart at once, creating the cart if needed; items already in the cart have their quantity raised.
+ * All or nothing: throws 404 for unknown furniture, FURNITURE_UNAVAILABLE for drafts and archived products,
+ * and OUT_OF_STOCK listing every product the cart would hold more of than is in stock.
+ * Returns one cart item per variant, in the order they were first asked for.
+ */
+export const addItemsToCart = async (userId: number, additions: CartAddition[]) => {
+  const variants = await resolveVariants(additions);
+  assertPurchasable(variants);
+
+  // The same variant may be asked for twice; it still ends up as one cart item
+  const quantities = new Map<number, number>();
+  variants.forEach((variant, index) => {
+    quantities.set(variant.id, (quantities.get(variant.id) ?? 0) + additions[index].quantity);
+  });
+  const variantsById = new Map(variants.map(variant => [variant.id, variant]));
+
+  // Get or create cart
+  let cart = await prisma.cart.findUnique({ where: { userId } });
+  if (!cart) {
+    cart = await prisma.cart.create({ data: { userId } });
+  }
+
+  const existing = await prisma.cartItem.findMany({
+    where: { cartId: cart.id, variantId: { in: [...quantities.keys()] } }
+  });
+  const inCart = new Map(existing.map(item => [item.variantId, item.quantity]));
+
+  const outOfStock = [...quantities.entries()]
+    .filter(([variantId, quantity]) => (inCart.get(variantId) ?? 0) + quantity > variantsById.get(variantId)!.stockQuantity)
+    .map(([variantId]) => variantsById.get(variantId)!.furnitureId);
+  if (outOfStock.length > 0) {
+    throw outOfStockError([...new Set(outOfStock)]);
+  }
+
+  const cartId = cart.id;
+  const items = await prisma.$transaction([...quantities.entries()].map(([variantId, quantity]) =>
+    prisma.cartItem.upsert({
+      where: { cartId_variantId: { cartId, variantId } },
+      create: { cartId, furnitureId: variantsById.get(variantId)!.furnitureId, variantId, quantity },
+      update: { quantity: { increment: quantity } },
+      include: { furniture: true, variant: true }
+    })
+  ));
+
+  return items.map(item => ({ item, created: !inCart.has(item.variantId) }));
+};
+
+/**
+ * Add units of a variant to the user's cart; see addItemsToCart.
+ */
+export const addItemToCart = async (userId: number, furnitureId: number, quantity: number, variantId?: number) => {
+  const [result] = await addItemsToCart(userId, [{ furnitureId, variantId, quantity }]);
+  return result;
+};
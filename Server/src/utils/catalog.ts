@@ -0,0 +1,301 @@
+/**
+ * Catalog files: reading import rows, upserting products by sku and producing export rows.
+ * A row describes a product through its default variant; other variants are managed under /variants.
+ */
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "../prisma";
+import { ApiError, ValidationError } from "./errors";
+import { parseCsv } from "./csv";
+import { createFurnitureSchema } from "./validation";
+import { syncFurnitureFromVariants } from "./variants";
+import { IMAGE_ORDER } from "./images";
+import { recordInitialPrice, recordPriceChange } from "./priceHistory";
+import { getCategoryAttributes, missingRequiredAttributes, saveProductAttributes } from "./attributes";
+
+export const CATALOG_COLUMNS = [
+  "sku", "name", "description", "category", "price", "widthCm", "heightCm", "depthCm", "stockQuantity", "images"
+] as const;
+
+const REQUIRED_COLUMNS = ["sku", "name", "category", "price", "widthCm", "heightCm", "depthCm"];
+
+// Several image URLs share one CSV cell
+const IMAGE_SEPARATOR = "|";
+
+// Categories are written as their full path so names repeated under different parents stay distinct
+const PATH_SEPARATOR = " > ";
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Same rules as POST /api/furnitures, with the category given by path, slug or name instead of ID.
+// Attributes and status are not part of catalog files; set them through the API.
+export const catalogRowSchema = createFurnitureSchema.omit({ categoryId: true, attributes: true, status: true }).extend({
+  category: z.string().trim().min(1, "Category is required")
+});
+
+export type CatalogRow = z.infer<typeof catalogRowSchema>;
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ValidationError[]; // `field` is "rows.<row number>.<column>", counting from 1
+}
+
+const toNumber = (value?: string) => value === undefined || value.trim() === "" ? undefined : Number(value);
+
+// CSV cells are all text; turn them into the JSON shape so both formats go through one schema
+const fromCsvRecord = (record: Record<string, string>) => ({
+  sku: record.sku?.trim(),
+  name: record.name?.trim(),
+  description: record.description?.trim() || undefined,
+  category: record.category,
+  price: toNumber(record.price),
+  widthCm: toNumber(record.widthCm),
+  heightCm: toNumber(record.heightCm),
+  depthCm: toNumber(record.depthCm),
+  stockQuantity: toNumber(record.stockQuantity),
+  images: record.images?.trim()
+    ? record.images.split(IMAGE_SEPARATOR).map(url => url.trim()).filter(Boolean)
+    : undefined
+});
+
+/** Turn an uploaded file into raw rows; CSV needs a header line naming the columns */
+export const readCatalogFile = (body: string, format: "csv" | "json"): unknown[] => {
+  if (format === "json") {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(body);
+    } catch {
+      throw ApiError.badRequest("Catalog file is not valid JSON", [], "INVALID_JSON");
+    }
+    if (!Array.isArray(rows)) throw ApiError.badRequest("A JSON catalog must be an array of rows", [], "INVALID_JSON");
+    return rows;
+  }
+
+  const [header, ...records] = parseCsv(body);
+  const columns = (header ?? []).map(column => column.trim());
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw ApiError.badRequest(
+      `CSV header is missing columns: ${missing.join(", ")}`,
+      missing.map(column => ({ field: column, message: "Column is required" })),
+      "INVALID_CSV"
+    );
+  }
+
+  return records.map(cells => fromCsvRecord(Object.fromEntries(columns.map((column, index) => [column, cells[index]]))));
+};
+
+/** Look up categories the way catalog files name them: "Living Room > Sofas", a slug, or a name used only once */
+const loadCategoryResolver = async () => {
+  const categories = await prisma.category.findMany({ select: { id: true, name: true, slug: true, parentId: true } });
+  const byId = new Map(categories.map(category => [category.id, category]));
+
+  const pathOf = (id: number): string => {
+    const category = byId.get(id)!;
+    return category.parentId ? `${pathOf(category.parentId)}${PATH_SEPARATOR}${category.name}` : category.name;
+  };
+  const normalise = (value: string) => value.split(">").map(part => part.trim().toLowerCase()).join(">");
+
+  const byPath = new Map(categories.map(category => [normalise(pathOf(category.id)), category.id]));
+  const bySlug = new Map(categories.map(category => [category.slug, category.id]));
+
+  const resolve = (value: string): { id: number } | { error: string } => {
+    const id = byPath.get(normalise(value)) ?? bySlug.get(value.trim().toLowerCase());
+    if (id) return { id };
+
+    const named = categories.filter(category => category.name.toLowerCase() === value.trim().toLowerCase());
+    if (named.length === 1) return { id: named[0].id };
+    if (named.length > 1) {
+      return { error: `"${value}" matches several categories; use the full path, e.g. "${pathOf(named[0].id)}"` };
+    }
+    return { error: `Category "${value}" not found` };
+  };
+
+  return { resolve, pathOf };
+};
+
+/**
+ * Validate every row and work out what importing it would do. Nothing is written; rows whose
+ * sku is already used by a non-default variant are rejected because they can't be upserted.
+ */
+export const planCatalogImport = async (rows: unknown[]) => {
+  const { resolve } = await loadCategoryResolver();
+  const errors: ValidationError[] = [];
+  const valid: { row: CatalogRow; categoryId: number }[] = [];
+  const failedRows = new Set<number>();
+  const seenSkus = new Map<string, number>();
+
+  const fail = (rowNumber: number, field: string, message: string, code?: string) => {
+    failedRows.add(rowNumber);
+    errors.push({ field: `rows.${rowNumber}${field ? `.${field}` : ""}`, message, code });
+  };
+
+  rows.forEach((raw, index) => {
+    const rowNumber = index + 1;
+    const parsed = catalogRowSchema.safeParse(raw);
+    if (!parsed.success) {
+      parsed.error.errors.forEach(issue => fail(rowNumber, issue.path.join("."), issue.message, issue.code));
+      return;
+    }
+
+    const row = parsed.data;
+    const firstSeen = seenSkus.get(row.sku);
+    if (firstSeen) {
+      fail(rowNumber, "sku", `SKU ${row.sku} is already used by row ${firstSeen}`, "DUPLICATE_SKU");
+      return;
+    }
+    seenSkus.set(row.sku, rowNumber);
+
+    const category = resolve(row.category);
+    if ("error" in category) {
+      fail(rowNumber, "category", category.error, "CATEGORY_NOT_FOUND");
+      return;
+    }
+
+    valid.push({ row, categoryId: category.id });
+  });
+
+  const skus = valid.map(({ row }) => row.sku);
+  const categoryIds = [...new Set(valid.map(({ categoryId }) => categoryId))];
+  const [products, variants, definitions] = await Promise.all([
+    prisma.furniture.findMany({
+      where: { sku: { in: skus } },
+      select: { id: true, sku: true, categoryId: true, attributeValues: { select: { definitionId: true } } }
+    }),
+    prisma.variant.findMany({ where: { sku: { in: skus }, isDefault: false }, select: { sku: true, furnitureId: true } }),
+    Promise.all(categoryIds.map(async categoryId => [categoryId, await getCategoryAttributes(categoryId)] as const))
+  ]);
+  const existing = new Map(products.map(product => [product.sku, product]));
+  const variantSkus = new Map(variants.map(variant => [variant.sku, variant.furnitureId]));
+  const categoryAttributes = new Map(definitions);
+
+  const upserts = valid.filter(({ row, categoryId }) => {
+    const rowNumber = seenSkus.get(row.sku)!;
+    const furnitureId = variantSkus.get(row.sku);
+    if (furnitureId) {
+      fail(rowNumber, "sku", `SKU ${row.sku} belongs to a variant of product ${furnitureId}`, "VARIANT_SKU");
+      return false;
+    }
+
+    // Files carry no attributes, so the product must already have every value its category requires
+    const product = existing.get(row.sku);
+    const hasValue = new Set(product?.attributeValues.map(value => value.definitionId));
+    const missing = missingRequiredAttributes(categoryAttributes.get(categoryId)!, hasValue);
+    missing.forEach(error => fail(rowNumber, error.field, error.message, error.code));
+    return missing.length === 0;
+  }).map(entry => {
+    const product = existing.get(entry.row.sku);
+    return { ...entry, existingId: product?.id, previousCategoryId: product?.categoryId };
+  });
+
+  return { upserts, errors, failed: failedRows.size };
+};
+
+/** Create a product with its default variant, or update the one with this sku the way PUT /api/furnitures/:id does */
+export const upsertCatalogRow = async (
+  tx: Prisma.TransactionClient,
+  { row, categoryId, existingId, previousCategoryId }: {
+    row: CatalogRow;
+    categoryId: number;
+    existingId?: number;
+    previousCategoryId?: number;
+  },
+  importedById: number
+) => {
+  const { images, category, sku, price, widthCm, heightCm, depthCm, stockQuantity, ...details } = row;
+
+  if (!existingId) {
+    const created = await tx.furniture.create({
+      data: {
+        ...details,
+        sku, price, widthCm, heightCm, depthCm,
+        stockQuantity: stockQuantity ?? 0,
+        categoryId,
+        images: images ? { create: images.map(url => ({ url })) } : undefined,
+        variants: {
+          create: { sku, price, widthCm, heightCm, depthCm, stockQuantity: stockQuantity ?? 0, isDefault: true }
+        }
+      },
+      include: { variants: true }
+    });
+    await recordInitialPrice(tx, created.variants[0], { source: "IMPORT", changedById: importedById });
+    return;
+  }
+
+  const defaultVariant = await tx.variant.findFirst({ where: { furnitureId: existingId, isDefault: true } });
+  await tx.variant.updateMany({
+    where: { furnitureId: existingId, isDefault: true },
+    data: { price, widthCm, heightCm, depthCm, stockQuantity }
+  });
+  if (defaultVariant) {
+    await recordPriceChange(tx, defaultVariant, price, { source: "IMPORT", changedById: importedById });
+  }
+  await tx.furniture.update({
+    where: { id: existingId },
+    data: {
+      ...details,
+      categoryId,
+      ...(images && {
+        images: {
+          deleteMany: { variantId: null, renditions: { equals: Prisma.DbNull } }, // Uploaded photos are kept
+          create: images.map(url => ({ url }))
+        }
+      })
+    }
+  });
+  await syncFurnitureFromVariants(tx, existingId);
+
+  // Moving to another category drops values the new category doesn't define
+  if (categoryId !== previousCategoryId) {
+    await saveProductAttributes(tx, existingId, categoryId);
+  }
+};
+
+/** The whole catalog as import-ready rows, a batch at a time so large catalogs are never held in memory */
+export async function* catalogExportBatches(): AsyncGenerator<CatalogRow[]> {
+  const { pathOf } = await loadCategoryResolver();
+  let cursor: number | undefined;
+
+  while (true) {
+    const batch = await prisma.furniture.findMany({
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: "asc" },
+      include: {
+        variants: { where: { isDefault: true } },
+        images: { where: { variantId: null }, orderBy: IMAGE_ORDER }
+      }
+    });
+    if (batch.length === 0) return;
+
+    yield batch.map(({ variants: [variant], ...product }) => {
+      // The product columns mirror the default variant, apart from stock which is the total
+      const source = variant ?? product;
+      return {
+        sku: source.sku,
+        name: product.name,
+        description: product.description ?? undefined,
+        category: pathOf(product.categoryId),
+        price: Number(source.price),
+        widthCm: Number(source.widthCm),
+        heightCm: Number(source.heightCm),
+        depthCm: Number(source.depthCm),
+        stockQuantity: variant ? variant.stockQuantity : product.stockQuantity,
+        images: product.images.map(image => image.url)
+      };
+    });
+
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+/** Cells for one CSV line, in CATALOG_COLUMNS order */
+export const toCatalogCsvRow = (row: CatalogRow) =>
+  CATALOG_COLUMNS.map(column => {
+    const value = row[column];
+    return Array.isArray(value) ? value.join(IMAGE_SEPARATOR) : value;
+  });
@@ -0,0 +1,60 @@
+/**
+ * Category tree helpers: slugs, subtree lookups and breadcrumb paths
+ */
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { ApiError } from "./errors";
+
+export interface CategoryCrumb {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+// "Living Room" -> "living-room"
+export const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+export const findCategoryBySlug = async (slug: string) => {
+  const category = await prisma.category.findUnique({ where: { slug } });
+  if (!category) throw ApiError.notFound("Category not found", "CATEGORY_NOT_FOUND");
+  return category;
+};
+
+// IDs of a category and every category below it, for use in `IN (...)`
+export const categorySubtreeSql = (categoryId: number) => Prisma.sql`
+  WITH RECURSIVE subtree AS (
+    SELECT "id" FROM "Category" WHERE "id" = ${categoryId}
+    UNION ALL
+    SELECT child."id" FROM "Category" child JOIN subtree ON child."parentId" = subtree."id"
+  )
+  SELECT "id" FROM subtree`;
+
+/** The category and its ancestors, top-level first, e.g. Living Room > Sofas > Sectionals */
+export const getCategoryPath = async (categoryId: number): Promise<CategoryCrumb[]> => {
+  const rows = await prisma.$queryRaw<(CategoryCrumb & { depth: number })[]>`
+    WITH RECURSIVE lineage AS (
+      SELECT "id", "name", "slug", "parentId", 0 AS "depth" FROM "Category" WHERE "id" = ${categoryId}
+      UNION ALL
+      SELECT parent."id", parent."name", parent."slug", parent."parentId", lineage."depth" + 1
+      FROM "Category" parent JOIN lineage ON parent."id" = lineage."parentId"
+    )
+    SELECT "id", "name", "slug", "depth" FROM lineage ORDER BY "depth" DESC`;
+
+  return rows.map(({ id, name, slug }) => ({ id, name, slug }));
+};
+
+/** Nest a flat list of categories under their parents; categories whose parent is missing become roots */
+export const buildCategoryTree = <T extends { id: number; parentId: number | null }>(categories: T[]) => {
+  type Node = T & { children: Node[] };
+  const nodes = new Map<number, Node>(categories.map(category => [category.id, { ...category, children: [] }]));
+  const roots: Node[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  });
+
+  return roots;
+};
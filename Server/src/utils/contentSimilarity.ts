@@ -0,0 +1,173 @@
+/**
+ * Content-based similarity between products: how close their price, size, spec sheet and wording
+ * are, plus their rating. Each signal is a number from 0 to 1; the score is their weighted mean.
+ */
+import { ContentSimilarityWeights } from "../config/recommendations";
+import { Specification } from "./attributes";
+
+export interface ContentProduct {
+  id: number;
+  name: string;
+  description: string | null;
+  price: number;
+  widthCm: number;
+  heightCm: number;
+  depthCm: number;
+  averageRating: number | null;
+  specifications: Specification[];
+}
+
+type Signal = keyof ContentSimilarityWeights;
+
+export interface SimilarityExplanation {
+  score: number;
+  // Null where the signal says nothing for this pair, e.g. the product has no spec sheet; its weight goes to the others
+  signals: Record<Signal, { similarity: number; weight: number; contribution: number } | null>;
+  reasons: string[];
+}
+
+// Unrated products are treated as middling rather than as the worst
+const NEUTRAL_RATING = 3;
+// A signal at or above this is worth mentioning in an explanation
+const NOTABLE_SIMILARITY = 0.8;
+// A product's name says more about it than its description, so its words count this many times
+const NAME_WEIGHT = 2;
+const MAX_REASON_TERMS = 3;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it", "its",
+  "of", "on", "or", "that", "the", "this", "to", "with", "your", "you", "our", "cm"
+]);
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// 1 for equal values, falling towards 0 as one grows past the other
+const ratio = (a: number, b: number) => {
+  if (a <= 0 || b <= 0) return a === b ? 1 : 0;
+  return Math.min(a, b) / Math.max(a, b);
+};
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+const termCounts = (product: ContentProduct) => {
+  const counts = new Map<string, number>();
+  const add = (token: string, count: number) => counts.set(token, (counts.get(token) ?? 0) + count);
+  tokenize(product.name).forEach(token => add(token, NAME_WEIGHT));
+  tokenize(product.description ?? "").forEach(token => add(token, 1));
+  return counts;
+};
+
+// TF-IDF vectors over the given products, so words every product uses ("sofa" among sofas) count for little
+const tfIdfVectors = (products: ContentProduct[]) => {
+  const counts = products.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(terms => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+
+  return new Map(products.map((product, index) => {
+    const vector = new Map<string, number>();
+    counts[index].forEach((count, term) => {
+      const idf = Math.log((products.length + 1) / (documentFrequency.get(term)! + 1)) + 1;
+      vector.set(term, count * idf);
+    });
+    return [product.id, vector];
+  }));
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let dot = 0;
+  a.forEach((weight, term) => { dot += weight * (b.get(term) ?? 0); });
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+// Share of the anchor's specs the candidate matches; numbers match in proportion to how close they are
+const attributeSimilarity = (anchor: Specification[], candidate: Specification[]) => {
+  if (anchor.length === 0) return { similarity: null, matches: [] as Specification[] };
+
+  const values = new Map(candidate.map(spec => [spec.key, spec.value]));
+  const matches: Specification[] = [];
+  const total = anchor.reduce((sum, spec) => {
+    const value = values.get(spec.key);
+    if (value === undefined) return sum;
+    const similarity = typeof spec.value === "number" && typeof value === "number"
+      ? ratio(spec.value, value)
+      : Number(spec.value === value);
+    if (similarity >= NOTABLE_SIMILARITY) matches.push(spec);
+    return sum + similarity;
+  }, 0);
+
+  return { similarity: total / anchor.length, matches };
+};
+
+// "material: Oak", "weight capacity: 120 kg"
+const formatSpec = (spec: Specification) =>
+  typeof spec.value === "boolean"
+    ? `${spec.name.toLowerCase()}: ${spec.value ? "Yes" : "No"}`
+    : `${spec.name.toLowerCase()}: ${spec.value}${spec.unit ? ` ${spec.unit}` : ""}`;
+
+/**
+ * Scores every candidate against the anchor, best first. Word weights are learned from the anchor
+ * and candidates together, so pass the whole pool rather than one candidate at a time.
+ */
+export const rankBySimilarity = (
+  anchor: ContentProduct,
+  candidates: ContentProduct[],
+  weights: ContentSimilarityWeights
+) => {
+  const vectors = tfIdfVectors([anchor, ...candidates]);
+  const anchorVector = vectors.get(anchor.id)!;
+
+  return candidates
+    .map(candidate => {
+      const candidateVector = vectors.get(candidate.id)!;
+      const attributes = attributeSimilarity(anchor.specifications, candidate.specifications);
+      const similarities: Record<Signal, number | null> = {
+        price: ratio(anchor.price, candidate.price),
+        dimensions: (
+          ratio(anchor.widthCm, candidate.widthCm) +
+          ratio(anchor.heightCm, candidate.heightCm) +
+          ratio(anchor.depthCm, candidate.depthCm)
+        ) / 3,
+        attributes: attributes.similarity,
+        text: cosine(anchorVector, candidateVector),
+        rating: (candidate.averageRating ?? NEUTRAL_RATING) / 5
+      };
+
+      const signals = Object.keys(similarities) as Signal[];
+      const totalWeight = signals.reduce((sum, signal) => sum + (similarities[signal] === null ? 0 : weights[signal]), 0);
+      const explanation: SimilarityExplanation = { score: 0, signals: {} as SimilarityExplanation["signals"], reasons: [] };
+
+      signals.forEach(signal => {
+        const similarity = similarities[signal];
+        if (similarity === null || totalWeight <= 0) {
+          explanation.signals[signal] = null;
+          return;
+        }
+        const weight = weights[signal] / totalWeight;
+        explanation.signals[signal] = { similarity: round(similarity), weight: round(weight), contribution: round(similarity * weight) };
+        explanation.score += similarity * weight;
+      });
+      explanation.score = round(explanation.score);
+
+      // Plain-language reasons for the signals that stood out
+      const { reasons } = explanation;
+      if (similarities.price! >= NOTABLE_SIMILARITY) reasons.push(`Similar price (₹${candidate.price.toLocaleString("en-IN")})`);
+      if (similarities.dimensions! >= NOTABLE_SIMILARITY) {
+        reasons.push(`Similar size (${candidate.widthCm} × ${candidate.depthCm} × ${candidate.heightCm} cm)`);
+      }
+      if (attributes.matches.length > 0) reasons.push(`Same ${attributes.matches.map(formatSpec).join(", ")}`);
+      const sharedTerms = [...anchorVector.keys()]
+        .filter(term => candidateVector.has(term))
+        .sort((a, b) => anchorVector.get(b)! * candidateVector.get(b)! - anchorVector.get(a)! * candidateVector.get(a)!)
+        .slice(0, MAX_REASON_TERMS);
+      if (sharedTerms.length > 0) reasons.push(`Both described as ${sharedTerms.join(", ")}`);
+      if (candidate.averageRating !== null && candidate.averageRating >= 4) {
+        reasons.push(`Highly rated (${candidate.averageRating.toFixed(1)} / 5)`);
+      }
+
+      return { id: candidate.id, score: explanation.score, explanation };
+    })
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,58 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for catalog files
+ */
+import { ApiError } from "./errors";
+
+/** Split CSV text into rows of fields. Quoted fields may contain commas, quotes ("") and line breaks. */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, ""); // Excel adds a byte order mark
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw ApiError.badRequest("CSV has an unterminated quoted field", [], "INVALID_CSV");
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+};
+
+const escapeField = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One CSV line, including the trailing newline */
+export const toCsvLine = (values: (string | number | null | undefined)[]) => values.map(escapeField).join(",") + "\r\n";
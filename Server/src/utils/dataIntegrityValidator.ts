@@ -151,6 +151,19 @@ export class DataIntegrityValidator {
         furnitureWithInvalidDimensions > 0 ? `${furnitureWithInvalidDimensions} furniture items with invalid dimensions` : 'All furniture has valid dimensions'
       );
 
+      // Check for furniture with negative stock
+      const furnitureWithNegativeStock = await prisma.furniture.count({
+        where: {
+          stockQuantity: { lt: 0 }
+        }
+      });
+      
+      this.addResult(
+        'Furniture - Stock Validation',
+        furnitureWithNegativeStock === 0,
+        furnitureWithNegativeStock > 0 ? `${furnitureWithNegativeStock} furniture items with negative stock` : 'All furniture has valid stock levels'
+      );
+
       // Check total furniture count
       const totalFurniture = await prisma.furniture.count();
       this.addResult('Furniture - Total Count', true, `${totalFurniture} furniture items in system`, totalFurniture);
@@ -447,9 +460,9 @@ export class DataIntegrityValidator {
 
   private async validateBusinessRules(): Promise<void> {
     try {
-      // Check for completed orders without reviews (business rule: customers should be able to review)
+      // Check for delivered orders without reviews (business rule: customers should be able to review)
       const completedOrdersCount = await prisma.order.count({
-        where: { status: 'COMPLETED' }
+        where: { status: 'DELIVERED' }
       });
       
       const reviewsForCompletedOrders = await prisma.$queryRaw<any[]>`
@@ -458,7 +471,7 @@ export class DataIntegrityValidator {
         JOIN "Furniture" f ON r.furniture_id = f.id
         JOIN "OrderItem" oi ON f.id = oi.furniture_id
         JOIN "Order" o ON oi.order_id = o.id
-        WHERE o.status = 'COMPLETED' AND r.user_id = o.user_id
+        WHERE o.status = 'DELIVERED' AND r.user_id = o.user_id
       `;
       
       const reviewCount = reviewsForCompletedOrders[0]?.review_count || 0;
@@ -467,7 +480,7 @@ export class DataIntegrityValidator {
       this.addResult(
         'Business Rules - Review Coverage',
         true, // This is informational
-        `${reviewCoverage.toFixed(1)}% review coverage for completed orders`
+        `${reviewCoverage.toFixed(1)}% review coverage for delivered orders`
       );
 
       // Check for users with multiple carts (should be one cart per user)
@@ -484,19 +497,19 @@ export class DataIntegrityValidator {
         usersWithMultipleCarts.length > 0 ? `${usersWithMultipleCarts.length} users with multiple carts` : 'Each user has at most one cart'
       );
 
-      // Check for orders with status transitions that don't make sense
-      const ordersWithInvalidStatus = await prisma.order.count({
+      // Every order should carry at least the history entry written when it was created
+      const ordersWithoutHistory = await prisma.order.count({
         where: {
-          status: {
-            notIn: ['PENDING', 'COMPLETED', 'CANCELLED']
+          statusHistory: {
+            none: {}
           }
         }
       });
       
       this.addResult(
-        'Business Rules - Valid Order Status',
-        ordersWithInvalidStatus === 0,
-        ordersWithInvalidStatus > 0 ? `${ordersWithInvalidStatus} orders with invalid status` : 'All orders have valid status'
+        'Business Rules - Order Status History',
+        ordersWithoutHistory === 0,
+        ordersWithoutHistory > 0 ? `${ordersWithoutHistory} orders without status history` : 'All orders have a status history'
       );
 
     } catch (error: any) {
@@ -0,0 +1,52 @@
+/**
+ * Assigning shoppers to recommendation experiments. Assignment is a hash of the experiment and the
+ * shopper, so nothing is stored and the same shopper gets the same variant on every request.
+ */
+import { createHash } from "crypto";
+import { ExperimentStatus, RecommendationSurface } from "@prisma/client";
+import { prisma } from "../prisma";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { ExperimentConfig } from "./validation";
+
+// The storefront's browser session, for shoppers who aren't signed in
+export const SESSION_HEADER = "x-session-id";
+
+export interface ExperimentAssignment {
+  experiment: string;
+  variant: string;
+  config: ExperimentConfig;
+}
+
+// Signed-in shoppers are bucketed by account, so they see the same variant on every device
+export const experimentUnit = (req: AuthRequest): string | null => {
+  if (req.user?.id) return `user:${req.user.id}`;
+  const sessionId = req.get(SESSION_HEADER)?.trim();
+  return sessionId ? `session:${sessionId.slice(0, 100)}` : null;
+};
+
+/**
+ * The variant of the experiment running on a surface that this shopper is in; null when nothing
+ * is running there or the shopper can't be identified.
+ */
+export const assignVariant = async (surface: RecommendationSurface, req: AuthRequest): Promise<ExperimentAssignment | null> => {
+  const unit = experimentUnit(req);
+  if (!unit) return null;
+
+  const experiment = await prisma.experiment.findFirst({
+    where: { surface, status: ExperimentStatus.RUNNING },
+    include: { variants: { orderBy: { id: "asc" } } }
+  });
+  if (!experiment || experiment.variants.length === 0) return null;
+
+  // Hashing the key too means a shopper's bucket in one experiment says nothing about the next
+  const hash = createHash("sha256").update(`${experiment.key}:${unit}`).digest().readUInt32BE(0);
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = hash % totalWeight;
+  const variant = experiment.variants.find(candidate => (bucket -= candidate.weight) < 0)!;
+
+  return { experiment: experiment.key, variant: variant.key, config: (variant.config ?? {}) as ExperimentConfig };
+};
+
+// What recommendation responses say about the assignment; the config stays on the server
+export const describeAssignment = (assignment: ExperimentAssignment | null) =>
+  assignment ? { key: assignment.experiment, variant: assignment.variant } : null;
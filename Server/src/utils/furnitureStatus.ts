@@ -0,0 +1,24 @@
+/**
+ * Product lifecycle: drafts are prepared out of sight, active products are listed and sold, and
+ * archived ones are off sale but kept for the orders, reviews and rooms that refer to them
+ */
+import { FurnitureStatus, Prisma } from "@prisma/client";
+import { ApiError } from "./errors";
+
+// Where condition for anything shown to shoppers: listings, typeahead and recommendations
+export const LISTED_FURNITURE = { status: FurnitureStatus.ACTIVE } satisfies Prisma.FurnitureWhereInput;
+
+/** Throws FURNITURE_UNAVAILABLE naming every product that is a draft or archived */
+export const assertPurchasable = (variants: { furnitureId: number; furniture: { status: FurnitureStatus } }[]) => {
+  const unavailable = [...new Set(
+    variants.filter(variant => variant.furniture.status !== FurnitureStatus.ACTIVE).map(variant => variant.furnitureId)
+  )];
+  if (unavailable.length === 0) return;
+
+  throw new ApiError(
+    409,
+    `Furniture items are no longer available: ${unavailable.join(', ')}`,
+    unavailable.map(id => ({ field: "furnitureId", message: `Furniture ${id} is not for sale`, code: String(id) })),
+    "FURNITURE_UNAVAILABLE"
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * Product photo processing: every upload is resized into fixed-width WebP renditions and stored
+ * through the configured storage adapter. The large rendition doubles as `Image.url`.
+ */
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import sharp from "sharp";
+import { getStorage } from "../storage";
+import { ApiError } from "./errors";
+
+export const RENDITIONS = {
+  thumbnail: 200,
+  medium: 600,
+  large: 1200
+} as const;
+
+export type RenditionName = keyof typeof RENDITIONS;
+
+export type Rendition = {
+  url: string;
+  key: string; // Storage key, needed to delete the file
+  width: number;
+  height: number;
+};
+
+export type Renditions = Record<RenditionName, Rendition>;
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMAGES_PER_UPLOAD = 10;
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/avif"];
+
+/** Resize one uploaded photo into every rendition and store them under furniture/<id>/ */
+export const storeImageRenditions = async (furnitureId: number, data: Buffer): Promise<Renditions> => {
+  const storage = getStorage();
+  const baseKey = `furniture/${furnitureId}/${randomUUID()}`;
+
+  try {
+    // Fail early on files that only claim to be images
+    await sharp(data).metadata();
+  } catch {
+    throw ApiError.badRequest("File is not a readable image", [], "INVALID_IMAGE");
+  }
+
+  const entries = await Promise.all(
+    (Object.entries(RENDITIONS) as [RenditionName, number][]).map(async ([name, width]) => {
+      // Rotate by the EXIF orientation first, and never upscale small originals
+      const { data: output, info } = await sharp(data)
+        .rotate()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      const key = `${baseKey}-${name}.webp`;
+      const url = await storage.put(key, output, "image/webp");
+      return [name, { url, key, width: info.width, height: info.height }] as const;
+    })
+  );
+
+  return Object.fromEntries(entries) as Renditions;
+};
+
+/** Remove every stored file of an image; images added by URL have no renditions and nothing to delete */
+export const deleteImageRenditions = async (renditions: unknown) => {
+  if (!renditions || typeof renditions !== "object") return;
+  const storage = getStorage();
+  await Promise.all(
+    Object.values(renditions as Partial<Renditions>).map(rendition => rendition?.key && storage.delete(rendition.key))
+  );
+};
+
+// Display order for a product's photos; include as `images: { orderBy: IMAGE_ORDER }`
+export const IMAGE_ORDER: Prisma.ImageOrderByWithRelationInput[] = [{ sortOrder: "asc" }, { id: "asc" }];
@@ -0,0 +1,83 @@
+/**
+ * Stock reservation helpers shared by the checkout and order flows
+ */
+import { Prisma } from "@prisma/client";
+import { ApiError } from "./errors";
+
+export interface StockLine {
+  furnitureId: number;
+  variantId: number | null; // Null only on order items whose variant was removed since
+  quantity: number;
+}
+
+// Collapse repeated variants so each SKU is adjusted once
+const mergeLines = (lines: StockLine[]): StockLine[] => {
+  const totals = new Map<string, StockLine>();
+  lines.forEach(line => {
+    const key = `${line.furnitureId}:${line.variantId ?? ''}`;
+    const existing = totals.get(key);
+    totals.set(key, { ...line, quantity: (existing?.quantity || 0) + line.quantity });
+  });
+  return Array.from(totals.values());
+};
+
+export const outOfStockError = (furnitureIds: number[]) => {
+  return new ApiError(
+    409,
+    `Insufficient stock for furniture items: ${furnitureIds.join(', ')}`,
+    furnitureIds.map(id => ({ field: "furnitureId", message: `Furniture ${id} is out of stock`, code: String(id) })),
+    "OUT_OF_STOCK"
+  );
+};
+
+/**
+ * Reserve stock for every line inside an open transaction.
+ * Each decrement only applies while enough stock of the variant remains, so concurrent
+ * checkouts cannot oversell; any shortfall throws and rolls the transaction back.
+ * The product's total goes down alongside its variant.
+ */
+export const reserveStock = async (tx: Prisma.TransactionClient, lines: StockLine[]) => {
+  const outOfStock: number[] = [];
+
+  for (const line of mergeLines(lines)) {
+    const result = line.variantId
+      ? await tx.variant.updateMany({
+          where: { id: line.variantId, stockQuantity: { gte: line.quantity } },
+          data: { stockQuantity: { decrement: line.quantity } }
+        })
+      : { count: 0 };
+
+    if (result.count === 0) {
+      outOfStock.push(line.furnitureId);
+      continue;
+    }
+
+    await tx.furniture.update({
+      where: { id: line.furnitureId },
+      data: { stockQuantity: { decrement: line.quantity } }
+    });
+  }
+
+  if (outOfStock.length > 0) {
+    throw outOfStockError(outOfStock);
+  }
+};
+
+/**
+ * Return previously reserved stock, e.g. when an order is cancelled.
+ * Units of a variant that has since been removed have nowhere to go and are dropped.
+ */
+export const releaseStock = async (tx: Prisma.TransactionClient, lines: StockLine[]) => {
+  for (const line of mergeLines(lines)) {
+    if (!line.variantId) continue;
+
+    await tx.variant.update({
+      where: { id: line.variantId },
+      data: { stockQuantity: { increment: line.quantity } }
+    });
+    await tx.furniture.update({
+      where: { id: line.furnitureId },
+      data: { stockQuantity: { increment: line.quantity } }
+    });
+  }
+};
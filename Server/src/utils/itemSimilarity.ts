@@ -0,0 +1,97 @@
+/**
+ * Item-to-item similarity for collaborative recommendations. Two products are similar when the
+ * same baskets hold them: paid orders, and each shopper's cart and wishlists taken together.
+ * The similarity job rebuilds the whole table; recommendations only read it.
+ */
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { PURCHASED_ORDER_STATUSES } from "./orderStatus";
+
+// Matches kept per product
+const MAX_SIMILAR_ITEMS = 20;
+// Something in a cart or wishlist counts half as much as something paid for
+const INTEREST_WEIGHT = 0.5;
+// A pair needs at least one order, or two shoppers' carts/wishlists, in common
+const MIN_PAIR_WEIGHT = 1;
+
+/**
+ * Replaces every similarity row. The score is the cosine similarity of the two products' weighted
+ * baskets, so products that turn up in nearly every basket don't match everything.
+ * Returns the number of rows written.
+ */
+export const rebuildItemSimilarity = async () => {
+  const [, written] = await prisma.$transaction([
+    prisma.itemSimilarity.deleteMany(),
+    prisma.$executeRaw`
+      WITH baskets AS (
+        SELECT DISTINCT 'order:' || oi."orderId"::text AS basket, oi."furnitureId", 1.0::float8 AS weight, TRUE AS purchased
+        FROM "OrderItem" oi
+        JOIN "Order" o ON o."id" = oi."orderId"
+        WHERE o."status"::text IN (${Prisma.join(PURCHASED_ORDER_STATUSES)})
+        UNION ALL
+        SELECT 'user:' || interest."userId"::text, interest."furnitureId", ${INTEREST_WEIGHT}::float8, FALSE
+        FROM (
+          SELECT c."userId", ci."furnitureId" FROM "CartItem" ci JOIN "Cart" c ON c."id" = ci."cartId"
+          UNION
+          SELECT w."userId", wi."furnitureId" FROM "WishlistItem" wi JOIN "Wishlist" w ON w."id" = wi."wishlistId"
+        ) interest
+      ),
+      totals AS (
+        SELECT "furnitureId", SUM(weight) AS weight FROM baskets GROUP BY "furnitureId"
+      ),
+      pairs AS (
+        SELECT a."furnitureId", b."furnitureId" AS "similarFurnitureId",
+               SUM(a.weight) AS weight,
+               COUNT(*) FILTER (WHERE a.purchased) AS "coPurchases"
+        FROM baskets a
+        JOIN baskets b ON b.basket = a.basket AND b."furnitureId" <> a."furnitureId"
+        GROUP BY a."furnitureId", b."furnitureId"
+        HAVING SUM(a.weight) >= ${MIN_PAIR_WEIGHT}::float8
+      ),
+      scored AS (
+        SELECT p."furnitureId", p."similarFurnitureId", p."coPurchases",
+               p.weight / SQRT(ta.weight * tb.weight) AS score
+        FROM pairs p
+        JOIN totals ta ON ta."furnitureId" = p."furnitureId"
+        JOIN totals tb ON tb."furnitureId" = p."similarFurnitureId"
+      ),
+      ranked AS (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY "furnitureId" ORDER BY score DESC, "coPurchases" DESC) AS rank
+        FROM scored
+      )
+      INSERT INTO "ItemSimilarity" ("furnitureId", "similarFurnitureId", "score", "coPurchases")
+      SELECT "furnitureId", "similarFurnitureId", score, "coPurchases"
+      FROM ranked
+      WHERE rank <= ${MAX_SIMILAR_ITEMS}
+    `
+  ]);
+
+  return written;
+};
+
+/**
+ * Products similar to the given ones, best first, scored by their summed similarity to each of
+ * them. `seeds` maps a product ID to how much it counts (e.g. bought vs. only saved). Includes
+ * products that are no longer listed; callers filter those out.
+ */
+export const findSimilarItems = async (seeds: Map<number, number>, excludeIds: number[] = []) => {
+  if (seeds.size === 0) return [];
+
+  const rows = await prisma.itemSimilarity.findMany({
+    where: {
+      furnitureId: { in: [...seeds.keys()] },
+      similarFurnitureId: { notIn: [...seeds.keys(), ...excludeIds] }
+    },
+    select: { furnitureId: true, similarFurnitureId: true, score: true }
+  });
+
+  const scores = new Map<number, number>();
+  rows.forEach(row => {
+    const score = row.score * seeds.get(row.furnitureId)!;
+    scores.set(row.similarFurnitureId, (scores.get(row.similarFurnitureId) ?? 0) + score);
+  });
+
+  return [...scores.entries()]
+    .map(([furnitureId, score]) => ({ furnitureId, score }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -29,3 +29,25 @@ export function getTokenExpiry(token: string): number | null {
     return null;
   }
 }
+
+const ORDER_LOOKUP_SECRET = process.env.ORDER_LOOKUP_SECRET || "dev_order_lookup_secret";
+const ORDER_LOOKUP_EXPIRES_IN = (process.env.ORDER_LOOKUP_EXPIRES_IN || "90d") as SignOptions["expiresIn"];
+
+export interface OrderLookupPayload {
+  orderId: number;
+  email: string;
+}
+
+// Lets a guest view one order without an account; signed with its own secret so it can never pass as a login token
+export function signOrderLookupToken(payload: OrderLookupPayload): string {
+  return jwt.sign(payload, ORDER_LOOKUP_SECRET, { expiresIn: ORDER_LOOKUP_EXPIRES_IN });
+}
+
+export function verifyOrderLookupToken(token: string): OrderLookupPayload | null {
+  try {
+    const decoded = jwt.verify(token, ORDER_LOOKUP_SECRET) as any;
+    return typeof decoded?.orderId === "number" && typeof decoded?.email === "string" ? decoded : null;
+  } catch {
+    return null;
+  }
+}
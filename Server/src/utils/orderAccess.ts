@@ -0,0 +1,57 @@
+/**
+ * Who may see an order: its owner, staff, or a guest holding the order's lookup token
+ */
+import { prisma } from "../prisma";
+import { isStaffOrAdmin } from "../middleware/authMiddleware";
+import { ApiError } from "./errors";
+import { OrderLookupPayload, signOrderLookupToken, verifyOrderLookupToken } from "./jwt";
+
+interface AccessibleOrder {
+  id: number;
+  userId: number | null;
+  guestEmail: string | null;
+}
+
+/** Lookup token from `?token=` (order links) or the `X-Order-Token` header (API calls) */
+export const getOrderLookupToken = (req: any): string | undefined => {
+  const token = req.query?.token ?? req.headers?.["x-order-token"];
+  return typeof token === "string" && token ? token : undefined;
+};
+
+export const createOrderLookupToken = (order: { id: number; guestEmail: string | null }) =>
+  order.guestEmail ? signOrderLookupToken({ orderId: order.id, email: order.guestEmail }) : undefined;
+
+const hasValidLookupToken = (req: any, order: AccessibleOrder) => {
+  const token = getOrderLookupToken(req);
+  if (!token || !order.guestEmail) return false;
+
+  const payload = verifyOrderLookupToken(token);
+  return payload?.orderId === order.id && payload.email === order.guestEmail;
+};
+
+/**
+ * Attach guest orders to an account. Emails aren't verified, so an order is only claimed with the
+ * lookup token its guest was given. Returns the number of orders claimed.
+ */
+export const claimGuestOrders = async (userId: number, tokens: string[]) => {
+  const claims = tokens
+    .map(verifyOrderLookupToken)
+    .filter((payload): payload is OrderLookupPayload => payload !== null);
+  if (claims.length === 0) return 0;
+
+  const { count } = await prisma.order.updateMany({
+    where: { userId: null, OR: claims.map(claim => ({ id: claim.orderId, guestEmail: claim.email })) },
+    data: { userId }
+  });
+  return count;
+};
+
+export const assertOrderAccess = (req: any, order: AccessibleOrder) => {
+  if (req.user && (order.userId === req.user.id || isStaffOrAdmin(req.user))) return;
+  if (hasValidLookupToken(req, order)) return;
+
+  if (!req.user && !getOrderLookupToken(req)) {
+    throw ApiError.unauthorized("Sign in or use your order link to view this order");
+  }
+  throw ApiError.forbidden("Access denied");
+};
@@ -0,0 +1,105 @@
+/**
+ * Order lifecycle rules: allowed transitions and the status history trail
+ */
+import { OrderStatus, Prisma } from "@prisma/client";
+import { ApiError } from "./errors";
+import { releaseStock, StockLine } from "./inventory";
+import { releasePromotionUsage } from "./promotions";
+
+// Every status an order may move to from its current one; terminal states map to []
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING_PAYMENT: ["PAID", "CANCELLED"],
+  PAID: ["PROCESSING", "CANCELLED", "REFUNDED"],
+  PROCESSING: ["SHIPPED", "CANCELLED", "REFUNDED"],
+  SHIPPED: ["DELIVERED"],
+  DELIVERED: ["REFUNDED"],
+  CANCELLED: [],
+  REFUNDED: []
+};
+
+// Orders the customer has actually paid for (used for reviews and recommendations)
+export const PURCHASED_ORDER_STATUSES: OrderStatus[] = ["PAID", "PROCESSING", "SHIPPED", "DELIVERED"];
+
+// Statuses in which the order's units are still held back from the shelf
+const STOCK_HELD_STATUSES: OrderStatus[] = ["PENDING_PAYMENT", "PAID", "PROCESSING"];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+export const assertTransition = (from: OrderStatus, to: OrderStatus) => {
+  if (canTransition(from, to)) return;
+
+  const allowed = ORDER_STATUS_TRANSITIONS[from];
+  throw new ApiError(
+    409,
+    allowed.length > 0
+      ? `Cannot change order status from ${from} to ${to}. Allowed: ${allowed.join(', ')}`
+      : `Cannot change status of ${from.toLowerCase()} order`,
+    [{ field: "status", message: `Invalid transition from ${from} to ${to}`, code: to }],
+    "INVALID_STATUS_TRANSITION"
+  );
+};
+
+/** True when moving from `from` to `to` should put reserved units back in stock */
+export const releasesStock = (from: OrderStatus, to: OrderStatus) => {
+  return STOCK_HELD_STATUSES.includes(from) && (to === "CANCELLED" || to === "REFUNDED");
+};
+
+export interface StatusChange {
+  orderId: number;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedById?: number | null;
+  note?: string | null;
+}
+
+/** Append a history entry; call inside the same transaction that updates the order */
+export const recordStatusChange = (tx: Prisma.TransactionClient, change: StatusChange) => {
+  return tx.orderStatusHistory.create({
+    data: {
+      orderId: change.orderId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      changedById: change.changedById ?? null,
+      note: change.note ?? null
+    }
+  });
+};
+
+export interface OrderTransition {
+  orderId: number;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  items: StockLine[];
+  changedById?: number | null;
+  note?: string | null;
+}
+
+/**
+ * Move an order along the lifecycle inside an open transaction: validates the
+ * transition, returns held stock (and coupon redemptions on cancellation) when
+ * needed and writes the history entry.
+ * The update is conditional on `fromStatus`, so a concurrent change makes this throw.
+ */
+export const transitionOrderStatus = async (tx: Prisma.TransactionClient, transition: OrderTransition) => {
+  const { orderId, fromStatus, toStatus } = transition;
+  assertTransition(fromStatus, toStatus);
+
+  if (releasesStock(fromStatus, toStatus)) {
+    await releaseStock(tx, transition.items);
+  }
+  if (toStatus === "CANCELLED") {
+    await releasePromotionUsage(tx, orderId);
+  }
+
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: fromStatus },
+    data: { status: toStatus }
+  });
+  if (count === 0) {
+    throw new ApiError(409, "Order status was changed by another request, please retry", [], "STATUS_CONFLICT");
+  }
+
+  await recordStatusChange(tx, transition);
+};
@@ -0,0 +1,172 @@
+/**
+ * Price history and scheduled price changes. Every change to a variant's price goes through
+ * here so it is recorded; scheduled changes are applied by the price scheduler job.
+ */
+import { PriceChangeSource, Prisma, ScheduledPrice } from "@prisma/client";
+import { prisma } from "../prisma";
+import { ApiError } from "./errors";
+import { syncFurnitureFromVariants } from "./variants";
+
+type PricedVariant = { id: number; furnitureId: number; price: Prisma.Decimal };
+
+interface PriceChange {
+  source: PriceChangeSource;
+  changedById?: number | null;
+  scheduledPriceId?: number;
+}
+
+// Writes the history row; callers have already updated the variant
+const writeHistory = (
+  tx: Prisma.TransactionClient,
+  variant: PricedVariant,
+  price: Prisma.Decimal.Value,
+  { source, changedById, scheduledPriceId }: PriceChange
+) =>
+  tx.priceHistory.create({
+    data: {
+      variantId: variant.id,
+      furnitureId: variant.furnitureId,
+      price,
+      previousPrice: variant.price,
+      source,
+      changedById: changedById ?? null,
+      scheduledPriceId
+    }
+  });
+
+/** First history row for a variant that was just created */
+export const recordInitialPrice = (tx: Prisma.TransactionClient, variant: PricedVariant, change: PriceChange) =>
+  tx.priceHistory.create({
+    data: { variantId: variant.id, furnitureId: variant.furnitureId, price: variant.price, source: change.source, changedById: change.changedById ?? null }
+  });
+
+/**
+ * Record a price set by hand or by a catalog import. `before` is the variant as it was; nothing is
+ * written when the price didn't change. A sale running on the variant ends, because the new price
+ * replaces both the sale price and the regular price it would have gone back to.
+ */
+export const recordPriceChange = async (
+  tx: Prisma.TransactionClient,
+  before: PricedVariant,
+  price: Prisma.Decimal.Value | undefined,
+  change: PriceChange
+) => {
+  if (price === undefined || before.price.equals(price)) return;
+
+  const { count } = await tx.scheduledPrice.updateMany({
+    where: { variantId: before.id, status: "ACTIVE" },
+    data: { status: "CANCELLED" }
+  });
+  if (count > 0) {
+    await tx.variant.update({ where: { id: before.id }, data: { compareAtPrice: null } });
+  }
+  await writeHistory(tx, before, price, change);
+};
+
+type Window = Pick<ScheduledPrice, "startsAt" | "endsAt">;
+
+// Sales cover [startsAt, endsAt); a permanent change takes up the millisecond it happens in
+const overlaps = (a: Window, b: Window) => {
+  const end = (window: Window) => window.endsAt?.getTime() ?? window.startsAt.getTime() + 1;
+  return a.startsAt.getTime() < end(b) && b.startsAt.getTime() < end(a);
+};
+
+/** Plan a price change for a variant; it may not overlap another pending or running one */
+export const schedulePriceChange = async (
+  variant: PricedVariant,
+  { price, startsAt, endsAt }: { price: number; startsAt: Date; endsAt?: Date }
+) => {
+  const planned = await prisma.scheduledPrice.findMany({
+    where: { variantId: variant.id, status: { in: ["PENDING", "ACTIVE"] } }
+  });
+  const clash = planned.find(other => overlaps({ startsAt, endsAt: endsAt ?? null }, other));
+  if (clash) {
+    throw ApiError.conflict(`Overlaps scheduled price ${clash.id}`, "startsAt", "SCHEDULE_OVERLAP");
+  }
+
+  return prisma.scheduledPrice.create({
+    data: { variantId: variant.id, furnitureId: variant.furnitureId, price, startsAt, endsAt }
+  });
+};
+
+// Put the regular price back at the end of a sale; the caller updates the schedule's status
+const endSale = async (tx: Prisma.TransactionClient, schedule: ScheduledPrice) => {
+  const variant = await tx.variant.findUniqueOrThrow({ where: { id: schedule.variantId } });
+  const regularPrice = schedule.regularPrice ?? variant.price;
+
+  await tx.variant.update({ where: { id: variant.id }, data: { price: regularPrice, compareAtPrice: null } });
+  if (!variant.price.equals(regularPrice)) {
+    await writeHistory(tx, variant, regularPrice, { source: "SCHEDULE_END", scheduledPriceId: schedule.id });
+  }
+  await syncFurnitureFromVariants(tx, variant.furnitureId);
+};
+
+/** Cancel a scheduled change; a sale that has already started ends now */
+export const cancelScheduledPrice = (schedule: ScheduledPrice) =>
+  prisma.$transaction(async (tx) => {
+    // The job may have started or finished it since it was loaded
+    const { count } = await tx.scheduledPrice.updateMany({
+      where: { id: schedule.id, status: { in: ["PENDING", "ACTIVE"] } },
+      data: { status: "CANCELLED" }
+    });
+    if (count === 0) {
+      throw ApiError.badRequest("Scheduled price has already finished", [], "SCHEDULE_FINISHED");
+    }
+
+    const current = await tx.scheduledPrice.findUniqueOrThrow({ where: { id: schedule.id } });
+    if (current.regularPrice !== null) await endSale(tx, current);
+    return current;
+  });
+
+/**
+ * End sales whose time is up, then start changes that are due, each in its own transaction.
+ * Ending first lets a sale start the moment the previous one ends, from the restored regular price.
+ * Each schedule is claimed with a status check, so two servers running the job don't apply it twice.
+ */
+export const applyDuePriceChanges = async (now = new Date()) => {
+  let started = 0;
+  let ended = 0;
+
+  const finishing = await prisma.scheduledPrice.findMany({ where: { status: "ACTIVE", endsAt: { lte: now } } });
+  for (const schedule of finishing) {
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.scheduledPrice.updateMany({ where: { id: schedule.id, status: "ACTIVE" }, data: { status: "COMPLETED" } });
+      if (claimed.count === 0) return;
+      await endSale(tx, schedule);
+      ended++;
+    });
+  }
+
+  const due = await prisma.scheduledPrice.findMany({ where: { status: "PENDING", startsAt: { lte: now } }, orderBy: { startsAt: "asc" } });
+  for (const schedule of due) {
+    await prisma.$transaction(async (tx) => {
+      // A sale that was over before the job got to it is skipped rather than applied and reverted
+      const missed = schedule.endsAt !== null && schedule.endsAt <= now;
+      const variant = await tx.variant.findUniqueOrThrow({ where: { id: schedule.variantId } });
+      const claimed = await tx.scheduledPrice.updateMany({
+        where: { id: schedule.id, status: "PENDING" },
+        data: {
+          status: !missed && schedule.endsAt ? "ACTIVE" : "COMPLETED",
+          regularPrice: missed ? null : variant.price
+        }
+      });
+      if (claimed.count === 0 || missed) return;
+
+      await tx.variant.update({
+        where: { id: variant.id },
+        data: {
+          price: schedule.price,
+          // Only a sale below the regular price shows "was"; permanent changes just become the price
+          compareAtPrice: schedule.endsAt && schedule.price.lessThan(variant.price) ? variant.price : null
+        }
+      });
+      if (!variant.price.equals(schedule.price)) {
+        await writeHistory(tx, variant, schedule.price, { source: "SCHEDULE_START", scheduledPriceId: schedule.id });
+      }
+      await syncFurnitureFromVariants(tx, variant.furnitureId);
+      started++;
+    });
+  }
+
+  return { started, ended };
+};
@@ -0,0 +1,119 @@
+/**
+ * Order quotes: coupon discounts, GST by category and destination state, and shipping by parcel volume
+ */
+import { getPricingConfig } from "../config/pricing";
+import { OrderPricing, PricingLine, priceOrder, PromotionCustomer, roundMoney } from "./promotions";
+import { variantLabel, VariantWithFurniture } from "./variants";
+
+export interface QuoteLine extends PricingLine {
+  variantId: number;
+  variantLabel: string | null;
+  taxRate: number;   // GST percent from the item's category
+  volumeCm3: number; // Parcel volume of one unit
+}
+
+export interface TaxLine {
+  label: "CGST" | "SGST" | "IGST";
+  rate: number;
+  amount: number;
+}
+
+export interface ShippingQuote {
+  volumeCubicMetres: number;
+  amount: number;
+  freeShipping: boolean;
+}
+
+export interface OrderQuote extends OrderPricing {
+  taxes: TaxLine[];
+  taxTotal: number;
+  shipping: ShippingQuote;
+  shippingTotal: number;
+}
+
+export interface QuoteOptions {
+  couponCode?: string | null;
+  customer?: PromotionCustomer;
+  destinationState?: string | null;
+}
+
+// Price and parcel size come from the variant, the GST rate from its product's category
+export const toQuoteLine = (variant: VariantWithFurniture, quantity: number): QuoteLine => ({
+  furnitureId: variant.furnitureId,
+  variantId: variant.id,
+  variantLabel: variantLabel(variant),
+  categoryId: variant.furniture.categoryId,
+  quantity,
+  unitPrice: Number(variant.price),
+  taxRate: Number(variant.furniture.category.taxRate),
+  volumeCm3: Number(variant.widthCm) * Number(variant.heightCm) * Number(variant.depthCm)
+});
+
+const normalizeState = (state: string) => state.trim().toLowerCase();
+
+export const isIntraState = (destinationState?: string | null) => {
+  return !!destinationState && normalizeState(destinationState) === normalizeState(getPricingConfig().storeState);
+};
+
+/**
+ * GST grouped by rate. Each line is taxed on its value after its share of the order discount.
+ * Same-state deliveries split the rate into CGST and SGST; everything else pays IGST.
+ */
+export const calculateTaxes = (lines: QuoteLine[], discountTotal: number, destinationState?: string | null): TaxLine[] => {
+  const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const taxableByRate = new Map<number, number>();
+
+  lines.forEach(line => {
+    const amount = line.unitPrice * line.quantity;
+    const discountShare = subtotal > 0 ? discountTotal * amount / subtotal : 0;
+    taxableByRate.set(line.taxRate, (taxableByRate.get(line.taxRate) || 0) + amount - discountShare);
+  });
+
+  const intraState = isIntraState(destinationState);
+  const taxes: TaxLine[] = [];
+
+  Array.from(taxableByRate.entries())
+    .filter(([rate]) => rate > 0)
+    .sort(([a], [b]) => a - b)
+    .forEach(([rate, taxable]) => {
+      if (intraState) {
+        const half = rate / 2;
+        const amount = roundMoney(taxable * half / 100);
+        taxes.push({ label: "CGST", rate: half, amount }, { label: "SGST", rate: half, amount });
+      } else {
+        taxes.push({ label: "IGST", rate, amount: roundMoney(taxable * rate / 100) });
+      }
+    });
+
+  return taxes;
+};
+
+/** Flat fee plus a rate per cubic metre of parcel volume; free once the discounted subtotal reaches the threshold */
+export const calculateShipping = (lines: QuoteLine[], discountedSubtotal: number): ShippingQuote => {
+  const config = getPricingConfig();
+  const volumeCubicMetres = lines.reduce((sum, line) => sum + line.volumeCm3 * line.quantity, 0) / 1_000_000;
+  const freeShipping = config.freeShippingThreshold > 0 && discountedSubtotal >= config.freeShippingThreshold;
+
+  const amount = freeShipping || lines.length === 0
+    ? 0
+    : Math.round(config.shippingBaseFee + volumeCubicMetres * config.shippingRatePerCubicMetre);
+
+  return { volumeCubicMetres: Math.round(volumeCubicMetres * 1000) / 1000, amount, freeShipping };
+};
+
+/** Full price of an order. Throws like `priceOrder` when the coupon cannot be used. */
+export const quoteOrder = async (lines: QuoteLine[], options: QuoteOptions = {}): Promise<OrderQuote> => {
+  const pricing = await priceOrder(lines, options.couponCode, options.customer);
+  const taxes = calculateTaxes(lines, pricing.discountTotal, options.destinationState);
+  const taxTotal = roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0));
+  const shipping = calculateShipping(lines, pricing.total);
+
+  return {
+    ...pricing,
+    taxes,
+    taxTotal,
+    shipping,
+    shippingTotal: shipping.amount,
+    total: roundMoney(pricing.total + taxTotal + shipping.amount)
+  };
+};
@@ -0,0 +1,240 @@
+/**
+ * Coupon pricing: validates a promotion for a customer and works out the discount lines
+ */
+import { Category, Prisma, Promotion } from "@prisma/client";
+import { prisma } from "../prisma";
+import { ApiError } from "./errors";
+
+export interface PricingLine {
+  furnitureId: number;
+  categoryId: number;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface DiscountLine {
+  promotionId: number;
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface OrderPricing {
+  subtotal: number;
+  discounts: DiscountLine[];
+  discountTotal: number;
+  total: number;
+}
+
+// Per-user caps are counted against an account, or against the email for guests
+export interface PromotionCustomer {
+  userId?: number;
+  email?: string;
+}
+
+type PromotionWithCategory = Promotion & { category: Category | null };
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const couponError = (message: string, code: string) =>
+  ApiError.badRequest(message, [{ field: "couponCode", message }], code);
+
+export const describePromotion = (promotion: PromotionWithCategory) => {
+  const value = Number(promotion.value);
+  let text: string;
+
+  switch (promotion.type) {
+    case "PERCENTAGE":
+      text = `${value}% off`;
+      break;
+    case "FIXED_AMOUNT":
+      text = `₹${value.toLocaleString("en-IN")} off`;
+      break;
+    case "BUY_X_GET_Y":
+      text = `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${value >= 100 ? "free" : `at ${value}% off`}`;
+      break;
+  }
+
+  return promotion.category ? `${text} ${promotion.category.name}` : text;
+};
+
+/** Discount a promotion gives on the lines it covers, before any usage checks */
+export const calculatePromotionDiscount = (promotion: Promotion, lines: PricingLine[]) => {
+  const eligible = promotion.categoryId
+    ? lines.filter(line => line.categoryId === promotion.categoryId)
+    : lines;
+  const eligibleSubtotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const value = Number(promotion.value);
+  let discount = 0;
+
+  switch (promotion.type) {
+    case "PERCENTAGE":
+      discount = eligibleSubtotal * value / 100;
+      break;
+    case "FIXED_AMOUNT":
+      discount = value;
+      break;
+    case "BUY_X_GET_Y": {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      if (buy < 1 || get < 1) break;
+
+      // Every full group of buy + get units discounts its cheapest `get` units, taken a line at a time
+      const totalUnits = eligible.reduce((sum, line) => sum + line.quantity, 0);
+      let remaining = Math.floor(totalUnits / (buy + get)) * get;
+      let discountedTotal = 0;
+      for (const line of [...eligible].sort((a, b) => a.unitPrice - b.unitPrice)) {
+        if (remaining <= 0) break;
+        const units = Math.min(line.quantity, remaining);
+        discountedTotal += units * line.unitPrice;
+        remaining -= units;
+      }
+      discount = discountedTotal * value / 100;
+      break;
+    }
+  }
+
+  if (promotion.maxDiscount !== null) {
+    discount = Math.min(discount, Number(promotion.maxDiscount));
+  }
+
+  return roundMoney(Math.min(discount, eligibleSubtotal));
+};
+
+// Redemptions on orders that were not cancelled; cancelling an order gives the coupon back
+const countCustomerRedemptions = (
+  promotionId: number,
+  customer: PromotionCustomer,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const owners: Prisma.OrderWhereInput[] = [];
+  if (customer.userId) owners.push({ userId: customer.userId });
+  if (customer.email) owners.push({ guestEmail: { equals: customer.email, mode: "insensitive" } });
+  if (owners.length === 0) return Promise.resolve(0);
+
+  return db.orderDiscount.count({
+    where: {
+      promotionId,
+      order: { status: { not: "CANCELLED" }, OR: owners }
+    }
+  });
+};
+
+const assertPromotionUsable = async (
+  promotion: Promotion,
+  customer: PromotionCustomer,
+  subtotal: number
+) => {
+  const now = new Date();
+
+  if (!promotion.isActive || (promotion.endsAt && promotion.endsAt < now)) {
+    throw couponError(`Coupon ${promotion.code} has expired`, "COUPON_EXPIRED");
+  }
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw couponError(`Coupon ${promotion.code} is not active yet`, "COUPON_NOT_STARTED");
+  }
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+    throw couponError(`Coupon ${promotion.code} has been fully redeemed`, "COUPON_USAGE_LIMIT_REACHED");
+  }
+  if (promotion.minSubtotal !== null && subtotal < Number(promotion.minSubtotal)) {
+    throw couponError(
+      `Coupon ${promotion.code} needs a minimum order of ₹${Number(promotion.minSubtotal).toLocaleString("en-IN")}`,
+      "COUPON_MIN_SUBTOTAL"
+    );
+  }
+  if (promotion.perUserLimit !== null) {
+    const used = await countCustomerRedemptions(promotion.id, customer);
+    if (used >= promotion.perUserLimit) {
+      throw couponError(`You have already used coupon ${promotion.code}`, "COUPON_USER_LIMIT_REACHED");
+    }
+  }
+};
+
+/**
+ * Price order lines and apply a coupon if one is given.
+ * Throws a 400 (or 404 for unknown codes) explaining why a coupon cannot be used.
+ */
+export const priceOrder = async (
+  lines: PricingLine[],
+  couponCode?: string | null,
+  customer: PromotionCustomer = {}
+): Promise<OrderPricing> => {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+  const discounts: DiscountLine[] = [];
+
+  if (couponCode) {
+    const code = normalizeCouponCode(couponCode);
+    const promotion = await prisma.promotion.findUnique({ where: { code }, include: { category: true } });
+    if (!promotion) throw ApiError.notFound(`Coupon ${code} does not exist`, "COUPON_NOT_FOUND");
+
+    await assertPromotionUsable(promotion, customer, subtotal);
+
+    const amount = calculatePromotionDiscount(promotion, lines);
+    if (amount <= 0) {
+      throw couponError(`Coupon ${code} does not apply to the items in your order`, "COUPON_NOT_APPLICABLE");
+    }
+
+    discounts.push({ promotionId: promotion.id, code, description: describePromotion(promotion), amount });
+  }
+
+  const discountTotal = roundMoney(discounts.reduce((sum, line) => sum + line.amount, 0));
+  return { subtotal, discounts, discountTotal, total: roundMoney(subtotal - discountTotal) };
+};
+
+/**
+ * Count each redemption and store the discount lines on the order; call inside the order transaction.
+ * Both limits are checked again here so two checkouts cannot both take the last redemption: the
+ * usage count in the update itself, and the customer's redemptions once that update has locked the
+ * promotion row, which makes a concurrent checkout with the same coupon wait for this one.
+ */
+export const redeemDiscounts = async (
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  discounts: DiscountLine[],
+  customer: PromotionCustomer
+) => {
+  for (const discount of discounts) {
+    const promotion = await tx.promotion.findUniqueOrThrow({ where: { id: discount.promotionId } });
+
+    const { count } = await tx.promotion.updateMany({
+      where: {
+        id: promotion.id,
+        ...(promotion.usageLimit !== null && { usageCount: { lt: promotion.usageLimit } })
+      },
+      data: { usageCount: { increment: 1 } }
+    });
+    if (count === 0) {
+      throw couponError(`Coupon ${discount.code} has been fully redeemed`, "COUPON_USAGE_LIMIT_REACHED");
+    }
+
+    if (promotion.perUserLimit !== null) {
+      const used = await countCustomerRedemptions(promotion.id, customer, tx);
+      if (used >= promotion.perUserLimit) {
+        throw couponError(`You have already used coupon ${discount.code}`, "COUPON_USER_LIMIT_REACHED");
+      }
+    }
+  }
+
+  if (discounts.length > 0) {
+    await tx.orderDiscount.createMany({
+      data: discounts.map(discount => ({ orderId, ...discount }))
+    });
+  }
+};
+
+/** Give back the redemptions of a cancelled order; call inside the cancelling transaction */
+export const releasePromotionUsage = async (tx: Prisma.TransactionClient, orderId: number) => {
+  const discounts = await tx.orderDiscount.findMany({
+    where: { orderId, promotionId: { not: null } },
+    select: { promotionId: true }
+  });
+
+  for (const { promotionId } of discounts) {
+    await tx.promotion.updateMany({
+      where: { id: promotionId!, usageCount: { gt: 0 } },
+      data: { usageCount: { decrement: 1 } }
+    });
+  }
+};
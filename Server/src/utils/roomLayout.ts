@@ -0,0 +1,105 @@
+/**
+ * Room planner checks: items past the walls, overlapping items, narrow gaps and low ceilings
+ */
+
+// Narrower gaps between two items cannot be walked through; items pushed flush together are fine
+export const WALKWAY_CLEARANCE_CM = 60;
+
+// Gaps below this are treated as items placed against each other on purpose
+const FLUSH_TOLERANCE_CM = 1;
+
+export interface RoomDimensions {
+  widthCm: number;
+  depthCm: number;
+  heightCm?: number | null;
+}
+
+// `key` identifies the placement in warnings: its ID once saved, otherwise its index in the request
+export interface LayoutItem {
+  key: number;
+  name: string;
+  xCm: number;
+  yCm: number;
+  rotation: number;
+  widthCm: number;
+  depthCm: number;
+  heightCm: number;
+}
+
+export type LayoutWarningType = "OUT_OF_BOUNDS" | "COLLISION" | "CLEARANCE" | "TOO_TALL";
+
+export interface LayoutWarning {
+  type: LayoutWarningType;
+  placements: number[];
+  message: string;
+}
+
+interface Footprint {
+  item: LayoutItem;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Quarter turns swap the item's width and depth on the floor plan
+const toFootprint = (item: LayoutItem): Footprint => {
+  const turned = item.rotation === 90 || item.rotation === 270;
+  const width = turned ? item.depthCm : item.widthCm;
+  const depth = turned ? item.widthCm : item.depthCm;
+  return { item, left: item.xCm, top: item.yCm, right: item.xCm + width, bottom: item.yCm + depth };
+};
+
+const formatCm = (value: number) => `${Math.round(value)} cm`;
+
+const comparePair = (a: Footprint, b: Footprint): LayoutWarning | null => {
+  const overlapX = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+  const overlapY = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+  const placements = [a.item.key, b.item.key];
+
+  if (overlapX > 0 && overlapY > 0) {
+    return { type: "COLLISION", placements, message: `${a.item.name} overlaps ${b.item.name}` };
+  }
+
+  // Only items facing each other along one axis leave a gap to walk through; diagonal neighbours do not
+  const gap = overlapY > 0 ? -overlapX : overlapX > 0 ? -overlapY : null;
+  if (gap !== null && gap >= FLUSH_TOLERANCE_CM && gap < WALKWAY_CLEARANCE_CM) {
+    return {
+      type: "CLEARANCE",
+      placements,
+      message: `Only ${formatCm(gap)} between ${a.item.name} and ${b.item.name}; leave at least ${formatCm(WALKWAY_CLEARANCE_CM)} to walk through`
+    };
+  }
+
+  return null;
+};
+
+/** Every problem with a layout; an empty list means everything fits */
+export const checkRoomLayout = (room: RoomDimensions, items: LayoutItem[]): LayoutWarning[] => {
+  const footprints = items.map(toFootprint);
+  const warnings: LayoutWarning[] = [];
+
+  footprints.forEach(footprint => {
+    const { item } = footprint;
+
+    if (footprint.right > room.widthCm || footprint.bottom > room.depthCm) {
+      warnings.push({ type: "OUT_OF_BOUNDS", placements: [item.key], message: `${item.name} extends past the walls` });
+    }
+    if (room.heightCm && item.heightCm > room.heightCm) {
+      warnings.push({
+        type: "TOO_TALL",
+        placements: [item.key],
+        message: `${item.name} is ${formatCm(item.heightCm)} tall but the ceiling is ${formatCm(room.heightCm)}`
+      });
+    }
+  });
+
+  for (let i = 0; i < footprints.length; i++) {
+    for (let j = i + 1; j < footprints.length; j++) {
+      const warning = comparePair(footprints[i], footprints[j]);
+      if (warning) warnings.push(warning);
+    }
+  }
+
+  return warnings;
+};
@@ -0,0 +1,411 @@
+/**
+ * Catalogue search: Postgres full-text ranking with trigram typo tolerance, facet counts and "did you mean"
+ */
+import { FurnitureStatus, Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { CategoryCrumb, categorySubtreeSql, findCategoryBySlug, getCategoryPath } from "./categories";
+import { attributeFilterConditions } from "./attributes";
+
+// How close (0-1) a misspelt query has to be to a product name to still match it
+const TYPO_SIMILARITY = 0.4;
+// How close a catalogue word has to be to a query word to be offered as a correction
+const SUGGESTION_SIMILARITY = 0.3;
+// Corrections are only looked up when a search comes back this thin
+const SUGGEST_BELOW_RESULTS = 5;
+// Searches remembered per signed-in user
+const RECENT_SEARCHES_KEPT = 10;
+// Typeahead answers are reused for this long; new products and searches show up after at most this delay
+const SUGGESTIONS_TTL_MS = 60 * 1000;
+const SUGGESTIONS_CACHE_SIZE = 500;
+// Words used in the catalogue, for spelling corrections, are reloaded this often
+const VOCABULARY_TTL_MS = 10 * 60 * 1000;
+
+// Keys match the price ranges offered by the storefront filter
+export const PRICE_BUCKETS = [
+  { key: "0-10000", min: 0, max: 10000 },
+  { key: "10000-25000", min: 10000, max: 25000 },
+  { key: "25000-50000", min: 25000, max: 50000 },
+  { key: "50000-100000", min: 50000, max: 100000 },
+  { key: "100000+", min: 100000, max: null }
+] as const;
+
+// Bucketed on the longer side of the footprint
+export const SIZE_BUCKETS = [
+  { key: "compact", label: "Compact (up to 80 cm)", min: 0, max: 80 },
+  { key: "medium", label: "Medium (80-160 cm)", min: 80, max: 160 },
+  { key: "large", label: "Large (160 cm and over)", min: 160, max: null }
+] as const;
+
+export const RATING_THRESHOLDS = [4, 3, 2, 1] as const;
+
+export type SizeBucket = typeof SIZE_BUCKETS[number]["key"];
+export type SearchSort = "relevance" | "name" | "price" | "createdAt";
+
+export interface SearchParams {
+  search?: string;
+  category?: string; // Slug; products in its subcategories are included
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  size?: SizeBucket;
+  attr?: Record<string, string>; // Attribute key to value, list ("Oak,Walnut") or number range ("40..60")
+  status?: FurnitureStatus; // Staff only; shoppers always get ACTIVE products
+  sortBy?: SearchSort;
+  sortOrder?: "asc" | "desc";
+  page: number;
+  limit: number;
+}
+
+export interface SearchFacets {
+  // Children of the selected category (top-level ones when none is), each counting its whole subtree
+  categories: (CategoryCrumb & { count: number })[];
+  priceRanges: { key: string; count: number }[];
+  ratings: { minRating: number; count: number }[];
+  sizes: { key: SizeBucket; label: string; count: number }[];
+}
+
+// Each facet is counted with every other filter applied but not its own,
+// so picking a price range still shows what the other ranges would give
+type FacetKey = "category" | "price" | "rating" | "size";
+
+// The category filter once its slug has been looked up, and attribute filters as SQL
+type ResolvedSearch = SearchParams & { categoryId?: number; attributeConditions: Prisma.Sql[] };
+
+const FROM = Prisma.sql`
+  FROM "Furniture" f
+  LEFT JOIN (
+    SELECT "furnitureId", AVG("rating")::float AS "averageRating" FROM "Review" GROUP BY "furnitureId"
+  ) r ON r."furnitureId" = f."id"`;
+
+const tsQuery = (search: string) => Prisma.sql`websearch_to_tsquery('english', ${search})`;
+
+const longestSide = Prisma.sql`GREATEST(f."widthCm", f."depthCm")`;
+
+const inRange = (column: Prisma.Sql, min: number, max: number | null) =>
+  max === null ? Prisma.sql`${column} >= ${min}` : Prisma.sql`${column} >= ${min} AND ${column} < ${max}`;
+
+const buildWhere = (params: ResolvedSearch, skip?: FacetKey, extra: Prisma.Sql[] = []) => {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`f."status" = ${params.status ?? FurnitureStatus.ACTIVE}::"FurnitureStatus"`,
+    ...extra,
+    ...params.attributeConditions
+  ];
+
+  if (params.search) {
+    conditions.push(Prisma.sql`(
+      f."searchVector" @@ ${tsQuery(params.search)}
+      OR word_similarity(${params.search}, f."name") >= ${TYPO_SIMILARITY}
+    )`);
+  }
+  if (params.categoryId && skip !== "category") {
+    conditions.push(Prisma.sql`f."categoryId" IN (${categorySubtreeSql(params.categoryId)})`);
+  }
+  if (skip !== "price") {
+    if (params.minPrice !== undefined) conditions.push(Prisma.sql`f."price" >= ${params.minPrice}`);
+    if (params.maxPrice !== undefined) conditions.push(Prisma.sql`f."price" <= ${params.maxPrice}`);
+  }
+  if (params.minRating !== undefined && skip !== "rating") {
+    conditions.push(Prisma.sql`r."averageRating" >= ${params.minRating}`);
+  }
+  const size = SIZE_BUCKETS.find(bucket => bucket.key === params.size);
+  if (size && skip !== "size") {
+    conditions.push(inRange(longestSide, size.min, size.max));
+  }
+
+  return Prisma.sql`WHERE ${Prisma.join(conditions, " AND ")}`;
+};
+
+const buildOrderBy = (params: ResolvedSearch) => {
+  const direction = Prisma.raw(params.sortOrder === "asc" ? "ASC" : "DESC");
+  const sortBy = params.sortBy ?? (params.search ? "relevance" : "createdAt");
+
+  switch (sortBy) {
+    case "relevance":
+      // Without a query there is nothing to rank against
+      if (!params.search) return Prisma.sql`f."createdAt" DESC, f."id" DESC`;
+      return Prisma.sql`(
+        ts_rank(f."searchVector", ${tsQuery(params.search)}) + word_similarity(${params.search}, f."name")
+      ) DESC, f."id" DESC`;
+    case "name":
+      return Prisma.sql`f."name" ${direction}, f."id" ${direction}`;
+    case "price":
+      return Prisma.sql`f."price" ${direction}, f."id" ${direction}`;
+    default:
+      return Prisma.sql`f."createdAt" ${direction}, f."id" ${direction}`;
+  }
+};
+
+// One count per bucket; buckets with no products are returned with 0 so the filter can list them all
+const countBuckets = async <K extends string>(
+  params: ResolvedSearch,
+  skip: FacetKey,
+  buckets: readonly { key: K; condition: Prisma.Sql }[]
+) => {
+  const counts = Prisma.join(
+    buckets.map((bucket, index) => Prisma.sql`COUNT(*) FILTER (WHERE ${bucket.condition})::int AS ${Prisma.raw(`"b${index}"`)}`),
+    ", "
+  );
+  const [row] = await prisma.$queryRaw<Record<string, number>[]>`SELECT ${counts} ${FROM} ${buildWhere(params, skip)}`;
+  return buckets.map((bucket, index) => ({ key: bucket.key, count: row?.[`b${index}`] ?? 0 }));
+};
+
+const getSearchFacets = async (params: ResolvedSearch): Promise<SearchFacets> => {
+  const childOfSelected = params.categoryId
+    ? Prisma.sql`a."parentId" = ${params.categoryId}`
+    : Prisma.sql`a."parentId" IS NULL`;
+
+  const [categories, priceRanges, ratings, sizes] = await Promise.all([
+    // lineage pairs every category with itself and each of its ancestors, so a product counts towards all of them
+    prisma.$queryRaw<SearchFacets["categories"]>`
+      WITH RECURSIVE lineage AS (
+        SELECT "id" AS "categoryId", "id" AS "ancestorId" FROM "Category"
+        UNION ALL
+        SELECT lineage."categoryId", parent."parentId"
+        FROM lineage JOIN "Category" parent ON parent."id" = lineage."ancestorId"
+        WHERE parent."parentId" IS NOT NULL
+      )
+      SELECT a."id", a."name", a."slug", COUNT(*)::int AS "count"
+      ${FROM}
+      JOIN lineage l ON l."categoryId" = f."categoryId"
+      JOIN "Category" a ON a."id" = l."ancestorId"
+      ${buildWhere(params, "category", [childOfSelected])}
+      GROUP BY a."id", a."name", a."slug"
+      ORDER BY a."name"`,
+    countBuckets(params, "price", PRICE_BUCKETS.map(bucket => ({
+      key: bucket.key,
+      condition: inRange(Prisma.sql`f."price"`, bucket.min, bucket.max)
+    }))),
+    countBuckets(params, "rating", RATING_THRESHOLDS.map(minRating => ({
+      key: String(minRating),
+      condition: Prisma.sql`r."averageRating" >= ${minRating}`
+    }))),
+    countBuckets(params, "size", SIZE_BUCKETS.map(bucket => ({
+      key: bucket.key,
+      condition: inRange(longestSide, bucket.min, bucket.max)
+    })))
+  ]);
+
+  return {
+    categories,
+    priceRanges,
+    ratings: ratings.map(({ key, count }) => ({ minRating: Number(key), count })),
+    sizes: SIZE_BUCKETS.map((bucket, index) => ({ key: bucket.key, label: bucket.label, count: sizes[index].count }))
+  };
+};
+
+// Trigrams as pg_trgm makes them for a single word: padded with two spaces before and one after
+const trigrams = (word: string) => {
+  const padded = `  ${word} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+// pg_trgm's similarity(): shared trigrams over all distinct trigrams of the two words
+const trigramSimilarity = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach(gram => { if (b.has(gram)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+interface VocabularyWord {
+  word: string;
+  trigrams: Set<string>;
+}
+
+// Held as a promise so concurrent searches share one load
+let vocabularyCache: { expiresAt: number; value: Promise<VocabularyWord[]> } | null = null;
+
+// Every word in listed products' names and descriptions, most used first
+const getVocabulary = () => {
+  if (!vocabularyCache || vocabularyCache.expiresAt <= Date.now()) {
+    const value = prisma.$queryRaw<{ word: string }[]>`
+      SELECT word FROM ts_stat($$SELECT to_tsvector('simple', "name" || ' ' || coalesce("description", '')) FROM "Furniture" WHERE "status" = 'ACTIVE'$$)
+      ORDER BY nentry DESC`
+      .then(rows => rows.map(row => ({ word: row.word, trigrams: trigrams(row.word) })));
+    // A failed load is retried by the next search instead of being cached
+    value.catch(() => { vocabularyCache = null; });
+    vocabularyCache = { expiresAt: Date.now() + VOCABULARY_TTL_MS, value };
+  }
+  return vocabularyCache.value;
+};
+
+/**
+ * Swap each query word for the closest word used in product names and descriptions.
+ * Returns null when nothing would change, i.e. every word is already spelt like the catalogue.
+ */
+export const suggestSpelling = async (search: string) => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const vocabulary = await getVocabulary();
+  let changed = false;
+
+  const corrected = words.map(word => {
+    // Too short to correct reliably
+    if (word.length < 3) return word;
+
+    const wordTrigrams = trigrams(word);
+    let best: { word: string; similarity: number } | null = null;
+    // Most used words come first, so on a tie the more common spelling wins
+    for (const candidate of vocabulary) {
+      const similarity = trigramSimilarity(wordTrigrams, candidate.trigrams);
+      if (similarity >= SUGGESTION_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { word: candidate.word, similarity };
+      }
+    }
+
+    if (!best || best.word === word) return word;
+    changed = true;
+    return best.word;
+  });
+
+  return changed ? corrected.join(" ") : null;
+};
+
+/**
+ * Run a catalogue search and return one page of matching product IDs in display order,
+ * with the total, facet counts, the selected category's breadcrumb path and,
+ * for thin results, a spelling suggestion.
+ */
+export const searchFurniture = async (search: SearchParams) => {
+  const [category, attributeConditions] = await Promise.all([
+    search.category ? findCategoryBySlug(search.category) : null,
+    attributeFilterConditions(search.attr ?? {})
+  ]);
+  const params: ResolvedSearch = { ...search, categoryId: category?.id, attributeConditions };
+  const where = buildWhere(params);
+  const offset = (params.page - 1) * params.limit;
+
+  const [rows, [{ count: totalCount }], facets, categoryPath] = await Promise.all([
+    prisma.$queryRaw<{ id: number }[]>`
+      SELECT f."id" ${FROM} ${where}
+      ORDER BY ${buildOrderBy(params)}
+      LIMIT ${params.limit} OFFSET ${offset}`,
+    prisma.$queryRaw<{ count: number }[]>`SELECT COUNT(*)::int AS "count" ${FROM} ${where}`,
+    getSearchFacets(params),
+    category ? getCategoryPath(category.id) : []
+  ]);
+
+  const suggestion = params.search && totalCount < SUGGEST_BELOW_RESULTS
+    ? await suggestSpelling(params.search)
+    : null;
+
+  return { ids: rows.map(row => row.id), totalCount, facets, categoryPath, suggestion };
+};
+
+// "  Oak   Table " and "oak table" count as the same search
+export const normaliseQuery = (search: string) => search.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Remember a storefront search: it counts towards popular searches when it found something,
+ * and goes to the top of the user's recent searches when they are signed in.
+ */
+export const recordSearch = async (search: string, userId: number | null, hasResults: boolean) => {
+  const query = normaliseQuery(search);
+  if (!query) return;
+
+  if (hasResults) {
+    await prisma.searchQuery.upsert({
+      where: { query },
+      create: { query },
+      update: { count: { increment: 1 }, lastSearchedAt: new Date() }
+    });
+  }
+
+  if (userId) {
+    await prisma.recentSearch.upsert({
+      where: { userId_query: { userId, query } },
+      create: { userId, query },
+      update: { searchedAt: new Date() }
+    });
+
+    const stale = await prisma.recentSearch.findMany({
+      where: { userId },
+      orderBy: { searchedAt: "desc" },
+      skip: RECENT_SEARCHES_KEPT,
+      select: { id: true }
+    });
+    if (stale.length > 0) {
+      await prisma.recentSearch.deleteMany({ where: { id: { in: stale.map(row => row.id) } } });
+    }
+  }
+};
+
+export interface SearchSuggestions {
+  products: { id: number; name: string; price: number; category: string; imageUrl: string | null }[];
+  categories: CategoryCrumb[];
+  queries: string[];
+  recent: string[];
+}
+
+type SharedSuggestions = Omit<SearchSuggestions, "recent">;
+
+// Keyed by normalised query and limit; Map order doubles as insertion age for eviction
+const suggestionsCache = new Map<string, { expiresAt: number; value: SharedSuggestions }>();
+
+// So a typed % or _ is matched literally rather than as a wildcard
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const findSharedSuggestions = async (query: string, limit: number): Promise<SharedSuggestions> => {
+  // With nothing typed yet there are only the most popular searches to offer
+  if (!query) {
+    const popular = await prisma.searchQuery.findMany({ orderBy: { count: "desc" }, take: limit, select: { query: true } });
+    return { products: [], categories: [], queries: popular.map(row => row.query) };
+  }
+
+  const [products, categories, queries] = await Promise.all([
+    // ILIKE and <% are both served by the trigram index on name; prefix matches are listed first
+    prisma.$queryRaw<SearchSuggestions["products"]>`
+      SELECT f."id", f."name", f."price"::float AS "price", c."name" AS "category",
+        (SELECT i."url" FROM "Image" i WHERE i."furnitureId" = f."id" ORDER BY i."sortOrder", i."id" LIMIT 1) AS "imageUrl"
+      FROM "Furniture" f
+      JOIN "Category" c ON c."id" = f."categoryId"
+      WHERE f."status" = 'ACTIVE' AND (f."name" ILIKE ${`%${escapeLike(query)}%`} ESCAPE '\\' OR ${query} <% f."name")
+      ORDER BY f."name" ILIKE ${`${escapeLike(query)}%`} ESCAPE '\\' DESC, word_similarity(${query}, f."name") DESC, f."name"
+      LIMIT ${limit}`,
+    prisma.category.findMany({
+      where: { name: { contains: query, mode: "insensitive" } },
+      orderBy: { name: "asc" },
+      take: limit,
+      select: { id: true, name: true, slug: true }
+    }),
+    prisma.searchQuery.findMany({
+      where: { query: { startsWith: query } },
+      orderBy: { count: "desc" },
+      take: limit,
+      select: { query: true }
+    })
+  ]);
+
+  return { products, categories, queries: queries.map(row => row.query) };
+};
+
+/**
+ * Typeahead suggestions for a partly typed search: matching products, categories and popular
+ * searches, plus the user's own recent searches. Everything but the recent searches is cached briefly.
+ */
+export const getSearchSuggestions = async (search: string, limit: number, userId: number | null): Promise<SearchSuggestions> => {
+  const query = normaliseQuery(search);
+  const key = `${limit}:${query}`;
+
+  let shared = suggestionsCache.get(key);
+  if (!shared || shared.expiresAt <= Date.now()) {
+    const value = await findSharedSuggestions(query, limit);
+    suggestionsCache.delete(key);
+    if (suggestionsCache.size >= SUGGESTIONS_CACHE_SIZE) {
+      suggestionsCache.delete(suggestionsCache.keys().next().value!);
+    }
+    shared = { expiresAt: Date.now() + SUGGESTIONS_TTL_MS, value };
+    suggestionsCache.set(key, shared);
+  }
+
+  const recent = userId
+    ? await prisma.recentSearch.findMany({
+        where: { userId, query: { startsWith: query } },
+        orderBy: { searchedAt: "desc" },
+        take: limit,
+        select: { query: true }
+      })
+    : [];
+
+  return { ...shared.value, recent: recent.map(row => row.query) };
+};
@@ -0,0 +1,53 @@
+/**
+ * Confidence intervals for comparing rates, e.g. click-through between experiment variants.
+ * Intervals are at 95% confidence.
+ */
+
+// Standard normal quantile for a two-sided 95% interval
+const Z_95 = 1.96;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export interface Proportion {
+  successes: number;
+  trials: number;
+}
+
+/**
+ * The observed rate with its Wilson score interval, which unlike the textbook normal interval
+ * stays within 0..1 and behaves with few trials or rates near 0. Null without any trials.
+ */
+export const rateInterval = ({ successes, trials }: Proportion) => {
+  if (trials === 0) return null;
+
+  const rate = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const centre = (rate + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (Z_95 / (1 + z2 / trials)) * Math.sqrt(rate * (1 - rate) / trials + z2 / (4 * trials * trials));
+
+  return { rate: round(rate), lower: round(Math.max(0, centre - margin)), upper: round(Math.min(1, centre + margin)) };
+};
+
+/**
+ * How much higher `treatment`'s rate is than `control`'s, with a normal-approximation interval
+ * for the difference. `significant` when the interval leaves out 0. Null if either has no trials.
+ */
+export const differenceInterval = (control: Proportion, treatment: Proportion) => {
+  if (control.trials === 0 || treatment.trials === 0) return null;
+
+  const controlRate = control.successes / control.trials;
+  const treatmentRate = treatment.successes / treatment.trials;
+  const difference = treatmentRate - controlRate;
+  const standardError = Math.sqrt(
+    controlRate * (1 - controlRate) / control.trials + treatmentRate * (1 - treatmentRate) / treatment.trials
+  );
+  const lower = difference - Z_95 * standardError;
+  const upper = difference + Z_95 * standardError;
+
+  return {
+    difference: round(difference),
+    lower: round(lower),
+    upper: round(upper),
+    significant: lower > 0 || upper < 0
+  };
+};
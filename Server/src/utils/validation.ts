@@ -2,18 +2,28 @@
  * Zod validation schemas for API endpoints
  */
 import { z } from "zod";
+import { AttributeType, EventType, ExperimentStatus, FurnitureStatus, OrderStatus, PromotionType, RecommendationSurface } from "@prisma/client";
 
 // Common validation patterns
+const slugSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Must be lower-case words joined by hyphens");
 const emailSchema = z.string().email("Invalid email format");
 const passwordSchema = z.string().min(6, "Password must be at least 6 characters long");
 const positiveIntSchema = z.number().int().positive("Must be a positive integer");
 const nonEmptyStringSchema = z.string().min(1, "This field is required");
+// Units of one item per cart line or order line
+export const MAX_LINE_QUANTITY = 99;
+export const lineQuantitySchema = z.number().int().positive("Quantity must be a positive integer")
+  .max(MAX_LINE_QUANTITY, `Quantity can be at most ${MAX_LINE_QUANTITY}`);
+// Products are archived with DELETE /api/furnitures/:id rather than by setting the status
+const editableStatusSchema = z.enum([FurnitureStatus.DRAFT, FurnitureStatus.ACTIVE]);
 
 // Auth schemas
 export const registerSchema = z.object({
   email: emailSchema,
   password: passwordSchema,
-  name: z.string().optional()
+  name: z.string().optional(),
+  // Lookup tokens of guest orders to add to the new account
+  orderTokens: z.array(z.string().min(1)).max(20).optional()
 });
 
 export const loginSchema = z.object({
@@ -39,30 +49,170 @@ export const refreshTokenSchema = z.object({
 
 // Furniture schemas
 export const createFurnitureSchema = z.object({
-  name: nonEmptyStringSchema,
+  name: nonEmptyStringSchema.max(255, "Name too long"),
   description: z.string().optional(),
   price: z.number().positive("Price must be positive"),
-  sku: nonEmptyStringSchema,
+  sku: nonEmptyStringSchema.max(50, "SKU too long"),
   widthCm: z.number().positive("Width must be positive"),
   heightCm: z.number().positive("Height must be positive"),
   depthCm: z.number().positive("Depth must be positive"),
   categoryId: positiveIntSchema,
-  images: z.array(z.string().url("Invalid image URL")).optional()
+  stockQuantity: z.number().int().min(0, "Stock cannot be negative").optional(),
+  images: z.array(z.string().url("Invalid image URL")).optional(),
+  status: editableStatusSchema.optional(), // ACTIVE when left out
+  // Keyed by attribute key; values are checked against the category's definitions when saving
+  attributes: z.record(
+    slugSchema,
+    z.union([z.string().trim().min(1).max(500), z.number(), z.boolean(), z.null()])
+  ).optional()
 });
 
 export const updateFurnitureSchema = createFurnitureSchema.partial();
 
+export const restoreFurnitureSchema = z.object({
+  status: editableStatusSchema.default(FurnitureStatus.ACTIVE)
+});
+
+// Attribute definition schemas
+export const createAttributeSchema = z.object({
+  name: nonEmptyStringSchema,
+  key: slugSchema.optional(), // Generated from the name when left out
+  type: z.nativeEnum(AttributeType),
+  unit: z.string().trim().min(1).max(20).optional(),
+  allowedValues: z.array(z.string().trim().min(1).max(100)).optional(),
+  isRequired: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional()
+}).refine(data => data.type !== "ENUM" || (data.allowedValues?.length ?? 0) > 0, {
+  message: "Choice attributes need at least one allowed value",
+  path: ["allowedValues"]
+}).refine(data => data.type === "ENUM" || !data.allowedValues, {
+  message: "Only choice attributes have allowed values",
+  path: ["allowedValues"]
+}).refine(data => data.type === "NUMBER" || !data.unit, {
+  message: "Only number attributes have a unit",
+  path: ["unit"]
+});
+
+// Key and type can't change once products have values
+export const updateAttributeSchema = z.object({
+  name: nonEmptyStringSchema.optional(),
+  unit: z.string().trim().min(1).max(20).nullable().optional(),
+  allowedValues: z.array(z.string().trim().min(1).max(100)).min(1).optional(),
+  isRequired: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional()
+}).refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+// Catalog import/export; import rows themselves are checked against createFurnitureSchema
+export const catalogImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('false').transform(val => val === 'true')
+});
+
+export const catalogExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv')
+});
+
+// Category schemas
+export const createCategorySchema = z.object({
+  name: nonEmptyStringSchema,
+  // Generated from the name when left out
+  slug: slugSchema.optional(),
+  description: z.string().optional(),
+  parentId: positiveIntSchema.optional(),
+  taxRate: z.number().min(0).max(100).optional()
+});
+
+// Variant schemas; option values are free text such as "Teal", "Velvet" or "3 seater"
+const variantOptionSchema = z.string().trim().min(1).max(50);
+
+export const createVariantSchema = z.object({
+  sku: nonEmptyStringSchema,
+  colour: variantOptionSchema.optional(),
+  material: variantOptionSchema.optional(),
+  size: variantOptionSchema.optional(),
+  price: z.number().positive("Price must be positive"),
+  widthCm: z.number().positive("Width must be positive"),
+  heightCm: z.number().positive("Height must be positive"),
+  depthCm: z.number().positive("Depth must be positive"),
+  stockQuantity: z.number().int().min(0, "Stock cannot be negative").default(0),
+  isDefault: z.boolean().optional(),
+  images: z.array(z.string().url("Invalid image URL")).optional()
+});
+
+export const updateVariantSchema = createVariantSchema.extend({
+  colour: variantOptionSchema.nullable().optional(),
+  material: variantOptionSchema.nullable().optional(),
+  size: variantOptionSchema.nullable().optional(),
+  stockQuantity: z.number().int().min(0, "Stock cannot be negative").optional()
+}).partial().refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+// Image schemas; uploads arrive as multipart form fields, so numbers come in as text
+const altTextSchema = z.string().trim().max(250, "Alt text must be 250 characters or fewer");
+
+export const uploadImagesSchema = z.object({
+  altText: altTextSchema.optional().transform(val => val || undefined),
+  variantId: z.coerce.number().int().positive("Invalid variant ID").optional()
+});
+
+export const updateImageSchema = z.object({
+  altText: altTextSchema.nullable().optional(),
+  sortOrder: z.number().int().min(0, "Sort order cannot be negative").optional()
+}).refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+// Price schedule schemas; without a variant the product's default variant is used
+export const createScheduledPriceSchema = z.object({
+  variantId: positiveIntSchema.optional(),
+  price: z.number().positive("Price must be positive"),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().optional() // Leave out for a permanent change
+}).refine(data => !data.endsAt || data.endsAt > data.startsAt, {
+  message: "End must be after the start",
+  path: ["endsAt"]
+});
+
+export const priceHistoryQuerySchema = z.object({
+  variantId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50)
+});
+
 export const furnitureQuerySchema = z.object({
-  search: z.string().optional(),
-  category: z.string().optional(),
-  minPrice: z.coerce.number().positive().optional(),
+  search: z.string().trim().max(200).optional().transform(val => val || undefined),
+  category: z.string().optional(), // Slug; subcategories are included
+  minPrice: z.coerce.number().min(0).optional(),
   maxPrice: z.coerce.number().positive().optional(),
-  sortBy: z.enum(['name', 'price', 'createdAt']).optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(),
+  size: z.enum(['compact', 'medium', 'large']).optional(),
+  attr: z.record(slugSchema, z.string().trim().min(1)).optional(), // attr[key]=value
+  status: z.nativeEnum(FurnitureStatus).optional(), // Staff only
+  // Defaults to relevance when searching, newest first otherwise
+  sortBy: z.enum(['relevance', 'name', 'price', 'createdAt']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(10)
 });
 
+// Products shown side by side on the compare page
+export const MAX_COMPARE_ITEMS = 4;
+
+export const compareQuerySchema = z.object({
+  // Comma separated, e.g. ?ids=3,8,12; repeats are dropped
+  ids: z.string()
+    .transform(val => [...new Set(val.split(",").map(id => Number(id.trim())))])
+    .pipe(z.array(z.number({ invalid_type_error: "Invalid ID" }).int().positive("Invalid ID"))
+      .min(2, "Pick at least two products to compare")
+      .max(MAX_COMPARE_ITEMS, `Up to ${MAX_COMPARE_ITEMS} products can be compared`))
+});
+
+export const suggestQuerySchema = z.object({
+  q: z.string().max(100).default(''),
+  limit: z.coerce.number().int().positive().max(10).default(5)
+});
+
 // Review schemas
 export const createReviewSchema = z.object({
   rating: z.number().int().min(1, "Rating must be at least 1").max(5, "Rating must be at most 5"),
@@ -88,38 +238,163 @@ export const reviewQuerySchema = z.object({
 // Cart schemas
 export const addToCartSchema = z.object({
   furnitureId: positiveIntSchema,
-  quantity: z.number().int().positive().default(1)
+  variantId: positiveIntSchema.optional(),
+  quantity: lineQuantitySchema.default(1)
+});
+
+// Several items in one request, e.g. a bundle; the cart takes all of them or none
+export const addCartItemsSchema = z.object({
+  items: z.array(addToCartSchema).min(1, "At least one item is required").max(20, "At most 20 items can be added at once")
 });
 
 export const updateCartItemSchema = z.object({
   cartItemId: positiveIntSchema,
-  quantity: z.number().int().positive("Quantity must be positive")
+  quantity: lineQuantitySchema
+});
+
+// Address schemas
+const addressFieldsSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required").max(100),
+  phone: z.string().trim().regex(/^\+?[\d\s-]{7,20}$/, "Invalid phone number"),
+  line1: z.string().trim().min(1, "Address line 1 is required").max(200),
+  line2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(1, "City is required").max(100),
+  state: z.string().trim().min(1, "State is required").max(100),
+  postalCode: z.string().trim().regex(/^[A-Za-z0-9\s-]{3,10}$/, "Invalid postal code"),
+  country: z.string().trim().length(2, "Country must be a 2-letter code").toUpperCase().default("IN")
+});
+
+export const createAddressSchema = addressFieldsSchema.extend({
+  label: z.string().trim().max(50).optional(),
+  isDefault: z.boolean().optional()
+});
+
+export const updateAddressSchema = createAddressSchema.partial().refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+// Address as captured on an order; email is the contact for delivery updates
+export const shippingAddressSchema = addressFieldsSchema.extend({
+  email: emailSchema.optional()
 });
 
 // Order schemas
 export const createOrderSchema = z.object({
   items: z.array(z.object({
     furnitureId: positiveIntSchema,
-    quantity: z.number().int().positive()
+    variantId: positiveIntSchema.optional(),
+    quantity: lineQuantitySchema
   })).min(1, "Order must contain at least one item"),
   guestInfo: z.object({
     email: emailSchema,
     name: z.string().optional()
-  }).optional()
+  }).optional(),
+  addressId: positiveIntSchema.optional(),
+  shippingAddress: shippingAddressSchema.optional()
 });
 
 export const orderQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(50).default(10),
-  status: z.enum(['PENDING', 'COMPLETED', 'CANCELLED']).optional(),
+  status: z.nativeEnum(OrderStatus).optional(),
   sortBy: z.enum(['createdAt', 'totalAmount']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
 export const updateOrderStatusSchema = z.object({
-  status: z.enum(['PENDING', 'COMPLETED', 'CANCELLED'])
+  status: z.nativeEnum(OrderStatus),
+  note: z.string().trim().max(500).optional()
 });
 
+// Promotion schemas
+const promotionFieldsSchema = z.object({
+  code: z.string().trim().min(3).max(50).regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, - and _")
+    .transform(code => code.toUpperCase()),
+  description: z.string().trim().max(200).optional(),
+  type: z.nativeEnum(PromotionType),
+  value: z.number().positive(),
+  buyQuantity: z.number().int().positive().nullable().optional(),
+  getQuantity: z.number().int().positive().nullable().optional(),
+  categoryId: positiveIntSchema.nullable().optional(),
+  minSubtotal: z.number().nonnegative().nullable().optional(),
+  maxDiscount: z.number().positive().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+type PromotionFields = Partial<z.infer<typeof promotionFieldsSchema>>;
+
+// Rules that only make sense across fields; on updates they are checked again against the stored promotion
+export const checkPromotionRules = (data: PromotionFields, ctx: z.RefinementCtx) => {
+  if (data.type === "PERCENTAGE" && data.value !== undefined && data.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Percentage discounts cannot exceed 100" });
+  }
+  if (data.type === "BUY_X_GET_Y") {
+    if (!data.buyQuantity || !data.getQuantity) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["buyQuantity"], message: "Buy X get Y promotions need buyQuantity and getQuantity" });
+    }
+    if (data.value !== undefined && data.value > 100) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Buy X get Y discount is a percentage and cannot exceed 100" });
+    }
+  }
+  if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "endsAt must be after startsAt" });
+  }
+};
+
+export const createPromotionSchema = promotionFieldsSchema.superRefine(checkPromotionRules);
+
+export const updatePromotionSchema = promotionFieldsSchema.partial().refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+// Wishlist schemas
+export const wishlistSchema = z.object({
+  name: z.string().trim().min(1, "List name is required").max(60)
+});
+
+export const wishlistItemSchema = z.object({
+  furnitureId: positiveIntSchema
+});
+
+export const moveToCartSchema = z.object({
+  quantity: lineQuantitySchema.default(1)
+});
+
+// Room planner schemas (all lengths in centimetres)
+const roomLengthSchema = z.number().positive("Must be greater than 0").max(5000, "Rooms can be at most 50 m across");
+
+const roomFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Room name is required").max(100),
+  widthCm: roomLengthSchema,
+  depthCm: roomLengthSchema,
+  heightCm: roomLengthSchema.nullable().optional()
+});
+
+export const createRoomSchema = roomFieldsSchema;
+
+export const updateRoomSchema = roomFieldsSchema.partial().refine(data => Object.keys(data).length > 0, {
+  message: "At least one field must be provided"
+});
+
+const roomPlacementSchema = z.object({
+  furnitureId: positiveIntSchema,
+  variantId: positiveIntSchema.optional(),
+  xCm: z.number().min(0, "Position cannot be negative"),
+  yCm: z.number().min(0, "Position cannot be negative"),
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).default(0)
+});
+
+export const saveRoomLayoutSchema = z.object({
+  placements: z.array(roomPlacementSchema).max(100, "A room can hold at most 100 items")
+});
+
+// Check a layout that has not been saved yet
+export const checkRoomLayoutSchema = roomFieldsSchema.omit({ name: true }).merge(saveRoomLayoutSchema);
+
 // Recommendation schemas
 export const recommendationQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(50).default(10),
@@ -127,11 +402,106 @@ export const recommendationQuerySchema = z.object({
   categoryId: z.coerce.number().int().positive().optional()
 });
 
+// Analytics event schemas; the storefront sends events in batches
+export const MAX_EVENTS_PER_BATCH = 100;
+
+const trackedEventSchema = z.object({
+  type: z.nativeEnum(EventType),
+  furnitureId: positiveIntSchema,
+  algorithm: z.string().trim().min(1).max(50).optional(), // Leave out for events not tied to a recommendation
+  position: z.number().int().min(0).max(1000).optional(),
+  // The experiment and variant the recommendation response was assigned to, if any
+  experiment: z.string().trim().min(1).max(50).optional(),
+  variant: z.string().trim().min(1).max(50).optional(),
+  occurredAt: z.coerce.date().optional() // When the batch arrives, if left out
+});
+
+export const ingestEventsSchema = z.object({
+  sessionId: z.string().trim().min(1).max(100),
+  events: z.array(trackedEventSchema).min(1).max(MAX_EVENTS_PER_BATCH)
+});
+
+export const eventReportQuerySchema = z.object({
+  from: z.coerce.date().optional(), // 30 days before `to` when left out
+  to: z.coerce.date().optional()    // Now when left out
+}).refine(data => !data.from || !data.to || data.from < data.to, {
+  message: "`from` must be before `to`",
+  path: ["from"]
+});
+
+// Recommendation experiment schemas
+export const USER_RECOMMENDATION_STRATEGIES = ["collaborative", "category-based", "popular"] as const;
+
+// What a variant changes; each key applies to one surface only
+export const experimentConfigSchema = z.object({
+  // SIMILAR: overrides for the content similarity weights
+  weights: z.object({
+    price: z.number().min(0),
+    dimensions: z.number().min(0),
+    attributes: z.number().min(0),
+    text: z.number().min(0),
+    rating: z.number().min(0)
+  }).partial().strict().optional(),
+  // USER: the strategies to fill the list from, in order
+  strategies: z.array(z.enum(USER_RECOMMENDATION_STRATEGIES)).min(1).optional()
+}).strict();
+
+export type ExperimentConfig = z.infer<typeof experimentConfigSchema>;
+
+export const createExperimentSchema = z.object({
+  key: slugSchema.max(50),
+  name: nonEmptyStringSchema.max(100),
+  description: z.string().trim().max(500).optional(),
+  surface: z.nativeEnum(RecommendationSurface),
+  // The first variant is the control
+  variants: z.array(z.object({
+    key: slugSchema.max(50),
+    weight: z.number().int().positive().max(1000).default(1),
+    config: experimentConfigSchema.optional()
+  })).min(2, "An experiment needs at least two variants").max(10)
+}).superRefine((data, ctx) => {
+  const keys = data.variants.map(variant => variant.key);
+  keys.forEach((key, index) => {
+    if (keys.indexOf(key) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Variant key "${key}" is used twice`, path: ["variants", index, "key"] });
+    }
+  });
+
+  data.variants.forEach((variant, index) => {
+    if (variant.config?.weights && data.surface !== RecommendationSurface.SIMILAR) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "`weights` only applies to SIMILAR experiments", path: ["variants", index, "config", "weights"] });
+    }
+    if (variant.config?.strategies && data.surface !== RecommendationSurface.USER) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "`strategies` only applies to USER experiments", path: ["variants", index, "config", "strategies"] });
+    }
+  });
+});
+
+export const experimentListQuerySchema = z.object({
+  status: z.nativeEnum(ExperimentStatus).optional()
+});
+
 // ID parameter validation
 export const idParamSchema = z.object({
   id: z.coerce.number().int().positive("Invalid ID")
 });
 
+export const variantParamsSchema = idParamSchema.extend({
+  variantId: z.coerce.number().int().positive("Invalid variant ID")
+});
+
+export const attributeParamsSchema = z.object({
+  attributeId: z.coerce.number().int().positive("Invalid attribute ID")
+});
+
+export const scheduledPriceParamsSchema = idParamSchema.extend({
+  scheduleId: z.coerce.number().int().positive("Invalid schedule ID")
+});
+
+export const imageParamsSchema = idParamSchema.extend({
+  imageId: z.coerce.number().int().positive("Invalid image ID")
+});
+
 export const stringIdParamSchema = z.object({
   id: z.string().min(1, "ID is required")
 });
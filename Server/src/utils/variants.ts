@@ -0,0 +1,97 @@
+/**
+ * Variant lookups shared by the cart, checkout and order flows, and keeping the parent product's listing columns in step
+ */
+import { Prisma, Variant } from "@prisma/client";
+import { prisma } from "../prisma";
+import { ApiError } from "./errors";
+
+export const variantWithFurnitureInclude = {
+  furniture: { include: { category: true } }
+} satisfies Prisma.VariantInclude;
+
+export type VariantWithFurniture = Prisma.VariantGetPayload<{ include: typeof variantWithFurnitureInclude }>;
+
+export interface VariantSelection {
+  furnitureId: number;
+  variantId?: number;
+}
+
+// e.g. "Teal / Velvet / 3 seater"; null when the variant has no options, like a product's only variant
+export const variantLabel = (variant: Pick<Variant, "colour" | "material" | "size">) => {
+  const parts = [variant.colour, variant.material, variant.size].filter(Boolean);
+  return parts.length > 0 ? parts.join(" / ") : null;
+};
+
+/**
+ * Resolve each requested item to a variant of its product, in order.
+ * Items without a variant get the product's default one; unknown products, or variants
+ * belonging to another product, throw a 404 listing them.
+ */
+export const resolveVariants = async (items: VariantSelection[]): Promise<VariantWithFurniture[]> => {
+  const variantIds = items.flatMap(item => item.variantId ? [item.variantId] : []);
+  const defaultFor = items.filter(item => !item.variantId).map(item => item.furnitureId);
+
+  const variants = await prisma.variant.findMany({
+    where: {
+      OR: [
+        { id: { in: variantIds } },
+        { furnitureId: { in: defaultFor }, isDefault: true }
+      ]
+    },
+    include: variantWithFurnitureInclude
+  });
+
+  const byId = new Map(variants.map(v => [v.id, v]));
+  const defaults = new Map(variants.filter(v => v.isDefault).map(v => [v.furnitureId, v]));
+  const missing: string[] = [];
+
+  const resolved = items.flatMap(item => {
+    const variant = item.variantId ? byId.get(item.variantId) : defaults.get(item.furnitureId);
+    if (!variant || variant.furnitureId !== item.furnitureId) {
+      missing.push(item.variantId ? `${item.furnitureId} (variant ${item.variantId})` : String(item.furnitureId));
+      return [];
+    }
+    return [variant];
+  });
+
+  if (missing.length > 0) {
+    throw ApiError.notFound(`Furniture items not found: ${missing.join(', ')}`, "FURNITURE_NOT_FOUND");
+  }
+  return resolved;
+};
+
+export const resolveVariant = async (furnitureId: number, variantId?: number) => {
+  const [variant] = await resolveVariants([{ furnitureId, variantId }]);
+  return variant;
+};
+
+/**
+ * Copy the default variant's sku, price (and sale "was" price) and size onto the product and total up its stock,
+ * so listings, filters and sorting keep working off the Furniture columns.
+ * Promotes the oldest variant when the product has no default left.
+ */
+export const syncFurnitureFromVariants = async (tx: Prisma.TransactionClient, furnitureId: number) => {
+  const variants = await tx.variant.findMany({
+    where: { furnitureId },
+    orderBy: [{ isDefault: 'desc' }, { id: 'asc' }]
+  });
+  const [primary] = variants;
+  if (!primary) return;
+
+  if (!primary.isDefault) {
+    await tx.variant.update({ where: { id: primary.id }, data: { isDefault: true } });
+  }
+
+  await tx.furniture.update({
+    where: { id: furnitureId },
+    data: {
+      sku: primary.sku,
+      price: primary.price,
+      compareAtPrice: primary.compareAtPrice,
+      widthCm: primary.widthCm,
+      heightCm: primary.heightCm,
+      depthCm: primary.depthCm,
+      stockQuantity: variants.reduce((sum, v) => sum + v.stockQuantity, 0)
+    }
+  });
+};
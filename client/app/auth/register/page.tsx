@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useRegister } from "@/app/lib/queries";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 
 export default function RegisterPage() {
   const [email, setEmail] = useState("");
@@ -10,12 +10,16 @@ export default function RegisterPage() {
   const [name, setName] = useState("");
   const register = useRegister();
   const router = useRouter();
+  // Set when coming from a guest order's confirmation page
+  const orderToken = useSearchParams().get("orderToken");
 
   const submit = async (e: any) => {
     e.preventDefault();
     try {
-      await register.mutateAsync({ email, password, name });
-      router.push("/");
+      const res = await register.mutateAsync({ email, password, name, orderTokens: orderToken ? [orderToken] : undefined });
+      // The guest order this page was opened from now belongs to the account
+      const claimedOrders = res.data.claimedOrders ?? 0;
+      router.push(claimedOrders > 0 ? "/orders" : "/");
     } catch (err: any) {
       alert(err?.response?.data?.error || err?.message || "Registration failed");
     }
@@ -1,38 +1,29 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useParams, useRouter } from "next/navigation";
-import { useFurnitureById, useMe } from "@/app/lib/queries";
-import { api } from "@/app/lib/api";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useFurnitureById, useMe, useAddresses, useCheckoutQuote } from "@/app/lib/queries";
 import { ArrowLeft, ShoppingCart, CreditCard, Package, User } from "lucide-react";
 import Link from "next/link";
-
-interface ShippingInfo {
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-}
+import { addressToShippingInfo, type ShippingInfo } from "@/app/lib/address";
+import type { Address, CheckoutQuote, Variant } from "@/app/lib/types";
+import { variantLabel } from "@/app/lib/variants";
+import { TaxAndShippingLines } from "@/app/components/TaxAndShippingLines";
 
 export default function DirectPurchasePage() {
   const { id } = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { data: furnitureResp, isLoading: furnitureLoading } = useFurnitureById(id as string);
   const { data: userResp, isLoading: userLoading } = useMe();
   
   const furniture = furnitureResp?.data;
   const user = userResp?.data;
+  // The variant picked on the product page, or the product's default one
+  const variants: Variant[] = furniture?.variants || [];
+  const variant = variants.find(v => v.id === Number(searchParams.get('variant'))) || variants[0];
+  const { data: addressesResp } = useAddresses(!!user);
 
-  // Redirect to login if not authenticated
-  useEffect(() => {
-    if (!userLoading && !user) {
-      router.push(`/auth/login?redirect=/buy/${id}`);
-    }
-  }, [user, userLoading, router, id]);
-  
   const [quantity, setQuantity] = useState(1);
   const [shippingInfo, setShippingInfo] = useState<ShippingInfo>({
     name: user?.name || '',
@@ -47,13 +38,20 @@ export default function DirectPurchasePage() {
 
   useEffect(() => {
     if (user) {
-      setShippingInfo(prev => ({
-        ...prev,
-        name: user.name || '',
-        email: user.email || ''
-      }));
+      // Prefer the default saved address; otherwise just the account's name and email
+      const addresses: Address[] = addressesResp?.data || [];
+      const defaultAddress = addresses.find(a => a.isDefault);
+      setShippingInfo(prev => defaultAddress
+        ? addressToShippingInfo(defaultAddress, user.email || '')
+        : { ...prev, name: user.name || '', email: user.email || '' });
     }
-  }, [user]);
+  }, [user, addressesResp]);
+
+  const { data: quoteResp } = useCheckoutQuote(furniture && quantity > 0 ? {
+    items: [{ furnitureId: furniture.id, variantId: variant?.id, quantity }],
+    state: shippingInfo.state.trim() || undefined
+  } : null);
+  const quote: CheckoutQuote | undefined = quoteResp?.data;
 
   // Show loading while checking authentication or loading furniture
   if (userLoading || furnitureLoading) {
@@ -74,25 +72,6 @@ export default function DirectPurchasePage() {
     );
   }
 
-  // Show login required message if not authenticated
-  if (!user) {
-    return (
-      <div className="max-w-4xl mx-auto p-6">
-        <div className="text-center py-16">
-          <User className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-          <h2 className="text-xl font-semibold text-gray-600 mb-2">Login Required</h2>
-          <p className="text-gray-500 mb-6">Please log in to your account to make a purchase.</p>
-          <Link 
-            href={`/auth/login?redirect=/buy/${id}`}
-            className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-          >
-            Login to Continue
-          </Link>
-        </div>
-      </div>
-    );
-  }
-
   if (!furniture) {
     return (
       <div className="max-w-4xl mx-auto p-6">
@@ -111,9 +90,12 @@ export default function DirectPurchasePage() {
     );
   }
 
-  const subtotal = Number(furniture.price) * quantity;
-  const tax = subtotal * 0.18; // 18% GST
-  const total = subtotal + tax;
+  const purchasable = variant || furniture;
+  const label = variant ? variantLabel(variant) : '';
+  const subtotal = Number(purchasable.price) * quantity;
+  const productHref = `/product/${furniture.id}${variant ? `?variant=${variant.id}` : ''}`;
+  // Until the quote arrives, show the plain subtotal
+  const total = quote?.total ?? subtotal;
 
   const handleInputChange = (field: keyof ShippingInfo, value: string) => {
     setShippingInfo(prev => ({ ...prev, [field]: value }));
@@ -121,7 +103,7 @@ export default function DirectPurchasePage() {
 
   const isFormValid = () => {
     // Basic validation
-    if (quantity <= 0) return false;
+    if (quantity <= 0 || quantity > purchasable.stockQuantity) return false;
     
     // Required fields for all users
     const requiredFields = ['name', 'email', 'phone', 'address', 'city', 'state', 'zipCode'];
@@ -155,13 +137,6 @@ export default function DirectPurchasePage() {
   };
 
   const handleDirectPurchase = async () => {
-    // Ensure user is still authenticated
-    if (!user) {
-      alert('Please log in to complete your purchase.');
-      router.push(`/auth/login?redirect=/buy/${id}`);
-      return;
-    }
-
     if (!isFormValid()) {
       // Find the first missing field to show specific error
       const requiredFields = [
@@ -192,36 +167,19 @@ export default function DirectPurchasePage() {
       return;
     }
 
+    // Payment is collected on the shared payment page; hand the single item over via sessionStorage
+    sessionStorage.setItem('shippingInfo', JSON.stringify(shippingInfo));
+    sessionStorage.setItem('directPurchase', JSON.stringify({
+      items: [{
+        furnitureId: furniture.id,
+        variantId: variant?.id,
+        quantity,
+        name: label ? `${furniture.name} (${label})` : furniture.name,
+        unitPrice: Number(purchasable.price)
+      }]
+    }));
     setIsProcessing(true);
-    
-    try {
-      // Create order directly with the single item (authenticated users only)
-      const orderData = {
-        items: [{
-          furnitureId: furniture.id,
-          quantity: quantity
-        }]
-      };
-
-      // Only use authenticated checkout
-      const response = await api.post('/checkout/place', orderData);
-      
-      if (response.data.success) {
-        const orderId = response.data.data.id || response.data.data.order?.id;
-        router.push(`/order/success?orderId=${orderId}&total=${total}`);
-      } else {
-        throw new Error('Order creation failed');
-      }
-    } catch (error: any) {
-      const errorMessage = error?.response?.data?.error?.message || 
-                          error?.response?.data?.error || 
-                          error?.message || 
-                          "Purchase failed. Please try again.";
-      
-      alert(`Error: ${errorMessage}`);
-    } finally {
-      setIsProcessing(false);
-    }
+    router.push('/order/payment');
   };
 
   return (
@@ -229,7 +187,7 @@ export default function DirectPurchasePage() {
       {/* Header */}
       <div className="flex items-center gap-4 mb-8">
         <Link 
-          href={`/product/${furniture.id}`} 
+          href={productHref} 
           className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
         >
           <ArrowLeft className="w-6 h-6" />
@@ -248,7 +206,7 @@ export default function DirectPurchasePage() {
             
             <div className="flex gap-4">
               <img 
-                src={furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
+                src={variant?.images?.[0]?.url || furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
                 alt={furniture.name}
                 className="w-24 h-24 object-cover rounded-lg"
                 onError={(e) => {
@@ -258,11 +216,12 @@ export default function DirectPurchasePage() {
               
               <div className="flex-1">
                 <h3 className="font-semibold text-lg text-gray-900">{furniture.name}</h3>
-                <p className="text-gray-600 text-sm mt-1">SKU: {furniture.sku}</p>
+                {label && <p className="text-gray-700 text-sm mt-1">{label}</p>}
+                <p className="text-gray-600 text-sm mt-1">SKU: {purchasable.sku}</p>
                 <p className="text-gray-600 text-sm">Category: {furniture.category?.name}</p>
                 <div className="flex items-center gap-4 mt-2">
                   <span className="text-lg font-bold text-blue-600">
-                    ₹{Number(furniture.price).toLocaleString()}
+                    ₹{Number(purchasable.price).toLocaleString()}
                   </span>
                   <span className="text-gray-500">each</span>
                 </div>
@@ -286,8 +245,9 @@ export default function DirectPurchasePage() {
                   {quantity}
                 </span>
                 <button
-                  onClick={() => setQuantity(quantity + 1)}
+                  onClick={() => setQuantity(Math.min(purchasable.stockQuantity, quantity + 1))}
                   className="p-2 border rounded-lg hover:bg-gray-50"
+                  disabled={quantity >= purchasable.stockQuantity}
                 >
                   +
                 </button>
@@ -301,7 +261,17 @@ export default function DirectPurchasePage() {
               <User className="w-6 h-6 text-blue-600" />
               Shipping Information
             </h2>
-            
+
+            {!user && (
+              <p className="text-sm text-gray-600 mb-4 p-3 bg-blue-50 rounded-lg">
+                Checking out as a guest. Create an account with the same email later to see this order in your history.{' '}
+                <Link href={`/auth/login?redirect=/buy/${id}`} className="text-blue-600 hover:underline">
+                  Log in
+                </Link>{' '}
+                to use your saved addresses.
+              </p>
+            )}
+
             <div className="grid md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -445,14 +415,7 @@ export default function DirectPurchasePage() {
                 <span>Subtotal ({quantity} {quantity === 1 ? 'item' : 'items'})</span>
                 <span>₹{subtotal.toLocaleString()}</span>
               </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Shipping</span>
-                <span className="text-green-600">Free</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Tax (GST 18%)</span>
-                <span>₹{tax.toLocaleString()}</span>
-              </div>
+              {quote && <TaxAndShippingLines shippingTotal={quote.shippingTotal} taxes={quote.taxes} />}
               <div className="border-t pt-3">
                 <div className="flex justify-between text-xl font-bold">
                   <span>Total Amount</span>
@@ -475,13 +438,13 @@ export default function DirectPurchasePage() {
                 ) : (
                   <>
                     <ShoppingCart className="w-5 h-5" />
-                    Complete Purchase - ₹{total.toLocaleString()}
+                    Proceed to Payment - ₹{total.toLocaleString()}
                   </>
                 )}
               </button>
               
               <Link 
-                href={`/product/${furniture.id}`} 
+                href={productHref} 
                 className="w-full block text-center px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
               >
                 Back to Product
@@ -4,6 +4,10 @@ import { useCart, useUpdateCartItem, useRemoveCartItem, useClearCart } from "@/a
 import { useRouter } from "next/navigation";
 import { Trash2, Plus, Minus, ShoppingCart } from "lucide-react";
 import Link from "next/link";
+import { CouponForm } from "@/app/components/CouponForm";
+import { DiscountLines } from "@/app/components/DiscountLines";
+import type { CartPricing } from "@/app/lib/types";
+import { variantLabel } from "@/app/lib/variants";
 
 export default function CartPage() {
   const { data: cartResp, isLoading, error } = useCart();
@@ -51,7 +55,9 @@ export default function CartPage() {
     );
   }
 
-  const total = cart?.items?.reduce((s: number, it: any) => s + it.quantity * Number(it.furniture.price), 0) ?? 0;
+  const total = cart?.items?.reduce((s: number, it: any) => s + it.quantity * Number(it.variant.price), 0) ?? 0;
+  // Discounts are worked out by the server; fall back to the plain sum while it loads
+  const pricing: CartPricing | undefined = cart?.pricing;
   const itemCount = cart?.items?.reduce((s: number, it: any) => s + it.quantity, 0) ?? 0;
 
   const handleQuantityChange = (cartItemId: number, newQuantity: number) => {
@@ -97,7 +103,7 @@ export default function CartPage() {
                 <div key={item.id} className="flex gap-4 items-center py-4 border-b last:border-b-0">
                   <div className="relative">
                     <img 
-                      src={item.furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
+                      src={item.variant.images?.[0]?.url || item.furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
                       alt={item.furniture.name} 
                       className="w-24 h-24 object-cover rounded-lg"
                       onError={(e) => {
@@ -107,15 +113,21 @@ export default function CartPage() {
                   </div>
                   
                   <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-lg text-gray-900 truncate">
+                    <Link
+                      href={`/product/${item.furnitureId}?variant=${item.variantId}`}
+                      className="block font-semibold text-lg text-gray-900 truncate hover:text-blue-600"
+                    >
                       {item.furniture.name}
-                    </h3>
+                    </Link>
+                    {variantLabel(item.variant) && (
+                      <p className="text-gray-700 text-sm mt-1">{variantLabel(item.variant)}</p>
+                    )}
                     <p className="text-gray-600 text-sm mt-1">
-                      SKU: {item.furniture.sku}
+                      SKU: {item.variant.sku}
                     </p>
                     <div className="flex items-center gap-2 mt-2">
                       <span className="text-lg font-bold text-blue-600">
-                        ₹{Number(item.furniture.price).toLocaleString()}
+                        ₹{Number(item.variant.price).toLocaleString()}
                       </span>
                       <span className="text-gray-500">each</span>
                     </div>
@@ -145,7 +157,7 @@ export default function CartPage() {
                     
                     <div className="text-right min-w-[6rem]">
                       <div className="font-bold text-lg">
-                        ₹{(Number(item.furniture.price) * item.quantity).toLocaleString()}
+                        ₹{(Number(item.variant.price) * item.quantity).toLocaleString()}
                       </div>
                     </div>
 
@@ -176,19 +188,22 @@ export default function CartPage() {
               </button>
             </div>
             
+            <CouponForm pricing={pricing} />
+
             <div className="space-y-2 mb-4">
               <div className="flex justify-between text-gray-600">
                 <span>Subtotal ({itemCount} {itemCount === 1 ? 'item' : 'items'})</span>
                 <span>₹{total.toLocaleString()}</span>
               </div>
+              <DiscountLines discounts={pricing?.discounts} />
               <div className="flex justify-between text-gray-600">
-                <span>Shipping</span>
-                <span className="text-green-600">Free</span>
+                <span>Shipping & GST</span>
+                <span>Calculated at checkout</span>
               </div>
               <div className="border-t pt-2">
                 <div className="flex justify-between text-xl font-bold">
-                  <span>Total</span>
-                  <span className="text-blue-600">₹{total.toLocaleString()}</span>
+                  <span>Total before tax</span>
+                  <span className="text-blue-600">₹{(pricing?.total ?? total).toLocaleString()}</span>
                 </div>
               </div>
             </div>
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter, useSearchParams } from "next/navigation";
+import { GitCompare, X } from "lucide-react";
+import { useComparison } from "@/app/lib/queries";
+import { compareHref, useCompareList } from "@/app/lib/compare";
+import { imageSourceProps } from "@/app/lib/images";
+import { wasPrice } from "@/app/lib/utils";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import { LoadingSpinner } from "@/app/components/LoadingSpinner";
+import type { CompareRow, Image as ProductImage } from "@/app/lib/types";
+
+const GROUP_TITLES: Record<CompareRow["group"], string> = {
+  overview: "Overview",
+  dimensions: "Dimensions",
+  specifications: "Specifications",
+};
+
+// "₹24,999", "4.5 / 5", "120 kg", "Yes"; a dash where the product has no value
+const formatValue = (row: CompareRow, value: CompareRow["values"][number]) => {
+  if (value === null) return "—";
+  if (row.key === "price") return `₹${Number(value).toLocaleString()}`;
+  if (row.key === "averageRating") return `${Number(value).toFixed(1)} / 5`;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") return `${value.toLocaleString()}${row.unit ? ` ${row.unit}` : ""}`;
+  return value;
+};
+
+export default function ComparePage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const tray = useCompareList();
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  // The link from the tray carries the IDs, so a comparison can also be shared
+  const ids = searchParams.get("ids")
+    ? searchParams.get("ids")!.split(",").map(Number).filter(id => Number.isInteger(id) && id > 0)
+    : tray.items.map(item => item.id);
+  const { data: comparison, isLoading, error } = useComparison(ids);
+
+  const handleRemove = (id: number) => {
+    tray.remove(id);
+    const remaining = ids.filter(other => other !== id);
+    router.replace(remaining.length > 0 ? compareHref(remaining) : "/compare");
+  };
+
+  if (ids.length < 2) {
+    return (
+      <div className="max-w-3xl mx-auto text-center py-16">
+        <GitCompare className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Compare products</h1>
+        <p className="text-gray-600 mb-6">
+          Pick at least two products with the Compare button on their cards to see them side by side.
+        </p>
+        <Link href="/" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+          Browse furniture
+        </Link>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !comparison) {
+    return (
+      <div className="max-w-3xl mx-auto text-center py-16 text-red-600">
+        Could not load the comparison: {getErrorMessage(error)}
+      </div>
+    );
+  }
+
+  const { items, rows } = comparison;
+  const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows;
+  const groups = (Object.keys(GROUP_TITLES) as CompareRow["group"][])
+    .map(group => ({ group, rows: visibleRows.filter(row => row.group === group) }))
+    .filter(({ rows }) => rows.length > 0);
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold">Compare products</h1>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+          />
+          Only show differences
+        </label>
+      </div>
+
+      <div className="overflow-x-auto bg-white rounded-lg shadow">
+        <table className="w-full text-sm table-fixed min-w-[640px]">
+          <thead>
+            <tr className="border-b">
+              <th className="w-40" />
+              {items.map(item => {
+                const image: Pick<ProductImage, "url" | "altText" | "renditions"> = item.image ?? { url: "/placeholder.jpg", altText: null };
+                const regularPrice = wasPrice(item);
+                return (
+                  <th key={item.id} scope="col" className="p-4 align-top text-left font-normal">
+                    <div className="relative">
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(item.id)}
+                        aria-label={`Remove ${item.name} from comparison`}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-white/90 shadow text-gray-500 hover:text-gray-800"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                      <Image
+                        {...imageSourceProps(image)}
+                        alt={image.altText || item.name}
+                        width={300}
+                        height={225}
+                        sizes="(min-width: 1024px) 20vw, 40vw"
+                        className="w-full h-36 object-cover rounded-lg mb-3"
+                      />
+                    </div>
+                    <Link href={`/product/${item.id}`} className="font-semibold text-gray-900 hover:text-blue-600">
+                      {item.name}
+                    </Link>
+                    {regularPrice !== null && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        On sale, was <s>₹{regularPrice.toLocaleString()}</s>
+                      </p>
+                    )}
+                    {item.status === "ARCHIVED" && (
+                      <p className="text-xs text-gray-500 mt-1">No longer available</p>
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          {groups.map(({ group, rows }) => (
+            <tbody key={group}>
+              <tr>
+                <th colSpan={items.length + 1} scope="colgroup" className="text-left bg-gray-50 px-4 py-2 font-semibold text-gray-700">
+                  {GROUP_TITLES[group]}
+                </th>
+              </tr>
+              {rows.map(row => (
+                <tr key={row.key} className={`border-b last:border-0 ${row.differs ? "bg-yellow-50" : ""}`}>
+                  <th scope="row" className="text-left font-medium text-gray-500 px-4 py-2">
+                    {row.label}
+                  </th>
+                  {row.values.map((value, index) => (
+                    <td key={items[index].id} className={`px-4 py-2 ${row.differs ? "font-medium text-gray-900" : "text-gray-700"}`}>
+                      {formatValue(row, value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+        {groups.length === 0 && (
+          <p className="text-center text-gray-500 py-8">These products are the same in every detail shown here.</p>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">Highlighted rows are where the products differ.</p>
+    </div>
+  );
+}
@@ -1,24 +1,36 @@
 "use client";
 
 import { useAddToCart } from "@/app/lib/queries";
+import { trackAddToCart } from "@/app/lib/events";
 import { useState } from "react";
 import { ShoppingCart, Plus, Minus, Check } from "lucide-react";
 
-export default function AddToCartButton({ furnitureId }: { furnitureId: number }) {
+// Show an "only N left" hint once stock drops to this level
+const LOW_STOCK_THRESHOLD = 5;
+
+interface AddToCartButtonProps {
+  furnitureId: number;
+  variantId?: number; // Defaults to the product's default variant
+  stockQuantity: number;
+}
+
+export default function AddToCartButton({ furnitureId, variantId, stockQuantity }: AddToCartButtonProps) {
   const [qty, setQty] = useState(1);
   const [showSuccess, setShowSuccess] = useState(false);
   const addToCart = useAddToCart();
+  const isOutOfStock = stockQuantity <= 0;
 
   const handleQuantityChange = (change: number) => {
     const newQty = qty + change;
-    if (newQty >= 1) {
+    if (newQty >= 1 && newQty <= stockQuantity) {
       setQty(newQty);
     }
   };
 
   const handleAddToCart = async () => {
     try {
-      await addToCart.mutateAsync({ furnitureId, quantity: qty });
+      await addToCart.mutateAsync({ furnitureId, variantId, quantity: qty });
+      trackAddToCart(furnitureId);
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 2000);
     } catch (err: any) {
@@ -48,17 +60,25 @@ export default function AddToCartButton({ furnitureId }: { furnitureId: number }
           </span>
           <button
             onClick={() => handleQuantityChange(1)}
-            className="p-2 hover:bg-gray-100 transition-colors"
+            disabled={qty >= stockQuantity}
+            className="p-2 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             <Plus size={16} />
           </button>
         </div>
       </div>
 
+      {/* Stock Status */}
+      {isOutOfStock ? (
+        <p className="text-sm font-medium text-red-600">Out of stock</p>
+      ) : stockQuantity <= LOW_STOCK_THRESHOLD && (
+        <p className="text-sm font-medium text-orange-600">Only {stockQuantity} left in stock</p>
+      )}
+
       {/* Add to Cart Button */}
       <button
         onClick={handleAddToCart}
-        disabled={addToCart.isPending}
+        disabled={addToCart.isPending || isOutOfStock}
         className={`w-full px-6 py-3 rounded-lg font-medium transition-all duration-200 flex items-center justify-center gap-2 ${
           showSuccess
             ? "bg-green-600 text-white"
@@ -75,6 +95,11 @@ export default function AddToCartButton({ furnitureId }: { furnitureId: number }
             <Check size={20} />
             Added to Cart!
           </>
+        ) : isOutOfStock ? (
+          <>
+            <ShoppingCart size={20} />
+            Out of Stock
+          </>
         ) : (
           <>
             <ShoppingCart size={20} />
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { MapPin, Plus, Star, Trash2, X, Save } from "lucide-react";
+import { Button } from "@/app/components/ui/button";
+import { useAddresses, useCreateAddress, useUpdateAddress, useDeleteAddress } from "@/app/lib/queries";
+import { formatAddressLines } from "@/app/lib/address";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import type { Address, AddressInput } from "@/app/lib/types";
+
+const emptyAddress: AddressInput = {
+  label: '',
+  fullName: '',
+  phone: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postalCode: ''
+};
+
+const fields: { key: keyof AddressInput; label: string; required?: boolean; wide?: boolean }[] = [
+  { key: 'label', label: 'Label (e.g. Home)' },
+  { key: 'fullName', label: 'Full Name', required: true },
+  { key: 'phone', label: 'Phone', required: true },
+  { key: 'postalCode', label: 'PIN Code', required: true },
+  { key: 'line1', label: 'Address Line 1', required: true, wide: true },
+  { key: 'line2', label: 'Address Line 2', wide: true },
+  { key: 'city', label: 'City', required: true },
+  { key: 'state', label: 'State', required: true }
+];
+
+export const AddressBook = () => {
+  const { data: addressesResp, isLoading } = useAddresses();
+  const createAddress = useCreateAddress();
+  const updateAddress = useUpdateAddress();
+  const deleteAddress = useDeleteAddress();
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState<AddressInput>(emptyAddress);
+
+  const addresses: Address[] = addressesResp?.data || [];
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      // Blank optional fields are omitted rather than saved as empty strings
+      const payload = Object.fromEntries(
+        Object.entries(draft).filter(([, value]) => value !== '')
+      ) as AddressInput;
+      await createAddress.mutateAsync(payload);
+      setDraft(emptyAddress);
+      setIsAdding(false);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const handleMakeDefault = async (id: number) => {
+    try {
+      await updateAddress.mutateAsync({ id, isDefault: true });
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!confirm('Delete this address?')) return;
+    try {
+      await deleteAddress.mutateAsync(id);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Saved Addresses</h2>
+        {!isAdding && (
+          <Button
+            onClick={() => setIsAdding(true)}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <Plus size={16} />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500 text-sm">Loading addresses...</p>
+      ) : addresses.length === 0 && !isAdding ? (
+        <p className="text-gray-500 text-sm">No saved addresses yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {addresses.map((address) => (
+            <div key={address.id} className="flex items-start gap-3 p-3 border rounded-lg">
+              <MapPin className="w-4 h-4 mt-1 text-gray-500" />
+              <div className="flex-1 text-sm text-gray-700">
+                <p className="font-medium text-gray-900">
+                  {address.label || address.fullName}
+                  {address.isDefault && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                </p>
+                {address.label && <p>{address.fullName}</p>}
+                {formatAddressLines(address).map(line => <p key={line}>{line}</p>)}
+                <p>{address.phone}</p>
+              </div>
+              <div className="flex gap-2">
+                {!address.isDefault && (
+                  <button
+                    onClick={() => handleMakeDefault(address.id)}
+                    className="p-1 text-gray-500 hover:text-blue-600"
+                    title="Make default"
+                  >
+                    <Star size={16} />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(address.id)}
+                  className="p-1 text-gray-500 hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-2 gap-3">
+          {fields.map(field => (
+            <div key={field.key} className={field.wide ? 'col-span-2' : ''}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}{field.required && ' *'}
+              </label>
+              <input
+                type="text"
+                value={String(draft[field.key] ?? '')}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required={field.required}
+              />
+            </div>
+          ))}
+          <div className="col-span-2 flex gap-2">
+            <Button
+              type="submit"
+              disabled={createAddress.isPending}
+              className="flex items-center gap-2"
+            >
+              <Save size={16} />
+              {createAddress.isPending ? "Saving..." : "Save Address"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setIsAdding(false);
+                setDraft(emptyAddress);
+              }}
+              className="flex items-center gap-2"
+            >
+              <X size={16} />
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+"use client";
+
+import Link from "next/link";
+import { ChevronRight } from "lucide-react";
+import type { CategoryCrumb } from "@/app/lib/types";
+
+interface CategoryBreadcrumbsProps {
+  path: CategoryCrumb[];
+  // Without a handler each step links to the home page filtered to that category
+  onSelect?: (slug: string) => void;
+  // Trailing page name, e.g. the product; otherwise the last category is the current page
+  current?: string;
+}
+
+export const CategoryBreadcrumbs = ({ path, onSelect, current }: CategoryBreadcrumbsProps) => {
+  const steps = [
+    { id: 0, name: "All Furniture", slug: "" },
+    ...path,
+    ...(current ? [{ id: -1, name: current, slug: "" }] : [])
+  ];
+
+  return (
+    <nav aria-label="Breadcrumb">
+      <ol className="flex flex-wrap items-center gap-1 text-sm text-gray-500">
+        {steps.map((step, index) => {
+          const isCurrent = index === steps.length - 1;
+
+          return (
+            <li key={step.id} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+              {isCurrent ? (
+                <span aria-current="page" className="font-medium text-gray-900">{step.name}</span>
+              ) : onSelect ? (
+                <button type="button" onClick={() => onSelect(step.slug)} className="hover:text-blue-600">
+                  {step.name}
+                </button>
+              ) : (
+                <Link href={step.slug ? `/?category=${step.slug}` : "/"} className="hover:text-blue-600">
+                  {step.name}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
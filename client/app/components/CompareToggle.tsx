@@ -0,0 +1,36 @@
+"use client";
+
+import { GitCompare } from "lucide-react";
+import { MAX_COMPARE_ITEMS, useCompareList } from "@/app/lib/compare";
+import { useToast } from "./ui/toast";
+
+// Adds the product to the compare tray, or takes it off again
+export const CompareToggle = ({ furniture, className = "" }: { furniture: { id: number; name: string }; className?: string }) => {
+  const compare = useCompareList();
+  const { addToast } = useToast();
+  const selected = compare.has(furniture.id);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards are links; picking a product to compare must not open it
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!compare.toggle(furniture)) {
+      addToast({ type: "warning", message: `You can compare up to ${MAX_COMPARE_ITEMS} products at a time` });
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={selected}
+      className={`flex items-center gap-1 text-sm transition-colors ${
+        selected ? "text-blue-600 font-medium" : "text-gray-500 hover:text-blue-600"
+      } ${className}`}
+    >
+      <GitCompare className="w-4 h-4" />
+      {selected ? "Comparing" : "Compare"}
+    </button>
+  );
+};
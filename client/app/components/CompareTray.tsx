@@ -0,0 +1,53 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { X } from "lucide-react";
+import { MAX_COMPARE_ITEMS, compareHref, useCompareList } from "@/app/lib/compare";
+
+// Pinned to the bottom of every page while products are picked for comparison
+export const CompareTray = () => {
+  const pathname = usePathname();
+  const { items, remove, clear } = useCompareList();
+
+  // The compare page shows the products itself
+  if (items.length === 0 || pathname === "/compare") return null;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t shadow-lg px-4 sm:px-6 py-3">
+      <div className="max-w-7xl mx-auto flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">
+          Compare ({items.length}/{MAX_COMPARE_ITEMS})
+        </span>
+        <ul className="flex flex-wrap gap-2 flex-1">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center gap-1 bg-gray-100 rounded-full pl-3 pr-1 py-1 text-sm">
+              <span className="max-w-40 truncate">{item.name}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                aria-label={`Remove ${item.name} from comparison`}
+                className="p-0.5 rounded-full text-gray-500 hover:bg-gray-200 hover:text-gray-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button type="button" onClick={clear} className="text-sm text-gray-500 hover:text-gray-700">
+          Clear
+        </button>
+        {items.length >= 2 ? (
+          <Link
+            href={compareHref(items.map(item => item.id))}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            Compare now
+          </Link>
+        ) : (
+          <span className="text-sm text-gray-500">Pick one more product</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { useApplyCoupon, useRemoveCoupon } from "@/app/lib/queries";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import type { CartPricing } from "@/app/lib/types";
+
+export const CouponForm = ({ pricing }: { pricing?: CartPricing }) => {
+  const applyCoupon = useApplyCoupon();
+  const removeCoupon = useRemoveCoupon();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setError('');
+    try {
+      await applyCoupon.mutateAsync(code.trim());
+      setCode('');
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeCoupon.mutateAsync();
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  if (pricing?.couponCode) {
+    return (
+      <div className="mb-4">
+        <div className="flex items-center justify-between p-3 border border-green-200 bg-green-50 rounded-lg">
+          <span className="flex items-center gap-2 text-sm font-medium text-green-700">
+            <Tag className="w-4 h-4" />
+            {pricing.couponCode}
+          </span>
+          <button
+            onClick={handleRemove}
+            disabled={removeCoupon.isPending}
+            className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+            title="Remove coupon"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        {pricing.couponError && (
+          <p className="text-amber-600 text-sm mt-1">{pricing.couponError}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="mb-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Coupon code"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={applyCoupon.isPending || !code.trim()}
+          className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {applyCoupon.isPending ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+    </form>
+  );
+};
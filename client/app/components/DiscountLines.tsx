@@ -0,0 +1,21 @@
+import { Tag } from "lucide-react";
+import type { OrderDiscount } from "@/app/lib/types";
+
+// One row per applied coupon, for the price breakdowns in cart, checkout and order pages
+export const DiscountLines = ({ discounts }: { discounts?: OrderDiscount[] }) => {
+  if (!discounts?.length) return null;
+
+  return (
+    <>
+      {discounts.map(discount => (
+        <div key={discount.code} className="flex justify-between text-green-600">
+          <span className="flex items-center gap-1">
+            <Tag className="w-4 h-4" />
+            {discount.code} · {discount.description}
+          </span>
+          <span>-₹{Number(discount.amount).toLocaleString()}</span>
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { isAxiosError } from "axios";
+import { Plus, ShoppingCart } from "lucide-react";
+import { useAddManyToCart, useBundle } from "@/app/lib/queries";
+import { imageSourceProps } from "@/app/lib/images";
+import { recommendationService } from "@/app/lib/recommendationService";
+import { trackAddToCart } from "@/app/lib/events";
+import { useToast } from "./ui/toast";
+import type { Furniture, Image as ProductImage } from "@/app/lib/types";
+
+interface FrequentlyBoughtTogetherProps {
+  furniture: Pick<Furniture, "id" | "name" | "images">;
+  // The variant picked on the page; bundle items use their default variant
+  variant: { id?: number; price: number | string };
+  isLoggedIn: boolean;
+}
+
+interface BundleLine {
+  id: number;
+  name: string;
+  price: number;
+  image: ProductImage | undefined;
+  variantId?: number;
+}
+
+// The product on the page plus what other shoppers bought with it, to tick and add in one go
+export const FrequentlyBoughtTogether = ({ furniture, variant, isLoggedIn }: FrequentlyBoughtTogetherProps) => {
+  const { data: bundle } = useBundle(furniture.id);
+  const addManyToCart = useAddManyToCart();
+  const { addToast } = useToast();
+  // Everything starts ticked; only what the shopper unticks is kept
+  const [unticked, setUnticked] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (bundle?.recommendations.length) {
+      recommendationService.trackRecommendationImpressions(bundle.recommendations, bundle.algorithm, bundle.experiment);
+    }
+  }, [bundle]);
+
+  if (!bundle || bundle.recommendations.length === 0) return null;
+
+  const lines: BundleLine[] = [
+    { id: furniture.id, name: furniture.name, price: Number(variant.price), image: furniture.images[0], variantId: variant.id },
+    ...bundle.recommendations.map(item => ({ id: item.id, name: item.name, price: Number(item.price), image: item.images[0] })),
+  ];
+  const ticked = lines.filter(line => !unticked.has(line.id));
+  const total = ticked.reduce((sum, line) => sum + line.price, 0);
+
+  const toggle = (id: number) => {
+    setUnticked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAddAll = async () => {
+    try {
+      await addManyToCart.mutateAsync(ticked.map(line => ({ furnitureId: line.id, variantId: line.variantId, quantity: 1 })));
+      // Picking an item here counts as choosing the recommendation, so a later purchase is credited to it
+      bundle.recommendations.forEach((item, position) => {
+        if (unticked.has(item.id)) return;
+        recommendationService.trackRecommendationClick(item.id, bundle.algorithm, position, bundle.experiment);
+        trackAddToCart(item.id);
+      });
+      addToast({ type: "success", message: `Added ${ticked.length} ${ticked.length === 1 ? "item" : "items"} to your cart` });
+    } catch (err) {
+      const message = isAxiosError(err) ? err.response?.data?.error?.message : undefined;
+      addToast({ type: "error", message: message || "Could not add these items to your cart" });
+    }
+  };
+
+  return (
+    <section className="mt-12 bg-white rounded-lg shadow p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Frequently Bought Together</h2>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        {lines.map((line, index) => (
+          <div key={line.id} className="flex items-center gap-3">
+            {index > 0 && <Plus className="w-5 h-5 text-gray-400" />}
+            <Image
+              {...imageSourceProps(line.image ?? { url: "/placeholder.jpg" })}
+              alt={line.image?.altText || line.name}
+              width={120}
+              height={120}
+              sizes="120px"
+              className={`w-24 h-24 object-cover rounded-lg border transition-opacity ${unticked.has(line.id) ? "opacity-40" : ""}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <ul className="space-y-2 mb-6">
+        {lines.map((line, index) => (
+          <li key={line.id} className="flex items-center gap-3 text-sm">
+            <input
+              type="checkbox"
+              id={`bundle-${line.id}`}
+              checked={!unticked.has(line.id)}
+              onChange={() => toggle(line.id)}
+              className="w-4 h-4"
+            />
+            <label htmlFor={`bundle-${line.id}`} className="flex-1 text-gray-700">
+              {index === 0 ? (
+                <><span className="font-medium">This item:</span> {line.name}</>
+              ) : (
+                <Link
+                  href={`/product/${line.id}`}
+                  onClick={() => recommendationService.trackRecommendationClick(line.id, bundle.algorithm, index - 1, bundle.experiment)}
+                  className="hover:text-blue-600"
+                >
+                  {line.name}
+                </Link>
+              )}
+            </label>
+            <span className="font-medium text-gray-900">₹{line.price.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+        <p className="text-gray-700">
+          Total for {ticked.length} {ticked.length === 1 ? "item" : "items"}:{" "}
+          <span className="text-xl font-bold text-gray-900">₹{total.toLocaleString()}</span>
+        </p>
+        {isLoggedIn ? (
+          <button
+            type="button"
+            onClick={handleAddAll}
+            disabled={ticked.length === 0 || addManyToCart.isPending}
+            className="flex items-center gap-2 px-6 py-3 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ShoppingCart size={20} />
+            {addManyToCart.isPending ? "Adding..." : ticked.length === lines.length ? "Add all to cart" : `Add ${ticked.length} to cart`}
+          </button>
+        ) : (
+          <Link
+            href={`/auth/login?redirect=${encodeURIComponent(`/product/${furniture.id}`)}`}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            Login to add to cart
+          </Link>
+        )}
+      </div>
+    </section>
+  );
+};
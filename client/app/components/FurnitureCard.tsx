@@ -4,13 +4,19 @@ import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { Card, CardContent } from "./ui/card";
-import { Furniture } from "../lib/types";
+import { Furniture, Image as FurnitureImage } from "../lib/types";
+import { imageSourceProps } from "../lib/images";
+import { wasPrice } from "../lib/utils";
 import { ChevronLeft, ChevronRight, Star } from "lucide-react";
+import { WishlistHeart } from "./WishlistHeart";
+import { CompareToggle } from "./CompareToggle";
 
 export const FurnitureCard = ({ furniture }: { furniture: Furniture }) => {
 
   const [currentIndex, setCurrentIndex] = useState(0);
-  const images = furniture.images.length ? furniture.images : [{ url: "/placeholder.jpg" }];
+  const images: Pick<FurnitureImage, "url" | "altText" | "renditions">[] =
+    furniture.images.length ? furniture.images : [{ url: "/placeholder.jpg" }];
+  const currentImage = images[currentIndex];
 
   const prevImage = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -23,6 +29,7 @@ export const FurnitureCard = ({ furniture }: { furniture: Furniture }) => {
   };
 
   const avgRating = furniture.averageRating || 0;
+  const regularPrice = wasPrice(furniture);
     
   return (
     <Link href={`/product/${furniture.id}`}>
@@ -30,13 +37,17 @@ export const FurnitureCard = ({ furniture }: { furniture: Furniture }) => {
         <CardContent className="p-0">
           <div className="relative w-full h-64 overflow-hidden">
             <Image
-              src={images[currentIndex].url}
-              alt={furniture.name}
+              {...imageSourceProps(currentImage)}
+              alt={currentImage.altText || furniture.name}
               width={400}
               height={300}
+              // One column on phones, up to four across on wide screens
+              sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
               className="object-cover w-full h-full transition-all duration-300"
             />
 
+            <WishlistHeart furnitureId={furniture.id} className="absolute top-2 right-2" />
+
             {images.length > 1 && (
               <>
                 <button
@@ -69,7 +80,14 @@ export const FurnitureCard = ({ furniture }: { furniture: Furniture }) => {
           </div>
           <div className="p-4 flex flex-col justify-between">
             <h3 className="text-lg font-semibold mb-1">{furniture.name}</h3>
-            <p className="text-blue-600 font-bold text-xl">₹{furniture.price}</p>
+            <p className="text-blue-600 font-bold text-xl">
+              ₹{furniture.price}
+              {regularPrice !== null && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  was <s>₹{regularPrice}</s>
+                </span>
+              )}
+            </p>
             {avgRating > 0 && (
               <div className="flex items-center space-x-1 text-yellow-500 mt-2">
                 <Star className="w-4 h-4 fill-yellow-500" />
@@ -79,6 +97,7 @@ export const FurnitureCard = ({ furniture }: { furniture: Furniture }) => {
                 </span>
               </div>
             )}
+            <CompareToggle furniture={furniture} className="mt-3" />
           </div>
         </CardContent>
       </Card>
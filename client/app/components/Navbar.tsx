@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useQueryClient } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
-import { Menu, LogOut, ShoppingCart, User } from "lucide-react";
+import { Menu, LogOut, ShoppingCart, User, Heart } from "lucide-react";
 import { useMe, useCart } from "@/app/lib/queries";
 
 export const Navbar = () => {
@@ -69,6 +69,14 @@ export const Navbar = () => {
             <p className="text-gray-500 text-sm">Loading...</p>
           ) : user ? (
             <>
+              <Link
+                href="/wishlist"
+                className="flex items-center gap-1 text-gray-700 hover:text-blue-600 transition-colors"
+              >
+                <Heart size={20} />
+                <span className="hidden sm:inline">Wishlist</span>
+              </Link>
+
               <Link
                 href="/cart"
                 className="flex items-center gap-1 text-gray-700 hover:text-blue-600 transition-colors relative"
@@ -107,6 +115,13 @@ export const Navbar = () => {
                     >
                       My Orders
                     </Link>
+                    <Link
+                      href="/planner"
+                      className="block px-4 py-2 text-sm hover:bg-gray-50 transition-colors"
+                      onClick={() => setMenuOpen(false)}
+                    >
+                      Room Planner
+                    </Link>
                     <button
                       onClick={logout}
                       className="flex w-full items-center gap-2 px-4 py-2 text-sm text-red-600 hover:bg-gray-50 transition-colors"
@@ -163,6 +178,13 @@ export const Navbar = () => {
                       </span>
                     )}
                   </Link>
+                  <Link
+                    href="/wishlist"
+                    className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-gray-50 transition-colors"
+                    onClick={() => setMenuOpen(false)}
+                  >
+                    <Heart size={16} /> Wishlist
+                  </Link>
                   <Link
                     href="/profile"
                     className="flex items-center gap-2 px-4 py-2 text-sm hover:bg-gray-50 transition-colors"
@@ -177,6 +199,13 @@ export const Navbar = () => {
                   >
                     My Orders
                   </Link>
+                  <Link
+                    href="/planner"
+                    className="block px-4 py-2 text-sm hover:bg-gray-50 transition-colors"
+                    onClick={() => setMenuOpen(false)}
+                  >
+                    Room Planner
+                  </Link>
                   <button
                     onClick={logout}
                     className="flex w-full items-center gap-2 px-4 py-2 text-sm text-red-600 hover:bg-gray-50 transition-colors"
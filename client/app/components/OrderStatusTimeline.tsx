@@ -0,0 +1,55 @@
+"use client";
+
+import { CheckCircle, Circle, XCircle } from "lucide-react";
+import type { OrderStatusHistory } from "@/app/lib/types";
+import { getOrderStatusLabel } from "@/app/lib/orderStatus";
+
+interface OrderStatusTimelineProps {
+  history: OrderStatusHistory[];
+}
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-IN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const OrderStatusTimeline = ({ history }: OrderStatusTimelineProps) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status updates yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3">
+      {history.map((entry, index) => {
+        const isLatest = index === history.length - 1;
+        const isNegative = entry.toStatus === 'CANCELLED' || entry.toStatus === 'REFUNDED';
+        const Icon = isNegative ? XCircle : isLatest ? CheckCircle : Circle;
+
+        return (
+          <li key={entry.id} className="mb-6 ml-6 last:mb-0">
+            <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full">
+              <Icon className={`w-5 h-5 ${isNegative ? 'text-red-500' : isLatest ? 'text-green-600' : 'text-gray-400'}`} />
+            </span>
+            <p className={`font-medium ${isLatest ? 'text-gray-900' : 'text-gray-700'}`}>
+              {getOrderStatusLabel(entry.toStatus)}
+            </p>
+            <p className="text-sm text-gray-500">
+              {formatDateTime(entry.createdAt)}
+              {entry.changedBy && entry.changedBy.role !== 'CUSTOMER' && (
+                <> · by {entry.changedBy.name || 'Store staff'}</>
+              )}
+            </p>
+            {entry.note && (
+              <p className="text-sm text-gray-600 mt-1">{entry.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
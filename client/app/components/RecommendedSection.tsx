@@ -6,7 +6,7 @@ import { FurnitureCardSkeleton } from "./FurnitureCardSkeleton";
 import { useRecommendations } from "../lib/queries";
 import { Furniture } from "../lib/types";
 import { recommendationService } from "../lib/recommendationService";
-import { RefreshCw, TrendingUp, User, Star, Info } from "lucide-react";
+import { RefreshCw, TrendingUp, User, Star, Info, Heart } from "lucide-react";
 
 interface RecommendedSectionProps {
   userId?: number;
@@ -60,6 +60,8 @@ export const RecommendedSection = ({
       case 'content-based':
       case 'category-based':
         return <Star className="w-4 h-4" />;
+      case 'wishlist':
+        return <Heart className="w-4 h-4" />;
       default:
         return <Star className="w-4 h-4" />;
     }
@@ -77,6 +79,8 @@ export const RecommendedSection = ({
         return 'Similar to items you\'ve viewed';
       case 'category-based':
         return 'Based on your preferred categories';
+      case 'wishlist':
+        return 'Inspired by the items you saved';
       default:
         return 'Curated recommendations for you';
     }
@@ -103,18 +107,27 @@ export const RecommendedSection = ({
         return 'Similar Items';
       case 'category-based':
         return 'More in Your Favorite Categories';
+      case 'wishlist':
+        return 'Inspired by Your Wishlist';
       default:
         return hasUserId ? 'You Might Like' : 'Featured Items';
     }
   };
 
+  useEffect(() => {
+    const shown = recommendationData?.recommendations;
+    if (enableTracking && recommendationData?.algorithm && shown?.length) {
+      recommendationService.trackRecommendationImpressions(shown, recommendationData.algorithm, recommendationData.experiment);
+    }
+  }, [enableTracking, recommendationData]);
+
   const handleRecommendationClick = (furniture: Furniture, position: number) => {
     if (enableTracking && algorithm) {
       recommendationService.trackRecommendationClick(
         furniture.id,
-        algorithm,
+        furniture.algorithm ?? algorithm,
         position,
-        userId
+        recommendationData?.experiment
       );
     }
   };
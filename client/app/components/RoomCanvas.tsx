@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import type { RoomDimensions, RoomPlacement, RoomPlacementInput } from "@/app/lib/types";
+
+export type PlannerItem = RoomPlacementInput & { furniture: RoomPlacement['furniture']; variant?: RoomPlacement['variant'] };
+
+interface RoomCanvasProps {
+  room: RoomDimensions;
+  items: PlannerItem[];
+  selectedIndex: number | null;
+  flaggedIndexes: Set<number>;
+  onSelect: (index: number | null) => void;
+  onMove: (index: number, xCm: number, yCm: number) => void;
+  onDropFurniture: (furnitureId: number, xCm: number, yCm: number) => void;
+}
+
+const MAX_WIDTH_PX = 720;
+const MAX_HEIGHT_PX = 520;
+const SNAP_CM = 5;
+const GRID_CM = 50;
+
+const snap = (cm: number) => Math.max(0, Math.round(cm / SNAP_CM) * SNAP_CM);
+
+// The variant placed, or the product itself (its default variant's size and price) when none was picked
+export const itemVersion = (item: PlannerItem) => item.variant ?? item.furniture;
+
+// Quarter turns swap width and depth on the floor plan
+export const footprintSize = (item: PlannerItem) => {
+  const turned = item.rotation === 90 || item.rotation === 270;
+  const width = Number(itemVersion(item).widthCm);
+  const depth = Number(itemVersion(item).depthCm);
+  return turned ? { width: depth, depth: width } : { width, depth };
+};
+
+interface DragState {
+  index: number;
+  pointerX: number;
+  pointerY: number;
+  startX: number;
+  startY: number;
+  xCm: number;
+  yCm: number;
+}
+
+// Top-down floor plan: one grid square is 50 cm, items snap to 5 cm while dragged
+export const RoomCanvas = ({ room, items, selectedIndex, flaggedIndexes, onSelect, onMove, onDropFurniture }: RoomCanvasProps) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const widthCm = Number(room.widthCm);
+  const depthCm = Number(room.depthCm);
+  const scale = Math.min(MAX_WIDTH_PX / widthCm, MAX_HEIGHT_PX / depthCm); // px per cm
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect(index);
+    const item = items[index];
+    setDrag({ index, pointerX: e.clientX, pointerY: e.clientY, startX: item.xCm, startY: item.yCm, xCm: item.xCm, yCm: item.yCm });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag({
+      ...drag,
+      xCm: snap(drag.startX + (e.clientX - drag.pointerX) / scale),
+      yCm: snap(drag.startY + (e.clientY - drag.pointerY) / scale)
+    });
+  };
+
+  // Only the final position is committed, so the layout is checked once per move
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.xCm !== drag.startX || drag.yCm !== drag.startY) {
+      onMove(drag.index, drag.xCm, drag.yCm);
+    }
+    setDrag(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const furnitureId = Number(e.dataTransfer.getData('text/plain'));
+    if (!furnitureId) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onDropFurniture(furnitureId, snap((e.clientX - rect.left) / scale), snap((e.clientY - rect.top) / scale));
+  };
+
+  return (
+    <div
+      className="relative border-2 border-gray-800 bg-white select-none touch-none"
+      style={{
+        width: widthCm * scale,
+        height: depthCm * scale,
+        backgroundImage: 'linear-gradient(to right, #e5e7eb 1px, transparent 1px), linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)',
+        backgroundSize: `${GRID_CM * scale}px ${GRID_CM * scale}px`
+      }}
+      onPointerDown={() => onSelect(null)}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
+      {items.map((item, index) => {
+        const { width, depth } = footprintSize(item);
+        const x = drag?.index === index ? drag.xCm : item.xCm;
+        const y = drag?.index === index ? drag.yCm : item.yCm;
+        const flagged = flaggedIndexes.has(index);
+
+        return (
+          <div
+            key={index}
+            className={`absolute flex items-center justify-center overflow-hidden rounded-sm border text-[10px] leading-tight text-center cursor-move ${
+              flagged ? 'bg-red-100 border-red-500 text-red-800' : 'bg-blue-100 border-blue-500 text-blue-900'
+            } ${selectedIndex === index ? 'ring-2 ring-offset-1 ring-blue-600 z-10' : ''}`}
+            style={{ left: x * scale, top: y * scale, width: width * scale, height: depth * scale }}
+            onPointerDown={(e) => handlePointerDown(e, index)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            title={`${item.furniture.name} (${Math.round(width)} × ${Math.round(depth)} cm)`}
+          >
+            <span className="px-0.5">{item.furniture.name}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,18 +1,21 @@
 "use client";
 
 import { useState } from "react";
-import { Search, Filter, X } from "lucide-react";
+import { Filter, X } from "lucide-react";
 import { Button } from "./ui/button";
-import { Input } from "./ui/input";
+import { SearchTypeahead } from "./SearchTypeahead";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import type { CategoryCrumb, SearchFacets, SizeBucket } from "../lib/types";
 
 interface SearchAndFilterProps {
   onSearch: (query: string) => void;
   onFilter: (filters: FilterOptions) => void;
   onSort: (sortBy: string) => void;
   onClearFilters?: () => void;
-  categories: Array<{ id: string; name: string }>;
+  categories: Array<{ slug: string; name: string }>; // Top-level categories, used until facets arrive
   currentFilters?: FilterOptions;
+  categoryPath?: CategoryCrumb[];
+  facets?: SearchFacets;
 }
 
 export interface FilterOptions {
@@ -20,32 +23,78 @@ export interface FilterOptions {
   minPrice?: number;
   maxPrice?: number;
   priceRange?: string;
+  minRating?: number;
+  size?: SizeBucket;
   search?: string;
 }
 
+interface FacetOptionProps {
+  label: string;
+  count?: number;
+  selected: boolean;
+  onClick: () => void;
+}
+
+// A filter choice with the number of results it would give; empty choices stay visible but can't be picked
+const FacetOption = ({ label, count, selected, onClick }: FacetOptionProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={count === 0 && !selected}
+    className={`w-full flex items-center justify-between px-3 py-1.5 rounded-md text-sm text-left transition-colors ${
+      selected
+        ? "bg-blue-50 text-blue-700 font-medium"
+        : "text-gray-700 hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+    }`}
+  >
+    <span>{label}</span>
+    {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+  </button>
+);
+
 export const SearchAndFilter = ({ 
   onSearch, 
   onFilter, 
   onSort, 
   onClearFilters,
   categories, 
-  currentFilters = {} 
+  currentFilters = {},
+  categoryPath = [],
+  facets
 }: SearchAndFilterProps) => {
   const [searchQuery, setSearchQuery] = useState(currentFilters.search || "");
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<FilterOptions>(currentFilters);
+  const [syncedSearch, setSyncedSearch] = useState(currentFilters.search);
+  const [syncedCategory, setSyncedCategory] = useState(currentFilters.category);
+
+  // Keep the box in step when the page changes the search, e.g. after picking a "did you mean" suggestion
+  if (currentFilters.search !== syncedSearch) {
+    setSyncedSearch(currentFilters.search);
+    setSearchQuery(currentFilters.search || "");
+  }
+  // ...and the category, which the page's category links and breadcrumbs also set
+  if (currentFilters.category !== syncedCategory) {
+    setSyncedCategory(currentFilters.category);
+    setFilters(prev => ({ ...prev, category: currentFilters.category }));
+  }
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     onSearch(searchQuery);
   };
 
-  const handleFilterChange = (key: keyof FilterOptions, value: string | number | undefined) => {
+  const handleFilterChange = (key: keyof FilterOptions, value: FilterOptions[keyof FilterOptions]) => {
     const newFilters = { ...filters, [key]: value };
     setFilters(newFilters);
     onFilter(newFilters);
   };
 
+  // Clicking the selected option again clears that filter
+  const toggleFilter = <K extends keyof FilterOptions>(key: K, value: FilterOptions[K]) => {
+    handleFilterChange(key, filters[key] === value ? undefined : value);
+  };
+
   const clearFilters = () => {
     setFilters({});
     setSearchQuery("");
@@ -65,6 +114,7 @@ export const SearchAndFilter = ({
   ];
 
   const sortOptions = [
+    { value: "relevance-desc", label: "Best Match" },
     { value: "name-asc", label: "Name (A-Z)" },
     { value: "name-desc", label: "Name (Z-A)" },
     { value: "price-asc", label: "Price (Low to High)" },
@@ -72,25 +122,28 @@ export const SearchAndFilter = ({
     { value: "newest", label: "Newest First" },
   ];
 
+  // Facets list the subcategories of the current category, so picking one drills further down
+  const categoryOptions = facets?.categories.map(({ slug, name, count }) => ({ slug, name, count }))
+    ?? categories.map(({ slug, name }) => ({ slug, name, count: undefined }));
+  const priceCount = (value: string) => facets?.priceRanges.find(range => range.key === value)?.count;
+  const ratingOptions = facets?.ratings ?? [4, 3, 2, 1].map(minRating => ({ minRating, count: undefined }));
+  const sizeLabel = (key: SizeBucket) => facets?.sizes.find(size => size.key === key)?.label ?? key;
+
   return (
     <div className="bg-white p-4 sm:p-6 rounded-lg shadow-sm border mb-6 sm:mb-8">
       {/* Search Bar */}
       <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-3 sm:gap-4 mb-4">
-        <div className="flex-1 relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-          <Input
-            type="text"
-            placeholder="Search furniture..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchTypeahead
+          value={searchQuery}
+          onChange={setSearchQuery}
+          onSearch={onSearch}
+          onCategory={(category) => handleFilterChange("category", category)}
+        />
         <div className="flex gap-2 sm:gap-4">
           <Button type="submit" className="flex-1 sm:flex-none sm:px-6">
             Search
           </Button>
-          {/* <Button
+          <Button
             type="button"
             variant="outline"
             onClick={() => setShowFilters(!showFilters)}
@@ -98,12 +151,12 @@ export const SearchAndFilter = ({
           >
             <Filter className="w-4 h-4" />
             <span className="hidden sm:inline">Filters</span>
-          </Button> */}
+          </Button>
         </div>
       </form>
 
       {/* Active Filters Display */}
-      {(filters.category || filters.priceRange || searchQuery) && (
+      {(filters.category || filters.priceRange || filters.minRating || filters.size || searchQuery) && (
         <div className="flex flex-wrap gap-2 items-center">
           <span className="text-sm text-gray-600">Active filters:</span>
           {searchQuery && (
@@ -122,7 +175,7 @@ export const SearchAndFilter = ({
           )}
           {filters.category && (
             <span className="inline-flex items-center gap-1 px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm">
-              Category: {filters.category}
+              Category: {categoryPath.map(step => step.name).join(" › ") || filters.category}
               <button
                 onClick={() => handleFilterChange("category", undefined)}
                 className="hover:bg-green-200 rounded-full p-0.5"
@@ -142,6 +195,28 @@ export const SearchAndFilter = ({
               </button>
             </span>
           )}
+          {filters.minRating && (
+            <span className="inline-flex items-center gap-1 px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-sm">
+              Rating: {filters.minRating}★ & up
+              <button
+                onClick={() => handleFilterChange("minRating", undefined)}
+                className="hover:bg-yellow-200 rounded-full p-0.5"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
+          {filters.size && (
+            <span className="inline-flex items-center gap-1 px-3 py-1 bg-orange-100 text-orange-800 rounded-full text-sm">
+              Size: {sizeLabel(filters.size)}
+              <button
+                onClick={() => handleFilterChange("size", undefined)}
+                className="hover:bg-orange-200 rounded-full p-0.5"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          )}
         </div>
       )}
 
@@ -151,46 +226,75 @@ export const SearchAndFilter = ({
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
             {/* Category Filter */}
             <div>
-              <label className="block text-sm font-medium mb-2">Category</label>
-              <Select
-                value={filters.category || ""}
-                onValueChange={(value) => handleFilterChange("category", value || undefined)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="All Categories" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">All Categories</SelectItem>
-                  {categories.map((category) => (
-                    <SelectItem key={category.id} value={category.id}>
-                      {category.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <label className="block text-sm font-medium mb-2">
+                {categoryPath.length > 0 ? `In ${categoryPath[categoryPath.length - 1].name}` : "Category"}
+              </label>
+              <div className="space-y-1">
+                {categoryOptions.map(({ slug, name, count }) => (
+                  <FacetOption
+                    key={slug}
+                    label={name}
+                    count={count}
+                    selected={filters.category === slug}
+                    onClick={() => toggleFilter("category", slug)}
+                  />
+                ))}
+                {categoryOptions.length === 0 && (
+                  <p className="px-3 py-1.5 text-sm text-gray-500">No subcategories</p>
+                )}
+              </div>
             </div>
 
             {/* Price Range Filter */}
             <div>
               <label className="block text-sm font-medium mb-2">Price Range</label>
-              <Select
-                value={filters.priceRange || ""}
-                onValueChange={(value) => handleFilterChange("priceRange", value || undefined)}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="All Prices" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="">All Prices</SelectItem>
-                  {priceRanges.map((range) => (
-                    <SelectItem key={range.value} value={range.value}>
-                      {range.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="space-y-1">
+                {priceRanges.map((range) => (
+                  <FacetOption
+                    key={range.value}
+                    label={range.label}
+                    count={priceCount(range.value)}
+                    selected={filters.priceRange === range.value}
+                    onClick={() => toggleFilter("priceRange", range.value)}
+                  />
+                ))}
+              </div>
             </div>
 
+            {/* Rating Filter */}
+            <div>
+              <label className="block text-sm font-medium mb-2">Customer Rating</label>
+              <div className="space-y-1">
+                {ratingOptions.map(({ minRating, count }) => (
+                  <FacetOption
+                    key={minRating}
+                    label={`${minRating}★ & up`}
+                    count={count}
+                    selected={filters.minRating === minRating}
+                    onClick={() => toggleFilter("minRating", minRating)}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Size Filter */}
+            {facets && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Size</label>
+                <div className="space-y-1">
+                  {facets.sizes.map(({ key, label, count }) => (
+                    <FacetOption
+                      key={key}
+                      label={label}
+                      count={count}
+                      selected={filters.size === key}
+                      onClick={() => toggleFilter("size", key)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Sort By */}
             <div>
               <label className="block text-sm font-medium mb-2">Sort By</label>
@@ -0,0 +1,193 @@
+"use client";
+
+import { Fragment, useEffect, useId, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Clock, Search, Tag, TrendingUp } from "lucide-react";
+import { Input } from "./ui/input";
+import { useClearRecentSearches, useSearchSuggestions } from "../lib/queries";
+import type { SearchSuggestions } from "../lib/types";
+
+// Wait for a pause in typing before asking for suggestions
+const DEBOUNCE_MS = 150;
+
+type TypeaheadOption =
+  | { kind: "recent" | "query" | "category"; label: string }
+  | { kind: "product"; label: string; id: number; price: number; category: string; imageUrl: string | null };
+
+const SECTION_TITLES: Record<TypeaheadOption["kind"], string> = {
+  recent: "Recent searches",
+  product: "Products",
+  category: "Categories",
+  query: "Popular searches"
+};
+
+// One flat list so the arrow keys can walk across sections; popular searches already in recent ones are left out
+const buildOptions = (suggestions?: SearchSuggestions): TypeaheadOption[] => {
+  if (!suggestions) return [];
+  const recent = new Set(suggestions.recent);
+
+  return [
+    ...suggestions.recent.map(label => ({ kind: "recent" as const, label })),
+    ...suggestions.products.map(({ name, ...product }) => ({ kind: "product" as const, label: name, ...product })),
+    ...suggestions.categories.map(({ name }) => ({ kind: "category" as const, label: name })),
+    ...suggestions.queries.filter(query => !recent.has(query)).map(label => ({ kind: "query" as const, label }))
+  ];
+};
+
+interface SearchTypeaheadProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSearch: (query: string) => void;
+  onCategory: (category: string) => void;
+}
+
+export const SearchTypeahead = ({ value, onChange, onSearch, onCategory }: SearchTypeaheadProps) => {
+  const router = useRouter();
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data } = useSearchSuggestions(debouncedValue, open);
+  const clearRecent = useClearRecentSearches();
+  const options = buildOptions(data?.data);
+  const showList = open && options.length > 0;
+  const active = showList ? options[activeIndex] : undefined;
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const choose = (option: TypeaheadOption) => {
+    close();
+    if (option.kind === "product") {
+      router.push(`/product/${option.id}`);
+    } else if (option.kind === "category") {
+      onCategory(option.label);
+    } else {
+      onChange(option.label);
+      onSearch(option.label);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setOpen(true);
+        setActiveIndex(index => options.length > 0 ? (index + 1) % options.length : -1);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex(index => index <= 0 ? options.length - 1 : index - 1);
+        break;
+      case "Enter":
+        // With nothing highlighted the form submits what was typed
+        if (active) {
+          e.preventDefault();
+          choose(active);
+        } else {
+          close();
+        }
+        break;
+      case "Escape":
+        close();
+        break;
+    }
+  };
+
+  return (
+    <div className="flex-1 relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+      <Input
+        type="text"
+        placeholder="Search furniture..."
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        className="pl-10"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={active ? `${listId}-${activeIndex}` : undefined}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white border rounded-lg shadow-lg max-h-96 overflow-y-auto py-1"
+          // Keep focus in the input so clicks land before the list closes
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {options.map((option, index) => (
+            <Fragment key={`${option.kind}-${option.label}-${index}`}>
+              {option.kind !== options[index - 1]?.kind && (
+                <li role="presentation" className="flex items-center justify-between px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+                  {SECTION_TITLES[option.kind]}
+                  {option.kind === "recent" && (
+                    <button
+                      type="button"
+                      onClick={() => clearRecent.mutate()}
+                      disabled={clearRecent.isPending}
+                      className="normal-case tracking-normal text-blue-600 hover:text-blue-700"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </li>
+              )}
+              <li
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => choose(option)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`flex items-center gap-3 px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? "bg-blue-50 text-blue-700" : "text-gray-700"
+                }`}
+              >
+                {option.kind === "product" ? (
+                  <>
+                    {option.imageUrl ? (
+                      <Image src={option.imageUrl} alt="" width={32} height={32} className="w-8 h-8 rounded object-cover" />
+                    ) : (
+                      <span className="w-8 h-8 rounded bg-gray-100" />
+                    )}
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.category}</span>
+                    </span>
+                    <span className="text-xs font-medium">₹{option.price.toLocaleString()}</span>
+                  </>
+                ) : (
+                  <>
+                    {option.kind === "recent" && <Clock className="w-4 h-4 text-gray-400" />}
+                    {option.kind === "category" && <Tag className="w-4 h-4 text-gray-400" />}
+                    {option.kind === "query" && <TrendingUp className="w-4 h-4 text-gray-400" />}
+                    <span className="truncate">{option.label}</span>
+                  </>
+                )}
+              </li>
+            </Fragment>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
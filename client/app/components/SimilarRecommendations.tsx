@@ -6,19 +6,17 @@ import { FurnitureCardSkeleton } from "./FurnitureCardSkeleton";
 import { recommendationService } from "../lib/recommendationService";
 import { Furniture } from "../lib/types";
 import { RefreshCw, ArrowRight } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 interface SimilarRecommendationsProps {
   furnitureId: number;
   limit?: number;
-  userId?: number;
   enableTracking?: boolean;
 }
 
 export const SimilarRecommendations = ({
   furnitureId,
   limit = 4,
-  userId,
   enableTracking = true
 }: SimilarRecommendationsProps) => {
   const [refreshKey, setRefreshKey] = useState(0);
@@ -38,13 +36,20 @@ export const SimilarRecommendations = ({
     refetch();
   };
 
+  useEffect(() => {
+    const shown = recommendationData?.recommendations;
+    if (enableTracking && recommendationData?.algorithm && shown?.length) {
+      recommendationService.trackRecommendationImpressions(shown, recommendationData.algorithm, recommendationData.experiment);
+    }
+  }, [enableTracking, recommendationData]);
+
   const handleRecommendationClick = (furniture: Furniture, position: number) => {
     if (enableTracking && algorithm) {
       recommendationService.trackRecommendationClick(
         furniture.id,
-        algorithm,
+        furniture.algorithm ?? algorithm,
         position,
-        userId
+        recommendationData?.experiment
       );
     }
   };
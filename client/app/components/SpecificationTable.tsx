@@ -0,0 +1,36 @@
+"use client";
+
+import { ClipboardList } from "lucide-react";
+import type { Specification } from "@/app/lib/types";
+
+// "120 kg", "Yes", "Solid Wood"
+const formatValue = ({ type, value, unit }: Specification) => {
+  if (type === "BOOLEAN") return value ? "Yes" : "No";
+  if (type === "NUMBER") return `${Number(value).toLocaleString()}${unit ? ` ${unit}` : ""}`;
+  return String(value);
+};
+
+export const SpecificationTable = ({ specifications }: { specifications: Specification[] }) => {
+  if (specifications.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <ClipboardList size={20} />
+        Specifications
+      </h3>
+      <table className="w-full text-sm bg-gray-50 rounded-lg overflow-hidden">
+        <tbody>
+          {specifications.map((spec) => (
+            <tr key={spec.key} className="border-b border-gray-200 last:border-0">
+              <th scope="row" className="text-left font-medium text-gray-500 px-4 py-2 w-1/2">
+                {spec.name}
+              </th>
+              <td className="px-4 py-2 text-gray-900">{formatValue(spec)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import type { TaxLine } from "@/app/lib/types";
+
+// Shipping and GST rows as priced by the server, for the checkout and order breakdowns
+export const TaxAndShippingLines = ({ shippingTotal, taxes }: { shippingTotal: number; taxes?: TaxLine[] | null }) => (
+  <>
+    <div className="flex justify-between text-gray-600">
+      <span>Shipping</span>
+      {Number(shippingTotal) > 0
+        ? <span>₹{Number(shippingTotal).toLocaleString()}</span>
+        : <span className="text-green-600">Free</span>}
+    </div>
+    {taxes?.map(tax => (
+      <div key={`${tax.label}-${tax.rate}`} className="flex justify-between text-gray-600">
+        <span>{tax.label} ({tax.rate}%)</span>
+        <span>₹{Number(tax.amount).toLocaleString()}</span>
+      </div>
+    ))}
+  </>
+);
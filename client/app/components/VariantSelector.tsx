@@ -0,0 +1,63 @@
+"use client";
+
+import { VARIANT_OPTIONS, matchesSelection, pickVariant } from "@/app/lib/variants";
+import type { Variant } from "@/app/lib/types";
+
+interface VariantSelectorProps {
+  variants: Variant[];
+  selected: Variant;
+  onSelect: (variant: Variant) => void;
+}
+
+// One row of choices per option the variants differ on; values that only exist with other choices are dashed
+export const VariantSelector = ({ variants, selected, onSelect }: VariantSelectorProps) => {
+  const rows = VARIANT_OPTIONS
+    .map(([option, label]) => ({
+      option,
+      label,
+      values: Array.from(new Set(variants.map(v => v[option]).filter((value): value is string => !!value)))
+    }))
+    .filter(row => row.values.length > 1);
+
+  if (variants.length < 2 || rows.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {rows.map(({ option, label, values }) => (
+        <div key={option}>
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {label}: <span className="text-gray-900">{selected[option] || '—'}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {values.map(value => {
+              const exact = variants.find(v => matchesSelection(v, selected, option, value));
+              const isSelected = selected[option] === value;
+              const soldOut = exact ? exact.stockQuantity <= 0 : false;
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => {
+                    const next = exact || pickVariant(variants, selected, option, value);
+                    if (next) onSelect(next);
+                  }}
+                  className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                    isSelected
+                      ? 'border-blue-600 bg-blue-50 text-blue-700 ring-1 ring-blue-600'
+                      : exact
+                        ? 'border-gray-300 text-gray-700 hover:border-gray-400'
+                        : 'border-dashed border-gray-300 text-gray-500 hover:border-gray-400'
+                  } ${soldOut ? 'line-through' : ''}`}
+                  title={soldOut ? `${value} is out of stock` : undefined}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Heart } from "lucide-react";
+import { useMe, useWishlists, useToggleWishlist } from "@/app/lib/queries";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import type { Wishlist } from "@/app/lib/types";
+
+// Filled when the item is saved in any of the user's lists; signed-out users are sent to log in
+export const WishlistHeart = ({ furnitureId, className = "" }: { furnitureId: number; className?: string }) => {
+  const router = useRouter();
+  const { data: userResp } = useMe();
+  const user = userResp?.data;
+  const { data: wishlistsResp } = useWishlists(!!user);
+  const toggle = useToggleWishlist();
+
+  const wishlists: Wishlist[] = wishlistsResp?.data || [];
+  const saved = wishlists.some(list => list.items.some(item => item.furnitureId === furnitureId));
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards are links; the heart must not open the product
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user) {
+      router.push('/auth/login');
+      return;
+    }
+
+    try {
+      await toggle.mutateAsync(furnitureId);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={toggle.isPending}
+      aria-label={saved ? "Remove from wishlist" : "Save to wishlist"}
+      aria-pressed={saved}
+      className={`p-2 rounded-full bg-white/90 shadow hover:bg-white transition-colors disabled:opacity-60 ${className}`}
+    >
+      <Heart className={`w-5 h-5 ${saved ? "fill-red-500 text-red-500" : "text-gray-600"}`} />
+    </button>
+  );
+};
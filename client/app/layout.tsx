@@ -1,6 +1,7 @@
 import "./globals.css";
 import { Navbar } from "./components/Navbar";
 import { Footer } from "./components/Footer";
+import { CompareTray } from "./components/CompareTray";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import Providers from "./providers";
 
@@ -24,6 +25,7 @@ export default function RootLayout({
               {children}
             </main>
             <Footer />
+            <CompareTray />
           </Providers>
         </ErrorBoundary>
       </body>
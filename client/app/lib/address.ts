@@ -0,0 +1,48 @@
+import type { Address, AddressInput, ShippingAddress } from "./types";
+
+// Shape of the shipping form used on the summary and "Buy Now" pages (kept in sessionStorage)
+export interface ShippingInfo {
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export const addressToShippingInfo = (address: Address, email: string): ShippingInfo => ({
+  name: address.fullName,
+  email,
+  phone: address.phone,
+  address: [address.line1, address.line2].filter(Boolean).join(', '),
+  city: address.city,
+  state: address.state,
+  zipCode: address.postalCode
+});
+
+export const shippingInfoToAddress = (info: ShippingInfo): ShippingAddress => ({
+  fullName: info.name.trim(),
+  phone: info.phone.trim(),
+  line1: info.address.trim(),
+  city: info.city.trim(),
+  state: info.state.trim(),
+  postalCode: info.zipCode.trim(),
+  country: 'IN',
+  email: info.email.trim() || undefined
+});
+
+export const shippingInfoToAddressInput = (info: ShippingInfo): AddressInput => ({
+  fullName: info.name.trim(),
+  phone: info.phone.trim(),
+  line1: info.address.trim(),
+  city: info.city.trim(),
+  state: info.state.trim(),
+  postalCode: info.zipCode.trim()
+});
+
+export const formatAddressLines = (address: ShippingAddress) => [
+  address.line1,
+  address.line2,
+  `${address.city}, ${address.state} ${address.postalCode}`
+].filter(Boolean) as string[];
@@ -1,4 +1,5 @@
 import axios from "axios";
+import { getSessionId } from "./session";
 
 export const api = axios.create({
   baseURL: process.env.NEXT_PUBLIC_API_URL,
@@ -28,6 +29,8 @@ api.interceptors.request.use(
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
+      // Shoppers who aren't signed in are put in recommendation experiments by session
+      config.headers["X-Session-Id"] = getSessionId();
     }
     return config;
   },
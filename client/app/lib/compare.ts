@@ -0,0 +1,73 @@
+import { useSyncExternalStore } from "react";
+
+// Matches the server's limit on GET /furnitures/compare
+export const MAX_COMPARE_ITEMS = 4;
+
+const STORAGE_KEY = "compare_items";
+
+// Enough to show the tray without fetching; the compare page loads everything else
+export interface CompareItem {
+  id: number;
+  name: string;
+}
+
+const EMPTY: CompareItem[] = [];
+const listeners = new Set<() => void>();
+
+// useSyncExternalStore needs the same array back until the stored list actually changes
+let snapshot: { raw: string | null; items: CompareItem[] } = { raw: null, items: EMPTY };
+
+const read = () => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw !== snapshot.raw) {
+    let items = EMPTY;
+    try {
+      items = raw ? JSON.parse(raw) : EMPTY;
+    } catch {
+      // Unreadable list; start again
+    }
+    snapshot = { raw, items };
+  }
+  return snapshot.items;
+};
+
+const write = (items: CompareItem[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  // Keeps tabs in step with each other
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+};
+
+// Products picked for comparison, kept across pages and visits
+export const useCompareList = () => {
+  const items = useSyncExternalStore(subscribe, read, () => EMPTY);
+  const isFull = items.length >= MAX_COMPARE_ITEMS;
+
+  return {
+    items,
+    isFull,
+    has: (id: number) => items.some(item => item.id === id),
+    // Returns false when the tray is already full
+    toggle: (item: CompareItem) => {
+      if (items.some(existing => existing.id === item.id)) {
+        write(items.filter(existing => existing.id !== item.id));
+        return true;
+      }
+      if (isFull) return false;
+      write([...items, { id: item.id, name: item.name }]);
+      return true;
+    },
+    remove: (id: number) => write(items.filter(item => item.id !== id)),
+    clear: () => write(EMPTY),
+  };
+};
+
+export const compareHref = (ids: number[]) => `/compare?ids=${ids.join(",")}`;
@@ -0,0 +1,157 @@
+import { isAxiosError } from "axios";
+import { api } from "./api";
+import { getSessionId } from "./session";
+import type { ExperimentTag } from "./types";
+
+/**
+ * Storefront events for recommendation analytics. Events are queued and posted in batches; failed
+ * batches are retried with a growing delay, and whatever is left when the page is hidden or closed
+ * goes out with navigator.sendBeacon, which the browser delivers even after the page is gone.
+ */
+
+export type EventType = "IMPRESSION" | "CLICK" | "ADD_TO_CART" | "PURCHASE";
+
+export interface TrackedEvent {
+  type: EventType;
+  furnitureId: number;
+  algorithm?: string;
+  position?: number;
+  // The experiment variant the recommendation was served under
+  experiment?: string;
+  variant?: string;
+}
+
+// Event fields for an experiment assignment, if there was one
+export const experimentFields = (experiment?: ExperimentTag | null) =>
+  experiment ? { experiment: experiment.key, variant: experiment.variant } : {};
+
+type QueuedEvent = TrackedEvent & { occurredAt: string };
+
+// Server accepts up to 100 per request
+const BATCH_SIZE = 50;
+const FLUSH_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Oldest events are dropped beyond this while the server can't be reached
+const MAX_QUEUED = 500;
+
+const ATTRIBUTION_KEY = "recommendation_attribution";
+const TRACKED_ORDERS_KEY = "tracked_order_ids";
+
+let queue: QueuedEvent[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+let failures = 0;
+let flushing = false;
+let listening = false;
+
+const schedule = (delay: number) => {
+  if (timer) return;
+  timer = setTimeout(() => {
+    timer = null;
+    flush();
+  }, delay);
+};
+
+const flush = async () => {
+  if (flushing || queue.length === 0) return;
+  flushing = true;
+  const batch = queue.splice(0, BATCH_SIZE);
+
+  try {
+    await api.post("/events", { sessionId: getSessionId(), events: batch });
+    failures = 0;
+  } catch (err) {
+    // A rejected batch would be rejected again; only rate limits, server and network errors are worth retrying
+    const status = isAxiosError(err) ? err.response?.status : undefined;
+    if (!status || status === 429 || status >= 500) {
+      queue = [...batch, ...queue].slice(-MAX_QUEUED);
+      failures++;
+    }
+  } finally {
+    flushing = false;
+  }
+
+  if (queue.length > 0) {
+    schedule(failures > 0 ? Math.min(FLUSH_DELAY_MS * 2 ** failures, MAX_RETRY_DELAY_MS) : 0);
+  }
+};
+
+// Beacons carry no Authorization header, so these events arrive without a user
+const flushWithBeacon = () => {
+  if (queue.length === 0 || typeof navigator.sendBeacon !== "function") return;
+
+  while (queue.length > 0) {
+    const batch = queue.slice(0, BATCH_SIZE);
+    // text/plain keeps the beacon a simple cross-origin request; the server reads it as JSON
+    const body = new Blob([JSON.stringify({ sessionId: getSessionId(), events: batch })], { type: "text/plain" });
+    if (!navigator.sendBeacon(`${api.defaults.baseURL}/events`, body)) break; // Left for the next flush
+    queue.splice(0, batch.length);
+  }
+};
+
+const listenForPageExit = () => {
+  if (listening) return;
+  listening = true;
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushWithBeacon();
+  });
+  window.addEventListener("pagehide", flushWithBeacon);
+};
+
+export const trackEvent = (event: TrackedEvent) => {
+  if (typeof window === "undefined") return;
+  listenForPageExit();
+
+  queue.push({ ...event, occurredAt: new Date().toISOString() });
+  if (queue.length > MAX_QUEUED) queue.splice(0, queue.length - MAX_QUEUED);
+
+  if (queue.length >= BATCH_SIZE && failures === 0) flush();
+  else schedule(FLUSH_DELAY_MS);
+};
+
+type Attribution = Pick<TrackedEvent, "algorithm" | "position" | "experiment" | "variant">;
+
+const readAttribution = (): Record<string, Attribution> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(ATTRIBUTION_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+// A click on a recommended product; adding it to the cart or buying it later in the session counts towards the same recommendation
+export const trackRecommendationClick = (
+  furnitureId: number,
+  algorithm: string,
+  position: number,
+  experiment?: ExperimentTag | null
+) => {
+  const attribution: Attribution = { algorithm, position, ...experimentFields(experiment) };
+  try {
+    sessionStorage.setItem(ATTRIBUTION_KEY, JSON.stringify({ ...readAttribution(), [furnitureId]: attribution }));
+  } catch {
+    // Without storage the click is still counted, just not what follows it
+  }
+  trackEvent({ type: "CLICK", furnitureId, ...attribution });
+};
+
+// Only products reached through a recommendation are tracked
+export const trackAddToCart = (furnitureId: number) => {
+  const attribution = readAttribution()[furnitureId];
+  if (attribution) trackEvent({ type: "ADD_TO_CART", furnitureId, ...attribution });
+};
+
+// Reloading the confirmation page must not count the order twice
+export const trackPurchase = (orderId: number, furnitureIds: number[]) => {
+  try {
+    const tracked: number[] = JSON.parse(sessionStorage.getItem(TRACKED_ORDERS_KEY) || "[]");
+    if (tracked.includes(orderId)) return;
+    sessionStorage.setItem(TRACKED_ORDERS_KEY, JSON.stringify([...tracked, orderId]));
+  } catch {
+    return;
+  }
+
+  const attribution = readAttribution();
+  new Set(furnitureIds).forEach(furnitureId => {
+    if (attribution[furnitureId]) trackEvent({ type: "PURCHASE", furnitureId, ...attribution[furnitureId] });
+  });
+};
@@ -0,0 +1,20 @@
+import type { ImageLoader } from "next/image";
+import type { Image, ImageRendition } from "./types";
+
+// Smallest first, so the first one wide enough is the cheapest to download
+const RENDITION_ORDER = ["thumbnail", "medium", "large"] as const;
+
+/**
+ * A next/image loader that picks from an uploaded photo's pre-sized renditions instead of the
+ * optimizer. Combined with `sizes`, the browser gets a srcset and downloads the one that fits.
+ */
+const renditionLoader = (renditions: NonNullable<Image["renditions"]>): ImageLoader => ({ width }) => {
+  const available = RENDITION_ORDER.map(name => renditions[name]).filter((rendition): rendition is ImageRendition => !!rendition);
+  return (available.find(rendition => rendition.width >= width) ?? available[available.length - 1]).url;
+};
+
+// Props for next/image; photos added by URL have no renditions and go through the optimizer as before
+export const imageSourceProps = (image: Pick<Image, "url" | "renditions">) =>
+  image.renditions
+    ? { src: image.renditions.large.url, loader: renditionLoader(image.renditions) }
+    : { src: image.url };
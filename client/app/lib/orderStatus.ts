@@ -0,0 +1,37 @@
+import type { OrderStatus } from "./types";
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'PENDING_PAYMENT',
+  'PAID',
+  'PROCESSING',
+  'SHIPPED',
+  'DELIVERED',
+  'CANCELLED',
+  'REFUNDED'
+];
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  PENDING_PAYMENT: 'Awaiting Payment',
+  PAID: 'Paid',
+  PROCESSING: 'Processing',
+  SHIPPED: 'Shipped',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled',
+  REFUNDED: 'Refunded'
+};
+
+export const orderStatusColors: Record<OrderStatus, string> = {
+  PENDING_PAYMENT: 'bg-yellow-100 text-yellow-800',
+  PAID: 'bg-blue-100 text-blue-800',
+  PROCESSING: 'bg-indigo-100 text-indigo-800',
+  SHIPPED: 'bg-purple-100 text-purple-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+  REFUNDED: 'bg-gray-200 text-gray-800'
+};
+
+export const getOrderStatusLabel = (status: string) =>
+  orderStatusLabels[status as OrderStatus] || status;
+
+export const getOrderStatusColor = (status: string) =>
+  orderStatusColors[status as OrderStatus] || 'bg-gray-100 text-gray-800';
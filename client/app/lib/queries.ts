@@ -1,6 +1,6 @@
 import { api } from "./api";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Furniture, Review, Category, FilterOptions, RecommendationResponse } from "./types";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type { Review, Category, BundleResponse, Comparison, FilterOptions, RecommendationResponse, PlaceOrderPayload, GuestCheckoutPayload, CheckoutQuotePayload, OrderItemInput, MockCardDetails, AddressInput, RoomInput, RoomDimensions, RoomPlacementInput } from "./types";
 import { getErrorMessage, formatErrorForUser } from "./errorUtils";
 
 // ---- Fetch Furniture ----
@@ -13,6 +13,8 @@ export const useFurnitureList = (filters?: FilterOptions) =>
       if (filters?.category) params.append('category', filters.category);
       if (filters?.minPrice) params.append('minPrice', filters.minPrice.toString());
       if (filters?.maxPrice) params.append('maxPrice', filters.maxPrice.toString());
+      if (filters?.minRating) params.append('minRating', filters.minRating.toString());
+      if (filters?.size) params.append('size', filters.size);
       if (filters?.sortBy) params.append('sortBy', filters.sortBy);
       if (filters?.sortOrder) params.append('sortOrder', filters.sortOrder);
       if (filters?.page) params.append('page', filters.page.toString());
@@ -23,6 +25,33 @@ export const useFurnitureList = (filters?: FilterOptions) =>
     },
   });
 
+// ---- Search typeahead ----
+// Always refetched: recent searches change with every search made
+export const useSearchSuggestions = (query: string, enabled: boolean) =>
+  useQuery({
+    queryKey: ["searchSuggestions", query],
+    queryFn: async () => (await api.get(`/furnitures/suggest?q=${encodeURIComponent(query)}`)).data,
+    enabled,
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+
+export const useClearRecentSearches = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => (await api.delete("/users/me/recent-searches")).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["searchSuggestions"] })
+  });
+};
+
+// ---- Compare ----
+export const useComparison = (ids: number[]) =>
+  useQuery({
+    queryKey: ["compare", ids],
+    queryFn: async (): Promise<Comparison> => (await api.get(`/furnitures/compare?ids=${ids.join(",")}`)).data.data,
+    enabled: ids.length >= 2,
+  });
+
 // ---- Single Furniture ----
 export const useFurnitureById = (id: string) =>
   useQuery({
@@ -90,6 +119,19 @@ export const useSimilarRecommendations = (
   });
 };
 
+// ---- Frequently Bought Together ----
+export const useBundle = (furnitureId: number, options?: { limit?: number }) => {
+  const { limit = 3 } = options || {};
+
+  return useQuery({
+    queryKey: ["recommendations", "bundle", furnitureId, limit],
+    queryFn: async (): Promise<BundleResponse> =>
+      (await api.get(`/recommendations/bundle/${furnitureId}?limit=${limit}`)).data.data,
+    enabled: !!furnitureId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
+
 // ---- Category-based Recommendations ----
 export const useCategoryRecommendations = (
   categoryId: number,
@@ -165,7 +207,7 @@ export const useCanUserReview = (userId: number | undefined, furnitureId: string
 export const useRegister = () => {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async (data: { email: string; password: string; name?: string }) => {
+    mutationFn: async (data: { email: string; password: string; name?: string; orderTokens?: string[] }) => {
       const res = await api.post("/auth/register", data);
       return res.data;
     },
@@ -242,12 +284,22 @@ export const useCart = () =>
 export const useAddToCart = () => {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async (payload: { furnitureId: number; quantity?: number }) =>
+    mutationFn: async (payload: { furnitureId: number; variantId?: number; quantity?: number }) =>
       (await api.post("/cart/add", payload)).data,
     onSuccess: () => qc.invalidateQueries({ queryKey: ["cart"] })
   });
 };
 
+// All or nothing: if any item can't be added, none are
+export const useAddManyToCart = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (items: OrderItemInput[]) =>
+      (await api.post("/cart/add-many", { items })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["cart"] })
+  });
+};
+
 export const useUpdateCartItem = () => {
   const qc = useQueryClient();
   return useMutation({
@@ -273,11 +325,35 @@ export const useClearCart = () => {
   });
 };
 
+export const useApplyCoupon = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (code: string) => (await api.post("/cart/apply-coupon", { code })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["cart"] })
+  });
+};
+
+export const useRemoveCoupon = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async () => (await api.delete("/cart/coupon")).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["cart"] })
+  });
+};
+
 // --- Checkout ---
+// Server-side price with tax and shipping; re-quotes whenever the payload (e.g. the state) changes
+export const useCheckoutQuote = (payload: CheckoutQuotePayload | null) =>
+  useQuery({
+    queryKey: ["checkout-quote", payload],
+    queryFn: async () => (await api.post("/checkout/quote", payload)).data,
+    enabled: !!payload,
+  });
+
 export const usePlaceOrder = () => {
   const qc = useQueryClient();
   return useMutation({
-    mutationFn: async () => (await api.post("/checkout/place")).data,
+    mutationFn: async (payload: PlaceOrderPayload) => (await api.post("/checkout/place", payload)).data,
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: ["cart"] });
       qc.invalidateQueries({ queryKey: ["orders"] });
@@ -285,11 +361,211 @@ export const usePlaceOrder = () => {
   });
 };
 
+// --- Address book ---
+export const useAddresses = (enabled = true) =>
+  useQuery({
+    queryKey: ["addresses"],
+    queryFn: async () => (await api.get("/users/me/addresses")).data,
+    enabled,
+  });
+
+export const useCreateAddress = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (address: AddressInput) => (await api.post("/users/me/addresses", address)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["addresses"] })
+  });
+};
+
+export const useUpdateAddress = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...address }: Partial<AddressInput> & { id: number }) =>
+      (await api.put(`/users/me/addresses/${id}`, address)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["addresses"] })
+  });
+};
+
+export const useDeleteAddress = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => (await api.delete(`/users/me/addresses/${id}`)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["addresses"] })
+  });
+};
+
+// --- Wishlists ---
+export const useWishlists = (enabled = true) =>
+  useQuery({
+    queryKey: ["wishlists"],
+    queryFn: async () => (await api.get("/wishlists")).data,
+    enabled,
+  });
+
+export const useCreateWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (name: string) => (await api.post("/wishlists", { name })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["wishlists"] })
+  });
+};
+
+export const useRenameWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => (await api.patch(`/wishlists/${id}`, { name })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["wishlists"] })
+  });
+};
+
+export const useDeleteWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => (await api.delete(`/wishlists/${id}`)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["wishlists"] })
+  });
+};
+
+export const useAddToWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ wishlistId, furnitureId }: { wishlistId: number; furnitureId: number }) =>
+      (await api.post(`/wishlists/${wishlistId}/items`, { furnitureId })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["wishlists"] })
+  });
+};
+
+export const useRemoveFromWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ wishlistId, furnitureId }: { wishlistId: number; furnitureId: number }) =>
+      (await api.delete(`/wishlists/${wishlistId}/items/${furnitureId}`)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["wishlists"] })
+  });
+};
+
+// Product heart: saves to the default list, or removes the item from every list
+export const useToggleWishlist = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (furnitureId: number) => (await api.post("/wishlists/toggle", { furnitureId })).data,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["wishlists"] });
+      qc.invalidateQueries({ queryKey: ["recommendations"] });
+    }
+  });
+};
+
+export const useMoveWishlistItemToCart = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ wishlistId, furnitureId, quantity }: { wishlistId: number; furnitureId: number; quantity?: number }) =>
+      (await api.post(`/wishlists/${wishlistId}/items/${furnitureId}/move-to-cart`, { quantity })).data,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["wishlists"] });
+      qc.invalidateQueries({ queryKey: ["cart"] });
+    }
+  });
+};
+
+// --- Room planner ---
+export const useRooms = (enabled = true) =>
+  useQuery({
+    queryKey: ["rooms"],
+    queryFn: async () => (await api.get("/rooms")).data,
+    enabled,
+  });
+
+export const useRoom = (roomId: string) =>
+  useQuery({
+    queryKey: ["rooms", roomId],
+    queryFn: async () => (await api.get(`/rooms/${roomId}`)).data,
+    enabled: !!roomId,
+  });
+
+export const useCreateRoom = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (room: RoomInput) => (await api.post("/rooms", room)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["rooms"] })
+  });
+};
+
+export const useUpdateRoom = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...room }: Partial<RoomInput> & { id: number }) =>
+      (await api.patch(`/rooms/${id}`, room)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["rooms"] })
+  });
+};
+
+export const useSaveRoomLayout = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, placements }: { id: number; placements: RoomPlacementInput[] }) =>
+      (await api.put(`/rooms/${id}/placements`, { placements })).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["rooms"] })
+  });
+};
+
+export const useDeleteRoom = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: number) => (await api.delete(`/rooms/${id}`)).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["rooms"] })
+  });
+};
+
+// Warnings for the layout being edited; the previous result stays up while the next check runs
+export const useRoomLayoutCheck = (layout: (RoomDimensions & { placements: RoomPlacementInput[] }) | null) =>
+  useQuery({
+    queryKey: ["rooms", "check", layout],
+    queryFn: async () => (await api.post("/rooms/check", layout)).data,
+    enabled: !!layout,
+    placeholderData: keepPreviousData,
+  });
+
+// --- Payments ---
+// Mock gateway tokenization: card details go to the gateway endpoint, only the token reaches checkout
+export const useTokenizeCard = () =>
+  useMutation({
+    mutationFn: async (card: MockCardDetails) => (await api.post("/payments/mock/tokens", card)).data
+  });
+
+export const useCompleteMockChallenge = () =>
+  useMutation({
+    mutationFn: async (payload: { challengeId: string; code: string }) =>
+      (await api.post(`/payments/mock/challenges/${payload.challengeId}`, { code: payload.code })).data
+  });
+
+// Guests prove access to their order's payment with the order lookup token
+const orderTokenHeaders = (lookupToken?: string) =>
+  lookupToken ? { headers: { "X-Order-Token": lookupToken } } : undefined;
+
+export const useCancelPayment = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ paymentId, lookupToken }: { paymentId: number; lookupToken?: string }) =>
+      (await api.post(`/payments/${paymentId}/cancel`, undefined, orderTokenHeaders(lookupToken))).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["orders"] })
+  });
+};
+
+export const useConfirmPayment = () => {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ paymentId, lookupToken }: { paymentId: number; lookupToken?: string }) =>
+      (await api.post(`/payments/${paymentId}/confirm`, undefined, orderTokenHeaders(lookupToken))).data,
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["orders"] })
+  });
+};
+
 // --- Orders ---
-export const useOrder = (orderId: string) =>
+export const useOrder = (orderId: string, lookupToken?: string) =>
   useQuery({
-    queryKey: ["order", orderId],
-    queryFn: async () => (await api.get(`/orders/${orderId}`)).data,
+    queryKey: ["order", orderId, lookupToken],
+    queryFn: async () => (await api.get(`/orders/${orderId}`, orderTokenHeaders(lookupToken))).data,
     enabled: !!orderId,
   });
 
@@ -316,10 +592,7 @@ export const useMyOrders = (page = 1, limit = 10, status?: string) =>
 
 export const useGuestCheckout = () => {
   return useMutation({
-    mutationFn: async (data: { 
-      items: { furnitureId: number; quantity: number }[]; 
-      guestInfo: { email: string; name?: string } 
-    }) => (await api.post("/checkout/guest", data)).data,
+    mutationFn: async (data: GuestCheckoutPayload) => (await api.post("/checkout/guest", data)).data,
   });
 };
 
@@ -374,31 +647,11 @@ export const useRefreshToken = () => {
     }
   });
 };
-// ---- Fetch Categories ----
+// ---- Categories ----
+// Top-level categories with their subcategories nested under `children`
 export const useCategories = () =>
   useQuery({
     queryKey: ["categories"],
-    queryFn: async () => {
-      // Since there's no dedicated categories endpoint, we'll get unique categories from furniture
-      const response = await api.get("/furnitures?limit=100");
-      const furniture = response.data.data?.items || [];
-      const categories = furniture.reduce((acc: Category[], item: Furniture) => {
-        if (item.category && !acc.find(cat => cat.name === item.category!.name)) {
-          acc.push({
-            id: item.categoryId,
-            name: item.category.name,
-            description: item.category.description
-          });
-        }
-        return acc;
-      }, []);
-      return categories;
-    },
-  });
-// ---- Categories ----
-// export const useCategories = () =>
-//   useQuery({
-//     queryKey: ["categories"],
-//     queryFn: async () => (await api.get("/furnitures/categories")).data,
-//     staleTime: 10 * 60 * 1000, // 10 minutes
-//   });
\ No newline at end of file
+    queryFn: async (): Promise<Category[]> => (await api.get("/furnitures/categories")).data.data,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
\ No newline at end of file
@@ -1,6 +1,9 @@
 "use client";
 
 import { api } from "./api";
+import { experimentFields, trackEvent, trackRecommendationClick } from "./events";
+import { getSessionId } from "./session";
+import type { ExperimentTag } from "./types";
 
 export interface RecommendationOptions {
   limit?: number;
@@ -11,6 +14,7 @@ export interface RecommendationOptions {
 export interface RecommendationResponse {
   recommendations: any[];
   algorithm: string;
+  experiment?: ExperimentTag | null; // Set when the shopper is in a running experiment on this list
   metadata?: {
     userHasPurchaseHistory: boolean;
     fallbackUsed: boolean;
@@ -54,6 +58,7 @@ export class RecommendationService {
       return {
         recommendations: data.recommendations || [],
         algorithm: data.algorithm || 'hybrid',
+        experiment: data.experiment ?? null,
         metadata: {
           userHasPurchaseHistory: data.algorithm !== 'popular',
           fallbackUsed: data.algorithm === 'popular',
@@ -90,6 +95,7 @@ export class RecommendationService {
       return {
         recommendations: data.recommendations || [],
         algorithm: 'popular',
+        experiment: data.experiment ?? null,
         metadata: {
           userHasPurchaseHistory: false,
           fallbackUsed: true,
@@ -124,6 +130,7 @@ export class RecommendationService {
       return {
         recommendations: data.recommendations || [],
         algorithm: data.algorithm || 'content-based',
+        experiment: data.experiment ?? null,
         metadata: {
           userHasPurchaseHistory: false,
           fallbackUsed: false,
@@ -159,6 +166,7 @@ export class RecommendationService {
       return {
         recommendations: data.recommendations || [],
         algorithm: data.algorithm || 'category-based',
+        experiment: data.experiment ?? null,
         metadata: {
           userHasPurchaseHistory: false,
           fallbackUsed: false,
@@ -208,11 +216,13 @@ export class RecommendationService {
           return {
             recommendations: [
               ...personalizedResult.recommendations,
-              ...categoryResult.recommendations.filter(item => 
-                !personalizedResult.recommendations.some(existing => existing.id === item.id)
-              )
+              ...categoryResult.recommendations
+                .filter(item => !personalizedResult.recommendations.some(existing => existing.id === item.id))
+                .map(item => ({ ...item, algorithm: item.algorithm ?? categoryResult.algorithm }))
             ],
             algorithm: 'hybrid-enhanced',
+            // The category items only fill the gaps the personalized variant left
+            experiment: personalizedResult.experiment,
             metadata: {
               userHasPurchaseHistory: personalizedResult.metadata?.userHasPurchaseHistory || false,
               fallbackUsed: true,
@@ -274,7 +284,7 @@ export class RecommendationService {
         algorithm,
         productId,
         categoryId,
-        sessionId: this.getSessionId()
+        sessionId: getSessionId()
       };
       
       const existingData = JSON.parse(localStorage.getItem('recommendation_analytics') || '[]');
@@ -293,55 +303,53 @@ export class RecommendationService {
 
   /**
    * Track when user clicks on a recommended item
+   * Sent to the server, which attributes later add-to-carts and purchases of the item to the same algorithm
    */
   trackRecommendationClick(
     recommendationId: number,
     algorithm: string,
     position: number,
-    userId?: number
+    experiment?: ExperimentTag | null
   ): void {
     if (!this.trackingEnabled) return;
-    
-    try {
-      const clickData = {
-        timestamp: new Date().toISOString(),
-        type: 'recommendation_click',
-        recommendationId,
-        algorithm,
+    trackRecommendationClick(recommendationId, algorithm, position, experiment);
+  }
+
+  /**
+   * Track which recommended items were shown, in display order
+   * Items the server tagged with their own algorithm are credited to it rather than to the list's
+   */
+  trackRecommendationImpressions(
+    recommendations: { id: number; algorithm?: string }[],
+    algorithm: string,
+    experiment?: ExperimentTag | null
+  ): void {
+    if (!this.trackingEnabled) return;
+    recommendations.forEach((item, position) =>
+      trackEvent({
+        type: 'IMPRESSION',
+        furnitureId: item.id,
+        algorithm: item.algorithm ?? algorithm,
         position,
-        userId,
-        sessionId: this.getSessionId()
-      };
-      
-      const existingData = JSON.parse(localStorage.getItem('recommendation_clicks') || '[]');
-      existingData.push(clickData);
-      
-      // Keep only last 50 click entries
-      if (existingData.length > 50) {
-        existingData.splice(0, existingData.length - 50);
-      }
-      
-      localStorage.setItem('recommendation_clicks', JSON.stringify(existingData));
-    } catch (error) {
-      console.warn('Failed to track recommendation click:', error);
-    }
+        ...experimentFields(experiment)
+      })
+    );
   }
 
   /**
    * Get analytics data for debugging/monitoring
+   * Clicks and impressions go to the server; see GET /api/events/report
    */
   getAnalyticsData(): {
     requests: any[];
-    clicks: any[];
   } {
     try {
       return {
-        requests: JSON.parse(localStorage.getItem('recommendation_analytics') || '[]'),
-        clicks: JSON.parse(localStorage.getItem('recommendation_clicks') || '[]')
+        requests: JSON.parse(localStorage.getItem('recommendation_analytics') || '[]')
       };
     } catch (error) {
       console.warn('Failed to get analytics data:', error);
-      return { requests: [], clicks: [] };
+      return { requests: [] };
     }
   }
 
@@ -351,28 +359,11 @@ export class RecommendationService {
   clearAnalyticsData(): void {
     try {
       localStorage.removeItem('recommendation_analytics');
-      localStorage.removeItem('recommendation_clicks');
     } catch (error) {
       console.warn('Failed to clear analytics data:', error);
     }
   }
 
-  /**
-   * Get or create session ID for tracking
-   */
-  private getSessionId(): string {
-    try {
-      let sessionId = sessionStorage.getItem('recommendation_session_id');
-      if (!sessionId) {
-        sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        sessionStorage.setItem('recommendation_session_id', sessionId);
-      }
-      return sessionId;
-    } catch (error) {
-      return `session_${Date.now()}_fallback`;
-    }
-  }
-
   /**
    * Enable/disable tracking
    */
@@ -0,0 +1,15 @@
+const SESSION_KEY = "recommendation_session_id";
+
+// One ID per browser tab, kept until the tab is closed; ties events and experiment buckets to a visit
+export const getSessionId = () => {
+  try {
+    let sessionId = sessionStorage.getItem(SESSION_KEY);
+    if (!sessionId) {
+      sessionId = `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+      sessionStorage.setItem(SESSION_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return `session_${Date.now()}_fallback`;
+  }
+};
@@ -3,26 +3,114 @@ export interface Furniture {
   name: string;
   description?: string;
   price: number;
+  compareAtPrice?: number | null; // Regular price while a sale is on
   sku: string;
   widthCm: number;
   heightCm: number;
   depthCm: number;
+  stockQuantity: number;
+  status?: FurnitureStatus;
+  archivedAt?: string | null;
   categoryId: number;
   category?: {
     name: string;
+    slug: string;
     description?: string;
   };
+  categoryPath?: CategoryCrumb[]; // Only on the product detail response
+  specifications?: Specification[]; // Only on the product detail response
   images: Image[];
+  variants?: Variant[]; // Only on the product detail response
   reviews?: Review[];
   averageRating?: number | null;
   reviewCount?: number;
+  algorithm?: string; // Only on recommendations: the strategy that picked this item
   createdAt: string;
 }
 
+// Only ACTIVE products are listed; ARCHIVED ones still open from past orders
+export type FurnitureStatus = "DRAFT" | "ACTIVE" | "ARCHIVED";
+
+// One row of a product's spec sheet, from its category's attribute definitions
+export interface Specification {
+  key: string;
+  name: string;
+  type: "TEXT" | "NUMBER" | "BOOLEAN" | "ENUM";
+  unit: string | null;
+  value: string | number | boolean;
+}
+
+export interface ImageRendition {
+  url: string;
+  width: number;
+  height: number;
+}
+
 export interface Image {
   id: number;
   url: string;
   furnitureId: number;
+  variantId?: number | null; // Set for photos of a single variant
+  altText?: string | null;
+  sortOrder?: number;
+  // Uploaded photos only
+  renditions?: Record<"thumbnail" | "medium" | "large", ImageRendition> | null;
+}
+
+// A purchasable colour / material / size option of a product
+export interface Variant {
+  id: number;
+  furnitureId: number;
+  sku: string;
+  colour?: string | null;
+  material?: string | null;
+  size?: string | null;
+  price: number;
+  compareAtPrice?: number | null; // Regular price while a sale is on
+  widthCm: number;
+  heightCm: number;
+  depthCm: number;
+  stockQuantity: number;
+  isDefault: boolean;
+  images?: Image[];
+}
+
+// GET /furnitures/compare: one column per product, rows aligned across them
+export interface CompareProduct {
+  id: number;
+  name: string;
+  sku: string;
+  status: FurnitureStatus;
+  price: number;
+  compareAtPrice: number | null;
+  image: Image | null;
+  category: { name: string; slug: string };
+  widthCm: number;
+  heightCm: number;
+  depthCm: number;
+  averageRating: number | null;
+  reviewCount: number;
+}
+
+export interface CompareRow {
+  key: string; // "price", "widthCm", "attributes.material", ...
+  label: string;
+  group: "overview" | "dimensions" | "specifications";
+  unit: string | null;
+  values: (string | number | boolean | null)[]; // In the same order as the products
+  differs: boolean;
+}
+
+export interface Comparison {
+  items: CompareProduct[];
+  rows: CompareRow[];
+}
+
+// A line sent to checkout; without a variant the product's default one is bought
+export interface OrderItemInput {
+  furnitureId: number;
+  variantId?: number;
+  quantity: number;
 }
 
 export interface Review {
@@ -38,11 +126,64 @@ export interface Review {
   createdAt: string;
 }
 
+export interface OrderDiscount {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+// Server-side price of a cart or order; `total` is what gets charged
+export interface CartPricing {
+  couponCode: string | null;
+  couponError: string | null; // set when a saved coupon no longer applies
+  subtotal: number;
+  discounts: (OrderDiscount & { promotionId: number })[];
+  discountTotal: number;
+  total: number;
+}
+
+// GST is split into CGST + SGST for deliveries inside the store's state, IGST otherwise
+export interface TaxLine {
+  label: 'CGST' | 'SGST' | 'IGST';
+  rate: number;
+  amount: number;
+}
+
+export interface CheckoutQuote {
+  subtotal: number;
+  discounts: (OrderDiscount & { promotionId: number })[];
+  discountTotal: number;
+  taxes: TaxLine[];
+  taxTotal: number;
+  shipping: {
+    volumeCubicMetres: number;
+    amount: number;
+    freeShipping: boolean;
+  };
+  shippingTotal: number;
+  total: number;
+  couponError?: string; // set when the cart's saved coupon no longer applies
+}
+
+export interface CheckoutQuotePayload {
+  items?: OrderItemInput[];
+  couponCode?: string;
+  addressId?: number;
+  state?: string;
+  email?: string;
+}
+
 export interface Order {
   id: number;
   userId?: number;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  taxLines?: TaxLine[] | null;
+  shippingTotal: number;
   totalAmount: number;
-  status: 'PENDING' | 'COMPLETED' | 'CANCELLED';
+  discounts?: OrderDiscount[];
+  status: OrderStatus;
   createdAt: string;
   items: OrderItem[];
   user?: {
@@ -50,12 +191,126 @@ export interface Order {
     name?: string;
     email: string;
   };
+  statusHistory?: OrderStatusHistory[];
+  payments?: Payment[];
+  shippingAddress?: ShippingAddress | null;
+  guestEmail?: string | null;
+  lookupToken?: string; // only returned when a guest places an order
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  email?: string;
+}
+
+export interface Address extends ShippingAddress {
+  id: number;
+  userId: number;
+  label?: string | null;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AddressInput = Omit<ShippingAddress, 'email' | 'country'> & {
+  country?: string;
+  label?: string;
+  isDefault?: boolean;
+};
+
+export type OrderStatus =
+  | 'PENDING_PAYMENT'
+  | 'PAID'
+  | 'PROCESSING'
+  | 'SHIPPED'
+  | 'DELIVERED'
+  | 'CANCELLED'
+  | 'REFUNDED';
+
+export interface OrderStatusHistory {
+  id: number;
+  orderId: number;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  note?: string | null;
+  createdAt: string;
+  changedBy?: {
+    name?: string;
+    role: 'CUSTOMER' | 'STAFF' | 'ADMIN';
+  } | null;
+}
+
+export type PaymentMethod = 'card' | 'upi' | 'netbanking';
+
+export type PaymentStatus =
+  | 'REQUIRES_ACTION'
+  | 'AUTHORIZED'
+  | 'CAPTURED'
+  | 'DECLINED'
+  | 'FAILED'
+  | 'PARTIALLY_REFUNDED'
+  | 'REFUNDED';
+
+export interface Payment {
+  id: number;
+  orderId?: number;
+  status: PaymentStatus;
+  method: PaymentMethod;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  cardBrand?: string | null;
+  cardLast4?: string | null;
+  failureCode?: string | null;
+  failureMessage?: string | null;
+  createdAt: string;
+}
+
+export interface PaymentNextAction {
+  type: 'challenge';
+  challengeId: string;
+  message: string;
+}
+
+export interface PlaceOrderPayload {
+  items?: OrderItemInput[];
+  shippingAddress?: ShippingAddress;
+  addressId?: number;
+  couponCode?: string;
+  paymentMethod: PaymentMethod;
+  paymentToken: string;
+}
+
+export interface GuestCheckoutPayload {
+  items: OrderItemInput[];
+  email: string;
+  shippingAddress: ShippingAddress;
+  couponCode?: string;
+  paymentMethod: PaymentMethod;
+  paymentToken: string;
+}
+
+export interface MockCardDetails {
+  cardNumber: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvv: string;
+  cardholderName: string;
 }
 
 export interface OrderItem {
   id: number;
   orderId: number;
   furnitureId: number;
+  variantId?: number | null;
+  variantLabel?: string | null;
   quantity: number;
   unitPrice: number;
   furniture: Furniture;
@@ -73,13 +328,25 @@ export interface CartItem {
   id: number;
   cartId: number;
   furnitureId: number;
+  variantId: number;
   quantity: number;
   furniture: Furniture;
+  variant: Variant;
 }
 export interface Category {
   id: number;
   name: string;
+  slug: string;
   description?: string;
+  parentId: number | null;
+  children: Category[];
+}
+
+// One step of a breadcrumb trail, top-level category first
+export interface CategoryCrumb {
+  id: number;
+  name: string;
+  slug: string;
 }
 
 export interface FurnitureListResponse {
@@ -94,14 +361,37 @@ export interface FurnitureListResponse {
       hasNext: boolean;
       hasPrev: boolean;
     };
+    facets: SearchFacets;
+    categoryPath: CategoryCrumb[]; // Breadcrumbs of the selected category; empty when none is
+    suggestion: string | null; // "Did you mean" spelling for searches with few results
   };
 }
 
+// Counts for each filter option, worked out with every other active filter applied
+export interface SearchFacets {
+  categories: (CategoryCrumb & { count: number })[]; // Subcategories of the selected category
+  priceRanges: { key: string; count: number }[];
+  ratings: { minRating: number; count: number }[];
+  sizes: { key: SizeBucket; label: string; count: number }[];
+}
+
+export type SizeBucket = 'compact' | 'medium' | 'large';
+
+// Typeahead for the search box; `recent` is only filled in for signed-in users
+export interface SearchSuggestions {
+  products: { id: number; name: string; price: number; category: string; imageUrl: string | null }[];
+  categories: CategoryCrumb[];
+  queries: string[];
+  recent: string[];
+}
+
 export interface FilterOptions {
-  category?: string;
+  category?: string; // Category slug
   minPrice?: number;
   maxPrice?: number;
   priceRange?: string;
+  minRating?: number;
+  size?: SizeBucket;
   search?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
@@ -109,12 +399,94 @@ export interface FilterOptions {
   limit?: number;
 }
 
+// GET /recommendations/bundle/:id: products from other categories bought in the same orders
+export interface BundleItem extends Furniture {
+  coPurchases: number;
+}
+
+export interface BundleResponse {
+  recommendations: BundleItem[];
+  algorithm: string;
+  experiment: ExperimentTag | null;
+}
+
+// The recommendation experiment variant a list was served under
+export interface ExperimentTag {
+  key: string;
+  variant: string;
+}
+
 export interface RecommendationResponse {
   recommendations: Furniture[];
   algorithm: string;
+  experiment?: ExperimentTag | null;
   metadata?: {
     userHasPurchaseHistory: boolean;
     fallbackUsed: boolean;
     totalRecommendations: number;
   };
-}
\ No newline at end of file
+}
+// --- Room planner (all lengths in centimetres) ---
+export interface RoomDimensions {
+  widthCm: number;
+  depthCm: number;
+  heightCm?: number | null;
+}
+
+export interface RoomInput extends RoomDimensions {
+  name: string;
+}
+
+// x/y is the top-left corner of the item's footprint; rotation is clockwise
+export interface RoomPlacementInput {
+  furnitureId: number;
+  variantId?: number | null; // Sized as the product's default variant when not set
+  xCm: number;
+  yCm: number;
+  rotation: 0 | 90 | 180 | 270;
+}
+
+export interface RoomPlacement extends RoomPlacementInput {
+  id: number;
+  furniture: Pick<Furniture, 'id' | 'name' | 'price' | 'widthCm' | 'heightCm' | 'depthCm'> & {
+    images: { url: string }[];
+  };
+  variant: Pick<Variant, 'id' | 'colour' | 'material' | 'size' | 'price' | 'widthCm' | 'heightCm' | 'depthCm'> | null;
+}
+
+export interface LayoutWarning {
+  type: 'OUT_OF_BOUNDS' | 'COLLISION' | 'CLEARANCE' | 'TOO_TALL';
+  placements: number[]; // placement IDs for a saved room, indexes for an unsaved check
+  message: string;
+}
+
+export interface Room extends RoomInput {
+  id: number;
+  placements: RoomPlacement[];
+  warnings: LayoutWarning[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoomSummary extends RoomInput {
+  id: number;
+  updatedAt: string;
+  _count: { placements: number };
+}
+
+// --- Wishlists ---
+export interface WishlistItem {
+  id: number;
+  wishlistId: number;
+  furnitureId: number;
+  furniture: Furniture;
+  createdAt: string;
+}
+
+export interface Wishlist {
+  id: number;
+  name: string;
+  items: WishlistItem[];
+  createdAt: string;
+  updatedAt: string;
+}
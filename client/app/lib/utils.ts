@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// The regular price to show struck through, when a sale has brought the price below it
+export const wasPrice = ({ price, compareAtPrice }: { price: number | string; compareAtPrice?: number | string | null }) =>
+  compareAtPrice != null && Number(compareAtPrice) > Number(price) ? Number(compareAtPrice) : null
@@ -0,0 +1,30 @@
+import type { Variant } from "./types";
+
+export const VARIANT_OPTIONS = [
+  ['colour', 'Colour'],
+  ['material', 'Material'],
+  ['size', 'Size']
+] as const;
+
+export type VariantOption = typeof VARIANT_OPTIONS[number][0];
+
+// e.g. "Black / Leather / 2 seater"; empty for a product's only variant
+export const variantLabel = (variant: Pick<Variant, VariantOption>) =>
+  VARIANT_OPTIONS.map(([option]) => variant[option]).filter(Boolean).join(' / ');
+
+// Variants that would be chosen if `option` were set to `value` while keeping every other current choice
+export const matchesSelection = (variant: Variant, current: Variant, option: VariantOption, value: string) =>
+  VARIANT_OPTIONS.every(([other]) => other === option ? variant[other] === value : variant[other] === current[other]);
+
+/**
+ * The variant to switch to when a shopper picks `value` for `option`: an exact match for the
+ * other current choices when there is one, otherwise the variant sharing the most of them.
+ */
+export const pickVariant = (variants: Variant[], current: Variant, option: VariantOption, value: string) => {
+  const shared = (variant: Variant) =>
+    VARIANT_OPTIONS.filter(([other]) => other !== option && variant[other] === current[other]).length;
+
+  return variants
+    .filter(variant => variant[option] === value)
+    .reduce<Variant | undefined>((best, variant) => !best || shared(variant) > shared(best) ? variant : best, undefined);
+};
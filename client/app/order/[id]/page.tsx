@@ -1,23 +1,23 @@
 "use client";
 
-import { useParams, useRouter } from "next/navigation";
-import { useQuery } from "@tanstack/react-query";
-import { api } from "@/app/lib/api";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useOrder } from "@/app/lib/queries";
 import { ArrowLeft, Package, Calendar, CreditCard, MapPin } from "lucide-react";
 import Link from "next/link";
+import { OrderStatusTimeline } from "@/app/components/OrderStatusTimeline";
+import { getOrderStatusColor, getOrderStatusLabel } from "@/app/lib/orderStatus";
+import type { Payment } from "@/app/lib/types";
+import { formatAddressLines } from "@/app/lib/address";
+import { DiscountLines } from "@/app/components/DiscountLines";
+import { TaxAndShippingLines } from "@/app/components/TaxAndShippingLines";
 
 export default function OrderDetailsPage() {
   const { id } = useParams();
   const router = useRouter();
+  // Guests open their order through the link handed out at checkout
+  const lookupToken = useSearchParams().get("token") || undefined;
 
-  const { data: orderResp, isLoading, error } = useQuery({
-    queryKey: ["order", id],
-    queryFn: async () => {
-      const response = await api.get(`/orders/${id}`);
-      return response.data;
-    },
-    enabled: !!id,
-  });
+  const { data: orderResp, isLoading, error } = useOrder(id as string, lookupToken);
 
   const order = orderResp?.data || orderResp;
 
@@ -54,14 +54,7 @@ export default function OrderDetailsPage() {
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'PENDING': return 'text-yellow-600 bg-yellow-100';
-      case 'COMPLETED': return 'text-green-600 bg-green-100';
-      case 'CANCELLED': return 'text-red-600 bg-red-100';
-      default: return 'text-gray-600 bg-gray-100';
-    }
-  };
+  const latestPayment: Payment | undefined = order.payments?.[order.payments.length - 1];
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-IN', {
@@ -94,8 +87,8 @@ export default function OrderDetailsPage() {
         <div className="bg-white rounded-lg shadow-sm border p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold">Order Status</h2>
-            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
-              {order.status}
+            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
+              {getOrderStatusLabel(order.status)}
             </span>
           </div>
           
@@ -113,21 +106,52 @@ export default function OrderDetailsPage() {
               <div>
                 <p className="text-sm text-gray-600">Total Amount</p>
                 <p className="font-medium text-green-600">₹{Number(order.totalAmount).toLocaleString()}</p>
+                {latestPayment?.cardLast4 && (
+                  <p className="text-xs text-gray-500">
+                    {latestPayment.cardBrand?.toUpperCase()} •••• {latestPayment.cardLast4} · {latestPayment.status.replace('_', ' ').toLowerCase()}
+                  </p>
+                )}
               </div>
             </div>
             
-            {order.user && (
+            {(order.user || order.guestEmail) && (
               <div className="flex items-center gap-3">
                 <MapPin className="w-5 h-5 text-purple-600" />
                 <div>
                   <p className="text-sm text-gray-600">Customer</p>
-                  <p className="font-medium">{order.user.name || order.user.email}</p>
+                  <p className="font-medium">
+                    {order.user ? order.user.name || order.user.email : `${order.guestEmail} (guest)`}
+                  </p>
                 </div>
               </div>
             )}
           </div>
         </div>
 
+        {/* Shipping Address */}
+        {order.shippingAddress && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+              <MapPin className="w-5 h-5 text-blue-600" />
+              Shipping Address
+            </h2>
+            <div className="text-gray-600 space-y-1">
+              <p className="font-medium text-gray-900">{order.shippingAddress.fullName}</p>
+              {formatAddressLines(order.shippingAddress).map((line: string) => <p key={line}>{line}</p>)}
+              <p>{order.shippingAddress.phone}</p>
+              {order.shippingAddress.email && <p>{order.shippingAddress.email}</p>}
+            </div>
+          </div>
+        )}
+
+        {/* Status Timeline */}
+        {order.statusHistory && (
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-xl font-semibold mb-4">Order Timeline</h2>
+            <OrderStatusTimeline history={order.statusHistory} />
+          </div>
+        )}
+
         {/* Order Items */}
         <div className="bg-white rounded-lg shadow-sm border p-6">
           <h2 className="text-xl font-semibold mb-4">Order Items</h2>
@@ -147,8 +171,11 @@ export default function OrderDetailsPage() {
                   <h3 className="font-semibold text-lg text-gray-900 truncate">
                     {item.furniture.name}
                   </h3>
+                  {item.variantLabel && (
+                    <p className="text-gray-700 text-sm mt-1">{item.variantLabel}</p>
+                  )}
                   <p className="text-gray-600 text-sm mt-1">
-                    SKU: {item.furniture.sku}
+                    SKU: {item.variant?.sku || item.furniture.sku}
                   </p>
                   {item.furniture.category && (
                     <p className="text-gray-500 text-sm">
@@ -157,7 +184,7 @@ export default function OrderDetailsPage() {
                   )}
                   <div className="flex items-center gap-4 mt-2">
                     <span className="text-sm text-gray-600">
-                      Dimensions: {item.furniture.widthCm}W × {item.furniture.heightCm}H × {item.furniture.depthCm}D cm
+                      Dimensions: {(item.variant || item.furniture).widthCm}W × {(item.variant || item.furniture).heightCm}H × {(item.variant || item.furniture).depthCm}D cm
                     </span>
                   </div>
                 </div>
@@ -174,7 +201,18 @@ export default function OrderDetailsPage() {
             ))}
           </div>
           
-          <div className="border-t pt-4 mt-4">
+          <div className="border-t pt-4 mt-4 space-y-2">
+            {/* Itemise only when discounts, tax or shipping changed the subtotal */}
+            {Number(order.subtotal) !== Number(order.totalAmount) && (
+              <>
+                <div className="flex justify-between text-gray-600">
+                  <span>Subtotal</span>
+                  <span>₹{Number(order.subtotal).toLocaleString()}</span>
+                </div>
+                <DiscountLines discounts={order.discounts} />
+                <TaxAndShippingLines shippingTotal={order.shippingTotal} taxes={order.taxLines} />
+              </>
+            )}
             <div className="flex justify-between text-xl font-bold">
               <span>Total Amount</span>
               <span className="text-blue-600">₹{Number(order.totalAmount).toLocaleString()}</span>
@@ -191,7 +229,7 @@ export default function OrderDetailsPage() {
             Continue Shopping
           </Link>
           
-          {order.status === 'COMPLETED' && (
+          {order.status === 'DELIVERED' && (
             <button
               onClick={() => {
                 // In a real app, this would navigate to a review page
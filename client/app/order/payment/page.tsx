@@ -1,10 +1,15 @@
 "use client";
 
-import { useCart, usePlaceOrder } from "@/app/lib/queries";
+import { useCart, useMe, useClearCart, usePlaceOrder, useGuestCheckout, useTokenizeCard, useCompleteMockChallenge, useConfirmPayment, useCancelPayment, useCheckoutQuote } from "@/app/lib/queries";
 import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
-import { ArrowLeft, CreditCard, Shield, Lock } from "lucide-react";
+import { ArrowLeft, CreditCard, Shield, Lock, ShieldCheck } from "lucide-react";
 import Link from "next/link";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import type { CheckoutQuote, OrderItemInput, PaymentNextAction } from "@/app/lib/types";
+import { DiscountLines } from "@/app/components/DiscountLines";
+import { TaxAndShippingLines } from "@/app/components/TaxAndShippingLines";
+import { shippingInfoToAddress, type ShippingInfo } from "@/app/lib/address";
 
 interface PaymentInfo {
   cardNumber: string;
@@ -14,23 +19,35 @@ interface PaymentInfo {
   paymentMethod: 'card' | 'upi' | 'netbanking';
 }
 
-interface ShippingInfo {
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
+interface DirectPurchase {
+  items: (OrderItemInput & { name: string; unitPrice: number })[];
+}
+
+interface PendingChallenge extends PaymentNextAction {
+  paymentId: number;
+  orderId: number;
+  lookupToken?: string;
 }
 
 export default function PaymentPage() {
   const { data: cartResp, isLoading: cartLoading } = useCart();
   const cart = cartResp?.data || cartResp;
+  const { data: userResp, isLoading: userLoading } = useMe();
+  // Without an account only "Buy Now" purchases can be paid for, through guest checkout
+  const isGuest = !userResp?.data;
   const placeOrder = usePlaceOrder();
+  const guestCheckout = useGuestCheckout();
+  const tokenizeCard = useTokenizeCard();
+  const completeChallenge = useCompleteMockChallenge();
+  const confirmPayment = useConfirmPayment();
+  const cancelPayment = useCancelPayment();
+  const clearCart = useClearCart();
   const router = useRouter();
 
   const [shippingInfo, setShippingInfo] = useState<ShippingInfo | null>(null);
+  const [directPurchase, setDirectPurchase] = useState<DirectPurchase | null>(null);
+  const [challenge, setChallenge] = useState<PendingChallenge | null>(null);
+  const [challengeCode, setChallengeCode] = useState('');
   const [paymentInfo, setPaymentInfo] = useState<PaymentInfo>({
     cardNumber: '',
     expiryDate: '',
@@ -46,13 +63,24 @@ export default function PaymentPage() {
     const storedShippingInfo = sessionStorage.getItem('shippingInfo');
     if (storedShippingInfo) {
       setShippingInfo(JSON.parse(storedShippingInfo));
+      // "Buy Now" purchases pay for a single item instead of the cart
+      const storedDirectPurchase = sessionStorage.getItem('directPurchase');
+      setDirectPurchase(storedDirectPurchase ? JSON.parse(storedDirectPurchase) : null);
     } else {
       // Redirect back to order summary if no shipping info
       router.push('/order/summary');
     }
   }, [router]);
 
-  if (cartLoading || !shippingInfo) {
+  // Same quote the server will charge: the cart (with its coupon) or the "Buy Now" items, taxed for the shipping state
+  const { data: quoteResp } = useCheckoutQuote(shippingInfo && !userLoading ? {
+    items: directPurchase?.items.map(({ furnitureId, variantId, quantity }) => ({ furnitureId, variantId, quantity })),
+    state: shippingInfo.state,
+    email: isGuest ? shippingInfo.email.trim() : undefined
+  } : null);
+  const quote: CheckoutQuote | undefined = quoteResp?.data;
+
+  if (cartLoading || userLoading || !shippingInfo) {
     return (
       <div className="max-w-4xl mx-auto p-6">
         <div className="animate-pulse">
@@ -76,14 +104,12 @@ export default function PaymentPage() {
     );
   }
 
-  if (!cart?.items || cart.items.length === 0) {
+  if (!directPurchase && (!cart?.items || cart.items.length === 0)) {
     router.push('/cart');
     return null;
   }
 
-  const subtotal = cart.items.reduce((s: number, item: any) => s + item.quantity * Number(item.furniture.price), 0);
-  const tax = subtotal * 0.18;
-  const total = subtotal + tax;
+  const total = quote?.total;
 
   const handleInputChange = (field: keyof PaymentInfo, value: string) => {
     setPaymentInfo(prev => ({ ...prev, [field]: value }));
@@ -136,6 +162,14 @@ export default function PaymentPage() {
     return Object.keys(newErrors).length === 0;
   };
 
+  const finishCheckout = (orderId: number, lookupToken?: string) => {
+    sessionStorage.removeItem('shippingInfo');
+    sessionStorage.removeItem('directPurchase');
+    const tokenParam = lookupToken ? `&token=${encodeURIComponent(lookupToken)}` : '';
+    const totalParam = total !== undefined ? `&total=${total}` : '';
+    router.push(`/order/success?orderId=${orderId}${totalParam}${tokenParam}`);
+  };
+
   const handlePlaceOrder = async () => {
     if (!validatePaymentForm()) {
       return;
@@ -144,25 +178,85 @@ export default function PaymentPage() {
     setIsProcessing(true);
     
     try {
-      // Simulate payment processing delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock payment validation
-      if (paymentInfo.paymentMethod === 'card' && paymentInfo.cardNumber.includes('0000')) {
-        throw new Error('Payment failed: Invalid card number');
+      // Card details only ever go to the gateway's tokenization endpoint
+      const [expiryMonth, expiryYear] = paymentInfo.expiryDate.split('/').map(Number);
+      const tokenResp = await tokenizeCard.mutateAsync({
+        cardNumber: paymentInfo.cardNumber.replace(/\D/g, ''),
+        expiryMonth,
+        expiryYear: 2000 + expiryYear,
+        cvv: paymentInfo.cvv,
+        cardholderName: paymentInfo.cardholderName
+      });
+
+      const items = directPurchase?.items.map(({ furnitureId, variantId, quantity }) => ({ furnitureId, variantId, quantity }));
+      const shippingAddress = shippingInfoToAddress(shippingInfo);
+      const orderResp = isGuest
+        ? await guestCheckout.mutateAsync({
+            items: items || [],
+            email: shippingInfo.email.trim(),
+            paymentMethod: paymentInfo.paymentMethod,
+            paymentToken: tokenResp.data.token,
+            shippingAddress
+          })
+        : await placeOrder.mutateAsync({
+            items,
+            paymentMethod: paymentInfo.paymentMethod,
+            paymentToken: tokenResp.data.token,
+            shippingAddress
+          });
+      const order = orderResp.data;
+
+      if (order.nextAction) {
+        setChallenge({ ...order.nextAction, paymentId: order.payment.id, orderId: order.id, lookupToken: order.lookupToken });
+        return;
       }
-      
-      // Place the order
-      const order = await placeOrder.mutateAsync();
-      
-      // Clear shipping info from sessionStorage
-      sessionStorage.removeItem('shippingInfo');
-      
-      // Redirect to success page
-      router.push(`/order/success?orderId=${order.data?.id || order.id}&total=${total}`);
-    } catch (err: any) {
-      alert(err?.response?.data?.error || err?.message || "Payment failed. Please try again.");
+
+      finishCheckout(order.id, order.lookupToken);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err) || "Payment failed. Please try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSubmitChallenge = async () => {
+    if (!challenge) return;
+
+    setIsProcessing(true);
+    try {
+      await completeChallenge.mutateAsync({ challengeId: challenge.challengeId, code: challengeCode });
+      const confirmResp = await confirmPayment.mutateAsync({ paymentId: challenge.paymentId, lookupToken: challenge.lookupToken });
+
+      if (confirmResp.data.payment.status === 'CAPTURED') {
+        // The server keeps the cart until a challenged payment settles
+        if (!directPurchase) {
+          await clearCart.mutateAsync();
+        }
+        finishCheckout(challenge.orderId, challenge.lookupToken);
+      } else {
+        alert('Payment could not be completed. Please try again.');
+      }
+    } catch (err: unknown) {
+      alert(getErrorMessage(err) || "Authentication failed. Please try again.");
     } finally {
+      setChallenge(null);
+      setChallengeCode('');
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelChallenge = async () => {
+    if (!challenge) return;
+
+    setIsProcessing(true);
+    try {
+      // Releases the reserved stock; the customer can retry with another card
+      await cancelPayment.mutateAsync({ paymentId: challenge.paymentId, lookupToken: challenge.lookupToken });
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    } finally {
+      setChallenge(null);
+      setChallengeCode('');
       setIsProcessing(false);
     }
   };
@@ -279,7 +373,7 @@ export default function PaymentPage() {
                     <p className="text-red-500 text-sm mt-1">{errors.cardNumber}</p>
                   )}
                   <p className="text-xs text-gray-500 mt-1">
-                    For testing, use any 16-digit number (avoid ending with 0000)
+                    Test cards: 4242 4242 4242 4242 succeeds, ending 0002 is declined, ending 3220 asks for a verification code
                   </p>
                 </div>
                 
@@ -344,30 +438,28 @@ export default function PaymentPage() {
           {/* Order Total */}
           <div className="bg-white rounded-lg shadow-sm border p-6">
             <h2 className="text-xl font-semibold mb-4">Order Total</h2>
-            <div className="space-y-3">
-              <div className="flex justify-between text-gray-600">
-                <span>Subtotal</span>
-                <span>₹{subtotal.toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Shipping</span>
-                <span className="text-green-600">Free</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Tax (GST 18%)</span>
-                <span>₹{tax.toLocaleString()}</span>
-              </div>
-              <div className="border-t pt-3">
-                <div className="flex justify-between text-xl font-bold">
-                  <span>Total</span>
-                  <span className="text-blue-600">₹{total.toLocaleString()}</span>
+            {quote ? (
+              <div className="space-y-3">
+                <div className="flex justify-between text-gray-600">
+                  <span>Subtotal</span>
+                  <span>₹{quote.subtotal.toLocaleString()}</span>
+                </div>
+                <DiscountLines discounts={quote.discounts} />
+                <TaxAndShippingLines shippingTotal={quote.shippingTotal} taxes={quote.taxes} />
+                <div className="border-t pt-3">
+                  <div className="flex justify-between text-xl font-bold">
+                    <span>Total</span>
+                    <span className="text-blue-600">₹{quote.total.toLocaleString()}</span>
+                  </div>
                 </div>
               </div>
-            </div>
+            ) : (
+              <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+            )}
 
             <button
               onClick={handlePlaceOrder}
-              disabled={isProcessing}
+              disabled={isProcessing || !quote}
               className="w-full mt-6 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
             >
               {isProcessing ? (
@@ -378,7 +470,7 @@ export default function PaymentPage() {
               ) : (
                 <>
                   <Lock className="w-5 h-5" />
-                  Place Order - ₹{total.toLocaleString()}
+                  Place Order{total !== undefined && ` - ₹${total.toLocaleString()}`}
                 </>
               )}
             </button>
@@ -389,6 +481,45 @@ export default function PaymentPage() {
           </div>
         </div>
       </div>
+
+      {/* Card authentication challenge */}
+      {challenge && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-sm w-full p-6">
+            <div className="flex items-center gap-3 mb-4">
+              <ShieldCheck className="w-6 h-6 text-blue-600" />
+              <h2 className="text-lg font-semibold">Verify your payment</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">{challenge.message}</p>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={challengeCode}
+              onChange={(e) => setChallengeCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest text-center"
+              placeholder="Enter code"
+              maxLength={6}
+              autoFocus
+            />
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleCancelChallenge}
+                disabled={isProcessing}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitChallenge}
+                disabled={isProcessing || challengeCode.length === 0}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isProcessing ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,21 +1,38 @@
 "use client";
 
 import { useSearchParams, useRouter } from "next/navigation";
-import { CheckCircle, Package, Mail, Home, Receipt } from "lucide-react";
+import { CheckCircle, Package, Mail, Home, Receipt, Link2 } from "lucide-react";
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { useOrder } from "@/app/lib/queries";
+import { trackPurchase } from "@/app/lib/events";
+import { DiscountLines } from "@/app/components/DiscountLines";
+import { TaxAndShippingLines } from "@/app/components/TaxAndShippingLines";
+import type { Order } from "@/app/lib/types";
 
 export default function SuccessPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const orderId = searchParams.get("orderId");
   const total = searchParams.get("total");
+  // Present only for guest orders; it is the guest's only way back to the order
+  const lookupToken = searchParams.get("token");
+  const orderHref = lookupToken
+    ? `/order/${orderId}?token=${encodeURIComponent(lookupToken)}`
+    : `/order/${orderId}`;
   const [currentTime, setCurrentTime] = useState<string>("");
+  const { data: orderResp } = useOrder(orderId || "", lookupToken || undefined);
+  const order: Order | undefined = orderResp?.data;
 
   useEffect(() => {
     setCurrentTime(new Date().toLocaleString());
   }, []);
 
+  // Counts towards any recommendation the items were found through
+  useEffect(() => {
+    if (order) trackPurchase(order.id, order.items.map(item => item.furnitureId));
+  }, [order]);
+
   const estimatedDelivery = new Date();
   estimatedDelivery.setDate(estimatedDelivery.getDate() + 7); // 7 days from now
 
@@ -57,7 +74,20 @@ export default function SuccessPage() {
                 <span className="text-gray-600">Order Date:</span>
                 <span className="font-medium">{currentTime}</span>
               </div>
-              {total && (
+              {order ? (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Subtotal:</span>
+                    <span className="font-medium">₹{Number(order.subtotal).toLocaleString()}</span>
+                  </div>
+                  <DiscountLines discounts={order.discounts} />
+                  <TaxAndShippingLines shippingTotal={order.shippingTotal} taxes={order.taxLines} />
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Total Charged:</span>
+                    <span className="font-bold text-green-600">₹{Number(order.totalAmount).toLocaleString()}</span>
+                  </div>
+                </>
+              ) : total && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Total Amount:</span>
                   <span className="font-bold text-green-600">₹{Number(total).toLocaleString()}</span>
@@ -143,8 +173,32 @@ export default function SuccessPage() {
           </div>
         </div>
 
+        {lookupToken && (
+          <div className="border border-amber-200 bg-amber-50 rounded-lg p-6 mb-8">
+            <h2 className="text-lg font-semibold text-amber-900 mb-2 flex items-center gap-2">
+              <Link2 className="w-5 h-5" />
+              Save your order link
+            </h2>
+            <p className="text-amber-800 text-sm mb-3">
+              You checked out as a guest. Bookmark the order page to check its status later, or{' '}
+              <Link href={`/auth/register?orderToken=${encodeURIComponent(lookupToken)}`} className="underline font-medium">
+                create an account
+              </Link>{' '}
+              from here and this order will be added to your order history.
+            </p>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <Link
+            href={orderHref}
+            className="flex items-center justify-center gap-2 px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Receipt className="w-5 h-5" />
+            View Order
+          </Link>
+
           <Link
             href="/"
             className="flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -1,20 +1,16 @@
 "use client";
 
-import { useCart, useMe } from "@/app/lib/queries";
+import { useCart, useMe, useAddresses, useCreateAddress, useCheckoutQuote } from "@/app/lib/queries";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
-import { ArrowLeft, ShoppingCart, User, CreditCard } from "lucide-react";
+import { ArrowLeft, ShoppingCart, User, CreditCard, MapPin } from "lucide-react";
 import Link from "next/link";
-
-interface ShippingInfo {
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  city: string;
-  state: string;
-  zipCode: string;
-}
+import { addressToShippingInfo, formatAddressLines, shippingInfoToAddressInput, type ShippingInfo } from "@/app/lib/address";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import type { Address, CheckoutQuote } from "@/app/lib/types";
+import { variantLabel } from "@/app/lib/variants";
+import { DiscountLines } from "@/app/components/DiscountLines";
+import { TaxAndShippingLines } from "@/app/components/TaxAndShippingLines";
 
 export default function OrderSummaryPage() {
   const { data: cartResp, isLoading: cartLoading } = useCart();
@@ -34,6 +30,33 @@ export default function OrderSummaryPage() {
   });
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [selectedAddressId, setSelectedAddressId] = useState<number | 'new' | null>(null);
+  const [saveAddress, setSaveAddress] = useState(false);
+
+  const { data: addressesResp } = useAddresses(!!user);
+  const addresses: Address[] = addressesResp?.data || [];
+  const createAddress = useCreateAddress();
+
+  // Prefill from the default saved address once, without overwriting anything already typed.
+  // Adjusting state while rendering avoids an extra effect pass once addresses arrive.
+  if (selectedAddressId === null && addressesResp) {
+    const defaultAddress = addresses.find(a => a.isDefault) || addresses[0];
+    if (defaultAddress) {
+      setSelectedAddressId(defaultAddress.id);
+      setShippingInfo(prev => addressToShippingInfo(defaultAddress, prev.email || user?.email || ''));
+    } else {
+      setSelectedAddressId('new');
+    }
+  }
+
+  // GST depends on the delivery state, so the quote follows the chosen address
+  const hasItems = !!cart?.items?.length;
+  const { data: quoteResp, isFetching: quoteFetching } = useCheckoutQuote(
+    !hasItems ? null
+      : typeof selectedAddressId === 'number' ? { addressId: selectedAddressId }
+      : { state: shippingInfo.state.trim() || undefined }
+  );
+  const quote: CheckoutQuote | undefined = quoteResp?.data;
 
   if (cartLoading) {
     return (
@@ -77,28 +100,46 @@ export default function OrderSummaryPage() {
     );
   }
 
-  const subtotal = cart.items.reduce((s: number, item: any) => s + item.quantity * Number(item.furniture.price), 0);
-  const shipping = 0; // Free shipping
-  const tax = subtotal * 0.18; // 18% GST
-  const total = subtotal + shipping + tax;
   const itemCount = cart.items.reduce((s: number, item: any) => s + item.quantity, 0);
 
   const handleInputChange = (field: keyof ShippingInfo, value: string) => {
     setShippingInfo(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleSelectAddress = (address: Address | 'new') => {
+    if (address === 'new') {
+      setSelectedAddressId('new');
+      setShippingInfo(prev => ({ ...prev, name: user?.name || '', phone: '', address: '', city: '', state: '', zipCode: '' }));
+      return;
+    }
+    setSelectedAddressId(address.id);
+    setShippingInfo(prev => addressToShippingInfo(address, prev.email));
+  };
+
   const isFormValid = () => {
     return Object.values(shippingInfo).every(value => value.trim() !== '');
   };
 
-  const handleProceedToPayment = () => {
+  const handleProceedToPayment = async () => {
     if (!isFormValid()) {
       alert('Please fill in all shipping information');
       return;
     }
+
+    if (selectedAddressId === 'new' && saveAddress) {
+      setIsProcessing(true);
+      try {
+        await createAddress.mutateAsync(shippingInfoToAddressInput(shippingInfo));
+      } catch (err: unknown) {
+        setIsProcessing(false);
+        alert(`Could not save address: ${getErrorMessage(err)}`);
+        return;
+      }
+    }
     
     // Store shipping info in sessionStorage for payment page
     sessionStorage.setItem('shippingInfo', JSON.stringify(shippingInfo));
+    sessionStorage.removeItem('directPurchase'); // paying for the cart, not a single "Buy Now" item
     router.push('/order/payment');
   };
 
@@ -123,6 +164,48 @@ export default function OrderSummaryPage() {
               <User className="w-6 h-6 text-blue-600" />
               <h2 className="text-xl font-semibold">Shipping Information</h2>
             </div>
+
+            {addresses.length > 0 && (
+              <div className="mb-6 space-y-2">
+                <p className="text-sm font-medium text-gray-700">Saved addresses</p>
+                {addresses.map((address) => (
+                  <label
+                    key={address.id}
+                    className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50 ${
+                      selectedAddressId === address.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="savedAddress"
+                      checked={selectedAddressId === address.id}
+                      onChange={() => handleSelectAddress(address)}
+                      className="mt-1 text-blue-600"
+                    />
+                    <MapPin className="w-4 h-4 mt-1 text-gray-500" />
+                    <div className="text-sm text-gray-700">
+                      <p className="font-medium text-gray-900">
+                        {address.label || address.fullName}
+                        {address.isDefault && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                      </p>
+                      {formatAddressLines(address).map(line => <p key={line}>{line}</p>)}
+                    </div>
+                  </label>
+                ))}
+                <label className={`flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50 ${
+                  selectedAddressId === 'new' ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}>
+                  <input
+                    type="radio"
+                    name="savedAddress"
+                    checked={selectedAddressId === 'new'}
+                    onChange={() => handleSelectAddress('new')}
+                    className="text-blue-600"
+                  />
+                  <span className="text-sm font-medium">Use a new address</span>
+                </label>
+              </div>
+            )}
             
             <div className="grid md:grid-cols-2 gap-4">
               <div>
@@ -216,6 +299,18 @@ export default function OrderSummaryPage() {
                 />
               </div>
             </div>
+
+            {user && selectedAddressId === 'new' && (
+              <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={saveAddress}
+                  onChange={(e) => setSaveAddress(e.target.checked)}
+                  className="text-blue-600"
+                />
+                Save this address to my address book
+              </label>
+            )}
           </div>
         </div>
 
@@ -228,7 +323,7 @@ export default function OrderSummaryPage() {
               {cart.items.map((item: any) => (
                 <div key={item.id} className="flex gap-3 items-center">
                   <img 
-                    src={item.furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
+                    src={item.variant.images?.[0]?.url || item.furniture.images?.[0]?.url || '/placeholder-furniture.jpg'} 
                     alt={item.furniture.name}
                     className="w-16 h-16 object-cover rounded-lg"
                     onError={(e) => {
@@ -239,13 +334,16 @@ export default function OrderSummaryPage() {
                     <h3 className="font-medium text-gray-900 truncate">
                       {item.furniture.name}
                     </h3>
+                    {variantLabel(item.variant) && (
+                      <p className="text-sm text-gray-700">{variantLabel(item.variant)}</p>
+                    )}
                     <p className="text-sm text-gray-600">
-                      Qty: {item.quantity} × ₹{Number(item.furniture.price).toLocaleString()}
+                      Qty: {item.quantity} × ₹{Number(item.variant.price).toLocaleString()}
                     </p>
                   </div>
                   <div className="text-right">
                     <div className="font-medium">
-                      ₹{(Number(item.furniture.price) * item.quantity).toLocaleString()}
+                      ₹{(Number(item.variant.price) * item.quantity).toLocaleString()}
                     </div>
                   </div>
                 </div>
@@ -257,24 +355,30 @@ export default function OrderSummaryPage() {
           <div className="bg-white rounded-lg shadow-sm border p-6">
             <h2 className="text-xl font-semibold mb-4">Price Details</h2>
             <div className="space-y-3">
-              <div className="flex justify-between text-gray-600">
-                <span>Subtotal ({itemCount} {itemCount === 1 ? 'item' : 'items'})</span>
-                <span>₹{subtotal.toLocaleString()}</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Shipping</span>
-                <span className="text-green-600">Free</span>
-              </div>
-              <div className="flex justify-between text-gray-600">
-                <span>Tax (GST 18%)</span>
-                <span>₹{tax.toLocaleString()}</span>
-              </div>
-              <div className="border-t pt-3">
-                <div className="flex justify-between text-xl font-bold">
-                  <span>Total Amount</span>
-                  <span className="text-blue-600">₹{total.toLocaleString()}</span>
-                </div>
-              </div>
+              {quote ? (
+                <>
+                  <div className="flex justify-between text-gray-600">
+                    <span>Subtotal ({itemCount} {itemCount === 1 ? 'item' : 'items'})</span>
+                    <span>₹{quote.subtotal.toLocaleString()}</span>
+                  </div>
+                  <DiscountLines discounts={quote.discounts} />
+                  <TaxAndShippingLines shippingTotal={quote.shippingTotal} taxes={quote.taxes} />
+                  {!shippingInfo.state.trim() && selectedAddressId === 'new' && (
+                    <p className="text-xs text-gray-500">Tax is estimated until you enter your state.</p>
+                  )}
+                  {quote.couponError && (
+                    <p className="text-xs text-red-600">{quote.couponError}</p>
+                  )}
+                  <div className="border-t pt-3">
+                    <div className="flex justify-between text-xl font-bold">
+                      <span>Total Amount</span>
+                      <span className={`text-blue-600 ${quoteFetching ? 'opacity-50' : ''}`}>₹{quote.total.toLocaleString()}</span>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+              )}
             </div>
 
             <div className="mt-6 space-y-3">
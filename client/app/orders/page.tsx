@@ -6,14 +6,8 @@ import { Package, Calendar, DollarSign, Eye, ChevronLeft, ChevronRight, AlertCir
 import Link from "next/link";
 import { LoadingSpinner } from "@/app/components/LoadingSpinner";
 import { useRouter } from "next/navigation";
-
-type OrderStatus = "PENDING" | "COMPLETED" | "CANCELLED";
-
-const statusColors = {
-  PENDING: "bg-yellow-100 text-yellow-800",
-  COMPLETED: "bg-green-100 text-green-800",
-  CANCELLED: "bg-red-100 text-red-800"
-};
+import type { OrderStatus } from "@/app/lib/types";
+import { ORDER_STATUSES, getOrderStatusColor, getOrderStatusLabel, orderStatusLabels } from "@/app/lib/orderStatus";
 
 export default function OrdersPage() {
   const [currentPage, setCurrentPage] = useState(1);
@@ -129,9 +123,9 @@ export default function OrdersPage() {
             className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
             <option value="ALL">All Orders</option>
-            <option value="PENDING">Pending</option>
-            <option value="COMPLETED">Completed</option>
-            <option value="CANCELLED">Cancelled</option>
+            {ORDER_STATUSES.map(status => (
+              <option key={status} value={status}>{orderStatusLabels[status]}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -142,7 +136,7 @@ export default function OrdersPage() {
           <Package className="mx-auto text-gray-400 mb-4" size={48} />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No orders found</h3>
           <p className="text-gray-500 mb-4">
-            {statusFilter ? `No ${statusFilter.toLowerCase()} orders found.` : "You haven't placed any orders yet."}
+            {statusFilter !== "ALL" ? `No ${getOrderStatusLabel(statusFilter).toLowerCase()} orders found.` : "You haven't placed any orders yet."}
           </p>
           <Link href="/" className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
             Start Shopping
@@ -167,8 +161,8 @@ export default function OrdersPage() {
                   </div>
                 </div>
                 <div className="flex items-center gap-3">
-                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusColors[order.status as OrderStatus] || 'bg-gray-100 text-gray-800'}`}>
-                    {order.status}
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${getOrderStatusColor(order.status)}`}>
+                    {getOrderStatusLabel(order.status)}
                   </span>
                   <Link href={`/order/${order.id}`}>
                     <button className="flex items-center gap-2 px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm">
@@ -198,6 +192,7 @@ export default function OrdersPage() {
                         <p className="text-sm font-medium text-gray-900 truncate">
                           {item.furniture.name}
                         </p>
+                        {item.variantLabel && <p className="text-xs text-gray-600 truncate">{item.variantLabel}</p>}
                         <p className="text-xs text-gray-500">
                           Qty: {item.quantity} × ₹{Number(item.unitPrice).toLocaleString()}
                         </p>
@@ -1,11 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useSearchParams } from "next/navigation";
 import { useFurnitureList, useCategories, useMe } from "./lib/queries";
 import { FurnitureCard } from "./components/FurnitureCard";
 import { FurnitureCardSkeleton } from "./components/FurnitureCardSkeleton";
 import { RecommendedSection } from "./components/RecommendedSection";
 import { SearchAndFilter, FilterOptions } from "./components/SearchAndFilter";
+import { CategoryBreadcrumbs } from "./components/CategoryBreadcrumbs";
 import { Furniture, Category } from "./lib/types";
 import { QueryErrorBoundary } from "./components/QueryErrorBoundary";
 import { ErrorFallback } from "./components/ErrorFallback";
@@ -14,9 +16,10 @@ import { useToast } from "./components/ui/toast";
 import { getErrorMessage, isNetworkError } from "./lib/errorUtils";
 
 export default function HomePage() {
-  const [filters, setFilters] = useState<FilterOptions>({});
+  const searchParams = useSearchParams();
+  // Product page breadcrumbs link here with ?category=<slug>
+  const [filters, setFilters] = useState<FilterOptions>(() => ({ category: searchParams.get("category") || undefined }));
   const [currentPage, setCurrentPage] = useState(1);
-  const [selectedCategory, setSelectedCategory] = useState<string>("");
   
   const { addToast } = useToast();
   
@@ -54,6 +57,9 @@ export default function HomePage() {
 
   const furniture = furnitureResponse?.data?.items || [];
   const pagination = furnitureResponse?.data?.pagination;
+  const suggestion = furnitureResponse?.data?.suggestion;
+  const categoryPath = furnitureResponse?.data?.categoryPath ?? [];
+  const isFiltered = !!(filters.search || filters.category || filters.minPrice || filters.maxPrice || filters.minRating || filters.size);
 
   const handleSearch = (query: string) => {
     setFilters(prev => ({ ...prev, search: query }));
@@ -61,34 +67,26 @@ export default function HomePage() {
   };
 
   const handleFilter = (newFilters: FilterOptions) => {
-    // Handle price range conversion
-    if (newFilters.priceRange) {
-      const [min, max] = newFilters.priceRange.split('-');
-      if (max === '+') {
-        newFilters.minPrice = parseInt(min);
-        delete newFilters.maxPrice;
-      } else {
-        newFilters.minPrice = parseInt(min);
-        newFilters.maxPrice = parseInt(max);
-      }
-      delete newFilters.priceRange;
-    }
-    
-    setFilters(prev => ({ ...prev, ...newFilters }));
-    setSelectedCategory(newFilters.category || "");
+    // Price ranges look like "10000-25000" or "100000+"; no range clears both bounds
+    const { priceRange, ...rest } = newFilters;
+    const [min, max] = priceRange ? priceRange.replace('+', '').split('-') : [];
+
+    setFilters(prev => ({
+      ...prev,
+      ...rest,
+      minPrice: min ? Number(min) : undefined,
+      maxPrice: max ? Number(max) : undefined
+    }));
     setCurrentPage(1);
   };
 
-  const handleCategorySelect = (categoryName: string) => {
-    const newFilters = { ...filters, category: categoryName };
-    setFilters(newFilters);
-    setSelectedCategory(categoryName);
+  const handleCategorySelect = (slug: string) => {
+    setFilters(prev => ({ ...prev, category: slug || undefined }));
     setCurrentPage(1);
   };
 
   const clearAllFilters = () => {
     setFilters({});
-    setSelectedCategory("");
     setCurrentPage(1);
   };
 
@@ -136,7 +134,7 @@ export default function HomePage() {
             <button
               onClick={() => handleCategorySelect("")}
               className={`px-4 py-2 rounded-full border transition-colors ${
-                selectedCategory === ""
+                !filters.category
                   ? "bg-blue-600 text-white border-blue-600"
                   : "bg-white text-gray-700 border-gray-300 hover:border-blue-600 hover:text-blue-600"
               }`}
@@ -146,9 +144,9 @@ export default function HomePage() {
             {categories.map((category: Category) => (
               <button
                 key={category.id}
-                onClick={() => handleCategorySelect(category.name)}
+                onClick={() => handleCategorySelect(category.slug)}
                 className={`px-4 py-2 rounded-full border transition-colors ${
-                  selectedCategory === category.name
+                  (categoryPath[0]?.slug ?? filters.category) === category.slug
                     ? "bg-blue-600 text-white border-blue-600"
                     : "bg-white text-gray-700 border-gray-300 hover:border-blue-600 hover:text-blue-600"
                 }`}
@@ -166,12 +164,31 @@ export default function HomePage() {
         onSort={handleSort}
         onClearFilters={clearAllFilters}
         categories={categories?.map((cat: Category) => ({ 
-          id: cat.name, 
+          slug: cat.slug, 
           name: cat.name 
         })) || []}
         currentFilters={filters}
+        categoryPath={categoryPath}
+        facets={furnitureResponse?.data?.facets}
       />
 
+      {filters.category && categoryPath.length > 0 && (
+        <CategoryBreadcrumbs path={categoryPath} onSelect={handleCategorySelect} />
+      )}
+
+      {suggestion && !isLoading && (
+        <p className="text-gray-700">
+          Did you mean{' '}
+          <button
+            onClick={() => handleSearch(suggestion)}
+            className="text-blue-600 hover:text-blue-700 font-medium italic"
+          >
+            {suggestion}
+          </button>
+          ?
+        </p>
+      )}
+
       {isLoading ? (
         <div className="space-y-6">
           <div className="flex justify-between items-center">
@@ -187,7 +204,7 @@ export default function HomePage() {
         <div className="text-center py-12">
           <div className="max-w-md mx-auto">
             <p className="text-gray-600 mb-4">No furniture found matching your criteria.</p>
-            {(filters.search || filters.category || filters.minPrice || filters.maxPrice) && (
+            {isFiltered && (
               <button
                 onClick={clearAllFilters}
                 className="text-blue-600 hover:text-blue-700 font-medium"
@@ -204,15 +221,15 @@ export default function HomePage() {
               <p className="text-gray-600">
                 Showing {((currentPage - 1) * 12) + 1}-{Math.min(currentPage * 12, pagination?.totalCount || 0)} of {pagination?.totalCount || 0} items
               </p>
-              {(filters.search || filters.category || filters.minPrice || filters.maxPrice) && (
+              {isFiltered && (
                 <p className="text-sm text-gray-500 mt-1">
                   Filtered results
-                  {filters.category && ` in ${filters.category}`}
+                  {categoryPath.length > 0 && ` in ${categoryPath[categoryPath.length - 1].name}`}
                   {filters.search && ` for "${filters.search}"`}
                 </p>
               )}
             </div>
-            {(filters.search || filters.category || filters.minPrice || filters.maxPrice) && (
+            {isFiltered && (
               <button
                 onClick={clearAllFilters}
                 className="text-sm text-blue-600 hover:text-blue-700 font-medium"
@@ -279,7 +296,7 @@ export default function HomePage() {
         {/* Recommendations Section */}
         <RecommendedSection 
           userId={userProfile?.data?.id}
-          categoryId={selectedCategory ? categories?.find((cat: any) => cat.name === selectedCategory)?.id : undefined}
+          categoryId={categoryPath.length > 0 ? categoryPath[categoryPath.length - 1].id : undefined}
           limit={8}
           showAlgorithmInfo={true}
           enableTracking={true}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, RotateCw, Trash2, Save, AlertTriangle, CheckCircle, Plus, Search } from "lucide-react";
+import { useRoom, useFurnitureById, useFurnitureList, useSaveRoomLayout, useUpdateRoom, useRoomLayoutCheck } from "@/app/lib/queries";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import { LoadingSpinner } from "@/app/components/LoadingSpinner";
+import { RoomCanvas, footprintSize, itemVersion, type PlannerItem } from "@/app/components/RoomCanvas";
+import { VariantSelector } from "@/app/components/VariantSelector";
+import type { Furniture, LayoutWarning, Room, RoomPlacementInput, Variant } from "@/app/lib/types";
+
+const toPlacementInputs = (items: PlannerItem[]): RoomPlacementInput[] =>
+  items.map(({ furnitureId, variantId, xCm, yCm, rotation }) => ({
+    furnitureId,
+    ...(variantId && { variantId }),
+    xCm: Number(xCm),
+    yCm: Number(yCm),
+    rotation
+  }));
+
+const nextRotation = (rotation: RoomPlacementInput['rotation']) => ((rotation + 90) % 360) as RoomPlacementInput['rotation'];
+
+export default function RoomEditorPage() {
+  const { id } = useParams();
+  const { data: roomResp, isLoading, error } = useRoom(id as string);
+  const room: Room | undefined = roomResp?.data;
+  const saveLayout = useSaveRoomLayout();
+  const updateRoom = useUpdateRoom();
+
+  const [search, setSearch] = useState('');
+  const { data: furnitureResp } = useFurnitureList({ search: search || undefined, limit: 20 });
+  const catalogue: Furniture[] = furnitureResp?.data?.items || [];
+
+  const [loadedRoomId, setLoadedRoomId] = useState<number | null>(null);
+  const [items, setItems] = useState<PlannerItem[]>([]);
+  const [dimensions, setDimensions] = useState({ widthCm: '', depthCm: '', heightCm: '' });
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Variants only come with a product's details, so load them for the selected item
+  const selectedFurnitureId = selectedIndex !== null ? items[selectedIndex]?.furnitureId : undefined;
+  const { data: selectedResp } = useFurnitureById(selectedFurnitureId ? String(selectedFurnitureId) : '');
+  const selectedVariants: Variant[] = selectedResp?.data?.variants || [];
+
+  // Take the saved layout as the starting point once the room has loaded
+  if (room && loadedRoomId !== room.id) {
+    setLoadedRoomId(room.id);
+    setItems(room.placements.map(p => ({ ...p, xCm: Number(p.xCm), yCm: Number(p.yCm) })));
+    setDimensions({
+      widthCm: String(Number(room.widthCm)),
+      depthCm: String(Number(room.depthCm)),
+      heightCm: room.heightCm ? String(Number(room.heightCm)) : ''
+    });
+  }
+
+  const placements = toPlacementInputs(items);
+  const { data: checkResp, isFetching: checking } = useRoomLayoutCheck(room ? {
+    widthCm: Number(room.widthCm),
+    depthCm: Number(room.depthCm),
+    heightCm: room.heightCm === null || room.heightCm === undefined ? null : Number(room.heightCm),
+    placements
+  } : null);
+  const warnings: LayoutWarning[] = checkResp?.data?.warnings || [];
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto p-6 flex items-center justify-center py-16">
+        <LoadingSpinner />
+        <span className="ml-2">Loading room...</span>
+      </div>
+    );
+  }
+
+  if (error || !room) {
+    return (
+      <div className="max-w-6xl mx-auto p-6 text-center py-16">
+        <h2 className="text-xl font-semibold text-gray-600 mb-2">Room not found</h2>
+        <p className="text-gray-500 mb-6">{error ? getErrorMessage(error) : "This room doesn't exist."}</p>
+        <Link href="/planner" className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Back to Room Planner
+        </Link>
+      </div>
+    );
+  }
+
+  const isDirty = JSON.stringify(placements) !== JSON.stringify(toPlacementInputs(
+    room.placements.map(p => ({ ...p, xCm: Number(p.xCm), yCm: Number(p.yCm) }))
+  ));
+  const flaggedIndexes = new Set(warnings.flatMap(w => w.placements));
+  const selected = selectedIndex !== null ? items[selectedIndex] : null;
+  const layoutTotal = items.reduce((sum, item) => sum + Number(itemVersion(item).price), 0);
+  const selectedVariant = selected && selectedVariants.length > 0 && selectedVariants[0].furnitureId === selected.furnitureId
+    ? selectedVariants.find(v => v.id === selected.variantId) ?? selectedVariants.find(v => v.isDefault)
+    : undefined;
+
+  const addFurniture = (furniture: Furniture, xCm = 0, yCm = 0) => {
+    setItems(prev => [...prev, {
+      furnitureId: furniture.id,
+      xCm,
+      yCm,
+      rotation: 0,
+      furniture: { ...furniture, images: furniture.images?.slice(0, 1) || [] }
+    }]);
+    setSelectedIndex(items.length);
+  };
+
+  const handleDropFurniture = (furnitureId: number, xCm: number, yCm: number) => {
+    const furniture = catalogue.find(f => f.id === furnitureId);
+    if (furniture) addFurniture(furniture, xCm, yCm);
+  };
+
+  const updateItem = (index: number, changes: Partial<PlannerItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  const removeItem = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+    setSelectedIndex(null);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveLayout.mutateAsync({ id: room.id, placements });
+    } catch (err: unknown) {
+      alert(`Could not save layout: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleResize = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await updateRoom.mutateAsync({
+        id: room.id,
+        widthCm: Number(dimensions.widthCm),
+        depthCm: Number(dimensions.depthCm),
+        heightCm: dimensions.heightCm ? Number(dimensions.heightCm) : null
+      });
+    } catch (err: unknown) {
+      alert(`Could not resize room: ${getErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link href="/planner" className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-6 h-6" />
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">{room.name}</h1>
+            <p className="text-gray-600 text-sm">
+              {items.length} {items.length === 1 ? 'item' : 'items'} · ₹{layoutTotal.toLocaleString()}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || saveLayout.isPending}
+          className="flex items-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {saveLayout.isPending ? 'Saving...' : isDirty ? 'Save layout' : 'Saved'}
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-[1fr_320px] gap-6">
+        <div className="space-y-4">
+          <form onSubmit={handleResize} className="flex flex-wrap items-end gap-3 text-sm">
+            {([
+              ['widthCm', 'Width (cm)'],
+              ['depthCm', 'Depth (cm)'],
+              ['heightCm', 'Ceiling (cm)']
+            ] as const).map(([field, label]) => (
+              <label key={field} className="flex flex-col text-gray-700">
+                {label}
+                <input
+                  type="number"
+                  min={1}
+                  value={dimensions[field]}
+                  onChange={(e) => setDimensions(prev => ({ ...prev, [field]: e.target.value }))}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                />
+              </label>
+            ))}
+            <button
+              type="submit"
+              disabled={updateRoom.isPending || !(Number(dimensions.widthCm) > 0 && Number(dimensions.depthCm) > 0)}
+              className="px-4 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Resize
+            </button>
+          </form>
+
+          <div className="overflow-auto">
+            <RoomCanvas
+              room={room}
+              items={items}
+              selectedIndex={selectedIndex}
+              flaggedIndexes={flaggedIndexes}
+              onSelect={setSelectedIndex}
+              onMove={(index, xCm, yCm) => updateItem(index, { xCm, yCm })}
+              onDropFurniture={handleDropFurniture}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Each square is 50 cm. Drag items from the catalogue onto the floor plan, then drag them into place.</p>
+
+          <div className={`rounded-lg border p-4 ${checking ? 'opacity-60' : ''}`}>
+            {warnings.length === 0 ? (
+              <p className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="w-5 h-5" /> Everything fits
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {warnings.map((warning, i) => (
+                  <li key={i} className="flex items-start gap-2 text-sm text-red-700">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {warning.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {selected && selectedIndex !== null && (
+            <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+              <h2 className="font-semibold">{selected.furniture.name}</h2>
+              <p className="text-sm text-gray-600">
+                {Math.round(footprintSize(selected).width)} × {Math.round(footprintSize(selected).depth)} cm footprint,
+                {' '}{Math.round(Number(itemVersion(selected).heightCm))} cm tall
+              </p>
+              {selectedVariant && (
+                <VariantSelector
+                  variants={selectedVariants}
+                  selected={selectedVariant}
+                  onSelect={(variant) => updateItem(selectedIndex, { variantId: variant.id, variant })}
+                />
+              )}
+              <p className="text-sm text-gray-600">At {selected.xCm} cm, {selected.yCm} cm · rotated {selected.rotation}°</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateItem(selectedIndex, { rotation: nextRotation(selected.rotation) })}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                >
+                  <RotateCw className="w-4 h-4" /> Rotate
+                </button>
+                <button
+                  onClick={() => removeItem(selectedIndex)}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-red-200 text-red-600 rounded-lg text-sm hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" /> Remove
+                </button>
+                <Link href={`/product/${selected.furnitureId}`} className="px-3 py-1.5 text-sm text-blue-600 hover:underline">
+                  View product
+                </Link>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+            <h2 className="font-semibold">Catalogue</h2>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-2 top-2.5 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search furniture"
+                className="w-full pl-8 pr-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div className="space-y-2 max-h-[480px] overflow-y-auto">
+              {catalogue.map(furniture => (
+                <div
+                  key={furniture.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', String(furniture.id))}
+                  className="flex items-center gap-2 p-2 border rounded-lg cursor-grab hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{furniture.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {Number(furniture.widthCm)} × {Number(furniture.depthCm)} × {Number(furniture.heightCm)} cm
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => addFurniture(furniture)}
+                    className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg"
+                    aria-label={`Add ${furniture.name}`}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { LayoutGrid, Plus, Trash2, AlertCircle } from "lucide-react";
+import { useMe, useRooms, useCreateRoom, useDeleteRoom } from "@/app/lib/queries";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import { LoadingSpinner } from "@/app/components/LoadingSpinner";
+import type { RoomSummary } from "@/app/lib/types";
+
+const emptyRoom = { name: '', widthCm: '', depthCm: '', heightCm: '' };
+
+export default function RoomPlannerPage() {
+  const router = useRouter();
+  const { data: userResp, isLoading: userLoading } = useMe();
+  const user = userResp?.data;
+  const { data: roomsResp, isLoading: roomsLoading } = useRooms(!!user);
+  const rooms: RoomSummary[] = roomsResp?.data || [];
+  const createRoom = useCreateRoom();
+  const deleteRoom = useDeleteRoom();
+
+  const [form, setForm] = useState(emptyRoom);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const resp = await createRoom.mutateAsync({
+        name: form.name.trim(),
+        widthCm: Number(form.widthCm),
+        depthCm: Number(form.depthCm),
+        heightCm: form.heightCm ? Number(form.heightCm) : null
+      });
+      setForm(emptyRoom);
+      router.push(`/planner/${resp.data.id}`);
+    } catch (err: unknown) {
+      alert(`Could not create room: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleDelete = async (room: RoomSummary) => {
+    if (!confirm(`Delete "${room.name}" and its layout?`)) return;
+    try {
+      await deleteRoom.mutateAsync(room.id);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  if (userLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 flex items-center justify-center py-16">
+        <LoadingSpinner />
+        <span className="ml-2">Loading...</span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="text-center py-16">
+          <AlertCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-600 mb-2">Authentication Required</h2>
+          <p className="text-gray-500 mb-6">Log in to plan your rooms and save the layouts.</p>
+          <Link
+            href="/auth/login"
+            className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Go to Login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isFormValid = form.name.trim() !== '' && Number(form.widthCm) > 0 && Number(form.depthCm) > 0;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-8">
+      <div className="flex items-center gap-3">
+        <LayoutGrid className="w-8 h-8 text-blue-600" />
+        <div>
+          <h1 className="text-3xl font-bold">Room Planner</h1>
+          <p className="text-gray-600">Measure your room, drop furniture in, and see what fits before you buy.</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h2 className="text-xl font-semibold">New room</h2>
+        <div className="grid sm:grid-cols-4 gap-4">
+          <div className="sm:col-span-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. Living room"
+            />
+          </div>
+          {([
+            ['widthCm', 'Width (cm) *'],
+            ['depthCm', 'Depth (cm) *'],
+            ['heightCm', 'Ceiling height (cm)']
+          ] as const).map(([field, label]) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              <input
+                type="number"
+                min={1}
+                value={form[field]}
+                onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={!isFormValid || createRoom.isPending}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              {createRoom.isPending ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="space-y-3">
+        <h2 className="text-xl font-semibold">Your rooms</h2>
+        {roomsLoading ? (
+          <LoadingSpinner />
+        ) : rooms.length === 0 ? (
+          <p className="text-gray-500">No rooms yet. Create one above to start planning.</p>
+        ) : (
+          rooms.map(room => (
+            <div key={room.id} className="flex items-center justify-between bg-white rounded-lg shadow-sm border p-4">
+              <Link href={`/planner/${room.id}`} className="flex-1 hover:text-blue-600">
+                <p className="font-medium">{room.name}</p>
+                <p className="text-sm text-gray-600">
+                  {Number(room.widthCm)} × {Number(room.depthCm)} cm
+                  {room.heightCm ? ` · ${Number(room.heightCm)} cm ceiling` : ''}
+                  {' · '}{room._count.placements} {room._count.placements === 1 ? 'item' : 'items'}
+                </p>
+              </Link>
+              <button
+                onClick={() => handleDelete(room)}
+                disabled={deleteRoom.isPending}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                aria-label={`Delete ${room.name}`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
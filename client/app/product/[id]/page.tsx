@@ -3,8 +3,13 @@
 import { useFurnitureById, useMe } from "@/app/lib/queries";
 import { ReviewSection } from "@/app/components/ReviewSection";
 import { SimilarRecommendations } from "@/app/components/SimilarRecommendations";
+import { FrequentlyBoughtTogether } from "@/app/components/FrequentlyBoughtTogether";
 import AddToCartButton from "@/app/components/AddToCartButton";
-import { useParams } from "next/navigation";
+import { WishlistHeart } from "@/app/components/WishlistHeart";
+import { VariantSelector } from "@/app/components/VariantSelector";
+import { CategoryBreadcrumbs } from "@/app/components/CategoryBreadcrumbs";
+import { SpecificationTable } from "@/app/components/SpecificationTable";
+import { useParams, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import {
   Dialog,
@@ -14,12 +19,17 @@ import {
 import { useState } from "react";
 import { Star, Package, Ruler, ShoppingCart } from "lucide-react";
 import Link from "next/link";
+import type { Variant } from "@/app/lib/types";
+import { wasPrice } from "@/app/lib/utils";
 
 export default function ProductDetail() {
   const { id } = useParams();
   const { data: response, isLoading, error } = useFurnitureById(id as string);
   const { data: userProfile } = useMe();
+  const searchParams = useSearchParams();
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
+  // Links from the cart or an order open the variant that was bought
+  const [selectedVariantId, setSelectedVariantId] = useState<number | null>(() => Number(searchParams.get('variant')) || null);
 
   if (isLoading) {
     return (
@@ -79,17 +89,38 @@ export default function ProductDetail() {
   }
 
   const furniture = response.data;
-  const images = furniture.images || [];
-  const currentImage = images[selectedImageIndex];
+  const variants: Variant[] = furniture.variants || [];
+  // Variants come default-first; products without any fall back to their own columns
+  const variant: Variant | undefined = variants.find(v => v.id === selectedVariantId) || variants[0];
+  const purchasable = variant || furniture;
+  const regularPrice = wasPrice(purchasable);
+
+  // Photos of the chosen variant, or the product's shared photos when it has none of its own
+  const variantImages = variant?.images || [];
+  const images = variantImages.length > 0
+    ? variantImages
+    : (furniture.images || []).filter((img: { variantId?: number | null }) => !img.variantId);
+  const currentImage = images[selectedImageIndex] || images[0];
 
   const dimensions = {
-    width: furniture.widthCm,
-    height: furniture.heightCm,
-    depth: furniture.depthCm,
+    width: Number(purchasable.widthCm),
+    height: Number(purchasable.heightCm),
+    depth: Number(purchasable.depthCm),
+  };
+  const buyHref = `/buy/${furniture.id}${variant ? `?variant=${variant.id}` : ''}`;
+
+  const handleSelectVariant = (next: Variant) => {
+    setSelectedVariantId(next.id);
+    setSelectedImageIndex(0);
   };
 
   return (
     <div className="container mx-auto px-4 py-8">
+      {furniture.categoryPath && (
+        <div className="mb-6">
+          <CategoryBreadcrumbs path={furniture.categoryPath} current={furniture.name} />
+        </div>
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Image Gallery Section */}
         <div className="space-y-4">
@@ -171,13 +202,14 @@ export default function ProductDetail() {
           {/* Title and Category */}
           <div>
             <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
-              <span>{furniture.category?.name}</span>
-              <span>•</span>
-              <span>SKU: {furniture.sku}</span>
+              <span>SKU: {purchasable.sku}</span>
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">
+                {furniture.name}
+              </h1>
+              <WishlistHeart furnitureId={furniture.id} className="border" />
             </div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">
-              {furniture.name}
-            </h1>
 
             {/* Rating */}
             {furniture.averageRating && (
@@ -206,13 +238,23 @@ export default function ProductDetail() {
           {/* Price */}
           <div className="border-t border-b py-4">
             <div className="text-3xl font-bold text-gray-900">
-              ₹{furniture.price.toLocaleString()}
+              ₹{Number(purchasable.price).toLocaleString()}
+              {regularPrice !== null && (
+                <span className="ml-3 text-lg font-normal text-gray-500">
+                  was <s>₹{regularPrice.toLocaleString()}</s>
+                </span>
+              )}
             </div>
             <p className="text-sm text-gray-500 mt-1">
               Price inclusive of all taxes
             </p>
           </div>
 
+          {/* Variants */}
+          {variant && (
+            <VariantSelector variants={variants} selected={variant} onSelect={handleSelectVariant} />
+          )}
+
           {/* Description */}
           {furniture.description && (
             <div>
@@ -251,41 +293,71 @@ export default function ProductDetail() {
             </div>
           </div>
 
-          {/* Action Buttons */}
-          <div className="space-y-4 pt-4">
-            <div className="flex gap-4">
-              <div className="flex-1">
-                <AddToCartButton furnitureId={furniture.id} />
-              </div>
-              {userProfile?.data ? (
-                <Link
-                  href={`/buy/${furniture.id}`}
-                  className="flex-1 content-center align-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-center font-medium"
-                >
-                  Buy Now
-                </Link>
-              ) : (
-                <Link
-                  href={`/auth/login?redirect=/buy/${furniture.id}`}
-                  className="flex-1 content-center align-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-center font-medium"
-                >
-                  Login to Buy
-                </Link>
-              )}
+          <SpecificationTable specifications={furniture.specifications ?? []} />
+
+          {/* Action Buttons; archived products stay viewable from past orders but can't be bought */}
+          {furniture.status === "ARCHIVED" ? (
+            <div className="pt-4">
+              <p className="px-4 py-3 bg-gray-100 text-gray-700 rounded-lg text-center font-medium">
+                This product is no longer available
+              </p>
             </div>
+          ) : (
+            <div className="space-y-4 pt-4">
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <AddToCartButton
+                    key={variant?.id}
+                    furnitureId={furniture.id}
+                    variantId={variant?.id}
+                    stockQuantity={purchasable.stockQuantity}
+                  />
+                </div>
+                {purchasable.stockQuantity <= 0 ? (
+                  <button
+                    disabled
+                    className="flex-1 px-6 py-3 bg-gray-300 text-gray-600 rounded-lg cursor-not-allowed text-center font-medium"
+                  >
+                    Out of Stock
+                  </button>
+                ) : userProfile?.data ? (
+                  <Link
+                    href={buyHref}
+                    className="flex-1 content-center align-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-center font-medium"
+                  >
+                    Buy Now
+                  </Link>
+                ) : (
+                  <Link
+                    href={`/auth/login?redirect=${encodeURIComponent(buyHref)}`}
+                    className="flex-1 content-center align-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-center font-medium"
+                  >
+                    Login to Buy
+                  </Link>
+                )}
+              </div>
 
-            <div className="text-sm text-gray-500 text-center">
-              <ShoppingCart size={16} className="inline mr-1" />
-              {userProfile?.data ? 'Free delivery available' : 'Login required for purchase • Free delivery available'}
+              <div className="text-sm text-gray-500 text-center">
+                <ShoppingCart size={16} className="inline mr-1" />
+                {userProfile?.data ? 'Free delivery available' : 'Login required for purchase • Free delivery available'}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
 
+      {furniture.status !== "ARCHIVED" && (
+        <FrequentlyBoughtTogether
+          key={furniture.id}
+          furniture={furniture}
+          variant={{ id: variant?.id, price: purchasable.price }}
+          isLoggedIn={!!userProfile?.data}
+        />
+      )}
+
       {/* Similar Recommendations */}
       <SimilarRecommendations
         furnitureId={furniture.id}
-        userId={userProfile?.data?.id}
         limit={4}
         enableTracking={true}
       />
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { useGetUserProfile, useUpdateProfile, useChangePassword } from "@/app/lib/queries";
 import { Button } from "@/app/components/ui/button";
 import { User, Edit, Lock, Save, X } from "lucide-react";
+import { AddressBook } from "@/app/components/AddressBook";
 
 export default function ProfilePage() {
   const router = useRouter();
@@ -201,6 +202,11 @@ export default function ProfilePage() {
           )}
         </div>
 
+        {/* Address Book */}
+        <div className="mb-8">
+          <AddressBook />
+        </div>
+
         {/* Password Change */}
         <div>
           <div className="flex justify-between items-center mb-4">
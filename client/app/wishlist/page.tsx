@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Heart, Plus, Pencil, Trash2, ShoppingCart, AlertCircle } from "lucide-react";
+import {
+  useMe,
+  useWishlists,
+  useCreateWishlist,
+  useRenameWishlist,
+  useDeleteWishlist,
+  useAddToWishlist,
+  useRemoveFromWishlist,
+  useMoveWishlistItemToCart
+} from "@/app/lib/queries";
+import { getErrorMessage } from "@/app/lib/errorUtils";
+import { LoadingSpinner } from "@/app/components/LoadingSpinner";
+import type { Wishlist, WishlistItem } from "@/app/lib/types";
+
+export default function WishlistPage() {
+  const { data: userResp, isLoading: userLoading } = useMe();
+  const user = userResp?.data;
+  const { data: wishlistsResp, isLoading } = useWishlists(!!user);
+  const wishlists: Wishlist[] = wishlistsResp?.data || [];
+
+  const createWishlist = useCreateWishlist();
+  const renameWishlist = useRenameWishlist();
+  const deleteWishlist = useDeleteWishlist();
+  const addToWishlist = useAddToWishlist();
+  const removeFromWishlist = useRemoveFromWishlist();
+  const moveToCart = useMoveWishlistItemToCart();
+
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [newListName, setNewListName] = useState('');
+
+  // Fall back to the first list when nothing is picked yet or the picked list was deleted
+  const active = wishlists.find(list => list.id === activeId) || wishlists[0];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const resp = await createWishlist.mutateAsync(newListName.trim());
+      setNewListName('');
+      setActiveId(resp.data.id);
+    } catch (err: unknown) {
+      alert(`Could not create list: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleRename = async (list: Wishlist) => {
+    const name = prompt('Rename list', list.name)?.trim();
+    if (!name || name === list.name) return;
+    try {
+      await renameWishlist.mutateAsync({ id: list.id, name });
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const handleDelete = async (list: Wishlist) => {
+    if (!confirm(`Delete "${list.name}" and the ${list.items.length} items saved in it?`)) return;
+    try {
+      await deleteWishlist.mutateAsync(list.id);
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const handleMoveToCart = async (item: WishlistItem) => {
+    try {
+      await moveToCart.mutateAsync({ wishlistId: item.wishlistId, furnitureId: item.furnitureId });
+    } catch (err: unknown) {
+      alert(`Could not move to cart: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const handleMoveToList = async (item: WishlistItem, targetId: number) => {
+    try {
+      await addToWishlist.mutateAsync({ wishlistId: targetId, furnitureId: item.furnitureId });
+      await removeFromWishlist.mutateAsync({ wishlistId: item.wishlistId, furnitureId: item.furnitureId });
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  const handleRemove = async (item: WishlistItem) => {
+    try {
+      await removeFromWishlist.mutateAsync({ wishlistId: item.wishlistId, furnitureId: item.furnitureId });
+    } catch (err: unknown) {
+      alert(getErrorMessage(err));
+    }
+  };
+
+  if (userLoading || (user && isLoading)) {
+    return (
+      <div className="max-w-6xl mx-auto p-6 flex items-center justify-center py-16">
+        <LoadingSpinner />
+        <span className="ml-2">Loading...</span>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="text-center py-16">
+          <AlertCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-600 mb-2">Authentication Required</h2>
+          <p className="text-gray-500 mb-6">Log in to see the items you saved.</p>
+          <Link
+            href="/auth/login"
+            className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Go to Login
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Heart className="w-8 h-8 text-red-500" />
+        <h1 className="text-3xl font-bold">Wishlist</h1>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {wishlists.map(list => (
+          <button
+            key={list.id}
+            onClick={() => setActiveId(list.id)}
+            className={`px-4 py-2 rounded-full border text-sm transition-colors ${
+              active?.id === list.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {list.name} ({list.items.length})
+          </button>
+        ))}
+        <form onSubmit={handleCreate} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder="New list name"
+            maxLength={60}
+            className="px-3 py-2 border border-gray-300 rounded-full text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!newListName.trim() || createWishlist.isPending}
+            className="p-2 rounded-full border hover:bg-gray-50 disabled:opacity-50"
+            aria-label="Create list"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      {!active ? (
+        <div className="text-center py-16">
+          <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-600 mb-2">Nothing saved yet</h2>
+          <p className="text-gray-500 mb-6">Tap the heart on any product to save it here.</p>
+          <Link href="/" className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Browse Furniture
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">{active.name}</h2>
+            <div className="flex gap-2">
+              <button onClick={() => handleRename(active)} className="flex items-center gap-1 px-3 py-1.5 border rounded-lg text-sm hover:bg-gray-50">
+                <Pencil className="w-4 h-4" /> Rename
+              </button>
+              <button onClick={() => handleDelete(active)} className="flex items-center gap-1 px-3 py-1.5 border border-red-200 text-red-600 rounded-lg text-sm hover:bg-red-50">
+                <Trash2 className="w-4 h-4" /> Delete list
+              </button>
+            </div>
+          </div>
+
+          {active.items.length === 0 ? (
+            <p className="text-gray-500">This list is empty.</p>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {active.items.map(item => {
+                const outOfStock = item.furniture.stockQuantity <= 0;
+                const otherLists = wishlists.filter(list => list.id !== active.id);
+
+                return (
+                  <div key={item.id} className="bg-white rounded-lg shadow-sm border overflow-hidden flex flex-col">
+                    <Link href={`/product/${item.furnitureId}`}>
+                      <Image
+                        src={item.furniture.images?.[0]?.url || '/placeholder.jpg'}
+                        alt={item.furniture.name}
+                        width={400}
+                        height={240}
+                        className="w-full h-48 object-cover"
+                      />
+                    </Link>
+                    <div className="p-4 flex-1 flex flex-col gap-2">
+                      <Link href={`/product/${item.furnitureId}`} className="font-semibold hover:text-blue-600">
+                        {item.furniture.name}
+                      </Link>
+                      <p className="text-blue-600 font-bold">₹{Number(item.furniture.price).toLocaleString()}</p>
+                      {outOfStock && <p className="text-sm text-red-600">Out of stock</p>}
+                      <div className="mt-auto flex flex-wrap gap-2">
+                        <button
+                          onClick={() => handleMoveToCart(item)}
+                          disabled={outOfStock || moveToCart.isPending}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <ShoppingCart className="w-4 h-4" /> Move to cart
+                        </button>
+                        <button
+                          onClick={() => handleRemove(item)}
+                          className="px-3 py-1.5 border rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          Remove
+                        </button>
+                        {otherLists.length > 0 && (
+                          <select
+                            value=""
+                            onChange={(e) => handleMoveToList(item, Number(e.target.value))}
+                            className="px-2 py-1.5 border rounded-lg text-sm text-gray-700"
+                          >
+                            <option value="" disabled>Move to list…</option>
+                            {otherLists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -48,6 +48,13 @@ const nextConfig: NextConfig = {
         protocol: 'https',
         hostname: 'example.com',
         pathname: '/**',
+      },
+      {
+        // Photos uploaded to a local API server
+        protocol: 'http',
+        hostname: 'localhost',
+        port: '4000',
+        pathname: '/uploads/**',
       }
     ],
   },